@@ -0,0 +1,25 @@
+/**
+ * 复制 tree-sitter 语法文件到构建输出目录
+ * 扩展打包时不包含 node_modules，SyntaxParser 从 dist/grammars 加载语法和运行时
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+/** SyntaxParser 支持的语法 */
+const LANGUAGES = ['typescript', 'tsx', 'javascript', 'python', 'java', 'go', 'c', 'cpp'];
+
+const outputDir = path.join(__dirname, '..', 'dist', 'grammars');
+const grammarDir = path.join(path.dirname(require.resolve('tree-sitter-wasms/package.json')), 'out');
+const runtimeDir = path.dirname(require.resolve('web-tree-sitter'));
+
+const files = [
+  ...LANGUAGES.map(language => path.join(grammarDir, `tree-sitter-${language}.wasm`)),
+  path.join(runtimeDir, 'tree-sitter.wasm')
+];
+
+fs.mkdirSync(outputDir, { recursive: true });
+for (const file of files) {
+  fs.copyFileSync(file, path.join(outputDir, path.basename(file)));
+}
+console.log(`Copied ${files.length} grammar files to ${path.relative(process.cwd(), outputDir)}`);
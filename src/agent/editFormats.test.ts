@@ -0,0 +1,159 @@
+/**
+ * 编辑格式单元测试
+ * 验证 SEARCH/REPLACE 块和统一差异格式的解析与应用
+ */
+
+import {
+  EditFormatError,
+  applyEditResponse,
+  applySearchReplaceBlocks,
+  parseSearchReplaceBlocks
+} from './editFormats';
+
+const ORIGINAL = [
+  'function add(a, b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b;',
+  '}',
+  ''
+].join('\n');
+
+/**
+ * 生成 SEARCH/REPLACE 块文本
+ */
+function block(search: string, replace: string): string {
+  return ['<<<<<<< SEARCH', search, '=======', replace, '>>>>>>> REPLACE'].join('\n');
+}
+
+describe('editFormats', () => {
+  describe('parseSearchReplaceBlocks', () => {
+    it('parses every complete block in the response', () => {
+      const response = [
+        '修改如下：',
+        block('  return a + b;', '  return a + b + 0;'),
+        '',
+        block('  return a - b;', '  return a - b - 0;')
+      ].join('\n');
+
+      expect(parseSearchReplaceBlocks(response)).toEqual([
+        { search: '  return a + b;', replace: '  return a + b + 0;' },
+        { search: '  return a - b;', replace: '  return a - b - 0;' }
+      ]);
+    });
+
+    it('normalizes CRLF responses and ignores incomplete blocks', () => {
+      const response = [
+        block('old', 'new'),
+        '<<<<<<< SEARCH',
+        'unfinished',
+        '======='
+      ].join('\r\n');
+
+      expect(parseSearchReplaceBlocks(response)).toEqual([{ search: 'old', replace: 'new' }]);
+    });
+  });
+
+  describe('applySearchReplaceBlocks', () => {
+    it('replaces exact matches in order', () => {
+      const result = applySearchReplaceBlocks(ORIGINAL, [
+        { search: 'function add(a, b) {', replace: 'function add(a: number, b: number) {' },
+        { search: '  return a - b;', replace: '  return b - a;' }
+      ]);
+
+      expect(result).toContain('function add(a: number, b: number) {');
+      expect(result).toContain('  return b - a;');
+      expect(result).toContain('  return a + b;');
+    });
+
+    it('throws when the SEARCH part matches more than once', () => {
+      expect(() => applySearchReplaceBlocks(ORIGINAL, [{ search: '}', replace: '};' }]))
+        .toThrow(EditFormatError);
+    });
+
+    it('throws when the SEARCH part does not match', () => {
+      expect(() => applySearchReplaceBlocks(ORIGINAL, [{ search: '  return a * b;', replace: '' }]))
+        .toThrow(EditFormatError);
+    });
+
+    it('falls back to matching lines while ignoring trailing whitespace', () => {
+      const original = 'const a = 1;   \nconst b = 2;\t\nconst c = 3;\n';
+      const result = applySearchReplaceBlocks(original, [
+        { search: 'const a = 1;\nconst b = 2;', replace: 'const a = 10;\nconst b = 20;' }
+      ]);
+
+      expect(result).toBe('const a = 10;\nconst b = 20;\nconst c = 3;\n');
+    });
+
+    it('keeps CRLF line endings of the original code', () => {
+      const original = 'const a = 1;  \r\nconst b = 2;\r\nconst c = 3;\r\n';
+
+      const fallback = applySearchReplaceBlocks(original, [
+        { search: 'const a = 1;\nconst b = 2;', replace: 'const a = 10;\nconst b = 20;' }
+      ]);
+      expect(fallback).toBe('const a = 10;\r\nconst b = 20;\r\nconst c = 3;\r\n');
+
+      const exact = applySearchReplaceBlocks(original, [
+        { search: 'const b = 2;\nconst c = 3;', replace: 'const b = 2;\nconst c = 3;\nconst d = 4;' }
+      ]);
+      expect(exact).toBe('const a = 1;  \r\nconst b = 2;\r\nconst c = 3;\r\nconst d = 4;\r\n');
+    });
+
+    it('uses the REPLACE part as the content of an empty file when SEARCH is empty', () => {
+      expect(applySearchReplaceBlocks('', [{ search: '', replace: 'export {};' }])).toBe('export {};');
+      expect(() => applySearchReplaceBlocks(ORIGINAL, [{ search: '', replace: 'export {};' }]))
+        .toThrow(EditFormatError);
+    });
+  });
+
+  describe('applyEditResponse', () => {
+    it('applies SEARCH/REPLACE blocks and returns null when the response has none', () => {
+      const response = block('  return a + b;', '  return a + b + 0;');
+
+      expect(applyEditResponse(ORIGINAL, response, 'search-replace')).toContain('  return a + b + 0;');
+      expect(applyEditResponse(ORIGINAL, '没有需要修改的地方', 'search-replace')).toBeNull();
+    });
+
+    it('applies a unified diff from a diff code block', () => {
+      const response = [
+        '```diff',
+        '@@ -4,4 +4,4 @@',
+        ' ',
+        ' function sub(a, b) {',
+        '-  return a - b;',
+        '+  return b - a;',
+        ' }',
+        '```'
+      ].join('\n');
+
+      expect(applyEditResponse(ORIGINAL, response, 'udiff'))
+        .toBe(ORIGINAL.replace('  return a - b;', '  return b - a;'));
+    });
+
+    it('returns null when the response has no diff', () => {
+      expect(applyEditResponse(ORIGINAL, '```ts\nconst a = 1;\n```', 'udiff')).toBeNull();
+    });
+
+    it('reports hunks that do not apply as EditFormatError', () => {
+      const response = [
+        '```diff',
+        '@@ -1,2 +1,2 @@',
+        ' function mul(a, b) {',
+        '-  return a * b;',
+        '+  return b * a;',
+        '```'
+      ].join('\n');
+
+      let caught: unknown;
+      try {
+        applyEditResponse(ORIGINAL, response, 'udiff');
+      } catch (error) {
+        caught = error;
+      }
+      expect(caught).toBeInstanceOf(EditFormatError);
+      expect((caught as EditFormatError).format).toBe('udiff');
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Agent编辑格式
+ * 定义模型返回代码修改的格式（完整代码、统一差异、SEARCH/REPLACE 块），负责生成格式说明、解析并校验修改能否应用
+ */
+
+import { EditFormat } from './types';
+import { applyPatch, parsePatch, PatchApplyError } from '../utils/diff';
+
+/**
+ * SEARCH/REPLACE 块
+ */
+export interface SearchReplaceBlock {
+  /** 要查找的原始文本 */
+  search: string;
+  /** 替换后的文本 */
+  replace: string;
+}
+
+/**
+ * 编辑格式错误
+ * 模型返回的修改无法干净地应用到当前代码时抛出
+ */
+export class EditFormatError extends Error {
+  constructor(
+    message: string,
+    public readonly format: EditFormat
+  ) {
+    super(message);
+    this.name = 'EditFormatError';
+
+    // 保持正确的原型链
+    Object.setPrototypeOf(this, EditFormatError.prototype);
+  }
+}
+
+/** SEARCH/REPLACE 块的分隔行 */
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+
+/** diff 代码块的匹配规则 */
+const DIFF_BLOCK_REGEX = /```(?:diff|patch|udiff)\s*\n([\s\S]*?)\n```/g;
+
+/**
+ * 获取编辑格式的说明，附加在任务提示词末尾
+ * @param format 编辑格式
+ * @returns 格式说明
+ */
+export function getEditFormatInstructions(format: EditFormat): string {
+  switch (format) {
+    case 'search-replace':
+      return `输出格式：
+只输出需要修改的部分，每处修改使用一个 SEARCH/REPLACE 块：
+<<<<<<< SEARCH
+（与原代码完全一致的若干行，包含足够的上下文使其唯一）
+=======
+（替换后的代码）
+>>>>>>> REPLACE
+
+注意：
+1. SEARCH 部分必须逐字符与原代码一致，包括缩进和注释
+2. 多处修改使用多个块，按代码中出现的顺序排列
+3. 不要输出未修改的代码`;
+    case 'udiff':
+      return `输出格式：
+只输出修改，使用统一差异格式（unified diff），放在一个 \`\`\`diff 代码块中：
+\`\`\`diff
+@@ -起始行,行数 +起始行,行数 @@
+ 上下文行
+-删除的行
++新增的行
+\`\`\`
+
+注意：
+1. 上下文行和删除的行必须与原代码完全一致，包括缩进
+2. 每处修改前后保留2-3行上下文
+3. 不要输出未修改的代码`;
+    default:
+      return '输出格式：\n在一个代码块中给出修改后的完整代码，不要包含额外的解释。';
+  }
+}
+
+/**
+ * 将模型回复中的修改应用到原代码
+ * @param original 原代码
+ * @param response 模型回复
+ * @param format 编辑格式（不支持 whole）
+ * @returns 修改后的代码；回复中没有该格式的修改时返回 null
+ * @throws EditFormatError 如果修改无法干净地应用
+ */
+export function applyEditResponse(
+  original: string,
+  response: string,
+  format: Exclude<EditFormat, 'whole'>
+): string | null {
+  if (format === 'search-replace') {
+    const blocks = parseSearchReplaceBlocks(response);
+    return blocks.length > 0 ? applySearchReplaceBlocks(original, blocks) : null;
+  }
+
+  const diff = extractUnifiedDiff(response);
+  if (!diff) {
+    return null;
+  }
+  const hunks = parsePatch(diff).flatMap(patch => patch.hunks);
+  if (hunks.length === 0) {
+    return null;
+  }
+
+  try {
+    return applyPatch(original, hunks);
+  } catch (error) {
+    if (error instanceof PatchApplyError) {
+      throw new EditFormatError(error.message, 'udiff');
+    }
+    throw error;
+  }
+}
+
+/**
+ * 解析 SEARCH/REPLACE 块
+ * @param content 模型回复
+ * @returns 块列表（不完整的块会被忽略）
+ */
+export function parseSearchReplaceBlocks(content: string): SearchReplaceBlock[] {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const blocks: SearchReplaceBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!SEARCH_MARKER.test(lines[i])) {
+      continue;
+    }
+
+    const divider = lines.findIndex((line, index) => index > i && DIVIDER_MARKER.test(line));
+    if (divider === -1) {
+      break;
+    }
+    const end = lines.findIndex((line, index) => index > divider && REPLACE_MARKER.test(line));
+    if (end === -1) {
+      break;
+    }
+
+    blocks.push({
+      search: lines.slice(i + 1, divider).join('\n'),
+      replace: lines.slice(divider + 1, end).join('\n')
+    });
+    i = end;
+  }
+
+  return blocks;
+}
+
+/**
+ * 依次应用 SEARCH/REPLACE 块
+ *
+ * 优先精确匹配；找不到时忽略行尾空白再按行匹配。每个 SEARCH 必须在当前代码中唯一出现。
+ * 块中的换行转换为代码使用的换行符（CRLF 或 LF），避免修改后出现混合换行
+ *
+ * @param original 原代码
+ * @param blocks 块列表
+ * @returns 修改后的代码
+ * @throws EditFormatError 如果某个块找不到或不唯一
+ */
+export function applySearchReplaceBlocks(original: string, blocks: SearchReplaceBlock[]): string {
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  let result = original;
+
+  blocks.forEach((rawBlock, index) => {
+    const label = `第 ${index + 1} 个 SEARCH/REPLACE 块`;
+    const block: SearchReplaceBlock = {
+      search: rawBlock.search.replace(/\r?\n/g, eol),
+      replace: rawBlock.replace.replace(/\r?\n/g, eol)
+    };
+
+    if (block.search.trim() === '') {
+      if (result.trim() !== '') {
+        throw new EditFormatError(`${label}的 SEARCH 部分为空`, 'search-replace');
+      }
+      result = block.replace;
+      return;
+    }
+
+    const first = result.indexOf(block.search);
+    if (first !== -1) {
+      if (result.indexOf(block.search, first + 1) !== -1) {
+        throw new EditFormatError(`${label}的 SEARCH 部分在代码中出现多次`, 'search-replace');
+      }
+      result = result.slice(0, first) + block.replace + result.slice(first + block.search.length);
+      return;
+    }
+
+    const replaced = replaceIgnoringTrailingWhitespace(result, block, eol);
+    if (replaced === null) {
+      throw new EditFormatError(`${label}的 SEARCH 部分与代码不匹配`, 'search-replace');
+    }
+    result = replaced;
+  });
+
+  return result;
+}
+
+/**
+ * 从模型回复中提取统一差异文本
+ * 优先使用 diff 代码块，否则在回复中查找差异块头部
+ */
+function extractUnifiedDiff(response: string): string | null {
+  const blocks = Array.from(response.matchAll(DIFF_BLOCK_REGEX), match => match[1]);
+  if (blocks.length > 0) {
+    return blocks.join('\n');
+  }
+
+  const start = response.search(/^(?:--- |@@)/m);
+  return start === -1 ? null : response.substring(start);
+}
+
+/**
+ * 忽略行尾空白按行匹配并替换
+ * @param eol 代码使用的换行符，块中的换行已转换为该换行符
+ * @returns 替换后的代码，没有唯一匹配时返回 null
+ */
+function replaceIgnoringTrailingWhitespace(content: string, block: SearchReplaceBlock, eol: string): string | null {
+  const lines = content.split(eol);
+  const searchLines = block.search.split(eol).map(line => line.trimEnd());
+  let matchIndex = -1;
+
+  for (let i = 0; i + searchLines.length <= lines.length; i++) {
+    if (searchLines.every((line, j) => lines[i + j].trimEnd() === line)) {
+      if (matchIndex !== -1) {
+        return null;
+      }
+      matchIndex = i;
+    }
+  }
+
+  if (matchIndex === -1) {
+    return null;
+  }
+
+  return [
+    ...lines.slice(0, matchIndex),
+    ...block.replace.split(eol),
+    ...lines.slice(matchIndex + searchLines.length)
+  ].join(eol);
+}
@@ -4,8 +4,12 @@
  */
 
 import { CodeContext, ChatRequest, IAPIClient } from '../api/types';
-import { AgentTask, AgentResult, CodeChange } from './types';
+import { AgentTask, AgentResult, CodeChange, CodeChangeType } from './types';
 import { buildTaskPrompt } from './tasks';
+import { applyEditResponse, getEditFormatInstructions, EditFormatError } from './editFormats';
+import { applyChangesAtomically, invertChanges, ApplyChangesOptions } from './workspaceEdit';
+import { openChangeDiff } from './review';
+import { createUnifiedDiff } from '../utils/diff';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -28,6 +32,12 @@ export class AgentExecutor {
       const language = context.currentFile.language;
       const prompt = buildTaskPrompt(task, code, language);
 
+      // 使用为 Agent 配置的模型
+      const model = this.apiClient.getModelForFeature('agent');
+      if (!model) {
+        throw new Error('未选择模型');
+      }
+
       // 调用API生成代码
       const request: ChatRequest = {
         messages: [
@@ -41,14 +51,15 @@ export class AgentExecutor {
             context
           }
         ],
-        model: 'current', // 使用当前选中的模型
-        stream: false
+        model,
+        stream: false,
+        feature: 'agent'
       };
 
       const response = await this.apiClient.sendChatRequest(request);
 
-      // 提取生成的代码
-      const generatedCode = this.extractCode(response.content);
+      // 按任务的编辑格式提取生成的代码
+      const generatedCode = await this.resolveGeneratedCode(task, code, request, response.content);
 
       if (!generatedCode) {
         return {
@@ -59,11 +70,14 @@ export class AgentExecutor {
         };
       }
 
-      // 生成代码更改
+      // 生成代码更改，更改内容始终为整个文件，以便冲突检测和原子应用
+      const originalContent = context.currentFile.content;
       const change = this.createCodeChange(
         context.currentFile.path,
-        code,
-        generatedCode
+        originalContent,
+        context.selection
+          ? this.replaceSelection(originalContent, context.selection, generatedCode)
+          : generatedCode
       );
 
       return {
@@ -83,48 +97,111 @@ export class AgentExecutor {
 
   /**
    * 预览更改
+   * 在差异编辑器中逐个打开更改的文件
    * @param result Agent执行结果
    */
   async previewChanges(result: AgentResult): Promise<void> {
-    // 在实际VSCode环境中，这里会使用vscode.commands.executeCommand
-    // 显示diff编辑器。这里提供一个简化的实现
-    
     for (const change of result.changes) {
-      console.log(`\n=== Preview changes for ${change.file} ===`);
-      console.log(change.diff);
+      await openChangeDiff(change);
     }
   }
 
   /**
    * 应用更改
+   * 所有更改作为一个工作区编辑原子地应用：要么全部成功，要么全部不生效
    * @param result Agent执行结果
+   * @param options 应用选项
+   * @throws ChangeConflictError 如果文件在任务开始后被修改
    */
-  async applyChanges(result: AgentResult): Promise<void> {
-    try {
-      for (const change of result.changes) {
-        // 写入新内容到文件
-        await this.writeFile(change.file, change.newContent);
-      }
-    } catch (error) {
-      // 如果应用失败，尝试回滚
-      await this.undoChanges(result);
-      throw new Error(`应用更改失败: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  async applyChanges(result: AgentResult, options?: ApplyChangesOptions): Promise<void> {
+    await applyChangesAtomically(result.changes, options);
   }
 
   /**
    * 撤销更改
+   * 以反向更改的方式恢复，如果文件在应用后又被修改，会抛出冲突错误而不是覆盖用户的编辑
    * @param result Agent执行结果
+   * @param options 应用选项
+   * @throws ChangeConflictError 如果文件在应用后被修改
+   */
+  async undoChanges(result: AgentResult, options?: ApplyChangesOptions): Promise<void> {
+    await applyChangesAtomically(invertChanges(result.changes), options);
+  }
+
+  /**
+   * 用生成的代码替换文件中的选中部分
+   * 优先在选区起始行处匹配选中文本，找不到时退回到第一次出现的位置
+   * @param content 文件内容
+   * @param selection 选区
+   * @param replacement 替换的代码
+   * @returns 替换后的文件内容
    */
-  async undoChanges(result: AgentResult): Promise<void> {
+  private replaceSelection(
+    content: string,
+    selection: NonNullable<CodeContext['selection']>,
+    replacement: string
+  ): string {
+    const lines = content.split('\n');
+    const lineOffset = lines
+      .slice(0, selection.startLine)
+      .reduce((offset, line) => offset + line.length + 1, 0);
+
+    let index = content.indexOf(selection.text, lineOffset);
+    if (index === -1) {
+      index = content.indexOf(selection.text);
+    }
+    if (index === -1) {
+      throw new Error('选中的代码已不在文件中，请重新选择后再执行任务');
+    }
+
+    return content.slice(0, index) + replacement + content.slice(index + selection.text.length);
+  }
+
+  /**
+   * 按任务的编辑格式从响应中得到修改后的代码
+   * 差异或 SEARCH/REPLACE 块无法干净地应用时，要求模型改为返回完整代码；回复中没有修改块时按完整代码处理
+   * @param task Agent任务
+   * @param code 发送给模型的原代码
+   * @param request 原始请求
+   * @param content 响应内容
+   * @returns 修改后的代码，如果无法提取则返回null
+   */
+  private async resolveGeneratedCode(
+    task: AgentTask,
+    code: string,
+    request: ChatRequest,
+    content: string
+  ): Promise<string | null> {
+    const format = task.editFormat ?? 'whole';
+    if (format === 'whole') {
+      return this.extractCode(content);
+    }
+
     try {
-      for (const change of result.changes) {
-        // 恢复原始内容
-        await this.writeFile(change.file, change.originalContent);
+      const edited = applyEditResponse(code, content, format);
+      if (edited !== null) {
+        return edited;
       }
     } catch (error) {
-      throw new Error(`撤销更改失败: ${error instanceof Error ? error.message : String(error)}`);
+      if (!(error instanceof EditFormatError)) {
+        throw error;
+      }
+
+      const retry = await this.apiClient.sendChatRequest({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content },
+          {
+            role: 'user',
+            content: `上面的修改无法应用到原代码：${error.message}\n\n${getEditFormatInstructions('whole')}`
+          }
+        ]
+      });
+      return this.extractCode(retry.content);
     }
+
+    return this.extractCode(content);
   }
 
   /**
@@ -165,67 +242,38 @@ export class AgentExecutor {
    * @param filePath 文件路径
    * @param originalContent 原始内容
    * @param newContent 新内容
+   * @param type 更改类型
+   * @param newFile 重命名后的文件路径（仅 rename）
    * @returns 代码更改对象
    */
-  private createCodeChange(
+  createCodeChange(
     filePath: string,
     originalContent: string,
-    newContent: string
+    newContent: string,
+    type: CodeChangeType = 'modify',
+    newFile?: string
   ): CodeChange {
-    const diff = this.generateDiff(originalContent, newContent);
+    const diff = createUnifiedDiff(originalContent, newContent, {
+      oldFile: type === 'create' ? '/dev/null' : filePath,
+      newFile: type === 'delete' ? '/dev/null' : (newFile ?? filePath)
+    });
     
     return {
       file: filePath,
       originalContent,
       newContent,
-      diff
+      diff,
+      type,
+      newFile
     };
   }
 
-  /**
-   * 生成差异文本
-   * @param original 原始内容
-   * @param modified 修改后的内容
-   * @returns 差异文本
-   */
-  private generateDiff(original: string, modified: string): string {
-    // 简化的diff生成
-    // 在实际实现中，可以使用diff库如'diff'或'fast-diff'
-    
-    const originalLines = original.split('\n');
-    const modifiedLines = modified.split('\n');
-    
-    const diffLines: string[] = [];
-    diffLines.push('--- Original');
-    diffLines.push('+++ Modified');
-    
-    const maxLines = Math.max(originalLines.length, modifiedLines.length);
-    
-    for (let i = 0; i < maxLines; i++) {
-      const origLine = originalLines[i];
-      const modLine = modifiedLines[i];
-      
-      if (origLine === modLine) {
-        diffLines.push(`  ${origLine || ''}`);
-      } else {
-        if (origLine !== undefined) {
-          diffLines.push(`- ${origLine}`);
-        }
-        if (modLine !== undefined) {
-          diffLines.push(`+ ${modLine}`);
-        }
-      }
-    }
-    
-    return diffLines.join('\n');
-  }
-
   /**
    * 写入文件
    * @param filePath 文件路径
    * @param content 文件内容
    */
-  private async writeFile(filePath: string, content: string): Promise<void> {
+  async writeFile(filePath: string, content: string): Promise<void> {
     return new Promise((resolve, reject) => {
       // 确保目录存在
       const dir = path.dirname(filePath);
@@ -248,7 +296,7 @@ export class AgentExecutor {
    * @param filePath 文件路径
    * @returns 文件内容
    */
-  private async readFile(filePath: string): Promise<string> {
+  async readFile(filePath: string): Promise<string> {
     return new Promise((resolve, reject) => {
       fs.readFile(filePath, 'utf8', (err, data) => {
         if (err) {
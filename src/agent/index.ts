@@ -5,6 +5,24 @@
 
 export { AgentSystem, IAgentSystem } from './system';
 export { AgentExecutor } from './executor';
+export { AgentLoop } from './loop';
+export { AgentTool, AgentToolContext, getBuiltInTools, resolveWorkspacePath } from './tools';
+export {
+  ChangeConflictError,
+  ApplyChangesOptions,
+  applyChangesAtomically,
+  detectConflicts,
+  invertChanges
+} from './workspaceEdit';
+export { reviewChanges, openChangeDiff, describeChange } from './review';
+export {
+  SearchReplaceBlock,
+  EditFormatError,
+  getEditFormatInstructions,
+  applyEditResponse,
+  parseSearchReplaceBlocks,
+  applySearchReplaceBlocks
+} from './editFormats';
 export {
   getBuiltInTasks,
   loadCustomTasks,
@@ -16,7 +34,14 @@ export {
 export {
   AgentTask,
   AgentTaskType,
+  EditFormat,
   AgentResult,
   CodeChange,
-  AgentHistoryEntry
+  CodeChangeType,
+  AgentHistoryEntry,
+  AgentToolDefinition,
+  AgentToolCall,
+  AgentToolResult,
+  AgentStep,
+  AgentLoopOptions
 } from './types';
@@ -0,0 +1,465 @@
+/**
+ * Agent循环
+ * 实现多步工具调用：模型请求工具 → 执行工具 → 将结果反馈给模型，直到给出最终答复或达到步骤上限
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CodeContext, ChatMessage, IAPIClient, ToolCall, ToolDefinition } from '../api/types';
+import {
+  AgentTask,
+  AgentResult,
+  AgentStep,
+  AgentToolCall,
+  AgentToolResult,
+  AgentLoopOptions,
+  CodeChange
+} from './types';
+import { AgentExecutor } from './executor';
+import { AgentTool, AgentToolContext, getBuiltInTools } from './tools';
+import { buildTaskPrompt } from './tasks';
+import { readCurrentContent } from './workspaceEdit';
+
+/** 默认最大步骤数 */
+const DEFAULT_MAX_STEPS = 10;
+
+/** 单次工具输出回传给模型的最大字符数 */
+const MAX_TOOL_OUTPUT_LENGTH = 8000;
+
+/** 工具调用代码块的匹配规则 */
+const TOOL_CALL_REGEX = /```tool_call\s*\n([\s\S]*?)\n```/;
+
+/**
+ * Agent循环
+ */
+export class AgentLoop {
+  private tools: Map<string, AgentTool>;
+
+  constructor(
+    private apiClient: IAPIClient,
+    private executor: AgentExecutor,
+    tools: AgentTool[] = getBuiltInTools()
+  ) {
+    this.tools = new Map(tools.map(tool => [tool.name, tool]));
+  }
+
+  /**
+   * 运行Agent循环
+   * 文件操作只暂存在内存中，不会写入磁盘；所有更改记录在返回结果的 changes 中，由调用方审阅后统一应用
+   * @param task 要执行的任务
+   * @param context 代码上下文
+   * @param options 循环选项
+   * @returns 执行结果
+   */
+  async run(task: AgentTask, context: CodeContext, options: AgentLoopOptions = {}): Promise<AgentResult> {
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+    const model = options.model || this.apiClient.getModelForFeature('agent');
+    const tools = this.getEnabledTools(options.tools);
+    const nativeTools = options.nativeTools ?? true;
+    const workspaceRoot = this.getWorkspaceRoot(context);
+
+    // 同一次运行的各步请求共享用户的一次性允许
+    const authorizationScope = `agent-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const staged = new StagedChanges(this.executor);
+    const steps: AgentStep[] = [];
+    const toolContext = staged.createToolContext(workspaceRoot);
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt(tools, workspaceRoot, nativeTools) },
+      { role: 'user', content: this.buildUserPrompt(task, context, workspaceRoot) }
+    ];
+
+    try {
+      if (!model) {
+        throw new Error('未选择模型');
+      }
+
+      for (let index = 1; index <= maxSteps; index++) {
+        const response = await this.apiClient.sendChatRequest({
+          messages,
+          model,
+          stream: false,
+          temperature: 0.2,
+          tools: nativeTools ? this.toToolDefinitions(tools) : undefined,
+          feature: 'agent',
+          authorizationScope
+        });
+
+        if (response.finishReason === 'error') {
+          throw new Error(response.content);
+        }
+
+        // 原生工具调用：一次回复可以包含多个调用，每个调用的结果以 tool 消息回传
+        if (response.toolCalls && response.toolCalls.length > 0) {
+          messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+          for (const nativeCall of response.toolCalls) {
+            const toolCall = this.fromNativeToolCall(nativeCall);
+            const step: AgentStep = { index, content: response.content, toolCall };
+            step.toolResult = await this.executeTool(toolCall, tools, toolContext);
+            steps.push(step);
+            options.onStep?.(step);
+            messages.push({
+              role: 'tool',
+              content: this.formatToolResult(toolCall, step.toolResult),
+              toolCallId: nativeCall.id
+            });
+          }
+          continue;
+        }
+
+        const step: AgentStep = { index, content: response.content };
+        steps.push(step);
+        messages.push({ role: 'assistant', content: response.content });
+
+        const toolCall = this.parseToolCall(response.content);
+        if (!toolCall) {
+          // 没有工具调用，视为最终答复
+          options.onStep?.(step);
+          return {
+            success: true,
+            changes: staged.getChanges(),
+            message: response.content.trim() || `${task.name}执行成功`,
+            steps
+          };
+        }
+
+        step.toolCall = toolCall;
+        step.toolResult = await this.executeTool(toolCall, tools, toolContext);
+        options.onStep?.(step);
+
+        messages.push({
+          role: 'user',
+          content: this.formatToolResult(toolCall, step.toolResult)
+        });
+      }
+
+      return {
+        success: false,
+        changes: staged.getChanges(),
+        message: `已达到最大步骤数（${maxSteps}），任务未完成`,
+        error: '超出步骤上限',
+        steps
+      };
+    } catch (error) {
+      return {
+        success: false,
+        changes: staged.getChanges(),
+        message: '任务执行失败',
+        error: error instanceof Error ? error.message : String(error),
+        steps
+      };
+    }
+  }
+
+  /**
+   * 获取启用的工具
+   * @param names 允许的工具名称（未提供时返回全部）
+   */
+  private getEnabledTools(names?: string[]): AgentTool[] {
+    const all = Array.from(this.tools.values());
+    return names ? all.filter(tool => names.includes(tool.name)) : all;
+  }
+
+  /**
+   * 获取工作区根目录
+   * 优先使用包含当前文件的工作区文件夹，否则使用当前文件所在目录
+   */
+  private getWorkspaceRoot(context: CodeContext): string {
+    const filePath = context.currentFile?.path;
+    if (filePath) {
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+      if (folder) {
+        return folder.uri.fsPath;
+      }
+    }
+    const firstFolder = vscode.workspace.workspaceFolders?.[0];
+    if (firstFolder) {
+      return firstFolder.uri.fsPath;
+    }
+    if (filePath) {
+      return path.dirname(filePath);
+    }
+    throw new Error('没有打开的工作区');
+  }
+
+  /**
+   * 构建系统提示词，描述可用工具和调用格式
+   * 使用原生工具调用时，工具定义随请求发送，提示词中只说明规则
+   */
+  private buildSystemPrompt(tools: AgentTool[], workspaceRoot: string, nativeTools: boolean): string {
+    if (nativeTools) {
+      return `你是一个能够操作代码工作区的编程Agent。工作区根目录：${workspaceRoot}
+
+请通过函数调用使用提供的工具（${tools.map(tool => tool.name).join('、')}）完成任务。
+
+规则：
+1. 修改文件前先用 read_file 读取相关内容
+2. 路径一律使用相对于工作区根目录的路径
+3. 任务完成后，不要再调用工具，直接用简洁的文字总结所做的更改`;
+    }
+
+    const toolDescriptions = tools
+      .map(tool => `### ${tool.name}\n${tool.description}\n参数：${JSON.stringify(tool.parameters)}`)
+      .join('\n\n');
+
+    return `你是一个能够操作代码工作区的编程Agent。工作区根目录：${workspaceRoot}
+
+你可以调用以下工具：
+
+${toolDescriptions}
+
+调用工具时，在回复中包含且只包含一个如下格式的代码块：
+\`\`\`tool_call
+{"name": "工具名称", "arguments": {"参数名": "参数值"}}
+\`\`\`
+
+规则：
+1. 每次回复最多调用一个工具，等待工具结果后再继续
+2. 修改文件前先用 read_file 读取相关内容
+3. 路径一律使用相对于工作区根目录的路径
+4. 任务完成后，不要再调用工具，直接用简洁的文字总结所做的更改`;
+  }
+
+  /**
+   * 构建用户提示词
+   */
+  private buildUserPrompt(task: AgentTask, context: CodeContext, workspaceRoot: string): string {
+    const code = context.selection?.text || context.currentFile?.content || '';
+    // 循环中通过工具修改文件，不需要编辑格式说明
+    let prompt = buildTaskPrompt({ ...task, editFormat: 'whole' }, code, context.currentFile?.language);
+
+    if (context.currentFile?.path) {
+      const relativePath = path.relative(workspaceRoot, context.currentFile.path);
+      prompt += `\n\n当前文件：${relativePath}`;
+      if (context.selection) {
+        // 选区行号从 0 开始，工具使用从 1 开始的行号
+        prompt += `（选中第 ${context.selection.startLine + 1}-${context.selection.endLine + 1} 行）`;
+      }
+    }
+
+    return prompt;
+  }
+
+  /**
+   * 转换为请求中使用的工具定义
+   */
+  private toToolDefinitions(tools: AgentTool[]): ToolDefinition[] {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }));
+  }
+
+  /**
+   * 转换模型返回的原生工具调用
+   * 参数不是合法JSON时标记为无效调用，交给模型自行纠正
+   */
+  private fromNativeToolCall(call: ToolCall): AgentToolCall {
+    try {
+      const args = call.arguments ? JSON.parse(call.arguments) : {};
+      return {
+        id: call.id,
+        name: call.name,
+        arguments: args && typeof args === 'object' ? args : {}
+      };
+    } catch {
+      return { id: call.id, name: '__invalid__', arguments: { raw: call.arguments } };
+    }
+  }
+
+  /**
+   * 从模型回复中解析工具调用
+   * @returns 工具调用，如果没有则返回null
+   */
+  private parseToolCall(content: string): AgentToolCall | null {
+    const match = content.match(TOOL_CALL_REGEX);
+    if (!match) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(match[1]);
+      if (!parsed || typeof parsed.name !== 'string') {
+        return null;
+      }
+      return {
+        name: parsed.name,
+        arguments: parsed.arguments && typeof parsed.arguments === 'object' ? parsed.arguments : {}
+      };
+    } catch {
+      // 格式错误的调用交给模型自行纠正
+      return { name: '__invalid__', arguments: { raw: match[1] } };
+    }
+  }
+
+  /**
+   * 执行工具调用，工具异常转换为失败结果反馈给模型
+   */
+  private async executeTool(
+    toolCall: AgentToolCall,
+    tools: AgentTool[],
+    toolContext: AgentToolContext
+  ): Promise<AgentToolResult> {
+    if (toolCall.name === '__invalid__') {
+      return { success: false, output: '工具调用不是有效的JSON，请检查格式后重试' };
+    }
+
+    const tool = tools.find(t => t.name === toolCall.name);
+    if (!tool) {
+      return { success: false, output: `未知工具: ${toolCall.name}` };
+    }
+
+    try {
+      return await tool.execute(toolCall.arguments, toolContext);
+    } catch (error) {
+      return {
+        success: false,
+        output: `工具执行出错: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * 格式化工具结果，作为下一轮的用户消息
+   */
+  private formatToolResult(toolCall: AgentToolCall, result: AgentToolResult): string {
+    let output = result.output;
+    if (output.length > MAX_TOOL_OUTPUT_LENGTH) {
+      output = `${output.substring(0, MAX_TOOL_OUTPUT_LENGTH)}\n...（输出已截断）`;
+    }
+    const status = result.success ? '成功' : '失败';
+    return `工具 ${toolCall.name} 执行${status}，结果：\n${output}`;
+  }
+}
+
+/**
+ * 暂存的文件更改
+ * 工具的写入、删除和重命名都记录在内存中，读取时优先返回暂存内容
+ */
+class StagedChanges {
+  /** 文件的暂存内容，null 表示已删除 */
+  private overlay = new Map<string, string | null>();
+  /** 文件在首次操作前的内容，null 表示不存在 */
+  private originals = new Map<string, string | null>();
+  /** 重命名记录，key 为新路径，value 为原路径 */
+  private renamedFrom = new Map<string, string>();
+
+  constructor(private executor: AgentExecutor) {}
+
+  /**
+   * 创建工具执行上下文
+   * @param workspaceRoot 工作区根目录
+   */
+  createToolContext(workspaceRoot: string): AgentToolContext {
+    return {
+      workspaceRoot,
+      readFile: (filePath: string) => this.readFile(filePath),
+      writeFile: (filePath: string, newContent: string) => this.writeFile(filePath, newContent),
+      deleteFile: (filePath: string) => this.deleteFile(filePath),
+      renameFile: (filePath: string, newPath: string) => this.renameFile(filePath, newPath)
+    };
+  }
+
+  /**
+   * 根据暂存状态生成代码更改列表
+   * 同一文件的多次操作合并为一个更改，内容未变化的文件不生成更改
+   */
+  getChanges(): CodeChange[] {
+    const changes: CodeChange[] = [];
+    const handled = new Set<string>();
+
+    for (const [newPath, oldPath] of this.renamedFrom) {
+      const original = this.originals.get(oldPath);
+      const content = this.overlay.get(newPath);
+      // 只有原文件存在、目标原本不存在且原路径未被重新创建时才作为重命名
+      if (
+        original !== null && original !== undefined &&
+        content !== null && content !== undefined &&
+        this.overlay.get(oldPath) === null &&
+        this.originals.get(newPath) === null
+      ) {
+        changes.push(this.executor.createCodeChange(oldPath, original, content, 'rename', newPath));
+        handled.add(oldPath);
+        handled.add(newPath);
+      }
+    }
+
+    for (const [filePath, content] of this.overlay) {
+      if (handled.has(filePath)) {
+        continue;
+      }
+      const original = this.originals.get(filePath) ?? null;
+      if (original === null && content !== null) {
+        changes.push(this.executor.createCodeChange(filePath, '', content, 'create'));
+      } else if (original !== null && content === null) {
+        changes.push(this.executor.createCodeChange(filePath, original, '', 'delete'));
+      } else if (original !== null && content !== null && original !== content) {
+        changes.push(this.executor.createCodeChange(filePath, original, content, 'modify'));
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * 读取文件（优先返回暂存内容）
+   */
+  private async readFile(filePath: string): Promise<string> {
+    const content = this.overlay.has(filePath)
+      ? this.overlay.get(filePath)!
+      : await readCurrentContent(filePath);
+    if (content === null) {
+      throw new Error(`文件不存在: ${filePath}`);
+    }
+    return content;
+  }
+
+  /**
+   * 判断文件是否存在（考虑暂存状态）
+   */
+  private async exists(filePath: string): Promise<boolean> {
+    if (this.overlay.has(filePath)) {
+      return this.overlay.get(filePath) !== null;
+    }
+    return (await readCurrentContent(filePath)) !== null;
+  }
+
+  /**
+   * 记录文件在首次操作前的内容，用于生成更改和冲突检测
+   */
+  private async snapshot(filePath: string): Promise<void> {
+    if (!this.originals.has(filePath)) {
+      this.originals.set(filePath, await readCurrentContent(filePath));
+    }
+  }
+
+  private async writeFile(filePath: string, newContent: string): Promise<void> {
+    await this.snapshot(filePath);
+    this.overlay.set(filePath, newContent);
+  }
+
+  private async deleteFile(filePath: string): Promise<void> {
+    if (!(await this.exists(filePath))) {
+      throw new Error(`文件不存在: ${filePath}`);
+    }
+    await this.snapshot(filePath);
+    this.overlay.set(filePath, null);
+  }
+
+  private async renameFile(filePath: string, newPath: string): Promise<void> {
+    const content = await this.readFile(filePath);
+    if (await this.exists(newPath)) {
+      throw new Error(`目标文件已存在: ${newPath}`);
+    }
+    await this.snapshot(filePath);
+    await this.snapshot(newPath);
+    this.overlay.set(filePath, null);
+    this.overlay.set(newPath, content);
+
+    // 连续重命名时追溯到最初的路径
+    const origin = this.renamedFrom.get(filePath) ?? filePath;
+    this.renamedFrom.delete(filePath);
+    this.renamedFrom.set(newPath, origin);
+  }
+}
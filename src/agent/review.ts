@@ -0,0 +1,143 @@
+/**
+ * Agent更改审阅
+ * 在应用之前以多文件列表展示更改，支持逐个文件查看差异并选择要应用的文件
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeChange } from './types';
+
+/** 差异视图使用的虚拟文档协议 */
+const REVIEW_SCHEME = 'hicode-agent';
+
+/** 虚拟文档内容，key 为文档URI字符串 */
+const reviewContents = new Map<string, string>();
+
+/** 虚拟文档提供器，首次打开差异视图时注册 */
+let providerRegistration: vscode.Disposable | undefined;
+
+/**
+ * 确保虚拟文档提供器已注册
+ */
+function ensureProvider(): void {
+  if (providerRegistration) {
+    return;
+  }
+  providerRegistration = vscode.workspace.registerTextDocumentContentProvider(REVIEW_SCHEME, {
+    provideTextDocumentContent: (uri: vscode.Uri) => reviewContents.get(uri.toString()) ?? ''
+  });
+}
+
+/**
+ * 创建保存指定内容的虚拟文档URI
+ * @param filePath 文件路径（用于标题和语言识别）
+ * @param side 差异视图的一侧
+ * @param content 文档内容
+ */
+function createReviewUri(filePath: string, side: 'original' | 'modified', content: string): vscode.Uri {
+  const uri = vscode.Uri.from({
+    scheme: REVIEW_SCHEME,
+    path: filePath,
+    query: `${side}-${Date.now()}`
+  });
+  reviewContents.set(uri.toString(), content);
+  return uri;
+}
+
+/**
+ * 获取更改的显示标签
+ * @param change 代码更改
+ */
+export function describeChange(change: CodeChange): string {
+  const relativePath = vscode.workspace.asRelativePath(change.file);
+  switch (change.type || 'modify') {
+    case 'create':
+      return `新建 ${relativePath}`;
+    case 'delete':
+      return `删除 ${relativePath}`;
+    case 'rename':
+      return `重命名 ${relativePath} → ${vscode.workspace.asRelativePath(change.newFile!)}`;
+    default:
+      return `修改 ${relativePath}`;
+  }
+}
+
+/**
+ * 在差异编辑器中打开单个更改
+ * @param change 代码更改
+ */
+export async function openChangeDiff(change: CodeChange): Promise<void> {
+  ensureProvider();
+
+  const targetFile = change.type === 'rename' ? change.newFile! : change.file;
+  const original = createReviewUri(change.file, 'original', change.originalContent);
+  const modified = createReviewUri(targetFile, 'modified', change.newContent);
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    original,
+    modified,
+    `${path.basename(targetFile)}（Agent：${describeChange(change)}）`,
+    { preview: true }
+  );
+}
+
+/**
+ * 审阅更改
+ * 以多选列表展示所有更改（默认全选），每项提供查看差异按钮
+ * @param changes 代码更改列表
+ * @returns 选中要应用的更改，取消时返回 undefined
+ */
+export async function reviewChanges(changes: CodeChange[]): Promise<CodeChange[] | undefined> {
+  if (changes.length === 0) {
+    return [];
+  }
+
+  // 上一次审阅的虚拟文档不再需要
+  reviewContents.clear();
+
+  type ChangeItem = vscode.QuickPickItem & { change: CodeChange };
+
+  const diffButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('diff'),
+    tooltip: '查看差异'
+  };
+
+  const items: ChangeItem[] = changes.map(change => ({
+    label: describeChange(change),
+    description: change.type === 'delete' ? undefined : `${change.newContent.split('\n').length} 行`,
+    buttons: [diffButton],
+    change
+  }));
+
+  const quickPick = vscode.window.createQuickPick<ChangeItem>();
+  quickPick.title = `审阅 Agent 更改（${changes.length} 个文件）`;
+  quickPick.placeholder = '选择要应用的更改，按 Enter 应用，按 Esc 放弃';
+  quickPick.canSelectMany = true;
+  quickPick.ignoreFocusOut = true;
+  quickPick.items = items;
+  quickPick.selectedItems = items;
+
+  return new Promise<CodeChange[] | undefined>((resolve) => {
+    let accepted = false;
+
+    quickPick.onDidTriggerItemButton(event => {
+      openChangeDiff(event.item.change);
+    });
+
+    quickPick.onDidAccept(() => {
+      accepted = true;
+      resolve(quickPick.selectedItems.map(item => item.change));
+      quickPick.hide();
+    });
+
+    quickPick.onDidHide(() => {
+      if (!accepted) {
+        resolve(undefined);
+      }
+      quickPick.dispose();
+    });
+
+    quickPick.show();
+  });
+}
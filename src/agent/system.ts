@@ -3,10 +3,17 @@
  * 实现氛围感编程功能，管理Agent任务的执行
  */
 
+import * as vscode from 'vscode';
 import { CodeContext, ChatRequest, IAPIClient } from '../api/types';
-import { AgentTask, AgentResult, AgentHistoryEntry, CodeChange } from './types';
+import { AgentTask, AgentResult, AgentHistoryEntry, AgentLoopOptions, CodeChange } from './types';
 import { getBuiltInTasks, loadCustomTasks, saveCustomTask } from './tasks';
 import { AgentExecutor } from './executor';
+import { AgentLoop } from './loop';
+import { ApplyChangesOptions } from './workspaceEdit';
+import { reviewChanges } from './review';
+
+/** 是否有可撤销的 Agent 操作的上下文键 */
+export const AGENT_CAN_UNDO_CONTEXT = 'hicode.agentCanUndo';
 
 /**
  * Agent系统接口
@@ -27,17 +34,38 @@ export interface IAgentSystem {
    */
   executeTask(task: AgentTask, context: CodeContext): Promise<AgentResult>;
 
+  /**
+   * 以多步工具调用循环执行Agent任务
+   * 循环中的文件操作只暂存在结果中，需要调用 applyChanges 应用
+   * @param task 要执行的任务
+   * @param context 代码上下文
+   * @param options 循环选项
+   * @returns 执行结果
+   */
+  runAgentLoop(task: AgentTask, context: CodeContext, options?: AgentLoopOptions): Promise<AgentResult>;
+
   /**
    * 预览更改
    * @param result Agent执行结果
    */
   previewChanges(result: AgentResult): Promise<void>;
 
+  /**
+   * 审阅更改
+   * 展示多文件更改列表，由用户选择要应用的更改
+   * @param result Agent执行结果
+   * @returns 只包含选中更改的结果，用户取消时返回 undefined
+   */
+  reviewChanges(result: AgentResult): Promise<AgentResult | undefined>;
+
   /**
    * 应用更改
+   * 所有更改原子地应用，成功后记录到历史中以支持撤销
    * @param result Agent执行结果
+   * @param options 应用选项
+   * @throws ChangeConflictError 如果文件在任务开始后被修改
    */
-  applyChanges(result: AgentResult): Promise<void>;
+  applyChanges(result: AgentResult, options?: ApplyChangesOptions): Promise<void>;
 
   /**
    * 撤销最近的更改
@@ -64,12 +92,16 @@ export class AgentSystem implements IAgentSystem {
   private taskHistory: AgentHistoryEntry[] = [];
   private customTasks: AgentTask[] = [];
   private executor: AgentExecutor;
+  private loop: AgentLoop;
+  // 尚未应用的执行结果对应的任务和上下文，应用时写入历史
+  private pendingResults = new WeakMap<AgentResult, { task: AgentTask; context: CodeContext }>();
 
   constructor(
     private apiClient: IAPIClient,
     private storageManager?: any
   ) {
     this.executor = new AgentExecutor(apiClient);
+    this.loop = new AgentLoop(apiClient, this.executor);
     this.loadCustomTasks();
   }
 
@@ -91,19 +123,7 @@ export class AgentSystem implements IAgentSystem {
     try {
       // 使用executor执行任务
       const result = await this.executor.execute(task, context);
-
-      // 如果执行成功，保存到历史记录
-      if (result.success) {
-        const historyEntry: AgentHistoryEntry = {
-          id: this.generateId(),
-          timestamp: new Date(),
-          task,
-          result,
-          context
-        };
-        this.taskHistory.push(historyEntry);
-      }
-
+      this.pendingResults.set(result, { task, context });
       return result;
     } catch (error) {
       // 返回失败结果
@@ -116,6 +136,15 @@ export class AgentSystem implements IAgentSystem {
     }
   }
 
+  /**
+   * 以多步工具调用循环执行Agent任务
+   */
+  async runAgentLoop(task: AgentTask, context: CodeContext, options?: AgentLoopOptions): Promise<AgentResult> {
+    const result = await this.loop.run(task, context, options);
+    this.pendingResults.set(result, { task, context });
+    return result;
+  }
+
   /**
    * 预览更改
    */
@@ -123,11 +152,46 @@ export class AgentSystem implements IAgentSystem {
     await this.executor.previewChanges(result);
   }
 
+  /**
+   * 审阅更改
+   */
+  async reviewChanges(result: AgentResult): Promise<AgentResult | undefined> {
+    const selected = await reviewChanges(result.changes);
+    if (!selected) {
+      return undefined;
+    }
+
+    const reviewed: AgentResult = { ...result, changes: selected };
+    const pending = this.pendingResults.get(result);
+    if (pending) {
+      this.pendingResults.set(reviewed, pending);
+    }
+    return reviewed;
+  }
+
   /**
    * 应用更改
    */
-  async applyChanges(result: AgentResult): Promise<void> {
-    await this.executor.applyChanges(result);
+  async applyChanges(result: AgentResult, options?: ApplyChangesOptions): Promise<void> {
+    if (result.changes.length === 0) {
+      return;
+    }
+
+    await this.executor.applyChanges(result, options);
+
+    // 应用成功后才记录到历史，撤销时恢复到应用前的状态
+    const pending = this.pendingResults.get(result);
+    if (pending) {
+      this.taskHistory.push({
+        id: this.generateId(),
+        timestamp: new Date(),
+        task: pending.task,
+        result,
+        context: pending.context
+      });
+      this.pendingResults.delete(result);
+      this.updateUndoContext();
+    }
   }
 
   /**
@@ -138,10 +202,12 @@ export class AgentSystem implements IAgentSystem {
       throw new Error('没有可撤销的更改');
     }
 
-    const lastEntry = this.taskHistory.pop()!;
-    
-    // 使用executor撤销更改
+    const lastEntry = this.taskHistory[this.taskHistory.length - 1];
+
+    // 使用executor撤销更改，失败（如冲突）时保留历史记录以便重试
     await this.executor.undoChanges(lastEntry.result);
+    this.taskHistory.pop();
+    this.updateUndoContext();
   }
 
   /**
@@ -179,6 +245,13 @@ export class AgentSystem implements IAgentSystem {
     }
   }
 
+  /**
+   * 更新是否有可撤销操作的上下文键，撤销快捷键只在有可撤销操作时生效
+   */
+  private updateUndoContext(): void {
+    vscode.commands.executeCommand('setContext', AGENT_CAN_UNDO_CONTEXT, this.taskHistory.length > 0);
+  }
+
   /**
    * 生成唯一ID
    */
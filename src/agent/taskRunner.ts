@@ -0,0 +1,226 @@
+/**
+ * VS Code 任务运行
+ * 运行工作区任务并等待其结束；shell 和 process 任务改为在伪终端中运行，以便在终端面板显示的同时收集输出
+ */
+
+import * as vscode from 'vscode';
+import { spawn, ChildProcess } from 'child_process';
+
+/** 返回的任务输出的最大字符数（超出时保留末尾） */
+const MAX_TASK_OUTPUT = 20000;
+
+/** ANSI 转义序列（颜色、光标控制等） */
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[A-Za-z]|\u001b\][^\u0007]*\u0007/g;
+
+/**
+ * 任务运行结果
+ */
+export interface TaskRunResult {
+  /** 退出码（任务没有进程或超时时为空） */
+  exitCode?: number;
+  /** 任务输出（无法收集输出时为空） */
+  output?: string;
+  /** 是否因超时被终止 */
+  timedOut: boolean;
+}
+
+/**
+ * 运行任务并等待结束
+ * @param task 要运行的任务
+ * @param workspaceRoot 工作区根目录（任务未指定工作区文件夹时作为工作目录）
+ * @param timeout 超时时间（毫秒），超时后终止任务
+ */
+export async function runTask(task: vscode.Task, workspaceRoot: string, timeout: number): Promise<TaskRunResult> {
+  const capture = createOutputCapture(task, workspaceRoot);
+  const runnable = capture
+    ? new vscode.Task(
+        task.definition,
+        task.scope ?? vscode.TaskScope.Workspace,
+        task.name,
+        task.source,
+        new vscode.CustomExecution(async () => capture.terminal),
+        task.problemMatchers
+      )
+    : task;
+
+  return new Promise<TaskRunResult>((resolve, reject) => {
+    let execution: vscode.TaskExecution | undefined;
+    let settled = false;
+    // 任务可能在 executeTask 返回前就已结束，先记录所有结束事件，拿到 execution 后再比对
+    const processExitCodes = new Map<vscode.TaskExecution, number | undefined>();
+    const endedTasks = new Set<vscode.TaskExecution>();
+
+    const finish = (result: TaskRunResult | Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      disposables.forEach(disposable => disposable.dispose());
+      if (result instanceof Error) {
+        reject(result);
+      } else {
+        resolve(result);
+      }
+    };
+
+    const check = () => {
+      if (!execution || !endedTasks.has(execution)) {
+        return;
+      }
+      // CustomExecution 任务没有进程，不会触发 onDidEndTaskProcess，退出码取自伪终端
+      finish({
+        exitCode: capture ? capture.terminal.exitCode : processExitCodes.get(execution),
+        output: capture?.terminal.getOutput(),
+        timedOut: false
+      });
+    };
+
+    const timer = setTimeout(() => {
+      execution?.terminate();
+      finish({ output: capture?.terminal.getOutput(), timedOut: true });
+    }, timeout);
+
+    const disposables = [
+      vscode.tasks.onDidEndTaskProcess(event => {
+        processExitCodes.set(event.execution, event.exitCode);
+      }),
+      vscode.tasks.onDidEndTask(event => {
+        endedTasks.add(event.execution);
+        check();
+      })
+    ];
+
+    vscode.tasks.executeTask(runnable).then(
+      result => {
+        execution = result;
+        check();
+      },
+      error => finish(error instanceof Error ? error : new Error(String(error)))
+    );
+  });
+}
+
+/**
+ * 为 shell 和 process 任务创建收集输出的伪终端
+ * 任务提供器自定义执行的任务、以及包含无法解析的变量（如 ${file}）的任务返回 undefined，按原样运行
+ */
+function createOutputCapture(task: vscode.Task, workspaceRoot: string): { terminal: TaskOutputTerminal } | undefined {
+  const folder = typeof task.scope === 'object' ? task.scope.uri.fsPath : workspaceRoot;
+  const resolve = (value: string) => resolveVariables(value, folder);
+  const execution = task.execution;
+
+  let spawnProcess: () => ChildProcess;
+  let values: string[];
+
+  if (execution instanceof vscode.ShellExecution) {
+    const parts = [execution.command, ...(execution.args ?? [])]
+      .map(part => typeof part === 'string' ? part : part?.value ?? '');
+    const commandLine = execution.commandLine ??
+      parts.map(part => /\s/.test(part) ? `"${part}"` : part).join(' ');
+    const options = execution.options ?? {};
+    values = [commandLine, options.cwd ?? folder];
+    spawnProcess = () => spawn(resolve(commandLine), {
+      cwd: resolve(options.cwd ?? folder),
+      env: { ...process.env, ...options.env },
+      shell: options.executable ?? true
+    });
+  } else if (execution instanceof vscode.ProcessExecution) {
+    const options = execution.options ?? {};
+    values = [execution.process, ...execution.args, options.cwd ?? folder];
+    spawnProcess = () => spawn(resolve(execution.process), execution.args.map(resolve), {
+      cwd: resolve(options.cwd ?? folder),
+      env: { ...process.env, ...options.env }
+    });
+  } else {
+    return undefined;
+  }
+
+  if (values.some(value => resolve(value).includes('${'))) {
+    return undefined;
+  }
+  return { terminal: new TaskOutputTerminal(spawnProcess) };
+}
+
+/**
+ * 解析任务中常用的变量
+ */
+function resolveVariables(value: string, folder: string): string {
+  return value
+    .replace(/\$\{(workspaceFolder|workspaceRoot)\}/g, folder)
+    .replace(/\$\{workspaceFolderBasename\}/g, folder.split(/[\\/]/).pop() || folder)
+    .replace(/\$\{env:([^}]+)\}/g, (_, name: string) => process.env[name] ?? '');
+}
+
+/**
+ * 收集输出的任务伪终端
+ * 进程输出原样写入终端面板，同时去掉 ANSI 转义序列后保存
+ */
+class TaskOutputTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number>();
+  private child?: ChildProcess;
+  private output = '';
+  /** 超出上限后丢弃的字符数 */
+  private dropped = 0;
+
+  readonly onDidWrite = this.writeEmitter.event;
+  readonly onDidClose = this.closeEmitter.event;
+
+  /** 进程退出码（进程未结束时为空） */
+  exitCode?: number;
+
+  constructor(private readonly spawnProcess: () => ChildProcess) {}
+
+  open(): void {
+    try {
+      this.child = this.spawnProcess();
+    } catch (error) {
+      this.exit(`${error instanceof Error ? error.message : String(error)}\n`, 1);
+      return;
+    }
+
+    const onData = (data: Buffer) => this.write(data.toString());
+    this.child.stdout?.on('data', onData);
+    this.child.stderr?.on('data', onData);
+    this.child.on('error', error => this.exit(`${error.message}\n`, 1));
+    this.child.on('close', code => this.exit('', code ?? 1));
+  }
+
+  close(): void {
+    this.child?.kill();
+  }
+
+  /**
+   * 获取已收集的输出
+   */
+  getOutput(): string {
+    const output = this.output.replace(ANSI_PATTERN, '').replace(/\r\n?/g, '\n');
+    const dropped = this.dropped + Math.max(0, output.length - MAX_TASK_OUTPUT);
+    return dropped > 0
+      ? `...（省略前 ${dropped} 个字符）\n${output.slice(-MAX_TASK_OUTPUT)}`
+      : output;
+  }
+
+  private write(text: string): void {
+    this.output += text;
+    // 只保留末尾部分，避免长时间运行的任务占用过多内存
+    if (this.output.length > MAX_TASK_OUTPUT * 2) {
+      this.dropped += this.output.length - MAX_TASK_OUTPUT;
+      this.output = this.output.slice(-MAX_TASK_OUTPUT);
+    }
+    // 终端需要 CRLF 换行
+    this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+  }
+
+  private exit(text: string, code: number): void {
+    if (this.exitCode !== undefined) {
+      return;
+    }
+    if (text) {
+      this.write(text);
+    }
+    this.exitCode = code;
+    this.closeEmitter.fire(code);
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { AgentTask } from './types';
+import { getEditFormatInstructions } from './editFormats';
 
 /**
  * 获取内置Agent任务列表
@@ -27,8 +28,9 @@ export function getBuiltInTasks(): AgentTask[] {
 代码：
 {code}
 
-请提供重构后的完整代码。`,
-      isCustom: false
+请给出重构后的代码。`,
+      isCustom: false,
+      editFormat: 'search-replace'
     },
     {
       type: 'test',
@@ -69,8 +71,9 @@ export function getBuiltInTasks(): AgentTask[] {
 
 语言：{language}
 
-请提供添加了文档的完整代码。`,
-      isCustom: false
+请给出添加了文档的代码。`,
+      isCustom: false,
+      editFormat: 'search-replace'
     },
     {
       type: 'fix',
@@ -90,8 +93,9 @@ export function getBuiltInTasks(): AgentTask[] {
 3. 添加注释说明修复内容
 4. 如果有多个问题，全部修复
 
-请提供修复后的完整代码。`,
-      isCustom: false
+请给出修复后的代码。`,
+      isCustom: false,
+      editFormat: 'search-replace'
     },
     {
       type: 'optimize',
@@ -111,8 +115,9 @@ export function getBuiltInTasks(): AgentTask[] {
 
 语言：{language}
 
-请提供优化后的完整代码，并说明优化的具体内容。`,
-      isCustom: false
+请给出优化后的代码，并说明优化的具体内容。`,
+      isCustom: false,
+      editFormat: 'search-replace'
     }
   ];
 }
@@ -184,7 +189,7 @@ export async function deleteCustomTask(taskName: string, storageManager: any): P
 
 /**
  * 构建任务提示词
- * 将模板中的占位符替换为实际值
+ * 将模板中的占位符替换为实际值，并在末尾附加任务要求的编辑格式说明
  * @param task Agent任务
  * @param code 代码内容
  * @param language 编程语言
@@ -209,6 +214,10 @@ export function buildTaskPrompt(
   if (problem) {
     prompt = prompt.replace(/{problem}/g, problem);
   }
+
+  if (task.editFormat && task.editFormat !== 'whole') {
+    prompt += `\n\n${getEditFormatInstructions(task.editFormat)}`;
+  }
   
   return prompt;
 }
@@ -0,0 +1,423 @@
+/**
+ * Agent工具定义
+ * 定义Agent循环中模型可调用的工作区工具
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentToolDefinition, AgentToolResult } from './types';
+import { applyPatch, parsePatch, PatchApplyError } from '../utils/diff';
+import { egressPolicy } from '../security/egressPolicy';
+import { runTask } from './taskRunner';
+
+/**
+ * 工具执行上下文
+ * 由Agent循环提供，工具通过它访问工作区和记录更改
+ * 文件操作只暂存在内存中，任务结束后由用户审阅并统一应用
+ */
+export interface AgentToolContext {
+  /** 工作区根目录（绝对路径） */
+  workspaceRoot: string;
+  /**
+   * 读取文件内容（包含已暂存的更改）
+   * @param filePath 文件绝对路径
+   */
+  readFile(filePath: string): Promise<string>;
+  /**
+   * 暂存文件写入（文件不存在时视为新建）
+   * @param filePath 文件绝对路径
+   * @param newContent 新内容
+   */
+  writeFile(filePath: string, newContent: string): Promise<void>;
+  /**
+   * 暂存文件删除
+   * @param filePath 文件绝对路径
+   */
+  deleteFile(filePath: string): Promise<void>;
+  /**
+   * 暂存文件重命名
+   * @param filePath 原文件绝对路径
+   * @param newPath 新文件绝对路径
+   */
+  renameFile(filePath: string, newPath: string): Promise<void>;
+}
+
+/**
+ * Agent工具
+ * 工具定义加上执行逻辑
+ */
+export interface AgentTool extends AgentToolDefinition {
+  /**
+   * 执行工具
+   * @param args 模型提供的参数
+   * @param context 工具执行上下文
+   * @returns 执行结果
+   */
+  execute(args: Record<string, any>, context: AgentToolContext): Promise<AgentToolResult>;
+}
+
+/** 遍历工作区时忽略的目录 */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'out', 'coverage', '.vscode-test']);
+
+/** 单个文件读取的最大字节数 */
+const MAX_READ_BYTES = 200 * 1024;
+
+/** 搜索结果的最大条数 */
+const MAX_GREP_RESULTS = 50;
+
+/** 任务执行的超时时间（毫秒） */
+const TASK_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * 获取内置Agent工具列表
+ * @returns 内置工具数组
+ */
+export function getBuiltInTools(): AgentTool[] {
+  return [
+    readFileTool,
+    listDirectoryTool,
+    grepWorkspaceTool,
+    applyEditTool,
+    deleteFileTool,
+    renameFileTool,
+    runTaskTool
+  ];
+}
+
+/**
+ * 将工具参数中的路径解析为工作区内的绝对路径
+ * @param workspaceRoot 工作区根目录
+ * @param target 相对或绝对路径
+ * @returns 绝对路径
+ * @throws 如果路径位于工作区之外
+ */
+export function resolveWorkspacePath(workspaceRoot: string, target: string): string {
+  const resolved = path.resolve(workspaceRoot, target || '.');
+  const relative = path.relative(workspaceRoot, resolved);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`路径不在工作区内: ${target}`);
+  }
+  return resolved;
+}
+
+/**
+ * 生成路径被数据外发策略排除时的工具结果
+ * @param target 工具参数中的路径
+ */
+function blockedResult(target: string): AgentToolResult {
+  return { success: false, output: `${target} 已被 .hicodeignore 排除，不能读取或修改` };
+}
+
+/**
+ * 读取文件工具
+ */
+const readFileTool: AgentTool = {
+  name: 'read_file',
+  description: '读取工作区中文件的内容，可指定行号范围',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: '相对于工作区根目录的文件路径' },
+      startLine: { type: 'number', description: '起始行号（从1开始，可选）' },
+      endLine: { type: 'number', description: '结束行号（包含，可选）' }
+    },
+    required: ['path']
+  },
+  async execute(args, context) {
+    const filePath = resolveWorkspacePath(context.workspaceRoot, args.path);
+    if (egressPolicy.isBlocked(filePath)) {
+      return blockedResult(args.path);
+    }
+    // 通过上下文读取，保证能看到已暂存的更改
+    const content = await context.readFile(filePath);
+    const size = Buffer.byteLength(content, 'utf8');
+    if (size > MAX_READ_BYTES && !args.startLine) {
+      return {
+        success: false,
+        output: `文件过大（${size} 字节），请通过 startLine/endLine 分段读取`
+      };
+    }
+
+    const lines = content.split('\n');
+    const start = Math.max(1, Number(args.startLine) || 1);
+    const end = Math.min(lines.length, Number(args.endLine) || lines.length);
+    const numbered = lines
+      .slice(start - 1, end)
+      .map((line, i) => `${start + i}: ${line}`)
+      .join('\n');
+
+    return { success: true, output: numbered };
+  }
+};
+
+/**
+ * 列出目录工具
+ */
+const listDirectoryTool: AgentTool = {
+  name: 'list_directory',
+  description: '列出工作区中目录的直接子项，目录以 / 结尾',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: '相对于工作区根目录的目录路径，默认为根目录' }
+    }
+  },
+  async execute(args, context) {
+    const dirPath = resolveWorkspacePath(context.workspaceRoot, args.path || '.');
+    if (egressPolicy.isBlocked(dirPath, true)) {
+      return blockedResult(args.path);
+    }
+    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    const output = entries
+      .filter(entry => !IGNORED_DIRECTORIES.has(entry.name))
+      .filter(entry => !egressPolicy.isBlocked(path.join(dirPath, entry.name), entry.isDirectory()))
+      .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name)
+      .sort()
+      .join('\n');
+
+    return { success: true, output: output || '（空目录）' };
+  }
+};
+
+/**
+ * 搜索工作区工具
+ */
+const grepWorkspaceTool: AgentTool = {
+  name: 'grep_workspace',
+  description: `在工作区文件中搜索文本或正则表达式，最多返回 ${MAX_GREP_RESULTS} 条匹配`,
+  parameters: {
+    type: 'object',
+    properties: {
+      pattern: { type: 'string', description: '搜索的正则表达式（无效时按普通文本搜索）' },
+      path: { type: 'string', description: '限定搜索的子目录（可选）' }
+    },
+    required: ['pattern']
+  },
+  async execute(args, context) {
+    if (!args.pattern) {
+      return { success: false, output: '缺少 pattern 参数' };
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(args.pattern);
+    } catch {
+      regex = new RegExp(String(args.pattern).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    }
+
+    const root = resolveWorkspacePath(context.workspaceRoot, args.path || '.');
+    if (egressPolicy.isBlocked(root, true)) {
+      return blockedResult(args.path);
+    }
+    const results: string[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (results.length >= MAX_GREP_RESULTS) {
+          return;
+        }
+        const fullPath = path.join(dir, entry.name);
+        // 跳过被 .hicodeignore 排除的文件和目录
+        if (egressPolicy.isBlocked(fullPath, entry.isDirectory())) {
+          continue;
+        }
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(entry.name)) {
+            await walk(fullPath);
+          }
+          continue;
+        }
+
+        const stat = await fs.promises.stat(fullPath);
+        if (stat.size > MAX_READ_BYTES) {
+          continue;
+        }
+        const content = await fs.promises.readFile(fullPath, 'utf8');
+        // 跳过二进制文件
+        if (content.includes('\u0000')) {
+          continue;
+        }
+
+        const lines = content.split('\n');
+        for (let i = 0; i < lines.length && results.length < MAX_GREP_RESULTS; i++) {
+          if (regex.test(lines[i])) {
+            const relativePath = path.relative(context.workspaceRoot, fullPath);
+            results.push(`${relativePath}:${i + 1}: ${lines[i].trim()}`);
+          }
+        }
+      }
+    };
+
+    await walk(root);
+    return { success: true, output: results.length > 0 ? results.join('\n') : '未找到匹配' };
+  }
+};
+
+/**
+ * 编辑文件工具
+ */
+const applyEditTool: AgentTool = {
+  name: 'apply_edit',
+  description: '修改或创建文件：提供 search 和 replace 时替换唯一匹配的文本；提供 diff 时应用统一差异（适合大文件，无需读取全文）；只提供 content 时写入完整文件内容',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: '相对于工作区根目录的文件路径' },
+      search: { type: 'string', description: '要替换的原始文本，必须在文件中唯一出现' },
+      replace: { type: 'string', description: '替换后的文本' },
+      diff: { type: 'string', description: '统一差异格式（unified diff）的修改，上下文行必须与文件一致' },
+      content: { type: 'string', description: '完整的文件内容（创建新文件或整体替换时使用）' }
+    },
+    required: ['path']
+  },
+  async execute(args, context) {
+    const filePath = resolveWorkspacePath(context.workspaceRoot, args.path);
+    if (egressPolicy.isBlocked(filePath)) {
+      return blockedResult(args.path);
+    }
+
+    if (typeof args.search === 'string') {
+      const original = await context.readFile(filePath);
+      const first = original.indexOf(args.search);
+      if (first === -1) {
+        return { success: false, output: 'search 文本未在文件中找到，请先用 read_file 确认原文' };
+      }
+      if (original.indexOf(args.search, first + args.search.length) !== -1) {
+        return { success: false, output: 'search 文本在文件中出现多次，请提供更多上下文使其唯一' };
+      }
+      const updated = original.slice(0, first) + (args.replace ?? '') + original.slice(first + args.search.length);
+      await context.writeFile(filePath, updated);
+      return { success: true, output: `已修改 ${args.path}` };
+    }
+
+    if (typeof args.diff === 'string') {
+      const original = await context.readFile(filePath);
+      const hunks = parsePatch(args.diff).flatMap(patch => patch.hunks);
+      if (hunks.length === 0) {
+        return { success: false, output: 'diff 中没有找到差异块（@@ ... @@）' };
+      }
+      try {
+        await context.writeFile(filePath, applyPatch(original, hunks));
+      } catch (error) {
+        if (error instanceof PatchApplyError) {
+          return { success: false, output: `${error.message}，请先用 read_file 确认相关行的原文` };
+        }
+        throw error;
+      }
+      return { success: true, output: `已修改 ${args.path}（${hunks.length} 个差异块）` };
+    }
+
+    if (typeof args.content === 'string') {
+      await context.writeFile(filePath, args.content);
+      return { success: true, output: `已写入 ${args.path}` };
+    }
+
+    return { success: false, output: '需要提供 search/replace、diff 或 content 参数' };
+  }
+};
+
+/**
+ * 删除文件工具
+ */
+const deleteFileTool: AgentTool = {
+  name: 'delete_file',
+  description: '删除工作区中的文件',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: '相对于工作区根目录的文件路径' }
+    },
+    required: ['path']
+  },
+  async execute(args, context) {
+    const filePath = resolveWorkspacePath(context.workspaceRoot, args.path);
+    if (egressPolicy.isBlocked(filePath)) {
+      return blockedResult(args.path);
+    }
+    await context.deleteFile(filePath);
+    return { success: true, output: `已删除 ${args.path}` };
+  }
+};
+
+/**
+ * 重命名文件工具
+ */
+const renameFileTool: AgentTool = {
+  name: 'rename_file',
+  description: '重命名或移动工作区中的文件，目标文件不能已存在',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: '相对于工作区根目录的原文件路径' },
+      newPath: { type: 'string', description: '相对于工作区根目录的新文件路径' }
+    },
+    required: ['path', 'newPath']
+  },
+  async execute(args, context) {
+    const filePath = resolveWorkspacePath(context.workspaceRoot, args.path);
+    const newPath = resolveWorkspacePath(context.workspaceRoot, args.newPath);
+    if (egressPolicy.isBlocked(filePath)) {
+      return blockedResult(args.path);
+    }
+    if (egressPolicy.isBlocked(newPath)) {
+      return blockedResult(args.newPath);
+    }
+    await context.renameFile(filePath, newPath);
+    return { success: true, output: `已将 ${args.path} 重命名为 ${args.newPath}` };
+  }
+};
+
+/**
+ * 运行任务工具
+ * 执行 tasks.json 或任务提供器中定义的 VS Code 任务
+ */
+const runTaskTool: AgentTool = {
+  name: 'run_task',
+  description: '运行工作区中定义的 VS Code 任务（如构建、测试），返回退出码和输出，运行前需要用户确认；不提供 name 时列出可用任务。注意：本次任务中的文件更改尚未写入磁盘，任务运行的是更改前的代码',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: '任务名称' }
+    }
+  },
+  async execute(args, context) {
+    const tasks = await vscode.tasks.fetchTasks();
+    if (!args.name) {
+      const names = tasks.map(task => task.name);
+      return { success: true, output: names.length > 0 ? names.join('\n') : '没有可用的任务' };
+    }
+
+    const task = tasks.find(t => t.name === args.name);
+    if (!task) {
+      return { success: false, output: `任务不存在: ${args.name}` };
+    }
+
+    // 任务可以执行任意命令（如部署、发布），模型可能受读取到的文件内容诱导，运行前由用户确认
+    const choice = await vscode.window.showWarningMessage(
+      `HiCode Agent 请求运行任务「${task.name}」（来源: ${task.source}）`,
+      { modal: true, detail: '任务可能执行任意命令，请确认该任务可以安全运行。' },
+      '运行'
+    );
+    if (choice !== '运行') {
+      return { success: false, output: `用户拒绝运行任务 ${args.name}` };
+    }
+
+    const result = await runTask(task, context.workspaceRoot, TASK_TIMEOUT);
+    const output = result.output === undefined
+      ? '（该任务的输出无法收集，见终端面板）'
+      : result.output.trim() || '（无输出）';
+
+    if (result.timedOut) {
+      return { success: false, output: `任务 ${args.name} 超时，已终止\n${output}` };
+    }
+    if (result.exitCode === undefined) {
+      return { success: true, output: `任务 ${args.name} 结束，未返回退出码\n${output}` };
+    }
+    return {
+      success: result.exitCode === 0,
+      output: `任务 ${args.name} 结束，退出码 ${result.exitCode}\n${output}`
+    };
+  }
+};
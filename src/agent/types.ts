@@ -10,6 +10,14 @@ import { CodeContext } from '../api/types';
  */
 export type AgentTaskType = 'refactor' | 'test' | 'document' | 'fix' | 'optimize' | 'custom';
 
+/**
+ * 编辑格式
+ * - whole: 返回完整代码
+ * - udiff: 返回统一差异（unified diff）
+ * - search-replace: 返回 SEARCH/REPLACE 块
+ */
+export type EditFormat = 'whole' | 'udiff' | 'search-replace';
+
 /**
  * Agent任务
  * 定义了可执行的Agent操作
@@ -25,21 +33,36 @@ export interface AgentTask {
   prompt: string;
   /** 是否为自定义任务 */
   isCustom?: boolean;
+  /** 要求模型返回修改的格式（默认 whole） */
+  editFormat?: EditFormat;
 }
 
+/**
+ * 代码更改类型
+ * - modify: 修改已有文件
+ * - create: 创建新文件（originalContent 为空）
+ * - delete: 删除文件（newContent 为空）
+ * - rename: 重命名文件（可同时修改内容）
+ */
+export type CodeChangeType = 'modify' | 'create' | 'delete' | 'rename';
+
 /**
  * 代码更改
  * 表示对单个文件的修改
  */
 export interface CodeChange {
-  /** 文件路径 */
+  /** 文件路径（重命名时为原路径） */
   file: string;
-  /** 原始内容 */
+  /** 原始内容（任务开始时读取，用于冲突检测） */
   originalContent: string;
   /** 新内容 */
   newContent: string;
-  /** 差异文本 */
+  /** 统一差异格式（unified diff）文本 */
   diff: string;
+  /** 更改类型（默认为 modify） */
+  type?: CodeChangeType;
+  /** 重命名后的文件路径（仅 rename） */
+  newFile?: string;
 }
 
 /**
@@ -55,6 +78,8 @@ export interface AgentResult {
   message: string;
   /** 错误信息（如果失败） */
   error?: string;
+  /** 执行步骤（仅多步Agent循环产生） */
+  steps?: AgentStep[];
 }
 
 /**
@@ -73,3 +98,69 @@ export interface AgentHistoryEntry {
   /** 代码上下文 */
   context: CodeContext;
 }
+
+/**
+ * Agent工具定义
+ * 描述模型可调用的工具，parameters 使用 JSON Schema 描述参数
+ */
+export interface AgentToolDefinition {
+  /** 工具名称 */
+  name: string;
+  /** 工具描述 */
+  description: string;
+  /** 参数的 JSON Schema */
+  parameters: Record<string, any>;
+}
+
+/**
+ * Agent工具调用
+ * 模型请求执行的一次工具调用
+ */
+export interface AgentToolCall {
+  /** 调用ID（可选） */
+  id?: string;
+  /** 工具名称 */
+  name: string;
+  /** 调用参数 */
+  arguments: Record<string, any>;
+}
+
+/**
+ * Agent工具执行结果
+ */
+export interface AgentToolResult {
+  /** 执行是否成功 */
+  success: boolean;
+  /** 返回给模型的输出文本 */
+  output: string;
+}
+
+/**
+ * Agent循环中的单个步骤
+ */
+export interface AgentStep {
+  /** 步骤序号（从1开始） */
+  index: number;
+  /** 模型在该步骤的回复内容 */
+  content: string;
+  /** 工具调用（如果有） */
+  toolCall?: AgentToolCall;
+  /** 工具执行结果（如果有） */
+  toolResult?: AgentToolResult;
+}
+
+/**
+ * Agent循环选项
+ */
+export interface AgentLoopOptions {
+  /** 最大步骤数（默认10） */
+  maxSteps?: number;
+  /** 使用的模型ID（默认使用为 Agent 配置的模型，未配置时使用当前模型） */
+  model?: string;
+  /** 允许使用的工具名称列表（默认全部） */
+  tools?: string[];
+  /** 是否使用模型原生的工具调用（默认true；为false时使用文本代码块协议） */
+  nativeTools?: boolean;
+  /** 每个步骤完成时的回调 */
+  onStep?: (step: AgentStep) => void;
+}
@@ -0,0 +1,228 @@
+/**
+ * Agent更改的原子应用
+ * 将一个 AgentResult 中的所有更改合并为一个 WorkspaceEdit 一次性应用，并提供冲突检测和反向撤销
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CodeChange } from './types';
+import { parsePatch, reversePatch, formatPatch } from '../utils/diff';
+
+/**
+ * 更改冲突错误
+ * 文件在任务开始（或应用）之后被修改时抛出，此时不会应用任何更改
+ */
+export class ChangeConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly files: string[]
+  ) {
+    super(message);
+    this.name = 'ChangeConflictError';
+
+    // 保持正确的原型链
+    Object.setPrototypeOf(this, ChangeConflictError.prototype);
+  }
+}
+
+/**
+ * 应用选项
+ */
+export interface ApplyChangesOptions {
+  /** 忽略冲突强制应用 */
+  force?: boolean;
+}
+
+/**
+ * 读取文件的当前内容
+ * 优先使用已打开文档的内容（包含未保存的编辑），文件不存在时返回 null
+ * @param filePath 文件路径
+ */
+export async function readCurrentContent(filePath: string): Promise<string | null> {
+  const uri = vscode.Uri.file(filePath);
+  const openDocument = vscode.workspace.textDocuments.find(
+    doc => doc.uri.toString() === uri.toString()
+  );
+  if (openDocument) {
+    return openDocument.getText();
+  }
+
+  try {
+    return await fs.promises.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 检测更改冲突
+ * 比较文件当前状态与更改的前置状态（originalContent），不一致即视为冲突
+ * @param changes 更改列表
+ * @returns 冲突的文件路径列表
+ */
+export async function detectConflicts(changes: CodeChange[]): Promise<string[]> {
+  const conflicts: string[] = [];
+
+  for (const change of changes) {
+    const type = change.type || 'modify';
+    const current = await readCurrentContent(change.file);
+
+    switch (type) {
+      case 'create':
+        if (current !== null) {
+          conflicts.push(change.file);
+        }
+        break;
+      case 'rename':
+        if (current !== change.originalContent || (await readCurrentContent(change.newFile!)) !== null) {
+          conflicts.push(change.file);
+        }
+        break;
+      default:
+        if (current !== change.originalContent) {
+          conflicts.push(change.file);
+        }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * 构建包含所有更改的 WorkspaceEdit
+ * 替换范围按文件的当前内容计算：强制应用时文件可能已被修改，按 originalContent 计算的范围会漏掉新增的内容
+ * @param changes 更改列表
+ */
+export async function buildWorkspaceEdit(changes: CodeChange[]): Promise<vscode.WorkspaceEdit> {
+  const edit = new vscode.WorkspaceEdit();
+
+  for (const change of changes) {
+    const uri = vscode.Uri.file(change.file);
+
+    switch (change.type || 'modify') {
+      case 'create':
+        edit.createFile(uri, { overwrite: false, ignoreIfExists: false });
+        edit.insert(uri, new vscode.Position(0, 0), change.newContent);
+        break;
+      case 'delete':
+        edit.deleteFile(uri, { ignoreIfNotExists: false });
+        break;
+      case 'rename': {
+        const newUri = vscode.Uri.file(change.newFile!);
+        edit.renameFile(uri, newUri, { overwrite: false });
+        const current = (await readCurrentContent(change.file)) ?? change.originalContent;
+        if (change.newContent !== current) {
+          edit.replace(newUri, fullRange(current), change.newContent);
+        }
+        break;
+      }
+      default: {
+        const current = (await readCurrentContent(change.file)) ?? change.originalContent;
+        edit.replace(uri, fullRange(current), change.newContent);
+      }
+    }
+  }
+
+  return edit;
+}
+
+/**
+ * 原子地应用更改
+ * 先检测冲突，再以单个 WorkspaceEdit 应用全部更改（编辑器保证全部成功或全部失败），最后保存修改的文档
+ * @param changes 更改列表
+ * @param options 应用选项
+ * @throws ChangeConflictError 如果存在冲突且未强制应用
+ */
+export async function applyChangesAtomically(
+  changes: CodeChange[],
+  options: ApplyChangesOptions = {}
+): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  if (!options.force) {
+    const conflicts = await detectConflicts(changes);
+    if (conflicts.length > 0) {
+      throw new ChangeConflictError(
+        `以下文件在任务开始后已被修改：\n${conflicts.join('\n')}`,
+        conflicts
+      );
+    }
+  }
+
+  const edit = await buildWorkspaceEdit(changes);
+  const applied = await vscode.workspace.applyEdit(edit);
+  if (!applied) {
+    throw new Error('编辑器拒绝了工作区编辑，未应用任何更改');
+  }
+
+  // WorkspaceEdit 只修改编辑器缓冲区，保存后才写入磁盘
+  for (const change of changes) {
+    const type = change.type || 'modify';
+    if (type === 'delete') {
+      continue;
+    }
+    const target = vscode.Uri.file(type === 'rename' ? change.newFile! : change.file);
+    const document = await vscode.workspace.openTextDocument(target);
+    if (document.isDirty) {
+      await document.save();
+    }
+  }
+}
+
+/**
+ * 生成反向更改（用于撤销）
+ * 反向更改的前置状态是原更改应用后的状态，撤销时如果用户在此之后修改过文件会检测为冲突
+ * @param changes 已应用的更改列表
+ * @returns 反向更改列表（逆序）
+ */
+export function invertChanges(changes: CodeChange[]): CodeChange[] {
+  return changes
+    .map((change): CodeChange => {
+      const base = {
+        originalContent: change.newContent,
+        newContent: change.originalContent,
+        diff: reversePatchText(change.diff)
+      };
+
+      switch (change.type || 'modify') {
+        case 'create':
+          return { ...base, file: change.file, type: 'delete' };
+        case 'delete':
+          return { ...base, file: change.file, type: 'create' };
+        case 'rename':
+          return { ...base, file: change.newFile!, newFile: change.file, type: 'rename' };
+        default:
+          return { ...base, file: change.file, type: 'modify' };
+      }
+    })
+    .reverse();
+}
+
+/**
+ * 反转统一差异文本
+ * @param diff 统一差异文本
+ */
+function reversePatchText(diff: string): string {
+  return parsePatch(diff)
+    .map(patch => formatPatch({
+      oldFile: patch.newFile,
+      newFile: patch.oldFile,
+      hunks: reversePatch(patch.hunks)
+    }))
+    .join('');
+}
+
+/**
+ * 获取覆盖整个文本的范围
+ * @param content 文本内容
+ */
+function fullRange(content: string): vscode.Range {
+  const lines = content.split('\n');
+  const lastLine = lines.length - 1;
+  return new vscode.Range(0, 0, lastLine, lines[lastLine].length);
+}
@@ -0,0 +1,85 @@
+/**
+ * 适配器测试使用的本地 HTTP 桩服务
+ * 在当前测试文件中注册启动和关闭钩子，记录收到的请求并交给测试设置的处理函数响应
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * 桩服务收到的请求
+ */
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  /** 解析后的 JSON 请求体，没有请求体时为 undefined */
+  body: any;
+}
+
+/**
+ * 桩服务的响应处理函数
+ */
+export type StubHandler = (request: RecordedRequest, res: http.ServerResponse) => void;
+
+/**
+ * 桩服务
+ */
+export interface StubServer {
+  /** 服务地址（含基础路径），在 beforeAll 之后可用 */
+  baseUrl: string;
+  /** 当前测试收到的请求，每个测试开始前清空 */
+  requests: RecordedRequest[];
+  /** 设置响应处理函数 */
+  setHandler(handler: StubHandler): void;
+}
+
+/**
+ * 在当前测试文件中使用桩服务
+ * @param basePath 追加在 baseUrl 后的基础路径（如 /v1）
+ * @returns 桩服务
+ */
+export function useStubServer(basePath = ''): StubServer {
+  let server: http.Server;
+  let handler: StubHandler = (_request, res) => {
+    res.writeHead(500);
+    res.end();
+  };
+
+  const stub: StubServer = {
+    baseUrl: '',
+    requests: [],
+    setHandler(next) {
+      handler = next;
+    }
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const recorded: RecordedRequest = {
+          method: req.method || '',
+          url: req.url || '',
+          headers: req.headers,
+          body: body ? JSON.parse(body) : undefined
+        };
+        stub.requests.push(recorded);
+        handler(recorded, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    stub.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}${basePath}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  return stub;
+}
@@ -0,0 +1,182 @@
+/**
+ * Anthropic 适配器单元测试
+ * 使用本地 HTTP 桩服务验证 Messages API 的请求格式、内容块转换和 SSE 事件解析
+ */
+
+import * as http from 'http';
+import { AnthropicAdapter } from './anthropic';
+import { ModelConfig } from '../types';
+import { useStubServer } from './__helpers__/stubServer';
+
+const stub = useStubServer();
+
+function sendEvents(res: http.ServerResponse, events: Array<{ type: string; [key: string]: unknown }>): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  const payload = events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+  // 故意把事件拆成多个数据块，验证跨数据块的缓冲
+  const middle = Math.floor(payload.length / 2);
+  res.write(payload.slice(0, middle));
+  res.end(payload.slice(middle));
+}
+
+function createAdapter(): AnthropicAdapter {
+  const config: ModelConfig = {
+    modelId: 'claude',
+    modelName: 'claude-sonnet',
+    displayName: 'Claude Sonnet',
+    vendor: 'anthropic',
+    maxContextTokens: 200000,
+    supportMultimodal: false,
+    apiKey: 'test-key',
+    apiBaseUrl: stub.baseUrl
+  };
+  return new AnthropicAdapter(config);
+}
+
+describe('AnthropicAdapter', () => {
+  it('moves system messages into the system field and converts content blocks', async () => {
+    stub.setHandler((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        content: [
+          { type: 'text', text: '我来读取文件。' },
+          { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'a.ts' } }
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 20, output_tokens: 8 }
+      }));
+    });
+
+    const response = await createAdapter().chat({
+      messages: [
+        { role: 'system', content: '你是编程助手' },
+        { role: 'user', content: '看看 a.ts' }
+      ],
+      model: 'claude-sonnet',
+      stream: false
+    });
+
+    expect(stub.requests[0].url).toBe('/messages');
+    expect(stub.requests[0].headers['x-api-key']).toBe('test-key');
+    expect(stub.requests[0].headers['anthropic-version']).toBeDefined();
+    expect(stub.requests[0].body).toMatchObject({
+      model: 'claude-sonnet',
+      system: '你是编程助手',
+      max_tokens: 4096,
+      messages: [{ role: 'user' }]
+    });
+    expect(response.content).toBe('我来读取文件。');
+    expect(response.toolCalls).toEqual([{ id: 'toolu_1', name: 'read_file', arguments: '{"path":"a.ts"}' }]);
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.usage).toEqual({ promptTokens: 20, completionTokens: 8, totalTokens: 28 });
+  });
+
+  it('carries the HTTP status on error responses', async () => {
+    stub.setHandler((_req, res) => {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ type: 'error', error: { type: 'api_error', message: 'Internal error' } }));
+    });
+
+    const response = await createAdapter().chat({
+      messages: [{ role: 'user', content: '你好' }],
+      model: 'claude-sonnet',
+      stream: false
+    });
+
+    expect(response.finishReason).toBe('error');
+    expect(response.status).toBe(503);
+  });
+
+  it('merges consecutive tool results into one user message', async () => {
+    stub.setHandler((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        content: [{ type: 'text', text: '完成' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 1, output_tokens: 1 }
+      }));
+    });
+
+    await createAdapter().chat({
+      messages: [
+        { role: 'user', content: '读取两个文件' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            { id: 'toolu_1', name: 'read_file', arguments: '{"path":"a.ts"}' },
+            { id: 'toolu_2', name: 'read_file', arguments: '{"path":"b.ts"}' }
+          ]
+        },
+        { role: 'tool', content: 'a', toolCallId: 'toolu_1' },
+        { role: 'tool', content: 'b', toolCallId: 'toolu_2' }
+      ],
+      model: 'claude-sonnet',
+      stream: false
+    });
+
+    const messages = stub.requests[0].body.messages;
+    expect(messages.map((message: any) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[2].content).toEqual([
+      expect.objectContaining({ type: 'tool_result', tool_use_id: 'toolu_1' }),
+      expect.objectContaining({ type: 'tool_result', tool_use_id: 'toolu_2' })
+    ]);
+  });
+
+  it('parses text and tool argument deltas from the SSE stream', async () => {
+    stub.setHandler((_req, res) => sendEvents(res, [
+      { type: 'message_start', message: { id: 'msg_1' } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '好的，' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '读取中' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"a.ts"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' } },
+      { type: 'message_stop' }
+    ]));
+
+    const chunks: string[] = [];
+    const deltas: any[] = [];
+    await new Promise<void>((resolve, reject) => {
+      createAdapter().chatStream(
+        { messages: [{ role: 'user', content: '读取 a.ts' }], model: 'claude-sonnet', stream: true },
+        chunk => chunks.push(chunk),
+        resolve,
+        reject,
+        delta => deltas.push(delta)
+      );
+    });
+
+    expect(stub.requests[0].body.stream).toBe(true);
+    expect(chunks.join('')).toBe('好的，读取中');
+    expect(deltas).toEqual([
+      { index: 0, id: 'toolu_1', name: 'read_file' },
+      { index: 0, argumentsDelta: '{"path":' },
+      { index: 0, argumentsDelta: '"a.ts"}' }
+    ]);
+  });
+
+  it('reports error events from the SSE stream', async () => {
+    stub.setHandler((_req, res) => sendEvents(res, [
+      { type: 'message_start', message: { id: 'msg_1' } },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }
+    ]));
+
+    const error = await new Promise<Error>((resolve, reject) => {
+      createAdapter().chatStream(
+        { messages: [{ role: 'user', content: '你好' }], model: 'claude-sonnet', stream: true },
+        () => undefined,
+        () => reject(new Error('stream should fail')),
+        resolve
+      );
+    });
+
+    expect(error.message).toContain('overloaded_error');
+  });
+});
@@ -0,0 +1,615 @@
+/**
+ * Anthropic模型适配器
+ * 实现Anthropic Messages API（及兼容该协议的服务）的格式转换和调用逻辑
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import {
+  ModelAdapter,
+  ModelConfig,
+  ChatRequest,
+  ChatResponse,
+  ChatMessage,
+  CodeContext,
+  CompletionSuggestion,
+  ToolCall,
+  ToolCallDelta,
+  ToolDefinition,
+} from '../types';
+import { IPromptManager } from '../../prompts/types';
+import { getTokenizer } from '../tokenizer';
+
+/** Messages API 版本 */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** 请求未指定 maxTokens 时使用的默认值（Messages API 要求必填） */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Anthropic内容块
+ */
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+/**
+ * Anthropic API消息格式
+ * 系统提示词不在消息列表中，而是作为请求的 system 字段
+ */
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic API工具定义格式
+ */
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, any>;
+}
+
+/**
+ * Anthropic API请求格式
+ */
+interface AnthropicChatRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string;
+  max_tokens: number;
+  stream?: boolean;
+  temperature?: number;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'auto' | 'any' | 'none' } | { type: 'tool'; name: string };
+}
+
+/**
+ * Anthropic API响应格式
+ */
+interface AnthropicChatResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Anthropic流式事件
+ * 每个 SSE 事件的 data 字段，type 与 event 字段相同
+ */
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicChatResponse }
+  | { type: 'content_block_start'; index: number; content_block: AnthropicContentBlock }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: { stop_reason: string | null }; usage?: { output_tokens: number } }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+/**
+ * Anthropic适配器实现
+ */
+export class AnthropicAdapter implements ModelAdapter {
+  private axiosInstance: AxiosInstance;
+  private config: ModelConfig;
+  private promptManager?: IPromptManager;
+
+  constructor(config: ModelConfig, promptManager?: IPromptManager) {
+    this.config = config;
+    this.promptManager = promptManager;
+    this.axiosInstance = axios.create({
+      baseURL: config.apiBaseUrl || 'https://api.anthropic.com/v1',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      timeout: 60000, // 60秒超时
+    });
+  }
+
+  /**
+   * 发送聊天请求
+   */
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    try {
+      const anthropicRequest = await this.convertToAnthropicFormat(request);
+      const response = await this.axiosInstance.post<AnthropicChatResponse>(
+        '/messages',
+        anthropicRequest
+      );
+      return this.convertFromAnthropicFormat(response.data);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * 发送流式聊天请求
+   * 响应为 SSE 事件流：文本和工具参数分别以 text_delta、input_json_delta 增量返回
+   */
+  async chatStream(
+    request: ChatRequest,
+    onChunk: (chunk: string) => void,
+    onEnd: () => void,
+    onError: (error: Error) => void,
+    onToolCallDelta?: (delta: ToolCallDelta) => void
+  ): Promise<void> {
+    try {
+      const anthropicRequest = await this.convertToAnthropicFormat(request);
+      anthropicRequest.stream = true;
+
+      const response = await this.axiosInstance.post(
+        '/messages',
+        anthropicRequest,
+        {
+          responseType: 'stream',
+        }
+      );
+
+      let buffer = '';
+      let finished = false;
+      // 内容块序号 -> 工具调用序号（文本块和工具块共用内容块序号）
+      const toolIndexes = new Map<number, number>();
+
+      const finish = (error?: Error) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        if (error) {
+          onError(error);
+        } else {
+          onEnd();
+        }
+      };
+
+      const handleEvent = (event: AnthropicStreamEvent) => {
+        switch (event.type) {
+          case 'content_block_start':
+            if (event.content_block.type === 'tool_use') {
+              const toolIndex = toolIndexes.size;
+              toolIndexes.set(event.index, toolIndex);
+              onToolCallDelta?.({
+                index: toolIndex,
+                id: event.content_block.id,
+                name: event.content_block.name,
+              });
+            } else if (event.content_block.type === 'text' && event.content_block.text) {
+              onChunk(event.content_block.text);
+            }
+            break;
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              onChunk(event.delta.text);
+            } else if (event.delta.type === 'input_json_delta' && toolIndexes.has(event.index)) {
+              onToolCallDelta?.({
+                index: toolIndexes.get(event.index)!,
+                argumentsDelta: event.delta.partial_json,
+              });
+            }
+            break;
+          case 'message_stop':
+            finish();
+            break;
+          case 'error':
+            finish(new Error(`Anthropic stream error (${event.error.type}): ${event.error.message}`));
+            break;
+        }
+      };
+
+      response.data.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        // 只解析 data 行，事件类型同时包含在 data 的 type 字段中
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          try {
+            handleEvent(JSON.parse(line.slice(5).trim()) as AnthropicStreamEvent);
+          } catch (parseError) {
+            // 忽略解析错误，继续处理下一行
+          }
+        }
+      });
+
+      response.data.on('error', (error: Error) => {
+        finish(error);
+      });
+
+      response.data.on('end', () => {
+        finish();
+      });
+    } catch (error) {
+      onError(error as Error);
+    }
+  }
+
+  /**
+   * 发送补全请求
+   */
+  async complete(
+    context: CodeContext,
+    prefix: string,
+    suffix: string
+  ): Promise<CompletionSuggestion[]> {
+    try {
+      const request: ChatRequest = {
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a code completion assistant. Provide concise code completions based on context. Return only the completion code without explanations.',
+          },
+          {
+            role: 'user',
+            content: this.buildCompletionPrompt(context, prefix, suffix),
+          },
+        ],
+        model: this.config.modelName,
+        stream: false,
+        temperature: 0.2, // 较低的温度以获得更确定的补全
+        maxTokens: 150,
+      };
+
+      const response = await this.chat(request);
+      if (response.finishReason === 'error') {
+        return [];
+      }
+
+      return this.parseCompletionResponse(response.content);
+    } catch (error) {
+      console.error('Anthropic completion error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 验证配置
+   */
+  async validateConfig(config: ModelConfig): Promise<boolean> {
+    try {
+      if (!config.modelId || !config.apiKey) {
+        return false;
+      }
+
+      const response = await this.chat({
+        messages: [{ role: 'user', content: 'Hi' }],
+        model: config.modelName,
+        stream: false,
+        maxTokens: 5,
+      });
+      return response.finishReason !== 'error';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 计算token数量
+   * Anthropic 未公开分词器，使用 cl100k_base 近似计算
+   */
+  countTokens(text: string): number {
+    return getTokenizer(this.config).count(text);
+  }
+
+  /**
+   * 转换为Anthropic API格式
+   * 系统消息合并为 system 字段；连续的同角色消息（如多条工具结果）合并为一条，保证用户和助手交替出现
+   */
+  private async convertToAnthropicFormat(request: ChatRequest): Promise<AnthropicChatRequest> {
+    const systemParts: string[] = [];
+    const messages: AnthropicMessage[] = [];
+
+    for (const msg of request.messages) {
+      if (msg.role === 'system') {
+        systemParts.push(await this.enrichMessageContent(msg));
+        continue;
+      }
+
+      const converted = await this.convertMessage(msg);
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === converted.role) {
+        previous.content = [...this.toBlocks(previous.content), ...this.toBlocks(converted.content)];
+      } else {
+        messages.push(converted);
+      }
+    }
+
+    return {
+      model: request.model,
+      messages,
+      system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: request.stream,
+      temperature: request.temperature,
+      tools: this.convertTools(request.tools),
+      tool_choice: this.convertToolChoice(request),
+    };
+  }
+
+  /**
+   * 转换单条消息为Anthropic API格式
+   * 工具结果作为用户消息中的 tool_result 块，工具调用作为助手消息中的 tool_use 块
+   */
+  private async convertMessage(msg: ChatMessage): Promise<AnthropicMessage> {
+    if (msg.role === 'tool') {
+      return {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: msg.toolCallId || '', content: msg.content }],
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: [
+          ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+          ...msg.toolCalls.map(call => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: this.parseArguments(call.arguments),
+          })),
+        ],
+      };
+    }
+
+    return {
+      role: msg.role === 'assistant' ? 'assistant' : 'user',
+      content: await this.enrichMessageContent(msg),
+    };
+  }
+
+  /**
+   * 将消息内容统一为内容块数组
+   */
+  private toBlocks(content: string | AnthropicContentBlock[]): AnthropicContentBlock[] {
+    return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+  }
+
+  /**
+   * 解析工具调用参数
+   * 模型生成的参数可能不是合法JSON，此时作为原始字符串传回
+   */
+  private parseArguments(args: string): Record<string, any> {
+    if (!args) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(args);
+      return parsed && typeof parsed === 'object' ? parsed : { value: parsed };
+    } catch {
+      return { raw: args };
+    }
+  }
+
+  /**
+   * 转换工具定义为Anthropic API格式
+   */
+  private convertTools(tools?: ToolDefinition[]): AnthropicTool[] | undefined {
+    if (!tools || tools.length === 0) {
+      return undefined;
+    }
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    }));
+  }
+
+  /**
+   * 转换工具选择策略为Anthropic API格式
+   */
+  private convertToolChoice(request: ChatRequest): AnthropicChatRequest['tool_choice'] {
+    const choice = request.toolChoice;
+    if (!choice || !request.tools || request.tools.length === 0) {
+      return undefined;
+    }
+    if (choice === 'required') {
+      return { type: 'any' };
+    }
+    if (typeof choice === 'string') {
+      return { type: choice };
+    }
+    return { type: 'tool', name: choice.name };
+  }
+
+  /**
+   * 从Anthropic API格式转换
+   */
+  private convertFromAnthropicFormat(response: AnthropicChatResponse): ChatResponse {
+    const text = response.content
+      .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+    const toolCalls: ToolCall[] = response.content
+      .filter((block): block is { type: 'tool_use'; id: string; name: string; input: Record<string, any> } =>
+        block.type === 'tool_use'
+      )
+      .map(block => ({
+        id: block.id,
+        name: block.name,
+        arguments: JSON.stringify(block.input ?? {}),
+      }));
+
+    return {
+      content: text,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: this.mapFinishReason(response.stop_reason),
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+    };
+  }
+
+  /**
+   * 丰富消息内容，包含代码上下文
+   * 如果配置了 PromptManager，使用模板系统；否则使用原有的硬编码逻辑
+   */
+  private async enrichMessageContent(message: ChatMessage): Promise<string> {
+    // 如果配置了 PromptManager，使用模板系统
+    if (this.promptManager) {
+      return await this.promptManager.enrichMessageContent(message);
+    }
+
+    // 否则使用原有的硬编码逻辑（向后兼容）
+    let content = message.content;
+
+    if (message.context) {
+      const ctx = message.context;
+
+      // 添加选中的代码
+      if (ctx.selection) {
+        content += `\n\nSelected code:\n\`\`\`${ctx.currentFile.language}\n${ctx.selection.text}\n\`\`\``;
+      }
+
+      // 添加当前文件信息
+      if (ctx.currentFile && !ctx.selection) {
+        content += `\n\nCurrent file (${ctx.currentFile.path}):\n\`\`\`${ctx.currentFile.language}\n${ctx.currentFile.content}\n\`\`\``;
+      }
+
+      // 添加相关文件信息
+      if (ctx.relatedFiles && ctx.relatedFiles.length > 0) {
+        content += '\n\nRelated files:';
+        ctx.relatedFiles.forEach(file => {
+          content += `\n- ${file.path}:\n\`\`\`\n${file.excerpt}\n\`\`\``;
+        });
+      }
+    }
+
+    return content;
+  }
+
+  /**
+   * 构建补全提示词
+   */
+  private buildCompletionPrompt(
+    context: CodeContext,
+    prefix: string,
+    suffix: string
+  ): string {
+    let prompt = `File type: ${context.currentFile.language}\n\n`;
+
+    // 添加相关导入和定义
+    if (context.relatedFiles && context.relatedFiles.length > 0) {
+      prompt += 'Related context:\n';
+      context.relatedFiles.forEach(file => {
+        prompt += `${file.excerpt}\n`;
+      });
+      prompt += '\n';
+    }
+
+    prompt += 'Please provide code completion for:\n\n';
+    prompt += '```' + context.currentFile.language + '\n';
+    prompt += prefix;
+    prompt += '<CURSOR>';
+    if (suffix) {
+      prompt += '\n' + suffix;
+    }
+    prompt += '\n```\n\n';
+    prompt += 'Return only the code that should be inserted at <CURSOR> position.';
+
+    return prompt;
+  }
+
+  /**
+   * 解析补全响应
+   */
+  private parseCompletionResponse(content: string): CompletionSuggestion[] {
+    // 提取代码块
+    const codeBlockRegex = /```[\w]*\n([\s\S]*?)\n```/;
+    const match = content.match(codeBlockRegex);
+
+    const completionText = match ? match[1] : content.trim();
+
+    if (!completionText) {
+      return [];
+    }
+
+    return [
+      {
+        text: completionText,
+        kind: 'text',
+        detail: 'AI Suggestion',
+        documentation: 'Code completion generated by Anthropic',
+      },
+    ];
+  }
+
+  /**
+   * 映射结束原因
+   */
+  private mapFinishReason(reason: string | null): 'stop' | 'length' | 'tool_calls' | 'error' {
+    switch (reason) {
+      case 'end_turn':
+      case 'stop_sequence':
+        return 'stop';
+      case 'max_tokens':
+        return 'length';
+      case 'tool_use':
+        return 'tool_calls';
+      default:
+        return 'error';
+    }
+  }
+
+  /**
+   * 处理错误
+   */
+  private handleError(error: any): ChatResponse {
+    let errorMessage = 'Unknown error';
+
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        // 服务器返回错误
+        const status = error.response.status;
+        const data = error.response.data;
+
+        if (status === 401) {
+          errorMessage = 'Authentication failed: Invalid API key';
+        } else if (status === 429) {
+          errorMessage = 'Rate limit exceeded: Please try again later';
+        } else if (status === 529) {
+          errorMessage = 'Anthropic API overloaded: Please try again later';
+        } else if (status >= 500) {
+          errorMessage = 'Anthropic server error: Please try again later';
+        } else {
+          errorMessage = `API error (${status}): ${
+            data?.error?.message || error.response.statusText
+          }`;
+        }
+      } else if (error.request) {
+        // 请求发送但没有响应
+        errorMessage = 'Network error: Unable to connect to Anthropic API';
+      } else {
+        // 请求配置错误
+        errorMessage = `Request error: ${error.message}`;
+      }
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+
+    return {
+      content: `Error: ${errorMessage}`,
+      finishReason: 'error',
+      status: axios.isAxiosError(error) ? error.response?.status : undefined,
+      errorCode: axios.isAxiosError(error) && !error.response ? error.code : undefined,
+    };
+  }
+}
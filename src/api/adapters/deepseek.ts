@@ -12,15 +12,59 @@ import {
   ChatMessage,
   CodeContext,
   CompletionSuggestion,
+  ToolCall,
+  ToolCallDelta,
+  ToolChoice,
+  ToolDefinition,
 } from '../types';
 import { IPromptManager } from '../../prompts/types';
+import { getTokenizer } from '../tokenizer';
 
 /**
  * DeepSeek API消息格式
  */
 interface DeepSeekMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: DeepSeekToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * DeepSeek API工具定义格式
+ */
+interface DeepSeekTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * DeepSeek API工具调用格式
+ */
+interface DeepSeekToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * DeepSeek流式响应中的工具调用片段
+ */
+interface DeepSeekToolCallChunk {
+  index?: number;
+  id?: string;
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
 }
 
 /**
@@ -32,6 +76,8 @@ interface DeepSeekChatRequest {
   stream?: boolean;
   temperature?: number;
   max_tokens?: number;
+  tools?: DeepSeekTool[];
+  tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
 }
 
 /**
@@ -46,7 +92,8 @@ interface DeepSeekChatResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: DeepSeekToolCall[];
     };
     finish_reason: string;
   }>;
@@ -70,6 +117,7 @@ interface DeepSeekStreamChunk {
     delta: {
       role?: string;
       content?: string;
+      tool_calls?: DeepSeekToolCallChunk[];
     };
     finish_reason: string | null;
   }>;
@@ -119,7 +167,8 @@ export class DeepSeekAdapter implements ModelAdapter {
     request: ChatRequest,
     onChunk: (chunk: string) => void,
     onEnd: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    onToolCallDelta?: (delta: ToolCallDelta) => void
   ): Promise<void> {
     try {
       const deepseekRequest = await this.convertToDeepSeekFormat(request);
@@ -154,6 +203,12 @@ export class DeepSeekAdapter implements ModelAdapter {
               if (content) {
                 onChunk(content);
               }
+              const toolCallChunks = data.choices[0]?.delta?.tool_calls;
+              if (toolCallChunks && onToolCallDelta) {
+                toolCallChunks.forEach((toolCallChunk, i) => {
+                  onToolCallDelta(this.convertToolCallChunk(toolCallChunk, i));
+                });
+              }
               if (data.choices[0]?.finish_reason) {
                 onEnd();
               }
@@ -247,13 +302,10 @@ export class DeepSeekAdapter implements ModelAdapter {
 
   /**
    * 计算token数量
-   * 使用简单的估算方法：英文按空格分词，中文按字符计数
+   * 按 DeepSeek 官方给出的中英文字符换算比例计算
    */
   countTokens(text: string): number {
-    // 简单估算：中文字符约1.5 tokens，英文单词约1 token
-    const chineseChars = (text.match(/[\u4e00-\u9fa5]/g) || []).length;
-    const englishWords = text.split(/\s+/).filter(word => /[a-zA-Z]/.test(word)).length;
-    return Math.ceil(chineseChars * 1.5 + englishWords);
+    return getTokenizer(this.config).count(text);
   }
 
   /**
@@ -261,10 +313,7 @@ export class DeepSeekAdapter implements ModelAdapter {
    */
   private async convertToDeepSeekFormat(request: ChatRequest): Promise<DeepSeekChatRequest> {
     const messages = await Promise.all(
-      request.messages.map(async msg => ({
-        role: msg.role,
-        content: await this.enrichMessageContent(msg),
-      }))
+      request.messages.map(msg => this.convertMessage(msg))
     );
     
     return {
@@ -273,6 +322,98 @@ export class DeepSeekAdapter implements ModelAdapter {
       stream: request.stream,
       temperature: request.temperature,
       max_tokens: request.maxTokens,
+      tools: this.convertTools(request.tools),
+      tool_choice: this.convertToolChoice(request),
+    };
+  }
+
+  /**
+   * 转换单条消息为DeepSeek API格式
+   * 工具结果消息和带工具调用的助手消息保持原样，不经过模板系统
+   */
+  private async convertMessage(msg: ChatMessage): Promise<DeepSeekMessage> {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        content: msg.content,
+        tool_call_id: msg.toolCallId,
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+
+    return {
+      role: msg.role,
+      content: await this.enrichMessageContent(msg),
+    };
+  }
+
+  /**
+   * 转换工具定义为DeepSeek API格式
+   */
+  private convertTools(tools?: ToolDefinition[]): DeepSeekTool[] | undefined {
+    if (!tools || tools.length === 0) {
+      return undefined;
+    }
+    return tools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * 转换工具选择策略为DeepSeek API格式
+   */
+  private convertToolChoice(request: ChatRequest): DeepSeekChatRequest['tool_choice'] {
+    const choice: ToolChoice | undefined = request.toolChoice;
+    if (!choice || !request.tools || request.tools.length === 0) {
+      return undefined;
+    }
+    if (typeof choice === 'string') {
+      return choice;
+    }
+    return { type: 'function', function: { name: choice.name } };
+  }
+
+  /**
+   * 从DeepSeek API格式转换工具调用
+   */
+  private convertToolCalls(toolCalls?: DeepSeekToolCall[]): ToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+    return toolCalls.map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments || '',
+    }));
+  }
+
+  /**
+   * 从DeepSeek流式片段转换工具调用增量
+   * @param chunk 工具调用片段
+   * @param position 片段在数组中的位置（片段未携带 index 时使用）
+   */
+  private convertToolCallChunk(chunk: DeepSeekToolCallChunk, position: number): ToolCallDelta {
+    return {
+      index: chunk.index ?? position,
+      id: chunk.id,
+      name: chunk.function?.name,
+      argumentsDelta: chunk.function?.arguments,
     };
   }
 
@@ -282,7 +423,8 @@ export class DeepSeekAdapter implements ModelAdapter {
   private convertFromDeepSeekFormat(response: DeepSeekChatResponse): ChatResponse {
     const choice = response.choices[0];
     return {
-      content: choice.message.content,
+      content: choice.message.content || '',
+      toolCalls: this.convertToolCalls(choice.message.tool_calls),
       finishReason: this.mapFinishReason(choice.finish_reason),
       usage: {
         promptTokens: response.usage.prompt_tokens,
@@ -389,12 +531,14 @@ export class DeepSeekAdapter implements ModelAdapter {
   /**
    * 映射结束原因
    */
-  private mapFinishReason(reason: string): 'stop' | 'length' | 'error' {
+  private mapFinishReason(reason: string): 'stop' | 'length' | 'tool_calls' | 'error' {
     switch (reason) {
       case 'stop':
         return 'stop';
       case 'length':
         return 'length';
+      case 'tool_calls':
+        return 'tool_calls';
       default:
         return 'error';
     }
@@ -426,6 +570,8 @@ export class DeepSeekAdapter implements ModelAdapter {
     return {
       content: `错误: ${errorMessage}`,
       finishReason: 'error',
+      status: axios.isAxiosError(error) ? error.response?.status : undefined,
+      errorCode: axios.isAxiosError(error) && !error.response ? error.code : undefined,
     };
   }
 }
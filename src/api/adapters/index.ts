@@ -6,3 +6,5 @@
 export { DeepSeekAdapter } from './deepseek';
 export { OpenAIAdapter } from './openai';
 export { ZhipuAIAdapter } from './zhipuai';
+export { AnthropicAdapter } from './anthropic';
+export { OllamaAdapter, OllamaPullStatus } from './ollama';
@@ -0,0 +1,191 @@
+/**
+ * Ollama 原生适配器单元测试
+ * 使用本地 HTTP 桩服务验证 /api/chat、/api/generate 和 /api/pull 的请求与 NDJSON 解析
+ */
+
+import * as http from 'http';
+import { OllamaAdapter, OllamaPullStatus } from './ollama';
+import { ModelConfig } from '../types';
+import { useStubServer } from './__helpers__/stubServer';
+
+const stub = useStubServer();
+
+function sendJson(res: http.ServerResponse, data: unknown, status = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+function sendNdjson(res: http.ServerResponse, lines: unknown[]): void {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  // 故意把行拆成多个数据块，验证跨数据块的缓冲
+  const payload = lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+  const middle = Math.floor(payload.length / 2);
+  res.write(payload.slice(0, middle));
+  res.end(payload.slice(middle));
+}
+
+function createAdapter(overrides: Partial<ModelConfig> = {}): OllamaAdapter {
+  return new OllamaAdapter({
+    modelId: 'ollama-qwen',
+    modelName: 'qwen2.5-coder:7b',
+    displayName: 'Qwen2.5 Coder',
+    vendor: 'ollama',
+    maxContextTokens: 8192,
+    supportMultimodal: false,
+    apiKey: '',
+    apiBaseUrl: stub.baseUrl,
+    keepAlive: '10m',
+    ...overrides
+  });
+}
+
+describe('OllamaAdapter', () => {
+  it('sends non-streaming chat requests to /api/chat with keep_alive', async () => {
+    stub.setHandler((_req, res) => sendJson(res, {
+      model: 'qwen2.5-coder:7b',
+      message: { role: 'assistant', content: '你好' },
+      done: true,
+      done_reason: 'stop',
+      prompt_eval_count: 12,
+      eval_count: 3
+    }));
+
+    const response = await createAdapter().chat({
+      messages: [
+        { role: 'system', content: '你是编程助手' },
+        { role: 'user', content: '打个招呼' }
+      ],
+      model: 'qwen2.5-coder:7b',
+      stream: false
+    });
+
+    expect(response.content).toBe('你好');
+    expect(response.finishReason).toBe('stop');
+    expect(stub.requests[0].url).toBe('/api/chat');
+    expect(stub.requests[0].body).toMatchObject({
+      model: 'qwen2.5-coder:7b',
+      stream: false,
+      keep_alive: '10m',
+      messages: [
+        { role: 'system', content: '你是编程助手' },
+        { role: 'user', content: '打个招呼' }
+      ]
+    });
+  });
+
+  it('streams NDJSON chat chunks and tool calls', async () => {
+    stub.setHandler((_req, res) => sendNdjson(res, [
+      { message: { role: 'assistant', content: '第一段' }, done: false },
+      { message: { role: 'assistant', content: '第二段' }, done: false },
+      {
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a.ts' } } }]
+        },
+        done: false
+      },
+      { message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop' }
+    ]));
+
+    const chunks: string[] = [];
+    const deltas: any[] = [];
+    await new Promise<void>((resolve, reject) => {
+      createAdapter().chatStream(
+        { messages: [{ role: 'user', content: '读取文件' }], model: 'qwen2.5-coder:7b', stream: true },
+        chunk => chunks.push(chunk),
+        resolve,
+        reject,
+        delta => deltas.push(delta)
+      );
+    });
+
+    expect(chunks).toEqual(['第一段', '第二段']);
+    expect(deltas).toEqual([
+      { index: 0, id: 'call_0', name: 'read_file', argumentsDelta: '{"path":"a.ts"}' }
+    ]);
+    expect(stub.requests[0].body.stream).toBe(true);
+  });
+
+  it('reports errors returned inside the NDJSON stream', async () => {
+    stub.setHandler((_req, res) => sendNdjson(res, [{ error: 'model not found' }]));
+
+    const error = await new Promise<Error>((resolve, reject) => {
+      createAdapter().chatStream(
+        { messages: [{ role: 'user', content: '你好' }], model: 'qwen2.5-coder:7b', stream: true },
+        () => undefined,
+        () => reject(new Error('stream should fail')),
+        resolve
+      );
+    });
+
+    expect(error.message).toContain('model not found');
+  });
+
+  it('streams completions from /api/generate with the suffix parameter', async () => {
+    stub.setHandler((_req, res) => sendNdjson(res, [
+      { response: 'return a', done: false },
+      { response: ' + b;', done: false },
+      { response: '', done: true }
+    ]));
+
+    const partials: string[] = [];
+    const suggestions = await createAdapter({ modelName: 'llama3' }).complete(
+      {
+        currentFile: { path: 'math.ts', language: 'typescript', content: '' },
+        cursorContext: { line: 1, column: 2, beforeCursor: '', afterCursor: '' }
+      },
+      'function add(a, b) {\n  ',
+      '\n}',
+      partial => partials.push(partial)
+    );
+
+    expect(suggestions[0].text).toBe('return a + b;');
+    expect(partials).toEqual(['return a', 'return a + b;']);
+    expect(stub.requests[0].url).toBe('/api/generate');
+    expect(stub.requests[0].body).toMatchObject({ prompt: 'function add(a, b) {\n  ', suffix: '\n}', stream: true });
+  });
+
+  it('propagates FIM generation failures so they can be recorded', async () => {
+    stub.setHandler((_req, res) => sendJson(res, { error: 'model requires more system memory' }, 500));
+
+    await expect(createAdapter().complete(
+      { currentFile: { path: 'math.ts', language: 'typescript', content: '' } },
+      'function add(a, b) {\n  ',
+      '\n}'
+    )).rejects.toThrow();
+    expect(stub.requests[0].body).toMatchObject({ raw: true, stream: false });
+  });
+
+  it('checks pulled models against /api/tags', async () => {
+    stub.setHandler((_req, res) => sendJson(res, { models: [{ name: 'llama3:latest' }, { name: 'qwen2.5-coder:7b' }] }));
+
+    const adapter = createAdapter();
+    await expect(adapter.hasModel('llama3')).resolves.toBe(true);
+    await expect(adapter.hasModel('qwen2.5-coder:7b')).resolves.toBe(true);
+    await expect(adapter.hasModel('mistral')).resolves.toBe(false);
+  });
+
+  it('reports model pull status line by line', async () => {
+    stub.setHandler((_req, res) => sendNdjson(res, [
+      { status: 'pulling manifest' },
+      { status: 'downloading', digest: 'sha256:abc', total: 100, completed: 40 },
+      { status: 'downloading', digest: 'sha256:abc', total: 100, completed: 100 },
+      { status: 'success' }
+    ]));
+
+    const statuses: OllamaPullStatus[] = [];
+    await createAdapter().pullModel(status => statuses.push(status));
+
+    expect(stub.requests[0].url).toBe('/api/pull');
+    expect(stub.requests[0].body).toEqual({ model: 'qwen2.5-coder:7b', stream: true });
+    expect(statuses.map(status => status.status)).toEqual(['pulling manifest', 'downloading', 'downloading', 'success']);
+    expect(statuses[1]).toMatchObject({ total: 100, completed: 40 });
+  });
+
+  it('rejects when the pull stream reports an error', async () => {
+    stub.setHandler((_req, res) => sendNdjson(res, [{ status: 'pulling manifest' }, { error: 'pull model manifest: file does not exist' }]));
+
+    await expect(createAdapter().pullModel()).rejects.toThrow('file does not exist');
+  });
+});
@@ -0,0 +1,758 @@
+/**
+ * Ollama模型适配器
+ * 实现Ollama原生API（/api/chat、/api/generate、/api/pull）的格式转换和调用逻辑
+ * 与OpenAI兼容接口相比，原生接口支持设置上下文长度（num_ctx）、模型驻留时间（keep_alive）和原生代码补全（suffix）
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import {
+  ModelAdapter,
+  ModelConfig,
+  ChatRequest,
+  ChatResponse,
+  ChatMessage,
+  CodeContext,
+  CompletionSuggestion,
+  ToolCall,
+  ToolCallDelta,
+  ToolDefinition,
+} from '../types';
+import { IPromptManager } from '../../prompts/types';
+import { getTokenizer } from '../tokenizer';
+import { buildFimRequest, cleanFimCompletion, getFimTemplate } from '../fim';
+
+/**
+ * Ollama API工具调用格式
+ * 参数为对象而非JSON字符串，且没有调用ID
+ */
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, any>;
+  };
+}
+
+/**
+ * Ollama API消息格式
+ */
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  /** 工具结果对应的工具名称 */
+  tool_name?: string;
+}
+
+/**
+ * Ollama API工具定义格式
+ */
+interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * Ollama模型运行参数
+ */
+interface OllamaOptions {
+  temperature?: number;
+  /** 最大生成token数 */
+  num_predict?: number;
+  /** 上下文窗口大小，未设置时Ollama使用较小的默认值并静默截断提示词 */
+  num_ctx?: number;
+  stop?: string[];
+}
+
+/**
+ * Ollama /api/chat 请求格式
+ */
+interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  stream: boolean;
+  tools?: OllamaTool[];
+  options?: OllamaOptions;
+  keep_alive?: string;
+}
+
+/**
+ * Ollama /api/chat 响应格式
+ * 流式响应为 NDJSON，每行一个相同结构的对象，最后一行 done 为 true
+ */
+interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: {
+    role: string;
+    content: string;
+    tool_calls?: OllamaToolCall[];
+  };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Ollama /api/generate 请求格式
+ */
+interface OllamaGenerateRequest {
+  model: string;
+  prompt: string;
+  /** 光标后的代码，模型模板支持时进行原生代码补全（FIM） */
+  suffix?: string;
+  /** 为 true 时不套用模型模板，提示词原样发送（用于自行拼接的 FIM 提示词） */
+  raw?: boolean;
+  stream: boolean;
+  options?: OllamaOptions;
+  keep_alive?: string;
+}
+
+/**
+ * Ollama /api/generate 响应格式
+ */
+interface OllamaGenerateResponse {
+  model: string;
+  response: string;
+  done: boolean;
+  done_reason?: string;
+}
+
+/**
+ * Ollama模型拉取进度
+ * status 为 "pulling manifest"、"pulling <digest>"、"verifying sha256 digest"、"success" 等
+ */
+export interface OllamaPullStatus {
+  status: string;
+  digest?: string;
+  /** 当前层的总字节数 */
+  total?: number;
+  /** 当前层已下载的字节数 */
+  completed?: number;
+}
+
+/**
+ * Ollama适配器实现
+ */
+export class OllamaAdapter implements ModelAdapter {
+  private axiosInstance: AxiosInstance;
+  private config: ModelConfig;
+  private promptManager?: IPromptManager;
+
+  constructor(config: ModelConfig, promptManager?: IPromptManager) {
+    this.config = config;
+    this.promptManager = promptManager;
+    this.axiosInstance = axios.create({
+      baseURL: config.apiBaseUrl || 'http://localhost:11434',
+      headers: {
+        'Content-Type': 'application/json',
+        // 本地服务不需要密钥，配置了密钥时用于经过鉴权代理的远程服务
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+      },
+      timeout: 120000, // 120秒超时（本地模型首次加载较慢）
+    });
+  }
+
+  /**
+   * 发送聊天请求
+   */
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    try {
+      const ollamaRequest = await this.convertToOllamaFormat(request);
+      ollamaRequest.stream = false;
+      const response = await this.axiosInstance.post<OllamaChatResponse>(
+        '/api/chat',
+        ollamaRequest
+      );
+      return this.convertFromOllamaFormat(response.data);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * 发送流式聊天请求
+   * 响应为 NDJSON，每行包含一段消息内容
+   */
+  async chatStream(
+    request: ChatRequest,
+    onChunk: (chunk: string) => void,
+    onEnd: () => void,
+    onError: (error: Error) => void,
+    onToolCallDelta?: (delta: ToolCallDelta) => void
+  ): Promise<void> {
+    try {
+      const ollamaRequest = await this.convertToOllamaFormat(request);
+      ollamaRequest.stream = true;
+
+      const response = await this.axiosInstance.post(
+        '/api/chat',
+        ollamaRequest,
+        {
+          responseType: 'stream',
+        }
+      );
+
+      let buffer = '';
+      let finished = false;
+      // Ollama 的工具调用在单个数据块中完整返回，按出现顺序编号
+      let toolCallCount = 0;
+
+      const finish = (error?: Error) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        if (error) {
+          onError(error);
+        } else {
+          onEnd();
+        }
+      };
+
+      const handleLine = (line: string) => {
+        if (line.trim() === '') return;
+        try {
+          const data = JSON.parse(line) as OllamaChatResponse;
+          if (data.error) {
+            finish(new Error(`Ollama error: ${data.error}`));
+            return;
+          }
+          if (data.message?.content) {
+            onChunk(data.message.content);
+          }
+          if (data.message?.tool_calls && onToolCallDelta) {
+            for (const call of data.message.tool_calls) {
+              const index = toolCallCount++;
+              onToolCallDelta({
+                index,
+                id: `call_${index}`,
+                name: call.function.name,
+                argumentsDelta: JSON.stringify(call.function.arguments ?? {}),
+              });
+            }
+          }
+          if (data.done) {
+            finish();
+          }
+        } catch (parseError) {
+          // 忽略解析错误，继续处理下一行
+        }
+      };
+
+      response.data.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      });
+
+      response.data.on('error', (error: Error) => {
+        finish(error);
+      });
+
+      response.data.on('end', () => {
+        handleLine(buffer);
+        finish();
+      });
+    } catch (error) {
+      // 保留状态码和错误码，供故障切换判断
+      onError(Object.assign(new Error(this.getErrorMessage(error)), {
+        status: axios.isAxiosError(error) ? error.response?.status : undefined,
+        code: axios.isAxiosError(error) && !error.response ? error.code : undefined,
+      }));
+    }
+  }
+
+  /**
+   * 发送补全请求
+   * 已知 FIM 模板的代码模型直接发送拼接好的 FIM 提示词；其他模型使用 /api/generate 的 suffix 参数，
+   * 模型不支持时回退到聊天方式。提供 onPartial 时以流式方式生成
+   * @throws 生成请求失败时抛出错误，由调用方记录失败并切换备用模型
+   */
+  async complete(
+    context: CodeContext,
+    prefix: string,
+    suffix: string,
+    onPartial?: (text: string) => void
+  ): Promise<CompletionSuggestion[]> {
+    const fimTemplate = getFimTemplate(this.config);
+    const fimRequest = fimTemplate
+      ? buildFimRequest(fimTemplate, prefix, suffix)
+      : undefined;
+
+    const generateRequest: OllamaGenerateRequest = {
+      model: this.config.modelName,
+      ...(fimRequest
+        ? { prompt: fimRequest.prompt, raw: true }
+        : { prompt: prefix, suffix }),
+      stream: !!onPartial,
+      options: {
+        temperature: 0.2, // 较低的温度以获得更确定的补全
+        num_predict: fimRequest ? (fimRequest.multiline ? 256 : 64) : 150,
+        num_ctx: this.config.maxContextTokens || undefined,
+        stop: fimRequest?.stop,
+      },
+      keep_alive: this.config.keepAlive,
+    };
+
+    const clean = (raw: string) => fimRequest
+      ? cleanFimCompletion(raw, fimRequest)
+      : raw.replace(/\s+$/, '');
+
+    try {
+      const raw = await this.generate(generateRequest, onPartial && (partial => onPartial(clean(partial))));
+      const text = clean(raw);
+      return text.trim() ? this.toSuggestions(text) : [];
+    } catch (error) {
+      // 模型模板不支持 suffix 时返回 400（"does not support insert"）
+      if (fimRequest || !axios.isAxiosError(error) || error.response?.status !== 400) {
+        throw error;
+      }
+    }
+
+    const response = await this.chat({
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a code completion assistant. Provide concise code completions based on context. Return only the completion code without explanations.',
+        },
+        {
+          role: 'user',
+          content: this.buildCompletionPrompt(context, prefix, suffix),
+        },
+      ],
+      model: this.config.modelName,
+      stream: false,
+      temperature: 0.2,
+      maxTokens: 150,
+    });
+    if (response.finishReason === 'error') {
+      return [];
+    }
+
+    return this.parseCompletionResponse(response.content);
+  }
+
+  /**
+   * 调用 /api/generate 生成文本
+   * 流式请求时按 NDJSON 逐行解析，每收到一段文本以累计的完整文本回调
+   * @param request 生成请求
+   * @param onText 流式生成时的回调（可选）
+   * @returns 生成的完整文本
+   */
+  private async generate(
+    request: OllamaGenerateRequest,
+    onText?: (text: string) => void
+  ): Promise<string> {
+    if (!request.stream || !onText) {
+      const response = await this.axiosInstance.post<OllamaGenerateResponse>('/api/generate', request);
+      return response.data.response;
+    }
+
+    const response = await this.axiosInstance.post('/api/generate', request, {
+      responseType: 'stream',
+    });
+
+    return new Promise<string>((resolve, reject) => {
+      let buffer = '';
+      let text = '';
+
+      response.data.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.trim() === '') continue;
+          try {
+            const data = JSON.parse(line) as OllamaGenerateResponse;
+            if (data.response) {
+              text += data.response;
+              onText(text);
+            }
+          } catch (parseError) {
+            // 忽略解析错误，继续处理下一行
+          }
+        }
+      });
+
+      response.data.on('error', reject);
+      response.data.on('end', () => resolve(text));
+    });
+  }
+
+  /**
+   * 验证配置
+   * 检查服务是否可连接，以及模型是否已拉取到本地
+   */
+  async validateConfig(config: ModelConfig): Promise<boolean> {
+    try {
+      if (!config.modelId || !config.modelName) {
+        return false;
+      }
+      return await this.hasModel(config.modelName);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 计算token数量
+   * 本地模型的分词器因模型而异，按模型名称推断，无法推断时使用 cl100k_base 近似计算
+   */
+  countTokens(text: string): number {
+    return getTokenizer(this.config).count(text);
+  }
+
+  /**
+   * 检查模型是否已拉取到本地
+   * @param modelName 模型名称，未指定标签时匹配 latest
+   */
+  async hasModel(modelName: string = this.config.modelName): Promise<boolean> {
+    const response = await this.axiosInstance.get<{ models: Array<{ name: string; model?: string }> }>('/api/tags');
+    const target = modelName.includes(':') ? modelName : `${modelName}:latest`;
+    return (response.data.models || []).some(model =>
+      model.name === modelName || model.name === target || model.model === target
+    );
+  }
+
+  /**
+   * 拉取模型到本地
+   * 拉取进度通过 NDJSON 流返回，每行一个状态
+   * @param onStatus 拉取状态回调
+   * @param modelName 模型名称，默认为当前配置的模型
+   * @throws 拉取失败时抛出错误
+   */
+  async pullModel(
+    onStatus?: (status: OllamaPullStatus) => void,
+    modelName: string = this.config.modelName
+  ): Promise<void> {
+    const response = await this.axiosInstance.post(
+      '/api/pull',
+      { model: modelName, stream: true },
+      {
+        responseType: 'stream',
+        timeout: 0, // 大模型下载可能需要很长时间
+      }
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      let buffer = '';
+      let failed = false;
+
+      const handleLine = (line: string) => {
+        if (line.trim() === '' || failed) return;
+        try {
+          const data = JSON.parse(line) as OllamaPullStatus & { error?: string };
+          if (data.error) {
+            failed = true;
+            reject(new Error(`Ollama pull failed: ${data.error}`));
+            return;
+          }
+          onStatus?.(data);
+        } catch (parseError) {
+          // 忽略解析错误，继续处理下一行
+        }
+      };
+
+      response.data.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      });
+
+      response.data.on('error', (error: Error) => {
+        failed = true;
+        reject(error);
+      });
+
+      response.data.on('end', () => {
+        handleLine(buffer);
+        if (!failed) {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * 转换为Ollama API格式
+   */
+  private async convertToOllamaFormat(request: ChatRequest): Promise<OllamaChatRequest> {
+    // 工具结果需要带上工具名称，从前面的助手消息中按调用ID查找
+    const toolNames = new Map<string, string>();
+    request.messages.forEach(msg => msg.toolCalls?.forEach(call => toolNames.set(call.id, call.name)));
+
+    const messages = await Promise.all(
+      request.messages.map(msg => this.convertMessage(msg, toolNames))
+    );
+
+    return {
+      model: request.model,
+      messages,
+      stream: request.stream,
+      // Ollama 不支持工具选择策略，toolChoice 为 none 时不传工具
+      tools: request.toolChoice === 'none' ? undefined : this.convertTools(request.tools),
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens,
+        num_ctx: this.config.maxContextTokens || undefined,
+      },
+      keep_alive: this.config.keepAlive,
+    };
+  }
+
+  /**
+   * 转换单条消息为Ollama API格式
+   * 工具结果消息和带工具调用的助手消息保持原样，不经过模板系统
+   */
+  private async convertMessage(msg: ChatMessage, toolNames: Map<string, string>): Promise<OllamaMessage> {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        content: msg.content,
+        tool_name: msg.toolCallId ? toolNames.get(msg.toolCallId) : undefined,
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: msg.content || '',
+        tool_calls: msg.toolCalls.map(call => ({
+          function: { name: call.name, arguments: this.parseArguments(call.arguments) },
+        })),
+      };
+    }
+
+    return {
+      role: msg.role,
+      content: await this.enrichMessageContent(msg),
+    };
+  }
+
+  /**
+   * 解析工具调用参数
+   * 模型生成的参数可能不是合法JSON，此时作为原始字符串传回
+   */
+  private parseArguments(args: string): Record<string, any> {
+    if (!args) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(args);
+      return parsed && typeof parsed === 'object' ? parsed : { value: parsed };
+    } catch {
+      return { raw: args };
+    }
+  }
+
+  /**
+   * 转换工具定义为Ollama API格式
+   */
+  private convertTools(tools?: ToolDefinition[]): OllamaTool[] | undefined {
+    if (!tools || tools.length === 0) {
+      return undefined;
+    }
+    return tools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * 从Ollama API格式转换
+   */
+  private convertFromOllamaFormat(response: OllamaChatResponse): ChatResponse {
+    const toolCalls: ToolCall[] | undefined = response.message?.tool_calls?.map((call, index) => ({
+      id: `call_${index}`,
+      name: call.function.name,
+      arguments: JSON.stringify(call.function.arguments ?? {}),
+    }));
+    const promptTokens = response.prompt_eval_count ?? 0;
+    const completionTokens = response.eval_count ?? 0;
+
+    return {
+      content: response.message?.content || '',
+      toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: toolCalls && toolCalls.length > 0 ? 'tool_calls' : this.mapFinishReason(response.done_reason),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  /**
+   * 丰富消息内容，包含代码上下文
+   * 如果配置了 PromptManager，使用模板系统；否则使用原有的硬编码逻辑
+   */
+  private async enrichMessageContent(message: ChatMessage): Promise<string> {
+    // 如果配置了 PromptManager，使用模板系统
+    if (this.promptManager) {
+      return await this.promptManager.enrichMessageContent(message);
+    }
+
+    // 否则使用原有的硬编码逻辑（向后兼容）
+    let content = message.content;
+
+    if (message.context) {
+      const ctx = message.context;
+
+      // 添加选中的代码
+      if (ctx.selection) {
+        content += `\n\nSelected code:\n\`\`\`${ctx.currentFile.language}\n${ctx.selection.text}\n\`\`\``;
+      }
+
+      // 添加当前文件信息
+      if (ctx.currentFile && !ctx.selection) {
+        content += `\n\nCurrent file (${ctx.currentFile.path}):\n\`\`\`${ctx.currentFile.language}\n${ctx.currentFile.content}\n\`\`\``;
+      }
+
+      // 添加相关文件信息
+      if (ctx.relatedFiles && ctx.relatedFiles.length > 0) {
+        content += '\n\nRelated files:';
+        ctx.relatedFiles.forEach(file => {
+          content += `\n- ${file.path}:\n\`\`\`\n${file.excerpt}\n\`\`\``;
+        });
+      }
+    }
+
+    return content;
+  }
+
+  /**
+   * 构建补全提示词
+   */
+  private buildCompletionPrompt(
+    context: CodeContext,
+    prefix: string,
+    suffix: string
+  ): string {
+    let prompt = `File type: ${context.currentFile.language}\n\n`;
+
+    // 添加相关导入和定义
+    if (context.relatedFiles && context.relatedFiles.length > 0) {
+      prompt += 'Related context:\n';
+      context.relatedFiles.forEach(file => {
+        prompt += `${file.excerpt}\n`;
+      });
+      prompt += '\n';
+    }
+
+    prompt += 'Please provide code completion for:\n\n';
+    prompt += '```' + context.currentFile.language + '\n';
+    prompt += prefix;
+    prompt += '<CURSOR>';
+    if (suffix) {
+      prompt += '\n' + suffix;
+    }
+    prompt += '\n```\n\n';
+    prompt += 'Return only the code that should be inserted at <CURSOR> position.';
+
+    return prompt;
+  }
+
+  /**
+   * 解析补全响应
+   */
+  private parseCompletionResponse(content: string): CompletionSuggestion[] {
+    // 提取代码块
+    const codeBlockRegex = /```[\w]*\n([\s\S]*?)\n```/;
+    const match = content.match(codeBlockRegex);
+
+    return this.toSuggestions(match ? match[1] : content.trim());
+  }
+
+  /**
+   * 将补全文本转换为补全建议
+   */
+  private toSuggestions(completionText: string): CompletionSuggestion[] {
+    if (!completionText) {
+      return [];
+    }
+
+    return [
+      {
+        text: completionText,
+        kind: 'text',
+        detail: 'AI Suggestion',
+        documentation: 'Code completion generated by Ollama',
+      },
+    ];
+  }
+
+  /**
+   * 映射结束原因
+   */
+  private mapFinishReason(reason?: string): 'stop' | 'length' | 'tool_calls' | 'error' {
+    switch (reason) {
+      case 'stop':
+      case 'load':
+      case undefined:
+        return 'stop';
+      case 'length':
+        return 'length';
+      default:
+        return 'error';
+    }
+  }
+
+  /**
+   * 处理错误
+   */
+  private handleError(error: any): ChatResponse {
+    return {
+      content: `Error: ${this.getErrorMessage(error)}`,
+      finishReason: 'error',
+      status: axios.isAxiosError(error) ? error.response?.status : undefined,
+      errorCode: axios.isAxiosError(error) && !error.response ? error.code : undefined,
+    };
+  }
+
+  /**
+   * 获取错误信息
+   */
+  private getErrorMessage(error: any): string {
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        // 服务器返回错误
+        const status = error.response.status;
+        const data = error.response.data;
+
+        if (status === 404) {
+          return `Model not found: run "ollama pull ${this.config.modelName}" or pull it from HiCode`;
+        }
+        if (status === 401 || status === 403) {
+          return 'Authentication failed: Check the API key of the Ollama proxy';
+        }
+        if (status >= 500) {
+          return `Ollama server error: ${data?.error || error.response.statusText}`;
+        }
+        return `API error (${status}): ${data?.error || error.response.statusText}`;
+      }
+      if (error.request) {
+        // 请求发送但没有响应
+        return `Network error: Unable to connect to Ollama at ${this.axiosInstance.defaults.baseURL}, is "ollama serve" running?`;
+      }
+      // 请求配置错误
+      return `Request error: ${error.message}`;
+    }
+    if (error instanceof Error) {
+      return error.message;
+    }
+    return 'Unknown error';
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * OpenAI 适配器单元测试
+ * 使用本地 HTTP 桩服务验证 FIM 补全的请求和错误处理
+ */
+
+import { OpenAIAdapter } from './openai';
+import { CodeContext } from '../types';
+import { useStubServer } from './__helpers__/stubServer';
+
+const stub = useStubServer('/v1');
+
+const CONTEXT: CodeContext = { currentFile: { path: 'math.ts', language: 'typescript', content: '' } };
+
+function createAdapter(): OpenAIAdapter {
+  return new OpenAIAdapter({
+    modelId: 'deepseek-coder',
+    modelName: 'deepseek-coder-6.7b',
+    displayName: 'DeepSeek Coder',
+    vendor: 'custom',
+    maxContextTokens: 16384,
+    supportMultimodal: false,
+    apiKey: 'test-key',
+    apiBaseUrl: stub.baseUrl,
+    fimTemplate: 'deepseek-coder'
+  });
+}
+
+describe('OpenAIAdapter FIM completion', () => {
+  it('sends the FIM prompt to /completions', async () => {
+    stub.setHandler((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ text: 'return a + b;', finish_reason: 'stop' }] }));
+    });
+
+    const suggestions = await createAdapter().complete(CONTEXT, 'function add(a, b) {\n  ', '\n}');
+
+    expect(stub.requests[0].url).toBe('/v1/completions');
+    expect(stub.requests[0].body.prompt).toContain('function add(a, b) {');
+    expect(suggestions.map(suggestion => suggestion.text)).toEqual(['return a + b;']);
+  });
+
+  it('rethrows request failures instead of returning no suggestions', async () => {
+    stub.setHandler((_req, res) => {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Service unavailable' } }));
+    });
+
+    await expect(createAdapter().complete(CONTEXT, 'const a = ', ';')).rejects.toThrow();
+  });
+});
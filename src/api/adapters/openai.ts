@@ -12,15 +12,70 @@ import {
   ChatMessage,
   CodeContext,
   CompletionSuggestion,
+  ToolCall,
+  ToolCallDelta,
+  ToolChoice,
+  ToolDefinition,
 } from '../types';
 import { IPromptManager } from '../../prompts/types';
+import { getTokenizer } from '../tokenizer';
+import { buildFimRequest, cleanFimCompletion, FimTemplate, getFimTemplate } from '../fim';
+
+/**
+ * OpenAI 文本补全响应格式（/completions）
+ */
+interface OpenAICompletionResponse {
+  choices: Array<{
+    text: string;
+    finish_reason: string | null;
+  }>;
+}
 
 /**
  * OpenAI API消息格式
  */
 interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * OpenAI API工具定义格式
+ */
+interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * OpenAI API工具调用格式
+ */
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * OpenAI流式响应中的工具调用片段
+ */
+interface OpenAIToolCallChunk {
+  index?: number;
+  id?: string;
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
 }
 
 /**
@@ -32,6 +87,8 @@ interface OpenAIChatRequest {
   stream?: boolean;
   temperature?: number;
   max_tokens?: number;
+  tools?: OpenAITool[];
+  tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
 }
 
 /**
@@ -46,7 +103,8 @@ interface OpenAIChatResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -70,6 +128,7 @@ interface OpenAIStreamChunk {
     delta: {
       role?: string;
       content?: string;
+      tool_calls?: OpenAIToolCallChunk[];
     };
     finish_reason: string | null;
   }>;
@@ -119,7 +178,8 @@ export class OpenAIAdapter implements ModelAdapter {
     request: ChatRequest,
     onChunk: (chunk: string) => void,
     onEnd: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    onToolCallDelta?: (delta: ToolCallDelta) => void
   ): Promise<void> {
     try {
       const openaiRequest = await this.convertToOpenAIFormat(request);
@@ -154,6 +214,12 @@ export class OpenAIAdapter implements ModelAdapter {
               if (content) {
                 onChunk(content);
               }
+              const toolCallChunks = data.choices[0]?.delta?.tool_calls;
+              if (toolCallChunks && onToolCallDelta) {
+                toolCallChunks.forEach((toolCallChunk, i) => {
+                  onToolCallDelta(this.convertToolCallChunk(toolCallChunk, i));
+                });
+              }
               if (data.choices[0]?.finish_reason) {
                 onEnd();
               }
@@ -182,8 +248,15 @@ export class OpenAIAdapter implements ModelAdapter {
   async complete(
     context: CodeContext,
     prefix: string,
-    suffix: string
+    suffix: string,
+    onPartial?: (text: string) => void
   ): Promise<CompletionSuggestion[]> {
+    // 代码模型使用 FIM 协议直接补全
+    const fimTemplate = getFimTemplate(this.config);
+    if (fimTemplate) {
+      return this.completeWithFim(fimTemplate, prefix, suffix, onPartial);
+    }
+
     try {
       // 构建补全提示词
       const prompt = this.buildCompletionPrompt(context, prefix, suffix);
@@ -215,6 +288,95 @@ export class OpenAIAdapter implements ModelAdapter {
     }
   }
 
+  /**
+   * 使用 FIM 模板调用 /completions 接口补全
+   * 提供 onPartial 时以流式方式请求，每收到一段文本回调一次清理后的补全
+   * @throws 请求失败时抛出错误，由调用方记录失败并切换备用模型
+   */
+  private async completeWithFim(
+    template: FimTemplate,
+    prefix: string,
+    suffix: string,
+    onPartial?: (text: string) => void
+  ): Promise<CompletionSuggestion[]> {
+    const fimRequest = buildFimRequest(template, prefix, suffix);
+    const body = {
+      model: this.config.modelName,
+      prompt: fimRequest.prompt,
+      max_tokens: fimRequest.multiline ? 256 : 64,
+      temperature: 0.2,
+      stop: fimRequest.stop,
+    };
+
+    let raw: string;
+    if (onPartial) {
+      raw = await this.streamCompletion(body, partial => onPartial(cleanFimCompletion(partial, fimRequest)));
+    } else {
+      const response = await this.axiosInstance.post<OpenAICompletionResponse>(
+        '/completions',
+        { ...body, stream: false }
+      );
+      raw = response.data.choices[0]?.text || '';
+    }
+
+    const text = cleanFimCompletion(raw, fimRequest);
+    if (!text.trim()) {
+      return [];
+    }
+
+    return [
+      {
+        text,
+        kind: 'text',
+        detail: 'AI Suggestion',
+        documentation: `Code completion generated by ${this.config.modelName} (FIM)`,
+      },
+    ];
+  }
+
+  /**
+   * 流式调用 /completions 接口
+   * @param body 请求体
+   * @param onText 每收到一段文本时以累计的完整文本回调
+   * @returns 生成的完整文本
+   */
+  private async streamCompletion(
+    body: Record<string, unknown>,
+    onText: (text: string) => void
+  ): Promise<string> {
+    const response = await this.axiosInstance.post('/completions', { ...body, stream: true }, {
+      responseType: 'stream',
+    });
+
+    return new Promise<string>((resolve, reject) => {
+      let buffer = '';
+      let text = '';
+
+      response.data.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ') || line.trim() === 'data: [DONE]') continue;
+          try {
+            const data = JSON.parse(line.slice(6)) as OpenAICompletionResponse;
+            const delta = data.choices[0]?.text;
+            if (delta) {
+              text += delta;
+              onText(text);
+            }
+          } catch (parseError) {
+            // 忽略解析错误，继续处理下一行
+          }
+        }
+      });
+
+      response.data.on('error', reject);
+      response.data.on('end', () => resolve(text));
+    });
+  }
+
   /**
    * 验证配置
    */
@@ -247,12 +409,10 @@ export class OpenAIAdapter implements ModelAdapter {
 
   /**
    * 计算token数量
-   * 使用简单的估算方法：约4个字符 = 1 token
+   * 使用模型对应的 BPE 词表（cl100k_base / o200k_base）计算
    */
   countTokens(text: string): number {
-    // OpenAI的token计算较为复杂，这里使用简单估算
-    // 平均约4个字符对应1个token
-    return Math.ceil(text.length / 4);
+    return getTokenizer(this.config).count(text);
   }
 
   /**
@@ -260,10 +420,7 @@ export class OpenAIAdapter implements ModelAdapter {
    */
   private async convertToOpenAIFormat(request: ChatRequest): Promise<OpenAIChatRequest> {
     const messages = await Promise.all(
-      request.messages.map(async msg => ({
-        role: msg.role,
-        content: await this.enrichMessageContent(msg),
-      }))
+      request.messages.map(msg => this.convertMessage(msg))
     );
     
     return {
@@ -272,6 +429,98 @@ export class OpenAIAdapter implements ModelAdapter {
       stream: request.stream,
       temperature: request.temperature,
       max_tokens: request.maxTokens,
+      tools: this.convertTools(request.tools),
+      tool_choice: this.convertToolChoice(request),
+    };
+  }
+
+  /**
+   * 转换单条消息为OpenAI API格式
+   * 工具结果消息和带工具调用的助手消息保持原样，不经过模板系统
+   */
+  private async convertMessage(msg: ChatMessage): Promise<OpenAIMessage> {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        content: msg.content,
+        tool_call_id: msg.toolCallId,
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+
+    return {
+      role: msg.role,
+      content: await this.enrichMessageContent(msg),
+    };
+  }
+
+  /**
+   * 转换工具定义为OpenAI API格式
+   */
+  private convertTools(tools?: ToolDefinition[]): OpenAITool[] | undefined {
+    if (!tools || tools.length === 0) {
+      return undefined;
+    }
+    return tools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * 转换工具选择策略为OpenAI API格式
+   */
+  private convertToolChoice(request: ChatRequest): OpenAIChatRequest['tool_choice'] {
+    const choice: ToolChoice | undefined = request.toolChoice;
+    if (!choice || !request.tools || request.tools.length === 0) {
+      return undefined;
+    }
+    if (typeof choice === 'string') {
+      return choice;
+    }
+    return { type: 'function', function: { name: choice.name } };
+  }
+
+  /**
+   * 从OpenAI API格式转换工具调用
+   */
+  private convertToolCalls(toolCalls?: OpenAIToolCall[]): ToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+    return toolCalls.map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments || '',
+    }));
+  }
+
+  /**
+   * 从OpenAI流式片段转换工具调用增量
+   * @param chunk 工具调用片段
+   * @param position 片段在数组中的位置（片段未携带 index 时使用）
+   */
+  private convertToolCallChunk(chunk: OpenAIToolCallChunk, position: number): ToolCallDelta {
+    return {
+      index: chunk.index ?? position,
+      id: chunk.id,
+      name: chunk.function?.name,
+      argumentsDelta: chunk.function?.arguments,
     };
   }
 
@@ -281,7 +530,8 @@ export class OpenAIAdapter implements ModelAdapter {
   private convertFromOpenAIFormat(response: OpenAIChatResponse): ChatResponse {
     const choice = response.choices[0];
     return {
-      content: choice.message.content,
+      content: choice.message.content || '',
+      toolCalls: this.convertToolCalls(choice.message.tool_calls),
       finishReason: this.mapFinishReason(choice.finish_reason),
       usage: {
         promptTokens: response.usage.prompt_tokens,
@@ -388,12 +638,14 @@ export class OpenAIAdapter implements ModelAdapter {
   /**
    * 映射结束原因
    */
-  private mapFinishReason(reason: string): 'stop' | 'length' | 'error' {
+  private mapFinishReason(reason: string): 'stop' | 'length' | 'tool_calls' | 'error' {
     switch (reason) {
       case 'stop':
         return 'stop';
       case 'length':
         return 'length';
+      case 'tool_calls':
+        return 'tool_calls';
       default:
         return 'error';
     }
@@ -436,6 +688,8 @@ export class OpenAIAdapter implements ModelAdapter {
     return {
       content: `Error: ${errorMessage}`,
       finishReason: 'error',
+      status: axios.isAxiosError(error) ? error.response?.status : undefined,
+      errorCode: axios.isAxiosError(error) && !error.response ? error.code : undefined,
     };
   }
 }
@@ -12,16 +12,59 @@ import {
   ChatMessage,
   CodeContext,
   CompletionSuggestion,
+  ToolCall,
+  ToolCallDelta,
+  ToolDefinition,
 } from '../types';
 import { IPromptManager } from '../../prompts/types';
 import { LanguageModelChatToolMode } from 'vscode';
+import { getTokenizer } from '../tokenizer';
 
 /**
  * 智谱AI API消息格式
  */
 interface ZhipuAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ZhipuAIToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * 智谱AI API工具定义格式
+ */
+interface ZhipuAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * 智谱AI API工具调用格式
+ */
+interface ZhipuAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * 智谱AI流式响应中的工具调用片段
+ */
+interface ZhipuAIToolCallChunk {
+  index?: number;
+  id?: string;
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
 }
 
 /**
@@ -33,6 +76,8 @@ interface ZhipuAIChatRequest {
   stream?: boolean;
   temperature?: number;
   max_tokens?: number;
+  tools?: ZhipuAITool[];
+  tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
   top_p?: number;
 }
 
@@ -47,7 +92,8 @@ interface ZhipuAIChatResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: ZhipuAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -70,6 +116,7 @@ interface ZhipuAIStreamChunk {
     delta: {
       role?: string;
       content?: string;
+      tool_calls?: ZhipuAIToolCallChunk[];
     };
     finish_reason: string | null;
   }>;
@@ -130,7 +177,8 @@ export class ZhipuAIAdapter implements ModelAdapter {
     request: ChatRequest,
     onChunk: (chunk: string) => void,
     onEnd: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    onToolCallDelta?: (delta: ToolCallDelta) => void
   ): Promise<void> {
     try {
       const zhipuRequest = await this.convertToZhipuAIFormat(request);
@@ -171,6 +219,12 @@ export class ZhipuAIAdapter implements ModelAdapter {
               if (content) {
                 onChunk(content);
               }
+              const toolCallChunks = data.choices[0]?.delta?.tool_calls;
+              if (toolCallChunks && onToolCallDelta) {
+                toolCallChunks.forEach((toolCallChunk, i) => {
+                  onToolCallDelta(this.convertToolCallChunk(toolCallChunk, i));
+                });
+              }
               if (data.choices[0]?.finish_reason) {
                 onEnd();
               }
@@ -272,13 +326,10 @@ export class ZhipuAIAdapter implements ModelAdapter {
 
   /**
    * 计算token数量
-   * 使用简单的估算方法：中文字符约1.5 tokens，英文单词约1 token
+   * 按智谱 GLM 的中英文字符换算比例计算
    */
   countTokens(text: string): number {
-    // 简单估算：中文字符约1.5 tokens，英文单词约1 token
-    const chineseChars = (text.match(/[\u4e00-\u9fa5]/g) || []).length;
-    const englishWords = text.split(/\s+/).filter(word => /[a-zA-Z]/.test(word)).length;
-    return Math.ceil(chineseChars * 1.5 + englishWords);
+    return getTokenizer(this.config).count(text);
   }
 
   /**
@@ -286,10 +337,7 @@ export class ZhipuAIAdapter implements ModelAdapter {
    */
   private async convertToZhipuAIFormat(request: ChatRequest): Promise<ZhipuAIChatRequest> {
     const messages = await Promise.all(
-      request.messages.map(async msg => ({
-        role: msg.role,
-        content: await this.enrichMessageContent(msg),
-      }))
+      request.messages.map(msg => this.convertMessage(msg))
     );
     
     return {
@@ -298,17 +346,107 @@ export class ZhipuAIAdapter implements ModelAdapter {
       stream: request.stream,
       temperature: request.temperature,
       max_tokens: request.maxTokens,
+      tools: request.toolChoice === 'none' ? undefined : this.convertTools(request.tools),
+      tool_choice: this.convertToolChoice(request),
       top_p: 0.7, // 智谱AI推荐的默认值
     };
   }
 
+  /**
+   * 转换单条消息为智谱AI API格式
+   * 工具结果消息和带工具调用的助手消息保持原样，不经过模板系统
+   */
+  private async convertMessage(msg: ChatMessage): Promise<ZhipuAIMessage> {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        content: msg.content,
+        tool_call_id: msg.toolCallId,
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+
+    return {
+      role: msg.role,
+      content: await this.enrichMessageContent(msg),
+    };
+  }
+
+  /**
+   * 转换工具定义为智谱AI API格式
+   */
+  private convertTools(tools?: ToolDefinition[]): ZhipuAITool[] | undefined {
+    if (!tools || tools.length === 0) {
+      return undefined;
+    }
+    return tools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * 转换工具选择策略为智谱AI API格式
+   * 智谱AI只支持 auto；none 通过不发送工具实现（见 convertTools 调用处），其余策略退化为 auto
+   */
+  private convertToolChoice(request: ChatRequest): ZhipuAIChatRequest['tool_choice'] {
+    if (!request.tools || request.tools.length === 0) {
+      return undefined;
+    }
+    return 'auto';
+  }
+
+  /**
+   * 从智谱AI API格式转换工具调用
+   */
+  private convertToolCalls(toolCalls?: ZhipuAIToolCall[]): ToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+    return toolCalls.map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments || '',
+    }));
+  }
+
+  /**
+   * 从智谱AI流式片段转换工具调用增量
+   * @param chunk 工具调用片段
+   * @param position 片段在数组中的位置（片段未携带 index 时使用）
+   */
+  private convertToolCallChunk(chunk: ZhipuAIToolCallChunk, position: number): ToolCallDelta {
+    return {
+      index: chunk.index ?? position,
+      id: chunk.id,
+      name: chunk.function?.name,
+      argumentsDelta: chunk.function?.arguments,
+    };
+  }
+
   /**
    * 从智谱AI API格式转换
    */
   private convertFromZhipuAIFormat(response: ZhipuAIChatResponse): ChatResponse {
     const choice = response.choices[0];
     return {
-      content: choice.message.content,
+      content: choice.message.content || '',
+      toolCalls: this.convertToolCalls(choice.message.tool_calls),
       finishReason: this.mapFinishReason(choice.finish_reason),
       usage: {
         promptTokens: response.usage.prompt_tokens,
@@ -415,12 +553,14 @@ export class ZhipuAIAdapter implements ModelAdapter {
   /**
    * 映射结束原因
    */
-  private mapFinishReason(reason: string): 'stop' | 'length' | 'error' {
+  private mapFinishReason(reason: string): 'stop' | 'length' | 'tool_calls' | 'error' {
     switch (reason) {
       case 'stop':
         return 'stop';
       case 'length':
         return 'length';
+      case 'tool_calls':
+        return 'tool_calls';
       default:
         return 'error';
     }
@@ -463,6 +603,8 @@ export class ZhipuAIAdapter implements ModelAdapter {
     return {
       content: `错误: ${errorMessage}`,
       finishReason: 'error',
+      status: axios.isAxiosError(error) ? error.response?.status : undefined,
+      errorCode: axios.isAxiosError(error) && !error.response ? error.code : undefined,
     };
   }
 }
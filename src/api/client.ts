@@ -9,9 +9,33 @@ import {
   ModelConfig,
   ChatRequest,
   ChatResponse,
+  ChatMessage,
   CodeContext,
-  CompletionSuggestion
+  CompletionSuggestion,
+  ModelFeature,
+  ToolCallDelta
 } from './types';
+import { ModelHealth, ModelHealthTracker, isFailoverError, toResponseError } from './health';
+import { Redactor } from '../security/redaction';
+import {
+  IAuthorizationManager,
+  RequestPreview,
+  createDataSummary,
+  createRequestPreview,
+  getFeatureType,
+  removeAttachments
+} from '../security/authorization';
+import {
+  TrafficAuditEntry,
+  TrafficAuditLog,
+  countContextTokens,
+  countRequestTokens,
+  getContextFiles,
+  getRequestFiles,
+  hashPayload
+} from '../security/auditLog';
+import { getTokenizer } from './tokenizer';
+import { isLocalEndpoint } from '../security/localDiscovery';
 
 /**
  * API客户端管理器
@@ -30,6 +54,27 @@ export class APIClientManager implements IAPIClient {
   /** Prompt 管理器实例（用于模板系统） */
   private promptManager: any = null;
 
+  /** 故障切换链（未提供模型管理器时使用） */
+  private fallbackChain: string[] = [];
+
+  /** 各模型的健康状态（熔断器） */
+  private health = new ModelHealthTracker();
+
+  /** 请求脱敏器（未设置时请求原样发送） */
+  private redactor: Redactor | null = null;
+
+  /** 授权管理器（未设置时请求不经确认直接发送） */
+  private authorizer: IAuthorizationManager | null = null;
+
+  /** 模型流量审计日志（未设置时不记录） */
+  private auditLog: TrafficAuditLog | null = null;
+
+  /** 本地模式：只允许向本地网络中的模型发送请求 */
+  private localOnly = false;
+
+  /** 本地模式下额外允许的主机名 */
+  private localAllowedHosts: string[] = [];
+
   /**
    * 注册模型适配器
    * @param vendor 模型提供商标识
@@ -125,44 +170,154 @@ export class APIClientManager implements IAPIClient {
   }
 
   /**
-   * 获取当前适配器
-   * @returns 当前适配器实例
-   * @throws 如果没有设置当前模型则抛出错误
+   * 获取某个功能使用的模型ID
+   * 在模型管理器中为该功能配置了路由时使用路由指定的模型，否则使用当前模型
+   * @param feature 功能类型
+   * @returns 模型ID
    */
-  private async getCurrentAdapter(): Promise<ModelAdapter> {
-    if (!this.currentModel) {
-      throw new Error('No model is currently selected');
+  getModelForFeature(feature: ModelFeature): string | null {
+    if (this.modelManager?.getModelForFeature) {
+      const modelId = this.modelManager.getModelForFeature(feature);
+      if (modelId) {
+        return modelId;
+      }
     }
-    
-    // 首先尝试直接通过modelId获取adapter（向后兼容）
-    let adapter = this.adapters.get(this.currentModel);
-    
-    // 如果没找到，尝试通过vendor获取或创建
-    if (!adapter && this.modelManager) {
-      const models = this.modelManager.getModelConfigs();
-      const modelConfig = models.find((m: ModelConfig) => m.modelId === this.currentModel);
-      
-      if (modelConfig && modelConfig.vendor) {
-        // 尝试获取已注册的vendor adapter
-        adapter = this.adapters.get(modelConfig.vendor);
-        
-        // 如果vendor adapter不存在，动态创建一个
-        if (!adapter) {
-          adapter = await this.createAdapter(modelConfig);
-          if (adapter) {
-            this.adapters.set(modelConfig.vendor, adapter);
-          }
-        }
+    return this.getCurrentModel();
+  }
+
+  /**
+   * 设置请求脱敏器
+   * 设置后所有请求在发送前替换敏感信息，回复中的占位符还原为原始内容
+   * @param redactor 脱敏器，传入 null 时关闭脱敏
+   */
+  setRedactor(redactor: Redactor | null): void {
+    this.redactor = redactor;
+  }
+
+  /**
+   * 获取请求脱敏器
+   * @returns 脱敏器，未设置时返回 null
+   */
+  getRedactor(): Redactor | null {
+    return this.redactor;
+  }
+
+  /**
+   * 设置授权管理器
+   * 设置后每个请求在发送到某个模型端点之前都需要经过授权
+   * @param authorizer 授权管理器，传入 null 时不再确认
+   */
+  setAuthorizer(authorizer: IAuthorizationManager | null): void {
+    this.authorizer = authorizer;
+  }
+
+  /**
+   * 设置模型流量审计日志
+   * 设置后每次发送给模型的请求（包括故障切换时的每次尝试）都会记录一条审计日志
+   * @param auditLog 审计日志，传入 null 时停止记录
+   */
+  setAuditLog(auditLog: TrafficAuditLog | null): void {
+    this.auditLog = auditLog;
+  }
+
+  /**
+   * 获取模型流量审计日志
+   * @returns 审计日志，未设置时返回 null
+   */
+  getAuditLog(): TrafficAuditLog | null {
+    return this.auditLog;
+  }
+
+  /**
+   * 设置本地模式
+   * 启用后请求只发送给端点位于本地网络（或允许的主机）的模型，其他模型从候选中排除
+   * @param enabled 是否启用本地模式
+   * @param allowedHosts 额外允许的主机名
+   */
+  setLocalMode(enabled: boolean, allowedHosts: string[] = []): void {
+    this.localOnly = enabled;
+    this.localAllowedHosts = allowedHosts;
+  }
+
+  /**
+   * 设置故障切换链
+   * 任意模型请求因网络错误、5xx 或限流失败时，在该功能的备用模型之后按顺序尝试这些模型
+   * @param modelIds 模型ID列表
+   */
+  async setFallbackChain(modelIds: string[]): Promise<void> {
+    if (this.modelManager?.setFallbackChain) {
+      await this.modelManager.setFallbackChain(modelIds);
+    }
+    this.fallbackChain = [...modelIds];
+  }
+
+  /**
+   * 获取故障切换链
+   * 优先从配置管理器中读取
+   * @returns 模型ID列表
+   */
+  getFallbackChain(): string[] {
+    if (this.modelManager?.getFallbackChain) {
+      return this.modelManager.getFallbackChain();
+    }
+    return [...this.fallbackChain];
+  }
+
+  /**
+   * 获取各模型的健康状态
+   * @returns 有失败记录的模型的健康状态
+   */
+  getModelHealth(): ModelHealth[] {
+    return this.health.getAllHealth();
+  }
+
+  /**
+   * 清除模型的健康记录，使已熔断的模型立即恢复可用
+   * @param modelId 模型ID，不传时清除全部
+   */
+  resetModelHealth(modelId?: string): void {
+    this.health.reset(modelId);
+  }
+
+  /**
+   * 获取一次请求依次尝试的模型
+   * 顺序为首选模型、该功能的备用模型、故障切换链；已熔断的模型被跳过，
+   * 全部熔断时仍尝试首选模型。启用本地模式时只保留本地模型
+   * @param modelId 首选模型ID
+   * @param feature 发起请求的功能（可选），用于查找备用模型
+   * @returns 模型ID列表，首选模型在前
+   * @throws 如果启用了本地模式且没有可用的本地模型
+   */
+  private getModelCandidates(modelId: string, feature?: ModelFeature): string[] {
+    const fallbacks: string[] = feature && this.modelManager?.getFallbackModels
+      ? this.modelManager.getFallbackModels(feature)
+      : [];
+    let ordered = Array.from(new Set([modelId, ...fallbacks, ...this.getFallbackChain()]));
+    if (this.localOnly) {
+      ordered = ordered.filter(id => this.isLocalModel(id));
+      if (ordered.length === 0) {
+        throw new Error(
+          `Local mode is enabled and ${this.getDestination(modelId).endpoint} is not a local endpoint; configure a local model for this feature`
+        );
       }
     }
-    
-    if (!adapter) {
-      throw new Error(`Adapter for model "${this.currentModel}" not found`);
+    const available = ordered.filter(id => this.health.isAvailable(id));
+    return available.length > 0 ? available : [ordered[0]];
+  }
+
+  /**
+   * 判断模型的端点是否属于本地网络（未配置地址的 Ollama 模型使用本机默认地址）
+   * @param modelId 模型ID
+   */
+  private isLocalModel(modelId: string): boolean {
+    const config = this.getModelConfig(modelId);
+    if (!config) {
+      return false;
     }
-    
-    return adapter;
+    const endpoint = config.apiBaseUrl || (config.vendor === 'ollama' ? 'http://localhost:11434' : '');
+    return isLocalEndpoint(endpoint, this.localAllowedHosts);
   }
-  
+
   /**
    * 动态创建adapter
    * @param modelConfig 模型配置
@@ -185,7 +340,8 @@ export class APIClientManager implements IAPIClient {
       apiKeyPrefix: apiKey ? apiKey.substring(0, 10) + '...' : 'none'
     });
     
-    if (!apiKey) {
+    // 本地服务不需要API密钥
+    if (!apiKey && modelConfig.vendor !== 'ollama' && !isLocalEndpoint(modelConfig.apiBaseUrl || '')) {
       console.error(`[createAdapter] No API key found for model ${modelConfig.modelId} (${modelConfig.modelName})`);
       // 仍然创建adapter，但会导致401错误
     }
@@ -210,6 +366,14 @@ export class APIClientManager implements IAPIClient {
           const { ZhipuAIAdapter } = await import('./adapters/zhipuai');
           return new ZhipuAIAdapter(configWithKey, this.promptManager);
         }
+        case 'anthropic': {
+          const { AnthropicAdapter } = await import('./adapters/anthropic');
+          return new AnthropicAdapter(configWithKey, this.promptManager);
+        }
+        case 'ollama': {
+          const { OllamaAdapter } = await import('./adapters/ollama');
+          return new OllamaAdapter(configWithKey, this.promptManager);
+        }
         default: {
           // 对于未知的vendor，使用OpenAI兼容的adapter
           const { OpenAIAdapter } = await import('./adapters/openai');
@@ -257,18 +421,28 @@ export class APIClientManager implements IAPIClient {
     return adapter;
   }
 
+  /**
+   * 根据modelId获取模型配置
+   * @param modelId 模型ID
+   * @returns 模型配置，如果找不到则返回null
+   */
+  getModelConfig(modelId: string): ModelConfig | null {
+    if (this.modelManager) {
+      const models = this.modelManager.getModelConfigs();
+      return models.find((m: ModelConfig) => m.modelId === modelId) || null;
+    }
+    return null;
+  }
+
   /**
    * 根据modelId获取modelName
    * @param modelId 模型ID
    * @returns 模型名称，如果找不到则返回modelId
    */
   private getModelName(modelId: string): string {
-    if (this.modelManager) {
-      const models = this.modelManager.getModelConfigs();
-      const modelConfig = models.find((m: ModelConfig) => m.modelId === modelId);
-      if (modelConfig) {
-        return modelConfig.modelName;
-      }
+    const modelConfig = this.getModelConfig(modelId);
+    if (modelConfig) {
+      return modelConfig.modelName;
     }
     // 如果找不到配置，返回原始modelId（向后兼容）
     return modelId;
@@ -290,78 +464,475 @@ export class APIClientManager implements IAPIClient {
 
   /**
    * 发送聊天请求
+   * 模型因网络错误、5xx 或限流失败时，依次改用下一个可用模型
    * @param request 聊天请求参数（model字段可以是modelId）
-   * @returns 聊天响应
+   * @returns 聊天响应，modelId 为实际回答的模型
    */
   async sendChatRequest(request: ChatRequest): Promise<ChatResponse> {
-    try {
-      // 保存原始modelId用于查找适配器
-      const modelId = request.model;
-      const adapter = await this.getAdapter(modelId);
-      // 将request中的model转换为modelName
-      const preparedRequest = this.prepareChatRequest(request);
-      return await adapter.chat(preparedRequest);
-    } catch (error) {
-      throw new Error(
-        `Failed to send chat request: ${error instanceof Error ? error.message : String(error)}`
-      );
+    const candidates = this.getModelCandidates(request.model, request.feature);
+    const redaction = this.redactor ? this.redactor.redactRequest(request) : null;
+    const outgoing = redaction ? redaction.request : request;
+    const redactionHits = redaction ? redaction.scan.hits : {};
+
+    for (let i = 0; i < candidates.length; i++) {
+      const modelId = candidates[i];
+      const canFallback = i < candidates.length - 1;
+
+      let response: ChatResponse;
+      let sent: ChatRequest | null = null;
+      const startTime = Date.now();
+      try {
+        const authorized = await this.authorize(modelId, outgoing, request);
+        const adapter = await this.getAdapter(modelId);
+        // 将request中的model转换为modelName
+        const preparedRequest = this.prepareChatRequest({ ...authorized, model: modelId });
+        sent = preparedRequest;
+        response = await adapter.chat(preparedRequest);
+        this.recordChatTraffic(modelId, preparedRequest, redactionHits, startTime, {
+          output: response.content,
+          usage: response.usage,
+          error: response.finishReason === 'error' ? toResponseError(response) : undefined
+        });
+      } catch (error) {
+        if (sent) {
+          this.recordChatTraffic(modelId, sent, redactionHits, startTime, { error });
+        }
+        if (!isFailoverError(error)) {
+          throw new Error(
+            `Failed to send chat request: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+        this.health.recordFailure(modelId, error);
+        if (canFallback) {
+          console.warn(`[APIClient] Model ${modelId} failed, trying fallback model ${candidates[i + 1]}:`, error);
+          continue;
+        }
+        throw new Error(
+          `Failed to send chat request: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      // 适配器把请求错误转换为 finishReason 为 error 的响应
+      if (response.finishReason === 'error') {
+        const error = toResponseError(response);
+        if (isFailoverError(error)) {
+          this.health.recordFailure(modelId, error);
+          if (canFallback) {
+            console.warn(`[APIClient] Model ${modelId} failed, trying fallback model ${candidates[i + 1]}:`, response.content);
+            continue;
+          }
+        }
+        return { ...this.restoreResponse(response), modelId };
+      }
+
+      this.health.recordSuccess(modelId);
+      return { ...this.restoreResponse(response), modelId };
+    }
+
+    throw new Error('Failed to send chat request: No model is available');
+  }
+
+  /**
+   * 发送前请求授权
+   * 授权按目标端点区分，故障切换到其他端点的模型时需要重新授权
+   * @param modelId 目标模型ID
+   * @param request 将要发送的请求（已脱敏，与预览中展示的内容一致）
+   * @param original 脱敏前的请求（用于统计将被替换的敏感信息）
+   * @returns 移除了用户在预览中排除的附件的请求
+   * @throws 如果用户拒绝授权
+   */
+  private async authorize(modelId: string, request: ChatRequest, original: ChatRequest): Promise<ChatRequest> {
+    if (!this.authorizer) {
+      return request;
+    }
+
+    const destination = this.getDestination(modelId);
+    const result = await this.authorizer.requestAuthorization({
+      feature: getFeatureType(request.feature),
+      description: `${request.messages.length} message(s) will be sent to ${destination.modelName}.`,
+      endpoint: destination.endpoint,
+      modelId,
+      scope: request.authorizationScope,
+      dataSummary: createDataSummary(original, this.redactor),
+      preview: createRequestPreview(request, destination, message => this.renderMessage(message))
+    });
+    if (!result.granted) {
+      throw new Error(`Request to ${destination.endpoint} was not authorized${result.reason ? ` (${result.reason})` : ''}`);
+    }
+    return removeAttachments(request, result.removedAttachments ?? []);
+  }
+
+  /**
+   * 获取模型的授权目标
+   * @param modelId 模型ID
+   * @returns 模型名称和端点（未配置 API 地址时以供应商作为端点）
+   */
+  private getDestination(modelId: string): Pick<RequestPreview, 'modelId' | 'modelName' | 'endpoint'> {
+    const config = this.getModelConfig(modelId);
+    return {
+      modelId,
+      modelName: config?.displayName || config?.modelName || modelId,
+      endpoint: config?.apiBaseUrl || config?.vendor || modelId
+    };
+  }
+
+  /**
+   * 将消息渲染为发送给模型的文本，用于请求预览
+   * 与适配器一致：工具消息和带工具调用的助手消息原样发送，其他消息经过模板系统
+   * 预览在授权之前生成，不能调用模型，因此跳过意图识别（智能体模式下可能与实际使用的模板不同）
+   * @param message 消息
+   */
+  private async renderMessage(message: ChatMessage): Promise<string> {
+    if (!this.promptManager || message.role === 'tool' || (message.toolCalls && message.toolCalls.length > 0)) {
+      return message.content;
     }
+    return this.promptManager.enrichMessageContent(message, { skipIntentRecognition: true });
+  }
+
+  /**
+   * 还原响应中的脱敏占位符
+   * @param response 聊天响应
+   * @returns 还原后的响应
+   */
+  private restoreResponse(response: ChatResponse): ChatResponse {
+    return this.redactor ? this.redactor.restoreResponse(response) : response;
   }
 
   /**
    * 发送流式聊天请求
+   * 模型在输出任何内容之前因网络错误、5xx 或限流失败时，依次改用下一个可用模型
    * @param request 聊天请求参数（model字段可以是modelId）
    * @param onChunk 接收到数据块时的回调
    * @param onEnd 流结束时的回调
    * @param onError 发生错误时的回调
+   * @param onToolCallDelta 接收到工具调用片段时的回调（可选）
+   * @param onModel 确定实际回答的模型时的回调（可选）
    */
   async sendStreamChatRequest(
     request: ChatRequest,
     onChunk: (chunk: string) => void,
     onEnd: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    onToolCallDelta?: (delta: ToolCallDelta) => void,
+    onModel?: (modelId: string) => void
   ): Promise<void> {
+    console.log(`[APIClient] sendStreamChatRequest called with modelId: ${request.model}`);
+    let candidates: string[];
     try {
-      // 保存原始modelId用于查找适配器
-      const modelId = request.model;
-      console.log(`[APIClient] sendStreamChatRequest called with modelId: ${modelId}`);
+      candidates = this.getModelCandidates(request.model, request.feature);
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    // 脱敏后发送，回复中的占位符在交给调用方之前还原
+    const redactor = this.redactor;
+    const redaction = redactor ? redactor.redactRequest(request) : null;
+    const outgoing = redaction ? redaction.request : request;
+    const redactionHits = redaction ? redaction.scan.hits : {};
+    const restorer = redactor?.createStreamRestorer(onChunk);
+    const callbacks = {
+      onChunk: restorer ? (chunk: string) => restorer.push(chunk) : onChunk,
+      onEnd: restorer
+        ? () => {
+            restorer.flush();
+            onEnd();
+          }
+        : onEnd,
+      onError,
+      // 工具调用参数按片段还原，被拆分到两个片段中的占位符无法还原
+      onToolCallDelta: onToolCallDelta && redactor
+        ? (delta: ToolCallDelta) => onToolCallDelta({
+            ...delta,
+            argumentsDelta: delta.argumentsDelta && redactor.restore(delta.argumentsDelta)
+          })
+        : onToolCallDelta,
+      onModel
+    };
+
+    for (let i = 0; i < candidates.length; i++) {
+      const canFallback = i < candidates.length - 1;
+      const failed = await this.streamWithModel(candidates[i], outgoing, request, redactionHits, callbacks, canFallback);
+      if (!failed) {
+        return;
+      }
+      console.warn(`[APIClient] Model ${candidates[i]} failed, trying fallback model ${candidates[i + 1]}`);
+    }
+  }
+
+  /**
+   * 使用指定模型发送流式聊天请求
+   * @param modelId 模型ID
+   * @param request 聊天请求参数
+   * @param original 脱敏前的请求（用于授权确认）
+   * @param redactionHits 脱敏命中次数（用于审计日志）
+   * @param callbacks 流式回调
+   * @param canFallback 是否还有备用模型可以尝试
+   * @returns 是否在输出任何内容之前失败（且错误未交给 onError，由调用方改用备用模型）
+   */
+  private async streamWithModel(
+    modelId: string,
+    request: ChatRequest,
+    original: ChatRequest,
+    redactionHits: Record<string, number>,
+    callbacks: {
+      onChunk: (chunk: string) => void;
+      onEnd: () => void;
+      onError: (error: Error) => void;
+      onToolCallDelta?: (delta: ToolCallDelta) => void;
+      onModel?: (modelId: string) => void;
+    },
+    canFallback: boolean
+  ): Promise<boolean> {
+    // 适配器在收到响应头后即返回，之后的流错误无法再切换模型
+    let started = false;
+    let settled = false;
+    let failed = false;
+
+    // 审计日志：请求发出后，在结束或出错时记录一次
+    let sent: ChatRequest | null = null;
+    let output = '';
+    const startTime = Date.now();
+    const record = (error?: unknown) => {
+      if (sent) {
+        this.recordChatTraffic(modelId, sent, redactionHits, startTime, { output, error });
+        sent = null;
+      }
+    };
+
+    const markStarted = () => {
+      if (!started) {
+        started = true;
+        callbacks.onModel?.(modelId);
+      }
+    };
+
+    const handleError = (error: Error) => {
+      record(error);
+      const failover = isFailoverError(error);
+      if (failover) {
+        this.health.recordFailure(modelId, error);
+      }
+      if (failover && canFallback && !started && !settled) {
+        failed = true;
+        return;
+      }
+      callbacks.onError(error);
+    };
+
+    try {
+      const authorized = await this.authorize(modelId, request, original);
       const adapter = await this.getAdapter(modelId);
       console.log(`[APIClient] Adapter obtained:`, {
         adapterType: adapter.constructor.name,
         hasChatStream: typeof adapter.chatStream === 'function'
       });
       // 将request中的model转换为modelName
-      const preparedRequest = this.prepareChatRequest(request);
+      const preparedRequest = this.prepareChatRequest({ ...authorized, model: modelId });
       console.log(`[APIClient] Calling adapter.chatStream...`);
-      await adapter.chatStream(preparedRequest, onChunk, onEnd, onError);
+      sent = preparedRequest;
+      const onToolCallDelta = callbacks.onToolCallDelta;
+      await adapter.chatStream(
+        preparedRequest,
+        (chunk: string) => {
+          markStarted();
+          output += chunk;
+          callbacks.onChunk(chunk);
+        },
+        () => {
+          markStarted();
+          record();
+          this.health.recordSuccess(modelId);
+          callbacks.onEnd();
+        },
+        handleError,
+        onToolCallDelta
+          ? (delta: ToolCallDelta) => {
+              markStarted();
+              output += delta.argumentsDelta ?? '';
+              onToolCallDelta(delta);
+            }
+          : undefined
+      );
     } catch (error) {
-      const errorObj = error instanceof Error 
-        ? error 
-        : new Error(String(error));
-      onError(errorObj);
+      handleError(error instanceof Error ? error : new Error(String(error)));
     }
+
+    settled = true;
+    return failed;
   }
 
   /**
    * 发送补全请求
+   * 使用为代码补全配置的模型，模型因网络错误、5xx 或限流失败时依次改用下一个可用模型
    * @param context 代码上下文
    * @param prefix 光标前的代码
    * @param suffix 光标后的代码
+   * @param onPartial 流式生成时接收当前已生成补全文本的回调（可选）
    * @returns 补全建议列表
    */
   async sendCompletionRequest(
     context: CodeContext,
     prefix: string,
-    suffix: string
+    suffix: string,
+    onPartial?: (text: string) => void
   ): Promise<CompletionSuggestion[]> {
-    try {
-      const adapter = await this.getCurrentAdapter();
-      return await adapter.complete(context, prefix, suffix);
-    } catch (error) {
-      throw new Error(
-        `Failed to send completion request: ${error instanceof Error ? error.message : String(error)}`
-      );
+    const modelId = this.getModelForFeature('completion');
+    if (!modelId) {
+      throw new Error('Failed to send completion request: No model is currently selected');
+    }
+
+    const candidates = this.getModelCandidates(modelId, 'completion');
+    let lastError: unknown;
+
+    // 脱敏后发送，补全结果中的占位符还原为原始内容
+    const redactor = this.redactor;
+    const scan = { hits: {} as Record<string, number>, total: 0 };
+    const outgoingContext = redactor ? redactor.redactContext(context, scan) : context;
+    const outgoingPrefix = redactor ? redactor.redactText(prefix, scan) : prefix;
+    const outgoingSuffix = redactor ? redactor.redactText(suffix, scan) : suffix;
+    const onOutgoingPartial = onPartial && redactor
+      ? (text: string) => onPartial(redactor.restore(text))
+      : onPartial;
+
+    for (const candidate of candidates) {
+      let sent = false;
+      const startTime = Date.now();
+      try {
+        await this.authorizeCompletion(candidate, context);
+        const adapter = await this.getAdapter(candidate);
+        sent = true;
+        const suggestions = await adapter.complete(outgoingContext, outgoingPrefix, outgoingSuffix, onOutgoingPartial);
+        this.recordCompletionTraffic(candidate, outgoingContext, outgoingPrefix, outgoingSuffix, scan.hits, startTime, {
+          output: suggestions.map(suggestion => suggestion.text).join('')
+        });
+        this.health.recordSuccess(candidate);
+        return redactor ? redactor.restoreSuggestions(suggestions) : suggestions;
+      } catch (error) {
+        if (sent) {
+          this.recordCompletionTraffic(candidate, outgoingContext, outgoingPrefix, outgoingSuffix, scan.hits, startTime, { error });
+        }
+        lastError = error;
+        if (!isFailoverError(error)) {
+          break;
+        }
+        this.health.recordFailure(candidate, error);
+      }
     }
+
+    throw new Error(
+      `Failed to send completion request: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    );
+  }
+
+  /**
+   * 补全请求发送前请求授权
+   * 补全频繁触发，不提供预览，默认配置下自动授权
+   * @param modelId 目标模型ID
+   * @param context 代码上下文（脱敏前）
+   * @throws 如果用户拒绝授权
+   */
+  private async authorizeCompletion(modelId: string, context: CodeContext): Promise<void> {
+    if (!this.authorizer) {
+      return;
+    }
+
+    const destination = this.getDestination(modelId);
+    const result = await this.authorizer.requestAuthorization({
+      feature: getFeatureType('completion'),
+      description: `Code around the cursor in ${context.currentFile.path || 'the current file'} will be sent to ${destination.modelName}.`,
+      endpoint: destination.endpoint,
+      modelId,
+      dataSummary: createDataSummary({ messages: [{ role: 'user', content: '', context }], model: modelId, stream: false }, this.redactor)
+    });
+    if (!result.granted) {
+      throw new Error(`Request to ${destination.endpoint} was not authorized${result.reason ? ` (${result.reason})` : ''}`);
+    }
+  }
+
+  /**
+   * 记录一次聊天请求的审计日志
+   * @param modelId 目标模型ID
+   * @param request 实际发送的请求
+   * @param redactionHits 脱敏命中次数
+   * @param startTime 请求开始时间
+   * @param outcome 请求结果（模型未返回用量时按回复内容估算 token 数）
+   */
+  private recordChatTraffic(
+    modelId: string,
+    request: ChatRequest,
+    redactionHits: Record<string, number>,
+    startTime: number,
+    outcome: { output?: string; usage?: ChatResponse['usage']; error?: unknown }
+  ): void {
+    if (!this.auditLog) {
+      return;
+    }
+    const tokenizer = getTokenizer(this.getModelConfig(modelId) ?? undefined);
+    this.recordTraffic(modelId, request.feature ?? 'chat', startTime, outcome.error, {
+      files: getRequestFiles(request),
+      promptTokens: outcome.usage?.promptTokens ?? countRequestTokens(request, tokenizer),
+      completionTokens: outcome.usage?.completionTokens ?? tokenizer.count(outcome.output ?? ''),
+      redactionHits,
+      payloadHash: hashPayload(request)
+    });
+  }
+
+  /**
+   * 记录一次补全请求的审计日志
+   * @param modelId 目标模型ID
+   * @param context 实际发送的代码上下文
+   * @param prefix 实际发送的光标前代码
+   * @param suffix 实际发送的光标后代码
+   * @param redactionHits 脱敏命中次数
+   * @param startTime 请求开始时间
+   * @param outcome 请求结果
+   */
+  private recordCompletionTraffic(
+    modelId: string,
+    context: CodeContext,
+    prefix: string,
+    suffix: string,
+    redactionHits: Record<string, number>,
+    startTime: number,
+    outcome: { output?: string; error?: unknown }
+  ): void {
+    if (!this.auditLog) {
+      return;
+    }
+    const tokenizer = getTokenizer(this.getModelConfig(modelId) ?? undefined);
+    this.recordTraffic(modelId, 'completion', startTime, outcome.error, {
+      files: getContextFiles(context),
+      promptTokens: tokenizer.count(prefix) + tokenizer.count(suffix) + countContextTokens(context, tokenizer),
+      completionTokens: tokenizer.count(outcome.output ?? ''),
+      redactionHits,
+      payloadHash: hashPayload({ context, prefix, suffix })
+    });
+  }
+
+  /**
+   * 写入一条审计日志，补充目标模型和请求结果
+   */
+  private recordTraffic(
+    modelId: string,
+    feature: string,
+    startTime: number,
+    error: unknown,
+    details: Pick<TrafficAuditEntry, 'files' | 'promptTokens' | 'completionTokens' | 'redactionHits' | 'payloadHash'>
+  ): void {
+    const config = this.getModelConfig(modelId);
+    this.auditLog?.record({
+      timestamp: new Date(startTime).toISOString(),
+      feature,
+      modelId,
+      modelName: config?.modelName || modelId,
+      vendor: config?.vendor || 'unknown',
+      endpoint: this.getDestination(modelId).endpoint,
+      ...details,
+      status: error ? 'error' : 'success',
+      durationMs: Date.now() - startTime,
+      error: error ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
   }
 
   /**
@@ -383,6 +954,11 @@ export class APIClientManager implements IAPIClient {
         return false;
       }
 
+      // 本地模式下不向非本地端点发送验证请求
+      if (this.localOnly && !isLocalEndpoint(config.apiBaseUrl, this.localAllowedHosts)) {
+        return false;
+      }
+
       // 如果适配器已注册，使用适配器验证
       const adapter = this.adapters.get(config.vendor);
       if (adapter) {
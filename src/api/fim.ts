@@ -0,0 +1,178 @@
+/**
+ * FIM (Fill-in-the-Middle) 补全协议
+ * 代码模型通过特殊标记接收光标前后的代码，直接生成光标处应插入的内容，
+ * 不需要聊天式的指令和回复解析
+ */
+
+import { FimTemplateName, ModelConfig } from './types';
+
+/**
+ * FIM 模板
+ */
+export interface FimTemplate {
+  /** 模板名称 */
+  name: FimTemplateName;
+  /**
+   * 构建提示词
+   * @param prefix 光标前的代码
+   * @param suffix 光标后的代码
+   */
+  build(prefix: string, suffix: string): string;
+  /** 模型的结束标记和 FIM 标记，生成到这些内容时停止 */
+  stop: string[];
+}
+
+/**
+ * FIM 补全请求
+ */
+export interface FimRequest {
+  /** 提示词 */
+  prompt: string;
+  /** 停止序列 */
+  stop: string[];
+  /** 是否允许多行补全 */
+  multiline: boolean;
+  /** 光标后的代码（用于去除与后文重复的内容） */
+  suffix: string;
+}
+
+/** DeepSeek-Coder 的标记使用全角竖线（U+FF5C）和下八分之一块（U+2581） */
+const DS_BAR = '｜';
+const DS_SPACE = '▁';
+
+/** 各模型的 FIM 模板 */
+const FIM_TEMPLATES: Record<FimTemplateName, FimTemplate> = {
+  'starcoder': {
+    name: 'starcoder',
+    build: (prefix, suffix) => `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`,
+    stop: ['<|endoftext|>', '<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<file_sep>']
+  },
+  'codellama': {
+    name: 'codellama',
+    build: (prefix, suffix) => `<PRE> ${prefix} <SUF>${suffix} <MID>`,
+    stop: ['<EOT>', '<PRE>', '<SUF>', '<MID>']
+  },
+  'deepseek-coder': {
+    name: 'deepseek-coder',
+    build: (prefix, suffix) =>
+      `<${DS_BAR}fim${DS_SPACE}begin${DS_BAR}>${prefix}<${DS_BAR}fim${DS_SPACE}hole${DS_BAR}>${suffix}<${DS_BAR}fim${DS_SPACE}end${DS_BAR}>`,
+    stop: [
+      `<${DS_BAR}end${DS_SPACE}of${DS_SPACE}sentence${DS_BAR}>`,
+      `<${DS_BAR}fim${DS_SPACE}begin${DS_BAR}>`,
+      `<${DS_BAR}fim${DS_SPACE}hole${DS_BAR}>`,
+      `<${DS_BAR}fim${DS_SPACE}end${DS_BAR}>`,
+      '<|EOT|>'
+    ]
+  },
+  'qwen-coder': {
+    name: 'qwen-coder',
+    build: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+    stop: ['<|endoftext|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|fim_pad|>', '<|file_sep|>', '<|im_end|>']
+  }
+};
+
+/** 按模型名称推断 FIM 模板 */
+const FIM_MODEL_PATTERNS: Array<[RegExp, FimTemplateName]> = [
+  [/deepseek-?coder/i, 'deepseek-coder'],
+  [/qwen[\d.]*-?coder|codeqwen/i, 'qwen-coder'],
+  [/code-?llama/i, 'codellama'],
+  [/starcoder|santacoder|stable-?code/i, 'starcoder']
+];
+
+/** 提示词中最多包含的光标前行数 */
+export const MAX_PREFIX_LINES = 100;
+/** 提示词中最多包含的光标后行数 */
+export const MAX_SUFFIX_LINES = 40;
+/** 多行补全最多保留的行数 */
+const MAX_COMPLETION_LINES = 16;
+
+/**
+ * 获取模型的 FIM 模板
+ * 优先使用模型配置中指定的模板，否则按模型名称推断
+ * @param model 模型配置
+ * @returns FIM 模板，模型不支持 FIM 时返回 null
+ */
+export function getFimTemplate(model: Pick<ModelConfig, 'modelName' | 'fimTemplate'>): FimTemplate | null {
+  if (model.fimTemplate) {
+    return FIM_TEMPLATES[model.fimTemplate] || null;
+  }
+  const match = FIM_MODEL_PATTERNS.find(([pattern]) => pattern.test(model.modelName || ''));
+  return match ? FIM_TEMPLATES[match[1]] : null;
+}
+
+/**
+ * 构建 FIM 补全请求
+ * 光标所在行后面还有代码时只补全当前行，否则允许多行补全
+ * @param template FIM 模板
+ * @param prefix 光标前的代码
+ * @param suffix 光标后的代码
+ */
+export function buildFimRequest(
+  template: FimTemplate,
+  prefix: string,
+  suffix: string
+): FimRequest {
+  const before = lastLines(prefix, MAX_PREFIX_LINES);
+  const after = firstLines(suffix, MAX_SUFFIX_LINES);
+
+  const restOfLine = after.split('\n', 1)[0];
+  const multiline = restOfLine.trim() === '';
+
+  return {
+    prompt: template.build(before, after),
+    stop: multiline ? template.stop : [...template.stop, '\n'],
+    multiline,
+    suffix: after
+  };
+}
+
+/**
+ * 清理 FIM 补全结果
+ * 在停止标记处截断，去掉与光标后代码重复的部分，并限制行数
+ * @param text 模型返回的文本
+ * @param request 补全请求
+ * @returns 应插入光标处的文本
+ */
+export function cleanFimCompletion(text: string, request: FimRequest): string {
+  let completion = text;
+
+  // 部分服务不支持 stop 参数或会返回停止标记本身
+  for (const stop of request.stop) {
+    const index = completion.indexOf(stop);
+    if (index !== -1) {
+      completion = completion.substring(0, index);
+    }
+  }
+
+  let lines = completion.split('\n');
+  if (!request.multiline) {
+    lines = lines.slice(0, 1);
+  }
+
+  // 模型继续生成光标后已有的代码时，从重复处截断
+  const nextLine = request.suffix.split('\n').find(line => line.trim() !== '')?.trim();
+  if (nextLine) {
+    const repeatIndex = lines.findIndex((line, index) => index > 0 && line.trim() === nextLine);
+    if (repeatIndex !== -1) {
+      lines = lines.slice(0, repeatIndex);
+    }
+  }
+
+  return lines.slice(0, MAX_COMPLETION_LINES).join('\n').replace(/\s+$/, '');
+}
+
+/**
+ * 取文本的最后若干行
+ */
+function lastLines(text: string, count: number): string {
+  const lines = text.split('\n');
+  return lines.length > count ? lines.slice(-count).join('\n') : text;
+}
+
+/**
+ * 取文本的前若干行
+ */
+function firstLines(text: string, count: number): string {
+  const lines = text.split('\n');
+  return lines.length > count ? lines.slice(0, count).join('\n') : text;
+}
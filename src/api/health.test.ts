@@ -0,0 +1,70 @@
+/**
+ * 模型健康状态单元测试
+ * 验证故障切换判断和熔断
+ */
+
+import { ModelHealthTracker, isFailoverError, isRateLimitError, toResponseError } from './health';
+
+describe('isFailoverError', () => {
+  it.each([
+    [500, 'Error: OpenAI server error: Please try again later'],
+    [503, 'Error: Anthropic server error: Please try again later'],
+    [500, '错误: 智谱AI服务器错误：请稍后重试'],
+    [429, '错误: 请求频率超限：请稍后重试'],
+    [408, 'Error: API error (408): Request Timeout']
+  ])('fails over on error responses with status %d', (status, content) => {
+    expect(isFailoverError(toResponseError({ content, finishReason: 'error', status }))).toBe(true);
+  });
+
+  it('fails over on network errors without a response', () => {
+    const error = toResponseError({ content: '错误: 网络错误：无法连接到DeepSeek API', finishReason: 'error', errorCode: 'ECONNREFUSED' });
+    expect(isFailoverError(error)).toBe(true);
+  });
+
+  it('does not fail over on client errors even when the message contains other numbers', () => {
+    expect(isFailoverError(toResponseError({
+      content: 'Error: API error (400): max_tokens (503) exceeds the limit',
+      finishReason: 'error',
+      status: 400
+    }))).toBe(false);
+    expect(isFailoverError(toResponseError({
+      content: 'Error: Authentication failed: Invalid API key',
+      finishReason: 'error',
+      status: 401
+    }))).toBe(false);
+  });
+
+  it('does not read parenthesized numbers in the message as a status', () => {
+    expect(isFailoverError(new Error('Invalid argument (500 characters max)'))).toBe(false);
+  });
+
+  it('falls back to the message for errors reported inside a stream', () => {
+    expect(isFailoverError(new Error('Anthropic stream error (overloaded_error): Overloaded'))).toBe(true);
+  });
+});
+
+describe('ModelHealthTracker', () => {
+  it('opens the circuit immediately on rate limit error responses', () => {
+    const tracker = new ModelHealthTracker({ rateLimitCooldownMs: 60000 });
+    const error = toResponseError({ content: '错误: 请求频率超限：请稍后重试', finishReason: 'error', status: 429 });
+
+    expect(isRateLimitError(error)).toBe(true);
+    tracker.recordFailure('glm-4', error);
+
+    expect(tracker.isAvailable('glm-4')).toBe(false);
+    expect(tracker.getHealth('glm-4').state).toBe('open');
+  });
+
+  it('opens the circuit after consecutive failures and recovers after a successful probe', () => {
+    const tracker = new ModelHealthTracker({ failureThreshold: 2, cooldownMs: 0 });
+    const error = toResponseError({ content: 'Error: OpenAI server error', finishReason: 'error', status: 500 });
+
+    tracker.recordFailure('gpt-4o', error);
+    expect(tracker.getHealth('gpt-4o').state).toBe('closed');
+    tracker.recordFailure('gpt-4o', error);
+    expect(tracker.getHealth('gpt-4o').state).toBe('half-open');
+
+    tracker.recordSuccess('gpt-4o');
+    expect(tracker.getHealth('gpt-4o')).toEqual({ modelId: 'gpt-4o', state: 'closed', consecutiveFailures: 0 });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * 模型健康状态
+ * 按模型记录连续失败次数，连续失败达到阈值后熔断一段时间，期间请求直接跳过该模型；
+ * 冷却结束后放行一次试探请求，成功则恢复，失败则重新熔断
+ */
+
+import { ChatResponse } from './types';
+
+/**
+ * 熔断器状态
+ * - closed: 正常
+ * - open: 已熔断，请求跳过该模型
+ * - half-open: 冷却结束，等待试探请求的结果
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * 模型健康状态
+ */
+export interface ModelHealth {
+  /** 模型ID */
+  modelId: string;
+  /** 熔断器状态 */
+  state: CircuitState;
+  /** 连续失败次数 */
+  consecutiveFailures: number;
+  /** 最近一次失败的错误信息 */
+  lastError?: string;
+  /** 最近一次失败的时间（毫秒时间戳） */
+  lastFailureAt?: number;
+  /** 熔断结束时间（毫秒时间戳，仅 open 状态） */
+  openUntil?: number;
+}
+
+/**
+ * 熔断器选项
+ */
+export interface CircuitBreakerOptions {
+  /** 连续失败多少次后熔断（默认3） */
+  failureThreshold?: number;
+  /** 熔断时长（毫秒，默认60秒） */
+  cooldownMs?: number;
+  /** 限流错误的熔断时长（毫秒，默认30秒），响应带 Retry-After 时以其为准 */
+  rateLimitCooldownMs?: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 30 * 1000;
+
+/** 可切换模型的网络错误码 */
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'ERR_NETWORK'];
+
+/** 可切换模型的错误信息关键字（仅用于没有状态码和错误码的错误，如流中返回的过载错误） */
+const FAILOVER_MESSAGE_PATTERN = /network|timeout|timed out|rate limit|too many requests|overloaded|socket hang up|网络错误|无法连接|超时|限流/i;
+
+/**
+ * 获取错误对应的 HTTP 状态码
+ * @param error 错误对象（axios 错误或由错误响应转换的错误）
+ * @returns 状态码，没有响应时返回 undefined
+ */
+function getStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? error?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * 将适配器返回的错误响应转换为错误对象
+ * 保留响应中的 HTTP 状态码和网络错误码，故障切换和熔断据此判断，不解析错误信息文本
+ * @param response finishReason 为 error 的响应
+ */
+export function toResponseError(response: ChatResponse): Error {
+  return Object.assign(new Error(response.content), {
+    status: response.status,
+    code: response.errorCode
+  });
+}
+
+/**
+ * 判断错误是否为限流错误（HTTP 429）
+ * @param error 错误对象
+ */
+export function isRateLimitError(error: any): boolean {
+  const status = getStatus(error);
+  if (status !== undefined) {
+    return status === 429;
+  }
+  return /rate limit|too many requests|限流/i.test(String(error?.message ?? ''));
+}
+
+/**
+ * 判断错误是否应切换到备用模型
+ * 网络错误、超时、5xx 和限流错误通常与模型服务的可用性有关，换一个模型可能成功；
+ * 认证失败、请求参数错误等其他错误换模型也无法解决，直接返回给调用方
+ * @param error 错误对象
+ */
+export function isFailoverError(error: any): boolean {
+  const status = getStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  if (error?.code && NETWORK_ERROR_CODES.includes(error.code)) {
+    return true;
+  }
+  // axios 请求已发出但没有响应
+  if (error?.isAxiosError && !error.response) {
+    return true;
+  }
+  return FAILOVER_MESSAGE_PATTERN.test(String(error?.message ?? ''));
+}
+
+/**
+ * 获取响应头 Retry-After 指定的等待时间
+ * @param error 错误对象
+ * @returns 等待时间（毫秒），没有该响应头时返回 undefined
+ */
+function getRetryAfterMs(error: any): number | undefined {
+  const value = error?.response?.headers?.['retry-after'];
+  if (value === undefined) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 模型健康状态跟踪器
+ */
+export class ModelHealthTracker {
+  private health: Map<string, ModelHealth> = new Map();
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly rateLimitCooldownMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.rateLimitCooldownMs = options.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+  }
+
+  /**
+   * 判断模型当前是否可以接收请求
+   * 熔断时长结束后进入 half-open 状态，放行试探请求
+   * @param modelId 模型ID
+   */
+  isAvailable(modelId: string): boolean {
+    const health = this.health.get(modelId);
+    if (!health || health.state !== 'open') {
+      return true;
+    }
+    if (health.openUntil !== undefined && Date.now() >= health.openUntil) {
+      health.state = 'half-open';
+      health.openUntil = undefined;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 记录请求成功
+   * @param modelId 模型ID
+   */
+  recordSuccess(modelId: string): void {
+    this.health.delete(modelId);
+  }
+
+  /**
+   * 记录请求失败
+   * 限流错误立即熔断；其他错误连续失败达到阈值或试探请求失败时熔断
+   * @param modelId 模型ID
+   * @param error 错误对象
+   */
+  recordFailure(modelId: string, error: any): void {
+    const health = this.health.get(modelId) ?? { modelId, state: 'closed', consecutiveFailures: 0 };
+    health.consecutiveFailures++;
+    health.lastError = error instanceof Error ? error.message : String(error);
+    health.lastFailureAt = Date.now();
+
+    const rateLimited = isRateLimitError(error);
+    if (rateLimited || health.state === 'half-open' || health.consecutiveFailures >= this.failureThreshold) {
+      const cooldown = rateLimited
+        ? getRetryAfterMs(error) ?? this.rateLimitCooldownMs
+        : this.cooldownMs;
+      health.state = 'open';
+      health.openUntil = health.lastFailureAt + cooldown;
+    }
+
+    this.health.set(modelId, health);
+  }
+
+  /**
+   * 获取模型的健康状态
+   * @param modelId 模型ID
+   */
+  getHealth(modelId: string): ModelHealth {
+    this.isAvailable(modelId);
+    const health = this.health.get(modelId);
+    return health ? { ...health } : { modelId, state: 'closed', consecutiveFailures: 0 };
+  }
+
+  /**
+   * 获取所有有失败记录的模型的健康状态
+   */
+  getAllHealth(): ModelHealth[] {
+    return Array.from(this.health.keys()).map(modelId => this.getHealth(modelId));
+  }
+
+  /**
+   * 清除模型的健康记录
+   * @param modelId 模型ID，不传时清除全部
+   */
+  reset(modelId?: string): void {
+    if (modelId) {
+      this.health.delete(modelId);
+    } else {
+      this.health.clear();
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * 分词器单元测试
+ * 验证按字符比例计算中文和混合文本的 token 数，以及按模型选择分词器
+ */
+
+import { getTokenizerByKind, getTokenizerKind } from './tokenizer';
+
+describe('RatioTokenizer', () => {
+  const deepseek = getTokenizerByKind('deepseek');
+  const glm = getTokenizerByKind('glm');
+
+  it('counts CJK characters and full-width punctuation with the CJK ratio', () => {
+    expect(deepseek.count('')).toBe(0);
+    expect(deepseek.count('你好世界')).toBe(3);
+    expect(deepseek.count('你好，世界。')).toBe(4);
+    expect(glm.count('你好世界')).toBe(3);
+    expect(glm.count('中文测试中文测试')).toBe(5);
+  });
+
+  it('counts mixed Chinese and ASCII text by character class', () => {
+    // 4 × 0.6 + 10 × 0.3
+    expect(deepseek.count('修复登录 bug in api')).toBe(6);
+    // 4 × 0.625 + 10 × 0.3
+    expect(glm.count('修复登录 bug in api')).toBe(6);
+    expect(deepseek.count('const value = 1;')).toBe(5);
+  });
+
+  it('counts far more tokens for Chinese than the same number of ASCII characters', () => {
+    const chinese = '这是一个用于测试分词器的中文句子';
+    const ascii = 'a'.repeat(chinese.length);
+    expect(deepseek.count(chinese)).toBe(Math.ceil(chinese.length * 0.6));
+    expect(deepseek.count(chinese)).toBeGreaterThan(deepseek.count(ascii) * 1.5);
+  });
+
+  it('truncates CJK and mixed text to the token limit', () => {
+    expect(deepseek.truncate('你好世界abc', 2)).toBe('你好世');
+    expect(deepseek.truncate('ab你好', 1)).toBe('ab');
+    expect(deepseek.truncate('你好', 10)).toBe('你好');
+    expect(deepseek.truncate('你好', 0)).toBe('');
+    expect(deepseek.count(deepseek.truncate('中文和English混合的文本内容', 5))).toBeLessThanOrEqual(5);
+  });
+
+  it('does not split surrogate pairs when truncating', () => {
+    expect(deepseek.truncate('a😀b', 0.6)).toBe('a😀');
+  });
+});
+
+describe('BpeTokenizer', () => {
+  it('truncates Chinese text without leaving replacement characters', () => {
+    const tokenizer = getTokenizerByKind('cl100k');
+    const text = '这是一个用于测试分词器截断的中文句子';
+    const truncated = tokenizer.truncate(text, 5);
+
+    expect(tokenizer.count(truncated)).toBeLessThanOrEqual(5);
+    expect(text.startsWith(truncated)).toBe(true);
+    expect(truncated).not.toContain('\ufffd');
+  });
+});
+
+describe('getTokenizerKind', () => {
+  it.each([
+    [undefined, 'cl100k'],
+    [{ vendor: 'deepseek', modelName: 'deepseek-chat' }, 'deepseek'],
+    [{ vendor: 'custom', modelName: 'DeepSeek-Coder-V2' }, 'deepseek'],
+    [{ vendor: 'ollama', modelName: 'deepseek-r1:7b' }, 'deepseek'],
+    [{ vendor: 'zhipuai', modelName: 'codegeex-4' }, 'glm'],
+    [{ vendor: 'custom', modelName: 'glm-4-plus' }, 'glm'],
+    [{ vendor: 'openai', modelName: 'gpt-4o-mini' }, 'o200k'],
+    [{ vendor: 'openai', modelName: 'gpt-4.1' }, 'o200k'],
+    [{ vendor: 'openai', modelName: 'o1-mini' }, 'o200k'],
+    [{ vendor: 'openai', modelName: 'o3' }, 'o200k'],
+    [{ vendor: 'openai', modelName: 'gpt-4-turbo' }, 'cl100k'],
+    [{ vendor: 'openai', modelName: 'gpt-3.5-turbo' }, 'cl100k'],
+    [{ vendor: 'ollama', modelName: 'qwen2.5-coder:7b' }, 'cl100k']
+  ] as const)('maps %j to %s', (model, kind) => {
+    expect(getTokenizerKind(model)).toBe(kind);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tokenizer
+ * 按模型计算 token 数量：OpenAI 系列使用 BPE 词表（cl100k_base / o200k_base）精确计算，
+ * DeepSeek 和智谱 GLM 使用官方给出的字符换算比例近似计算
+ */
+
+import type { Tiktoken } from 'js-tiktoken/lite';
+import { ModelConfig } from './types';
+
+/**
+ * 分词器类型
+ */
+export type TokenizerKind = 'cl100k' | 'o200k' | 'deepseek' | 'glm';
+
+/**
+ * 分词器接口
+ */
+export interface Tokenizer {
+  /** 分词器类型 */
+  readonly kind: TokenizerKind;
+
+  /**
+   * 计算文本的 token 数量
+   * @param text 文本内容
+   */
+  count(text: string): number;
+
+  /**
+   * 截断文本使其不超过指定 token 数
+   * @param text 文本内容
+   * @param maxTokens 最大 token 数
+   * @returns 截断后的文本（未超出时原样返回）
+   */
+  truncate(text: string, maxTokens: number): string;
+}
+
+/** BPE 词表名称 */
+const BPE_RANKS: Record<'cl100k' | 'o200k', string> = {
+  cl100k: 'js-tiktoken/ranks/cl100k_base',
+  o200k: 'js-tiktoken/ranks/o200k_base'
+};
+
+/** 使用 o200k_base 词表的 OpenAI 模型 */
+const O200K_MODEL_PATTERN = /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|(^|[^a-z])o[1-9]([^0-9]|$)/i;
+
+/**
+ * 按字符类别换算 token 的比例
+ * DeepSeek：1 个中文字符约 0.6 token，1 个英文字符约 0.3 token
+ * GLM：1 个中文字符约 0.625 token（约 1.6 字符 / token），1 个英文字符约 0.3 token
+ */
+const CHAR_RATIOS: Record<'deepseek' | 'glm', { cjk: number; other: number }> = {
+  deepseek: { cjk: 0.6, other: 0.3 },
+  glm: { cjk: 0.625, other: 0.3 }
+};
+
+/** 中日韩字符（含全角标点） */
+const CJK_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+/** 已加载的 BPE 编码器 */
+const encoders = new Map<string, Tiktoken>();
+
+/** 已创建的分词器 */
+const tokenizers = new Map<TokenizerKind, Tokenizer>();
+
+/**
+ * BPE 分词器
+ * 词表较大，首次使用时才加载
+ */
+class BpeTokenizer implements Tokenizer {
+  constructor(readonly kind: 'cl100k' | 'o200k') {}
+
+  count(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    return this.getEncoder().encode(text, 'all').length;
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    if (maxTokens <= 0) {
+      return '';
+    }
+    const encoder = this.getEncoder();
+    const tokens = encoder.encode(text, 'all');
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    // 截断处可能落在多字节字符中间，去掉解码出的替换字符
+    return encoder.decode(tokens.slice(0, maxTokens)).replace(/\ufffd+$/, '');
+  }
+
+  private getEncoder(): Tiktoken {
+    let encoder = encoders.get(this.kind);
+    if (!encoder) {
+      const { Tiktoken: TiktokenClass } = require('js-tiktoken/lite');
+      encoder = new TiktokenClass(require(BPE_RANKS[this.kind])) as Tiktoken;
+      encoders.set(this.kind, encoder);
+    }
+    return encoder;
+  }
+}
+
+/**
+ * 按字符比例近似计算的分词器
+ */
+class RatioTokenizer implements Tokenizer {
+  private ratio: { cjk: number; other: number };
+
+  constructor(readonly kind: 'deepseek' | 'glm') {
+    this.ratio = CHAR_RATIOS[kind];
+  }
+
+  count(text: string): number {
+    let tokens = 0;
+    for (const char of text) {
+      tokens += this.weight(char);
+    }
+    return Math.ceil(tokens);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    if (maxTokens <= 0) {
+      return '';
+    }
+    let tokens = 0;
+    let end = 0;
+    for (const char of text) {
+      tokens += this.weight(char);
+      if (tokens > maxTokens) {
+        return text.substring(0, end);
+      }
+      end += char.length;
+    }
+    return text;
+  }
+
+  private weight(char: string): number {
+    return CJK_PATTERN.test(char) ? this.ratio.cjk : this.ratio.other;
+  }
+}
+
+/**
+ * 获取指定类型的分词器
+ * @param kind 分词器类型
+ */
+export function getTokenizerByKind(kind: TokenizerKind): Tokenizer {
+  let tokenizer = tokenizers.get(kind);
+  if (!tokenizer) {
+    tokenizer = kind === 'cl100k' || kind === 'o200k' ? new BpeTokenizer(kind) : new RatioTokenizer(kind);
+    tokenizers.set(kind, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * 根据模型选择分词器类型
+ * 自定义模型按模型名称推断，无法推断时使用 cl100k_base
+ * @param model 模型配置（只需要提供商和模型名称）
+ */
+export function getTokenizerKind(model?: Pick<ModelConfig, 'vendor' | 'modelName'>): TokenizerKind {
+  if (!model) {
+    return 'cl100k';
+  }
+
+  const name = model.modelName || '';
+  if (model.vendor === 'deepseek' || /deepseek/i.test(name)) {
+    return 'deepseek';
+  }
+  if (model.vendor === 'zhipuai' || /glm/i.test(name)) {
+    return 'glm';
+  }
+  return O200K_MODEL_PATTERN.test(name) ? 'o200k' : 'cl100k';
+}
+
+/**
+ * 获取模型对应的分词器
+ * @param model 模型配置（只需要提供商和模型名称），未提供时使用 cl100k_base
+ */
+export function getTokenizer(model?: Pick<ModelConfig, 'vendor' | 'modelName'>): Tokenizer {
+  return getTokenizerByKind(getTokenizerKind(model));
+}
@@ -3,6 +3,11 @@
  * 定义了与AI模型交互的核心数据结构和接口
  */
 
+/**
+ * FIM（Fill-in-the-Middle）补全模板名称
+ */
+export type FimTemplateName = 'starcoder' | 'codellama' | 'deepseek-coder' | 'qwen-coder';
+
 /**
  * 模型配置
  * 包含模型的基本信息和API连接配置
@@ -15,7 +20,7 @@ export interface ModelConfig {
   /** 显示名称 */
   displayName: string;
   /** 模型提供商 */
-  vendor: 'deepseek' | 'openai' | 'zhipuai' | 'custom';
+  vendor: 'deepseek' | 'openai' | 'zhipuai' | 'anthropic' | 'ollama' | 'custom';
   /** 模型描述 */
   modelDescription?: string;
   /** 最大上下文token数 */
@@ -26,8 +31,37 @@ export interface ModelConfig {
   apiKey: string;
   /** API基础URL */
   apiBaseUrl: string;
+  /** 模型在内存中保留的时长（如 "5m"、"1h"，"-1" 表示常驻，仅 Ollama） */
+  keepAlive?: string;
+  /** 代码补全使用的 FIM 模板，未设置时按模型名称推断 */
+  fimTemplate?: FimTemplateName;
+}
+
+/**
+ * 按功能分配模型时的功能类型
+ * - chat: 聊天
+ * - completion: 代码补全
+ * - agent: Agent 任务
+ * - intent: 意图识别
+ */
+export type ModelFeature = 'chat' | 'completion' | 'agent' | 'intent';
+
+/**
+ * 模型路由
+ * 某个功能使用的模型，以及该模型请求失败时依次尝试的备用模型
+ */
+export interface ModelRoute {
+  /** 模型ID */
+  modelId: string;
+  /** 备用模型ID列表（按顺序尝试） */
+  fallbacks?: string[];
 }
 
+/**
+ * 各功能的模型路由配置，未配置的功能使用当前模型
+ */
+export type ModelRouting = Partial<Record<ModelFeature, ModelRoute>>;
+
 /**
  * 代码上下文
  * 包含当前编辑器状态和相关代码信息
@@ -58,6 +92,10 @@ export interface CodeContext {
     relevance: number;
     excerpt: string;
   }>;
+  /** 用户通过 @ 提及显式引用的上下文 */
+  mentions?: MentionContext[];
+  /** 被数据外发策略（.hicodeignore）排除、未包含在上下文中的文件（工作区相对路径） */
+  withheld?: string[];
   /** 项目信息 */
   projectInfo?: {
     name: string;
@@ -66,19 +104,99 @@ export interface CodeContext {
   };
 }
 
+/**
+ * @ 提及类型
+ */
+export type MentionType =
+  | 'file'
+  | 'folder'
+  | 'symbol'
+  | 'selection'
+  | 'problems'
+  | 'git-diff'
+  | 'terminal';
+
+/**
+ * @ 提及解析后的上下文
+ */
+export interface MentionContext {
+  /** 提及类型 */
+  type: MentionType;
+  /** 显示名称（如文件路径、符号名） */
+  label: string;
+  /** 引用的内容 */
+  content: string;
+  /** 内容的语言（用于代码块标记） */
+  language?: string;
+}
+
+/**
+ * 工具定义
+ * 描述模型可调用的函数，parameters 使用 JSON Schema 描述参数
+ */
+export interface ToolDefinition {
+  /** 工具名称 */
+  name: string;
+  /** 工具描述 */
+  description: string;
+  /** 参数的 JSON Schema */
+  parameters: Record<string, any>;
+}
+
+/**
+ * 工具选择策略
+ * - auto: 由模型决定是否调用工具
+ * - none: 禁止调用工具
+ * - required: 必须调用至少一个工具
+ * - { name }: 必须调用指定工具
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * 工具调用
+ * 模型返回的一次完整工具调用
+ */
+export interface ToolCall {
+  /** 调用ID，工具结果消息通过 toolCallId 关联 */
+  id: string;
+  /** 工具名称 */
+  name: string;
+  /** 调用参数（JSON字符串，由模型生成，可能不是合法JSON） */
+  arguments: string;
+}
+
+/**
+ * 工具调用增量
+ * 流式响应中的工具调用片段，同一 index 的片段依次拼接得到完整调用
+ */
+export interface ToolCallDelta {
+  /** 工具调用在本次响应中的序号 */
+  index: number;
+  /** 调用ID（通常只在首个片段中出现） */
+  id?: string;
+  /** 工具名称（通常只在首个片段中出现） */
+  name?: string;
+  /** 参数JSON字符串片段 */
+  argumentsDelta?: string;
+}
+
 /**
  * 聊天消息
  * 表示对话中的单条消息
  */
 export interface ChatMessage {
   /** 消息角色 */
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   /** 消息内容 */
   content: string;
   /** 代码上下文（可选） */
   context?: CodeContext;
   /** 时间戳 */
   timestamp?: Date;
+  /** 助手消息发起的工具调用（可选） */
+  toolCalls?: ToolCall[];
+  /** 工具结果消息对应的调用ID（role 为 tool 时必填） */
+  toolCallId?: string;
 }
 
 /**
@@ -96,6 +214,17 @@ export interface ChatRequest {
   temperature?: number;
   /** 最大token数（可选） */
   maxTokens?: number;
+  /** 可调用的工具列表（可选） */
+  tools?: ToolDefinition[];
+  /** 工具选择策略（可选，默认由模型决定） */
+  toolChoice?: ToolChoice;
+  /** 发起请求的功能（可选），请求失败时按该功能的备用模型重试 */
+  feature?: ModelFeature;
+  /**
+   * 授权范围（可选）
+   * 同一范围内的请求（如一次智能体运行的各步、一轮对话及其摘要）共享用户的一次性允许，不重复弹出确认
+   */
+  authorizationScope?: string;
 }
 
 /**
@@ -106,13 +235,21 @@ export interface ChatResponse {
   /** 响应内容 */
   content: string;
   /** 结束原因 */
-  finishReason: 'stop' | 'length' | 'error';
+  finishReason: 'stop' | 'length' | 'tool_calls' | 'error';
+  /** 工具调用（finishReason 为 tool_calls 时存在） */
+  toolCalls?: ToolCall[];
   /** token使用情况（可选） */
   usage?: {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
   };
+  /** 实际回答的模型ID（发生故障切换时与请求的模型不同） */
+  modelId?: string;
+  /** 服务端返回的 HTTP 状态码（finishReason 为 error 且服务端有响应时存在） */
+  status?: number;
+  /** 网络错误码，如 ECONNREFUSED、ETIMEDOUT（finishReason 为 error 且请求没有响应时存在） */
+  errorCode?: string;
 }
 
 /**
@@ -148,12 +285,16 @@ export interface IAPIClient {
    * @param onChunk 接收到数据块时的回调
    * @param onEnd 流结束时的回调
    * @param onError 发生错误时的回调
+   * @param onToolCallDelta 接收到工具调用片段时的回调（可选）
+   * @param onModel 确定实际回答的模型时的回调（可选，发生故障切换时与请求的模型不同）
    */
   sendStreamChatRequest(
     request: ChatRequest,
     onChunk: (chunk: string) => void,
     onEnd: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    onToolCallDelta?: (delta: ToolCallDelta) => void,
+    onModel?: (modelId: string) => void
   ): Promise<void>;
 
   /**
@@ -161,14 +302,24 @@ export interface IAPIClient {
    * @param context 代码上下文
    * @param prefix 光标前的代码
    * @param suffix 光标后的代码
+   * @param onPartial 流式生成时接收当前已生成补全文本的回调（可选）
    * @returns 补全建议列表
    */
   sendCompletionRequest(
     context: CodeContext,
     prefix: string,
-    suffix: string
+    suffix: string,
+    onPartial?: (text: string) => void
   ): Promise<CompletionSuggestion[]>;
 
+  /**
+   * 获取某个功能使用的模型ID
+   * 为该功能配置了路由时使用路由指定的模型，否则使用当前模型
+   * @param feature 功能类型
+   * @returns 模型ID，未选择任何模型时返回 null
+   */
+  getModelForFeature(feature: ModelFeature): string | null;
+
   /**
    * 验证API配置
    * @param config 模型配置
@@ -195,12 +346,14 @@ export interface ModelAdapter {
    * @param onChunk 接收到数据块时的回调
    * @param onEnd 流结束时的回调
    * @param onError 发生错误时的回调
+   * @param onToolCallDelta 接收到工具调用片段时的回调（可选）
    */
   chatStream(
     request: ChatRequest,
     onChunk: (chunk: string) => void,
     onEnd: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    onToolCallDelta?: (delta: ToolCallDelta) => void
   ): Promise<void>;
 
   /**
@@ -208,12 +361,14 @@ export interface ModelAdapter {
    * @param context 代码上下文
    * @param prefix 光标前的代码
    * @param suffix 光标后的代码
+   * @param onPartial 流式生成时接收当前已生成补全文本的回调（可选，不支持流式的适配器忽略）
    * @returns 补全建议列表
    */
   complete(
     context: CodeContext,
     prefix: string,
-    suffix: string
+    suffix: string,
+    onPartial?: (text: string) => void
   ): Promise<CompletionSuggestion[]>;
 
   /**
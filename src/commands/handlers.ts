@@ -4,6 +4,9 @@
  */
 
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
 import {
   getInlineChatProvider,
   getContextManager,
@@ -11,11 +14,17 @@ import {
   getAPIClient,
   getConfigManager,
   getCompletionProvider,
+  getInlineCompletionProvider,
   getAgentSystem,
   getChatWebviewProvider
 } from '../index';
 import { logger } from '../utils/logger';
 import * as MessageType from '../utils/messageType';
+import { ChangeConflictError } from '../agent';
+import { ModelConfig } from '../api/types';
+import { AUDIT_LOG_DIR, TrafficAuditEntry, TrafficAuditLog, toCsv } from '../security/auditLog';
+import { LocalModeManager } from '../security/localMode';
+import { LocalServiceInfo, LocalServiceModel, createLocalModelConfig } from '../security/localDiscovery';
 
 // 全局扩展上下文，在 extension.ts 中设置
 let extensionContext: vscode.ExtensionContext | null = null;
@@ -249,10 +258,9 @@ export async function newConversationHandler(): Promise<void> {
  */
 export async function showHistoryHandler(): Promise<void> {
   try {
-    vscode.window.showInformationMessage('HiCode: 显示历史记录 - 功能开发中');
-    console.log('Show history command triggered');
-    
-    // TODO: 实现显示历史记录功能
+    const historyManager = await getHistoryManager();
+    const { showHistoryView } = await import('../history/view');
+    await showHistoryView(historyManager);
   } catch (error) {
     vscode.window.showErrorMessage(`显示历史记录失败: ${error}`);
     console.error('Error in showHistoryHandler:', error);
@@ -274,6 +282,144 @@ export async function switchModelHandler(): Promise<void> {
   }
 }
 
+/**
+ * 拉取 Ollama 模型
+ * 从已配置的 Ollama 模型中选择一个拉取到本地，在通知中显示下载进度
+ */
+export async function pullOllamaModelHandler(): Promise<void> {
+  try {
+    const configManager = await getConfigManager();
+    const models: ModelConfig[] = configManager.models
+      .getModelConfigs()
+      .filter((model: ModelConfig) => model.vendor === 'ollama');
+    if (models.length === 0) {
+      vscode.window.showInformationMessage('HiCode: 尚未配置 Ollama 模型');
+      return;
+    }
+
+    const model = models.length === 1
+      ? models[0]
+      : (await vscode.window.showQuickPick(
+          models.map(config => ({ label: config.displayName, description: config.modelName, config })),
+          { placeHolder: '选择要拉取的 Ollama 模型' }
+        ))?.config;
+    if (!model) {
+      return;
+    }
+
+    const localMode = new LocalModeManager(getExtensionContext());
+    if (!localMode.isEndpointAllowed(model.apiBaseUrl || 'http://localhost:11434')) {
+      vscode.window.showWarningMessage(`HiCode: 已启用本地模式，不能连接非本地地址 ${model.apiBaseUrl}`);
+      return;
+    }
+
+    const apiKey = await configManager.models.getApiKey(model.modelId);
+    const { OllamaAdapter } = await import('../api/adapters/ollama');
+    const adapter = new OllamaAdapter({ ...model, apiKey: apiKey || '' });
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `HiCode: 正在拉取 ${model.modelName}`
+      },
+      progress => adapter.pullModel(status => {
+        const percent = status.total && status.completed !== undefined
+          ? ` ${Math.floor(status.completed / status.total * 100)}%`
+          : '';
+        progress.report({ message: `${status.status}${percent}` });
+      })
+    );
+    vscode.window.showInformationMessage(`HiCode: ${model.modelName} 拉取完成`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`拉取 Ollama 模型失败: ${error instanceof Error ? error.message : error}`);
+    console.error('Error in pullOllamaModelHandler:', error);
+  }
+}
+
+/**
+ * 发现本地模型
+ * 探测本机的 Ollama、llama.cpp、LM Studio、vLLM 和 LocalAI 服务，选择模型后注册到模型配置
+ */
+export async function discoverLocalModelsHandler(): Promise<void> {
+  try {
+    const localMode = new LocalModeManager(getExtensionContext());
+    const services = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'HiCode: 正在查找本地模型服务'
+      },
+      () => localMode.discoverLocalServices()
+    );
+    if (services.length === 0) {
+      vscode.window.showInformationMessage(
+        'HiCode: 未发现本地模型服务（已探测 Ollama、LM Studio、vLLM、llama.cpp 和 LocalAI 的常用端口）'
+      );
+      return;
+    }
+
+    const configManager = await getConfigManager();
+    const registered = new Set(
+      configManager.models.getModelConfigs().map((config: ModelConfig) => config.modelId)
+    );
+
+    type LocalModelItem = vscode.QuickPickItem & { service?: LocalServiceInfo; model?: LocalServiceModel };
+    const items: LocalModelItem[] = [];
+    for (const service of services) {
+      items.push({
+        label: `${service.name}${service.version ? ` ${service.version}` : ''} · ${service.endpoint}`,
+        kind: vscode.QuickPickItemKind.Separator
+      });
+      // 只提供嵌入能力的模型不能用于聊天和补全
+      for (const model of service.models.filter(model => model.capabilities.some(capability => capability !== 'embedding'))) {
+        const isRegistered = registered.has(createLocalModelConfig(service, model).modelId);
+        items.push({
+          label: model.name,
+          description: [
+            model.contextLength ? `${model.contextLength} tokens` : undefined,
+            model.capabilities.join(', '),
+            model.loaded ? '已加载' : undefined
+          ].filter(Boolean).join(' · '),
+          detail: isRegistered ? '已注册' : undefined,
+          service,
+          model
+        });
+      }
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: '选择要注册的本地模型',
+      canPickMany: true,
+      matchOnDescription: true
+    });
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    let count = 0;
+    for (const item of picked) {
+      if (item.service && item.model) {
+        await localMode.registerDiscoveredModel(item.service, item.model, configManager.models);
+        count++;
+      }
+    }
+
+    if (localMode.isLocalModeEnabled()) {
+      vscode.window.showInformationMessage(`HiCode: 已注册 ${count} 个本地模型`);
+      return;
+    }
+    const choice = await vscode.window.showInformationMessage(
+      `HiCode: 已注册 ${count} 个本地模型。启用本地模式后，请求只会发送给本地网络中的模型。`,
+      '启用本地模式'
+    );
+    if (choice === '启用本地模式') {
+      await localMode.updateConfig({ enabled: true });
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`发现本地模型失败: ${error instanceof Error ? error.message : error}`);
+    console.error('Error in discoverLocalModelsHandler:', error);
+  }
+}
+
 /**
  * 配置模型
  * 打开设置页面进行模型配置
@@ -319,26 +465,204 @@ export async function triggerCompletionHandler(): Promise<void> {
       return;
     }
 
-    vscode.window.showInformationMessage('HiCode: 触发补全 - 功能开发中');
+    await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
     console.log('Trigger completion command triggered');
-    
-    // TODO: 实现触发补全功能
   } catch (error) {
     vscode.window.showErrorMessage(`触发补全失败: ${error}`);
     console.error('Error in triggerCompletionHandler:', error);
   }
 }
 
+/**
+ * 导出补全统计报告
+ * 将按模型、语言、文件和触发上下文统计的补全接受率写入本地 JSON 文件并打开
+ */
+export async function exportCompletionReportHandler(): Promise<void> {
+  try {
+    const provider = await getCompletionProvider();
+    const report = provider.getCompletionReport();
+    if (report.total.shown === 0) {
+      vscode.window.showInformationMessage('HiCode: 暂无补全统计数据');
+      return;
+    }
+
+    const reportDir = path.join(getExtensionContext().globalStorageUri.fsPath, 'reports');
+    await fs.promises.mkdir(reportDir, { recursive: true });
+    const reportPath = path.join(
+      reportDir,
+      `completion-report-${report.generatedAt.replace(/[:.]/g, '-')}.json`
+    );
+    await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+
+    const document = await vscode.workspace.openTextDocument(reportPath);
+    await vscode.window.showTextDocument(document);
+    logger.info('补全统计报告已导出', { reportPath }, 'CommandHandlers');
+  } catch (error) {
+    vscode.window.showErrorMessage(`导出补全统计报告失败: ${error}`);
+    console.error('Error in exportCompletionReportHandler:', error);
+  }
+}
+
+/**
+ * 获取模型流量审计日志
+ * 审计日志关闭时仍可浏览和导出已有记录
+ */
+async function getTrafficAuditLog(): Promise<TrafficAuditLog> {
+  const apiClient = await getAPIClient();
+  return apiClient.getAuditLog() ??
+    new TrafficAuditLog(path.join(getExtensionContext().globalStorageUri.fsPath, AUDIT_LOG_DIR));
+}
+
+/**
+ * 浏览模型流量审计日志
+ * 按时间倒序列出发送给模型的请求，选中后查看完整记录
+ */
+export async function showAuditLogHandler(): Promise<void> {
+  try {
+    const auditLog = await getTrafficAuditLog();
+    const entries = (await auditLog.getEntries()).reverse();
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('HiCode: 暂无模型请求审计记录');
+      return;
+    }
+
+    const exportItem = { label: '$(export) 导出审计日志…', alwaysShow: true };
+    const items = entries.map(entry => ({
+      label: `${entry.status === 'error' ? '$(error)' : '$(pass)'} ${new Date(entry.timestamp).toLocaleString()} · ${entry.feature} → ${entry.modelName}`,
+      description: entry.endpoint,
+      detail: `${entry.promptTokens} + ${entry.completionTokens} tokens · ${entry.files.length} 个文件` +
+        ` · 脱敏 ${Object.values(entry.redactionHits).reduce((sum, count) => sum + count, 0)} 处` +
+        ` · ${entry.payloadHash.slice(0, 12)}`,
+      entry
+    }));
+
+    const picked = await vscode.window.showQuickPick<vscode.QuickPickItem & { entry?: TrafficAuditEntry }>(
+      [exportItem, ...items],
+      {
+        placeHolder: `共 ${entries.length} 条模型请求记录`,
+        matchOnDescription: true,
+        matchOnDetail: true
+      }
+    );
+    if (!picked) {
+      return;
+    }
+    if (!picked.entry) {
+      await exportAuditLogHandler();
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+      language: 'json',
+      content: JSON.stringify(picked.entry, null, 2)
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  } catch (error) {
+    vscode.window.showErrorMessage(`浏览审计日志失败: ${error}`);
+    console.error('Error in showAuditLogHandler:', error);
+  }
+}
+
+/**
+ * 导出模型流量审计日志
+ * 选择 CSV 或 JSON 格式后保存到用户指定的位置
+ */
+export async function exportAuditLogHandler(): Promise<void> {
+  try {
+    const auditLog = await getTrafficAuditLog();
+    const entries = await auditLog.getEntries();
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('HiCode: 暂无模型请求审计记录');
+      return;
+    }
+
+    const format = await vscode.window.showQuickPick(['CSV', 'JSON'], {
+      placeHolder: `导出 ${entries.length} 条模型请求记录`
+    });
+    if (!format) {
+      return;
+    }
+
+    const extension = format === 'CSV' ? 'csv' : 'json';
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(defaultFolder, `hicode-audit-log.${extension}`),
+      filters: { [format]: [extension] }
+    });
+    if (!target) {
+      return;
+    }
+
+    const content = format === 'CSV' ? toCsv(entries) : JSON.stringify(entries, null, 2);
+    await fs.promises.writeFile(target.fsPath, content, 'utf-8');
+    vscode.window.showInformationMessage(`HiCode: 已导出 ${entries.length} 条审计记录到 ${target.fsPath}`);
+    logger.info('审计日志已导出', { path: target.fsPath, format }, 'CommandHandlers');
+  } catch (error) {
+    vscode.window.showErrorMessage(`导出审计日志失败: ${error}`);
+    console.error('Error in exportAuditLogHandler:', error);
+  }
+}
+
+/**
+ * 内联补全被接受
+ * 由内联补全项在用户接受后自动执行，用于区分接受和拒绝
+ */
+export async function inlineCompletionAcceptedHandler(): Promise<void> {
+  try {
+    const provider = await getInlineCompletionProvider();
+    provider.markAccepted();
+  } catch (error) {
+    console.error('Error in inlineCompletionAcceptedHandler:', error);
+  }
+}
+
+/**
+ * 逐词接受内联补全
+ */
+export async function acceptInlineCompletionWordHandler(): Promise<void> {
+  try {
+    const provider = await getInlineCompletionProvider();
+    provider.markAccepted();
+    await vscode.commands.executeCommand('editor.action.inlineSuggest.acceptNextWord');
+  } catch (error) {
+    console.error('Error in acceptInlineCompletionWordHandler:', error);
+  }
+}
+
+/**
+ * 逐行接受内联补全
+ */
+export async function acceptInlineCompletionLineHandler(): Promise<void> {
+  try {
+    const provider = await getInlineCompletionProvider();
+    provider.markAccepted();
+    await vscode.commands.executeCommand('editor.action.inlineSuggest.acceptNextLine');
+  } catch (error) {
+    console.error('Error in acceptInlineCompletionLineHandler:', error);
+  }
+}
+
 /**
  * 撤销 Agent 操作
  */
 export async function undoAgentActionHandler(): Promise<void> {
   try {
-    vscode.window.showInformationMessage('HiCode: 撤销 Agent 操作 - 功能开发中');
+    const agentSystem = await getAgentSystem();
+    if (agentSystem.getHistory().length === 0) {
+      vscode.window.showInformationMessage('HiCode: 没有可撤销的 Agent 操作');
+      return;
+    }
+
+    await agentSystem.undoLastChange();
+    vscode.window.showInformationMessage('HiCode: 已撤销最近一次 Agent 操作');
     console.log('Undo agent action command triggered');
-    
-    // TODO: 实现撤销 Agent 操作功能
   } catch (error) {
+    if (error instanceof ChangeConflictError) {
+      vscode.window.showWarningMessage(
+        `HiCode: 以下文件在 Agent 操作后又被修改，为避免覆盖你的编辑，已取消撤销：${error.files.map(file => vscode.workspace.asRelativePath(file)).join('、')}`
+      );
+      return;
+    }
     vscode.window.showErrorMessage(`撤销操作失败: ${error}`);
     console.error('Error in undoAgentActionHandler:', error);
   }
@@ -101,6 +101,20 @@ export const commandConfigs: CommandConfig[] = [
     description: '切换当前使用的 AI 模型',
     handler: handlers.switchModelHandler
   },
+  {
+    command: 'hicode.pullOllamaModel',
+    title: 'Pull Ollama Model',
+    category: 'HiCode',
+    description: '将配置的 Ollama 模型拉取到本地',
+    handler: handlers.pullOllamaModelHandler
+  },
+  {
+    command: 'hicode.discoverLocalModels',
+    title: 'Discover Local Models',
+    category: 'HiCode',
+    description: '查找本机的 Ollama、llama.cpp、LM Studio、vLLM 和 LocalAI 服务并注册其中的模型',
+    handler: handlers.discoverLocalModelsHandler
+  },
   {
     command: 'hicode.configureModels',
     title: 'Configure AI Models',
@@ -123,6 +137,50 @@ export const commandConfigs: CommandConfig[] = [
     handler: handlers.triggerCompletionHandler,
     when: 'editorTextFocus'
   },
+  {
+    command: 'hicode.acceptInlineCompletionWord',
+    title: 'Accept Next Word of Completion',
+    category: 'HiCode',
+    description: '接受内联补全的下一个词',
+    handler: handlers.acceptInlineCompletionWordHandler,
+    when: 'inlineSuggestionVisible'
+  },
+  {
+    command: 'hicode.acceptInlineCompletionLine',
+    title: 'Accept Next Line of Completion',
+    category: 'HiCode',
+    description: '接受内联补全的下一行',
+    handler: handlers.acceptInlineCompletionLineHandler,
+    when: 'inlineSuggestionVisible'
+  },
+  {
+    command: 'hicode.exportCompletionReport',
+    title: 'Export Completion Report',
+    category: 'HiCode',
+    description: '导出补全接受率统计报告',
+    handler: handlers.exportCompletionReportHandler
+  },
+  {
+    command: 'hicode.showAuditLog',
+    title: 'Show Model Request Audit Log',
+    category: 'HiCode',
+    description: '浏览发送给模型的请求审计日志',
+    handler: handlers.showAuditLogHandler
+  },
+  {
+    command: 'hicode.exportAuditLog',
+    title: 'Export Model Request Audit Log',
+    category: 'HiCode',
+    description: '将模型请求审计日志导出为 CSV 或 JSON',
+    handler: handlers.exportAuditLogHandler
+  },
+  {
+    command: 'hicode.inlineCompletionAccepted',
+    title: 'Inline Completion Accepted',
+    category: 'HiCode',
+    description: '记录内联补全已被接受（内部命令）',
+    handler: handlers.inlineCompletionAcceptedHandler
+  },
   {
     command: 'hicode.undoAgentAction',
     title: 'Undo Last Agent Action',
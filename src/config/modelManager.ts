@@ -5,7 +5,7 @@
  */
 
 import * as vscode from 'vscode';
-import { ModelConfig } from '../api/types';
+import { ModelConfig, ModelFeature, ModelRoute, ModelRouting } from '../api/types';
 import { ModelValidator } from './modelValidator';
 
 /**
@@ -62,6 +62,45 @@ export interface IModelManager {
    * @param apiKey API密钥
    */
   setApiKey(modelId: string, apiKey: string): Promise<void>;
+
+  /**
+   * 获取各功能的模型路由配置
+   * @returns 模型路由配置
+   */
+  getModelRouting(): ModelRouting;
+
+  /**
+   * 设置某个功能的模型路由
+   * @param feature 功能类型
+   * @param route 模型路由，传入 null 时清除该功能的路由（改用当前模型）
+   */
+  setModelRoute(feature: ModelFeature, route: ModelRoute | null): Promise<void>;
+
+  /**
+   * 获取某个功能使用的模型ID
+   * @param feature 功能类型
+   * @returns 模型ID，未配置路由时返回当前模型
+   */
+  getModelForFeature(feature: ModelFeature): string;
+
+  /**
+   * 获取某个功能的备用模型ID列表
+   * @param feature 功能类型
+   * @returns 备用模型ID列表（只包含已配置的模型）
+   */
+  getFallbackModels(feature: ModelFeature): string[];
+
+  /**
+   * 获取全局故障切换链
+   * @returns 模型ID列表（只包含已配置的模型），任意模型请求失败时按顺序尝试
+   */
+  getFallbackChain(): string[];
+
+  /**
+   * 设置全局故障切换链
+   * @param modelIds 模型ID列表
+   */
+  setFallbackChain(modelIds: string[]): Promise<void>;
 }
 
 /**
@@ -71,6 +110,9 @@ export class ModelManager implements IModelManager {
   private static readonly CONFIG_KEY = 'hicode';
   private static readonly MODEL_CONFIGS_KEY = 'modelConfigs';
   private static readonly CURRENT_MODEL_KEY = 'currentModel';
+  private static readonly MODEL_ROUTING_KEY = 'modelRouting';
+  private static readonly FALLBACK_MODELS_KEY = 'fallbackModels';
+  private static readonly FEATURES: ModelFeature[] = ['chat', 'completion', 'agent', 'intent'];
   private static readonly API_KEY_PREFIX = 'hicode.apiKey.';
 
   constructor(
@@ -181,6 +223,13 @@ export class ModelManager implements IModelManager {
       vscode.ConfigurationTarget.Global
     );
 
+    // 从各功能的路由和故障切换链中移除被删除的模型
+    await this.removeModelFromRouting(modelId);
+    const chain = this.getFallbackChain();
+    if (chain.includes(modelId)) {
+      await this.setFallbackChain(chain.filter(id => id !== modelId));
+    }
+
     // 如果删除的是当前模型，切换到第一个可用模型
     const currentModel = this.getCurrentModel();
     if (currentModel === modelId && filteredConfigs.length > 0) {
@@ -233,6 +282,149 @@ export class ModelManager implements IModelManager {
     await this.secretStorage.store(`${ModelManager.API_KEY_PREFIX}${modelId}`, apiKey);
   }
 
+  /**
+   * 获取各功能的模型路由配置
+   */
+  getModelRouting(): ModelRouting {
+    const config = vscode.workspace.getConfiguration(ModelManager.CONFIG_KEY);
+    const routing = config.get<ModelRouting>(ModelManager.MODEL_ROUTING_KEY, {}) || {};
+
+    // 返回配置的副本，忽略未知功能和缺少模型ID的路由
+    const result: ModelRouting = {};
+    for (const feature of ModelManager.FEATURES) {
+      const route = routing[feature];
+      if (route && route.modelId) {
+        result[feature] = { modelId: route.modelId, fallbacks: [...(route.fallbacks || [])] };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 设置某个功能的模型路由
+   */
+  async setModelRoute(feature: ModelFeature, route: ModelRoute | null): Promise<void> {
+    if (!ModelManager.FEATURES.includes(feature)) {
+      throw new Error(`Unknown feature ${feature}`);
+    }
+
+    const routing = this.getModelRouting();
+    if (route) {
+      const configs = this.getModelConfigs();
+      const fallbacks = (route.fallbacks || []).filter(id => id !== route.modelId);
+      for (const modelId of [route.modelId, ...fallbacks]) {
+        if (!configs.some(c => c.modelId === modelId)) {
+          throw new Error(`Model ${modelId} not found`);
+        }
+      }
+      routing[feature] = { modelId: route.modelId, fallbacks: Array.from(new Set(fallbacks)) };
+    } else {
+      delete routing[feature];
+    }
+
+    const workspaceConfig = vscode.workspace.getConfiguration(ModelManager.CONFIG_KEY);
+    await workspaceConfig.update(
+      ModelManager.MODEL_ROUTING_KEY,
+      routing,
+      vscode.ConfigurationTarget.Global
+    );
+  }
+
+  /**
+   * 获取某个功能使用的模型ID
+   * 路由指向的模型已被删除时回退到当前模型
+   */
+  getModelForFeature(feature: ModelFeature): string {
+    const route = this.getModelRouting()[feature];
+    if (route && this.getModelConfigs().some(c => c.modelId === route.modelId)) {
+      return route.modelId;
+    }
+    return this.getCurrentModel();
+  }
+
+  /**
+   * 获取某个功能的备用模型ID列表
+   */
+  getFallbackModels(feature: ModelFeature): string[] {
+    const route = this.getModelRouting()[feature];
+    if (!route) {
+      return [];
+    }
+    const configs = this.getModelConfigs();
+    const primary = this.getModelForFeature(feature);
+    return (route.fallbacks || []).filter(
+      id => id !== primary && configs.some(c => c.modelId === id)
+    );
+  }
+
+  /**
+   * 获取全局故障切换链
+   */
+  getFallbackChain(): string[] {
+    const config = vscode.workspace.getConfiguration(ModelManager.CONFIG_KEY);
+    const chain = config.get<string[]>(ModelManager.FALLBACK_MODELS_KEY, []) || [];
+    const configs = this.getModelConfigs();
+    return chain.filter(id => configs.some(c => c.modelId === id));
+  }
+
+  /**
+   * 设置全局故障切换链
+   */
+  async setFallbackChain(modelIds: string[]): Promise<void> {
+    const configs = this.getModelConfigs();
+    for (const modelId of modelIds) {
+      if (!configs.some(c => c.modelId === modelId)) {
+        throw new Error(`Model ${modelId} not found`);
+      }
+    }
+
+    const workspaceConfig = vscode.workspace.getConfiguration(ModelManager.CONFIG_KEY);
+    await workspaceConfig.update(
+      ModelManager.FALLBACK_MODELS_KEY,
+      Array.from(new Set(modelIds)),
+      vscode.ConfigurationTarget.Global
+    );
+  }
+
+  /**
+   * 从各功能的路由中移除模型
+   * 被移除的主模型由第一个备用模型替代，没有备用模型时清除该功能的路由
+   * @param modelId 模型ID
+   */
+  private async removeModelFromRouting(modelId: string): Promise<void> {
+    const routing = this.getModelRouting();
+    let changed = false;
+
+    for (const feature of ModelManager.FEATURES) {
+      const route = routing[feature];
+      if (!route) {
+        continue;
+      }
+      const fallbacks = (route.fallbacks || []).filter(id => id !== modelId);
+      if (route.modelId === modelId) {
+        const [next, ...rest] = fallbacks;
+        if (next) {
+          routing[feature] = { modelId: next, fallbacks: rest };
+        } else {
+          delete routing[feature];
+        }
+        changed = true;
+      } else if (fallbacks.length !== (route.fallbacks || []).length) {
+        routing[feature] = { modelId: route.modelId, fallbacks };
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      const workspaceConfig = vscode.workspace.getConfiguration(ModelManager.CONFIG_KEY);
+      await workspaceConfig.update(
+        ModelManager.MODEL_ROUTING_KEY,
+        routing,
+        vscode.ConfigurationTarget.Global
+      );
+    }
+  }
+
   /**
    * 获取完整的模型配置（包含API密钥）
    * @param modelId 模型ID
@@ -3,7 +3,17 @@
  * 负责验证模型配置的完整性和有效性
  */
 
-import { ModelConfig } from '../api/types';
+import { FimTemplateName, ModelConfig } from '../api/types';
+import { isLocalEndpoint } from '../security/localDiscovery';
+
+/** 支持的模型提供商 */
+const VENDORS: ModelConfig['vendor'][] = ['deepseek', 'openai', 'zhipuai', 'anthropic', 'ollama', 'custom'];
+
+/** 不需要API密钥的提供商（本地服务） */
+const KEYLESS_VENDORS: ModelConfig['vendor'][] = ['ollama'];
+
+/** 支持的 FIM 补全模板 */
+const FIM_TEMPLATES: FimTemplateName[] = ['starcoder', 'codellama', 'deepseek-coder', 'qwen-coder'];
 
 /**
  * 验证结果
@@ -42,11 +52,11 @@ export class ModelValidator {
 
     if (!config.vendor) {
       errors.push('Vendor is required');
-    } else if (!['deepseek', 'openai', 'zhipuai', 'custom'].includes(config.vendor)) {
-      errors.push('Vendor must be one of: deepseek, openai, zhipuai, custom');
+    } else if (!VENDORS.includes(config.vendor)) {
+      errors.push(`Vendor must be one of: ${VENDORS.join(', ')}`);
     }
 
-    if (!config.apiKey || config.apiKey.trim() === '') {
+    if ((!config.apiKey || config.apiKey.trim() === '') && !this.isKeyless(config)) {
       errors.push('API key is required');
     }
 
@@ -68,12 +78,26 @@ export class ModelValidator {
       errors.push('Support multimodal must be a boolean');
     }
 
+    if (config.fimTemplate !== undefined && !FIM_TEMPLATES.includes(config.fimTemplate)) {
+      errors.push(`FIM template must be one of: ${FIM_TEMPLATES.join(', ')}`);
+    }
+
     return {
       valid: errors.length === 0,
       errors
     };
   }
 
+  /**
+   * 判断模型是否可以不配置API密钥
+   * 本地服务（Ollama，以及本地网络中的 llama.cpp、LM Studio、vLLM 等）通常不需要密钥
+   * @param config 模型配置
+   */
+  private static isKeyless(config: Partial<ModelConfig>): boolean {
+    return (!!config.vendor && KEYLESS_VENDORS.includes(config.vendor)) ||
+      (!!config.apiBaseUrl && isLocalEndpoint(config.apiBaseUrl));
+  }
+
   /**
    * 验证URL格式
    * @param url URL字符串
@@ -136,12 +160,12 @@ export class ModelValidator {
     }
 
     if (update.vendor !== undefined) {
-      if (!['deepseek', 'openai', 'zhipuai', 'custom'].includes(update.vendor)) {
-        errors.push('Vendor must be one of: deepseek, openai, zhipuai, custom');
+      if (!VENDORS.includes(update.vendor)) {
+        errors.push(`Vendor must be one of: ${VENDORS.join(', ')}`);
       }
     }
 
-    if (update.apiKey !== undefined) {
+    if (update.apiKey !== undefined && !this.isKeyless(update)) {
       if (update.apiKey.trim() === '') {
         errors.push('API key cannot be empty');
       } else if (!this.isValidApiKey(update.apiKey)) {
@@ -1,24 +1,57 @@
 /**
  * Code Analyzer
  * 负责解析代码文件，提取导入语句、函数定义、类定义等信息
+ * 支持的语言（TypeScript/JavaScript、Python、Java、Go、C/C++）使用 tree-sitter 解析，其他文件退回正则匹配
  */
 
 import * as fs from 'fs';
-import * as path from 'path';
+import { getSyntaxLanguage, SyntaxParser } from './syntaxParser';
+import { fileSystemResolveHost, resolveImport } from './importResolver';
 
 /**
  * 解析结果接口
  * 包含从代码中提取的结构化信息
  */
 export interface ParseResult {
+  /** 解析使用的语法（正则匹配时为空） */
+  language?: string;
   /** 导入语句列表 */
   imports: string[];
   /** 导出语句列表 */
   exports: string[];
-  /** 函数定义列表 */
+  /** 函数定义列表（不含类的方法） */
   functions: FunctionInfo[];
-  /** 类定义列表 */
+  /** 类定义列表（包括接口、结构体、枚举） */
   classes: ClassInfo[];
+  /** 顶层符号，嵌套的定义在 children 中 */
+  symbols: SymbolInfo[];
+}
+
+/**
+ * 符号类型
+ */
+export type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'struct' | 'enum' | 'namespace';
+
+/**
+ * 符号信息接口
+ */
+export interface SymbolInfo {
+  /** 符号名 */
+  name: string;
+  /** 符号类型 */
+  kind: SymbolKind;
+  /** 签名（定义体之前的声明部分） */
+  signature: string;
+  /** 文档注释 */
+  docComment?: string;
+  /** 起始行号（从 1 开始，包含装饰器、导出等修饰） */
+  startLine: number;
+  /** 结束行号 */
+  endLine: number;
+  /** 所属类型名（方法） */
+  container?: string;
+  /** 嵌套的符号 */
+  children: SymbolInfo[];
 }
 
 /**
@@ -35,6 +68,10 @@ export interface FunctionInfo {
   endLine: number;
   /** 是否为异步函数 */
   isAsync: boolean;
+  /** 签名 */
+  signature?: string;
+  /** 文档注释 */
+  docComment?: string;
 }
 
 /**
@@ -43,6 +80,8 @@ export interface FunctionInfo {
 export interface ClassInfo {
   /** 类名 */
   name: string;
+  /** 类型（类、接口、结构体、枚举） */
+  kind?: SymbolKind;
   /** 方法列表 */
   methods: string[];
   /** 属性列表 */
@@ -55,6 +94,10 @@ export interface ClassInfo {
   extends?: string;
   /** 实现的接口 */
   implements?: string[];
+  /** 签名 */
+  signature?: string;
+  /** 文档注释 */
+  docComment?: string;
 }
 
 /**
@@ -62,43 +105,14 @@ export interface ClassInfo {
  * 提供代码解析和分析功能
  */
 export class CodeAnalyzer {
+  private syntaxParser = new SyntaxParser();
+
   /**
    * 解析导入语句
-   * 支持多种导入语法（ES6, CommonJS, TypeScript）
+   * 支持多种导入语法（ES6、CommonJS、TypeScript、Python、Java、Go、C/C++ 的 include）
    */
   async parseImports(filePath: string): Promise<string[]> {
-    try {
-      const content = await this.readFile(filePath);
-      const imports: string[] = [];
-
-      // ES6 import语句
-      // import ... from 'module'
-      const es6ImportRegex = /import\s+(?:[\w\s{},*]+\s+from\s+)?['"]([^'"]+)['"]/g;
-      let match;
-      while ((match = es6ImportRegex.exec(content)) !== null) {
-        imports.push(match[1]);
-      }
-
-      // CommonJS require语句
-      // require('module')
-      const requireRegex = /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
-      while ((match = requireRegex.exec(content)) !== null) {
-        imports.push(match[1]);
-      }
-
-      // TypeScript import type
-      // import type ... from 'module'
-      const typeImportRegex = /import\s+type\s+(?:[\w\s{},*]+\s+from\s+)?['"]([^'"]+)['"]/g;
-      while ((match = typeImportRegex.exec(content)) !== null) {
-        imports.push(match[1]);
-      }
-
-      // 去重
-      return Array.from(new Set(imports));
-    } catch (error) {
-      console.error(`Error parsing imports from ${filePath}:`, error);
-      return [];
-    }
+    return (await this.parseFile(filePath)).imports;
   }
 
   /**
@@ -106,94 +120,15 @@ export class CodeAnalyzer {
    * 提取文件中的所有导出项
    */
   async parseExports(filePath: string): Promise<string[]> {
-    try {
-      const content = await this.readFile(filePath);
-      const exports: string[] = [];
-
-      // export { name }
-      const namedExportRegex = /export\s+\{\s*([^}]+)\s*\}/g;
-      let match;
-      while ((match = namedExportRegex.exec(content)) !== null) {
-        const names = match[1].split(',').map(n => n.trim().split(/\s+as\s+/)[0]);
-        exports.push(...names);
-      }
-
-      // export const/let/var name
-      const varExportRegex = /export\s+(?:const|let|var)\s+(\w+)/g;
-      while ((match = varExportRegex.exec(content)) !== null) {
-        exports.push(match[1]);
-      }
-
-      // export function name
-      const funcExportRegex = /export\s+(?:async\s+)?function\s+(\w+)/g;
-      while ((match = funcExportRegex.exec(content)) !== null) {
-        exports.push(match[1]);
-      }
-
-      // export class name
-      const classExportRegex = /export\s+class\s+(\w+)/g;
-      while ((match = classExportRegex.exec(content)) !== null) {
-        exports.push(match[1]);
-      }
-
-      // export default
-      if (/export\s+default/.test(content)) {
-        exports.push('default');
-      }
-
-      return Array.from(new Set(exports));
-    } catch (error) {
-      console.error(`Error parsing exports from ${filePath}:`, error);
-      return [];
-    }
+    return (await this.parseFile(filePath)).exports;
   }
 
   /**
    * 解析函数定义
-   * 提取文件中的所有函数信息
+   * 提取文件中的所有函数信息（不含类的方法）
    */
   async parseFunctions(filePath: string): Promise<FunctionInfo[]> {
-    try {
-      const content = await this.readFile(filePath);
-      const functions: FunctionInfo[] = [];
-      const lines = content.split('\n');
-
-      // 匹配函数声明
-      // function name(params) { ... }
-      // async function name(params) { ... }
-      // const name = function(params) { ... }
-      // const name = (params) => { ... }
-      const functionRegex = /(?:export\s+)?(?:async\s+)?(?:function\s+(\w+)|(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?(?:function|\([^)]*\)\s*=>))\s*\(([^)]*)\)/g;
-
-      let match;
-      while ((match = functionRegex.exec(content)) !== null) {
-        const name = match[1] || match[2];
-        const params = match[3]
-          ? match[3].split(',').map(p => p.trim().split(/[=:]/)[0].trim())
-          : [];
-        const isAsync = /async/.test(match[0]);
-
-        // 找到函数的起始行
-        const startPos = match.index;
-        const startLine = content.substring(0, startPos).split('\n').length;
-
-        // 简化实现：假设函数在接下来的50行内结束
-        const endLine = Math.min(startLine + 50, lines.length);
-
-        functions.push({
-          name,
-          parameters: params,
-          startLine,
-          endLine,
-          isAsync
-        });
-      }
-
-      return functions;
-    } catch (error) {
-      console.error(`Error parsing functions from ${filePath}:`, error);
-      return [];
-    }
+    return (await this.parseFile(filePath)).functions;
   }
 
   /**
@@ -201,76 +136,23 @@ export class CodeAnalyzer {
    * 提取文件中的所有类信息
    */
   async parseClasses(filePath: string): Promise<ClassInfo[]> {
-    try {
-      const content = await this.readFile(filePath);
-      const classes: ClassInfo[] = [];
-      const lines = content.split('\n');
-
-      // 匹配类声明
-      // class Name { ... }
-      // class Name extends Parent { ... }
-      // class Name implements Interface { ... }
-      const classRegex = /(?:export\s+)?class\s+(\w+)(?:\s+extends\s+(\w+))?(?:\s+implements\s+([\w\s,]+))?\s*\{/g;
-
-      let match;
-      while ((match = classRegex.exec(content)) !== null) {
-        const name = match[1];
-        const extendsClass = match[2];
-        const implementsInterfaces = match[3]
-          ? match[3].split(',').map(i => i.trim())
-          : undefined;
-
-        // 找到类的起始行
-        const startPos = match.index;
-        const startLine = content.substring(0, startPos).split('\n').length;
-
-        // 找到类的结束位置（匹配大括号）
-        const endLine = this.findClassEndLine(content, startPos, lines);
-
-        // 提取类的方法和属性
-        const classContent = content.substring(
-          startPos,
-          this.getPositionFromLine(content, endLine)
-        );
-        const methods = this.extractMethods(classContent);
-        const properties = this.extractProperties(classContent);
-
-        classes.push({
-          name,
-          methods,
-          properties,
-          startLine,
-          endLine,
-          extends: extendsClass,
-          implements: implementsInterfaces
-        });
-      }
-
-      return classes;
-    } catch (error) {
-      console.error(`Error parsing classes from ${filePath}:`, error);
-      return [];
-    }
+    return (await this.parseFile(filePath)).classes;
   }
 
   /**
    * 完整解析文件
-   * 返回文件的所有结构化信息
+   * 返回文件的所有结构化信息，读取或解析失败时返回空结果
    */
   async parseFile(filePath: string): Promise<ParseResult> {
-    const [imports, exports, functions, classes] = await Promise.all([
-      this.parseImports(filePath),
-      this.parseExports(filePath),
-      this.parseFunctions(filePath),
-      this.parseClasses(filePath)
-    ]);
-
-    return {
-      imports,
-      exports,
-      functions,
-      classes
-    };
+    try {
+      const content = await this.readFile(filePath);
+      const language = getSyntaxLanguage(filePath);
+      const result = language ? await this.syntaxParser.parse(content, language) : null;
+      return result ?? this.parseWithRegex(content);
+    } catch (error) {
+      console.error(`Error parsing ${filePath}:`, error);
+      return { imports: [], exports: [], functions: [], classes: [], symbols: [] };
+    }
   }
 
   /**
@@ -282,83 +164,232 @@ export class CodeAnalyzer {
     workspaceRoot: string
   ): Promise<string[]> {
     const imports = await this.parseImports(filePath);
-    const relatedFiles: string[] = [];
+    const relatedFiles = new Set<string>();
 
     for (const importPath of imports) {
-      // 跳过node_modules中的模块
-      if (!importPath.startsWith('.') && !importPath.startsWith('/')) {
-        continue;
+      // 按文件的语言解析，node_modules 中的包等工作区外的模块解析不到
+      for (const resolvedPath of resolveImport(importPath, filePath, fileSystemResolveHost)) {
+        relatedFiles.add(resolvedPath);
       }
+    }
 
-      // 解析相对路径
-      const resolvedPath = this.resolveRelativePath(importPath, filePath, workspaceRoot);
-      if (resolvedPath && await this.fileExists(resolvedPath)) {
-        relatedFiles.push(resolvedPath);
-      }
+    return Array.from(relatedFiles);
+  }
+
+  /**
+   * 使用正则匹配解析（不支持的语言或语法加载失败时使用）
+   * 函数的结束行是估算值
+   */
+  private parseWithRegex(content: string): ParseResult {
+    const functions = this.matchFunctions(content);
+    const classes = this.matchClasses(content);
+
+    return {
+      imports: this.matchImports(content),
+      exports: this.matchExports(content),
+      functions,
+      classes,
+      symbols: [
+        ...functions.map(fn => ({
+          name: fn.name,
+          kind: 'function' as const,
+          signature: `${fn.name}(${fn.parameters.join(', ')})`,
+          startLine: fn.startLine,
+          endLine: fn.endLine,
+          children: []
+        })),
+        ...classes.map(cls => ({
+          name: cls.name,
+          kind: 'class' as const,
+          signature: `class ${cls.name}`,
+          startLine: cls.startLine,
+          endLine: cls.endLine,
+          children: []
+        }))
+      ].sort((a, b) => a.startLine - b.startLine)
+    };
+  }
+
+  /**
+   * 解析导入语句
+   * 支持多种导入语法（ES6, CommonJS, TypeScript）
+   */
+  private matchImports(content: string): string[] {
+    const imports: string[] = [];
+
+    // ES6 import语句
+    // import ... from 'module'
+    const es6ImportRegex = /import\s+(?:[\w\s{},*]+\s+from\s+)?['"]([^'"]+)['"]/g;
+    let match;
+    while ((match = es6ImportRegex.exec(content)) !== null) {
+      imports.push(match[1]);
+    }
+
+    // CommonJS require语句
+    // require('module')
+    const requireRegex = /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+    while ((match = requireRegex.exec(content)) !== null) {
+      imports.push(match[1]);
+    }
+
+    // TypeScript import type
+    // import type ... from 'module'
+    const typeImportRegex = /import\s+type\s+(?:[\w\s{},*]+\s+from\s+)?['"]([^'"]+)['"]/g;
+    while ((match = typeImportRegex.exec(content)) !== null) {
+      imports.push(match[1]);
     }
 
-    return relatedFiles;
+    // 去重
+    return Array.from(new Set(imports));
   }
 
   /**
-   * 读取文件内容
+   * 解析导出语句
+   * 提取文件中的所有导出项
    */
-  private async readFile(filePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      fs.readFile(filePath, 'utf-8', (err, data) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(data);
-        }
-      });
-    });
+  private matchExports(content: string): string[] {
+    const exports: string[] = [];
+
+    // export { name }
+    const namedExportRegex = /export\s+\{\s*([^}]+)\s*\}/g;
+    let match;
+    while ((match = namedExportRegex.exec(content)) !== null) {
+      const names = match[1].split(',').map(n => n.trim().split(/\s+as\s+/)[0]);
+      exports.push(...names);
+    }
+
+    // export const/let/var name
+    const varExportRegex = /export\s+(?:const|let|var)\s+(\w+)/g;
+    while ((match = varExportRegex.exec(content)) !== null) {
+      exports.push(match[1]);
+    }
+
+    // export function name
+    const funcExportRegex = /export\s+(?:async\s+)?function\s+(\w+)/g;
+    while ((match = funcExportRegex.exec(content)) !== null) {
+      exports.push(match[1]);
+    }
+
+    // export class name
+    const classExportRegex = /export\s+class\s+(\w+)/g;
+    while ((match = classExportRegex.exec(content)) !== null) {
+      exports.push(match[1]);
+    }
+
+    // export default
+    if (/export\s+default/.test(content)) {
+      exports.push('default');
+    }
+
+    return Array.from(new Set(exports));
   }
 
   /**
-   * 检查文件是否存在
+   * 解析函数定义
+   * 提取文件中的所有函数信息
    */
-  private async fileExists(filePath: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      fs.access(filePath, fs.constants.F_OK, (err) => {
-        resolve(!err);
+  private matchFunctions(content: string): FunctionInfo[] {
+    const functions: FunctionInfo[] = [];
+    const lines = content.split('\n');
+
+    // 匹配函数声明
+    // function name(params) { ... }
+    // async function name(params) { ... }
+    // const name = function(params) { ... }
+    // const name = (params) => { ... }
+    const functionRegex = /(?:export\s+)?(?:async\s+)?(?:function\s+(\w+)|(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?(?:function|\([^)]*\)\s*=>))\s*\(([^)]*)\)/g;
+
+    let match;
+    while ((match = functionRegex.exec(content)) !== null) {
+      const name = match[1] || match[2];
+      const params = match[3]
+        ? match[3].split(',').map(p => p.trim().split(/[=:]/)[0].trim())
+        : [];
+      const isAsync = /async/.test(match[0]);
+
+      // 找到函数的起始行
+      const startPos = match.index;
+      const startLine = content.substring(0, startPos).split('\n').length;
+
+      // 简化实现：假设函数在接下来的50行内结束
+      const endLine = Math.min(startLine + 50, lines.length);
+
+      functions.push({
+        name,
+        parameters: params,
+        startLine,
+        endLine,
+        isAsync
       });
-    });
+    }
+
+    return functions;
   }
 
   /**
-   * 解析相对路径
+   * 解析类定义
+   * 提取文件中的所有类信息
    */
-  private resolveRelativePath(
-    importPath: string,
-    currentFile: string,
-    workspaceRoot: string
-  ): string | null {
-    try {
-      const currentDir = path.dirname(currentFile);
-      let resolvedPath = path.resolve(currentDir, importPath);
-
-      // 尝试添加常见的文件扩展名
-      const extensions = ['.ts', '.tsx', '.js', '.jsx', '.json'];
-      for (const ext of extensions) {
-        const pathWithExt = resolvedPath + ext;
-        if (fs.existsSync(pathWithExt)) {
-          return pathWithExt;
-        }
-      }
+  private matchClasses(content: string): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+    const lines = content.split('\n');
 
-      // 尝试index文件
-      for (const ext of extensions) {
-        const indexPath = path.join(resolvedPath, `index${ext}`);
-        if (fs.existsSync(indexPath)) {
-          return indexPath;
-        }
-      }
+    // 匹配类声明
+    // class Name { ... }
+    // class Name extends Parent { ... }
+    // class Name implements Interface { ... }
+    const classRegex = /(?:export\s+)?class\s+(\w+)(?:\s+extends\s+(\w+))?(?:\s+implements\s+([\w\s,]+))?\s*\{/g;
 
-      return resolvedPath;
-    } catch (error) {
-      return null;
+    let match;
+    while ((match = classRegex.exec(content)) !== null) {
+      const name = match[1];
+      const extendsClass = match[2];
+      const implementsInterfaces = match[3]
+        ? match[3].split(',').map(i => i.trim())
+        : undefined;
+
+      // 找到类的起始行
+      const startPos = match.index;
+      const startLine = content.substring(0, startPos).split('\n').length;
+
+      // 找到类的结束位置（匹配大括号）
+      const endLine = this.findClassEndLine(content, startPos, lines);
+
+      // 提取类的方法和属性
+      const classContent = content.substring(
+        startPos,
+        this.getPositionFromLine(content, endLine)
+      );
+      const methods = this.extractMethods(classContent);
+      const properties = this.extractProperties(classContent);
+
+      classes.push({
+        name,
+        methods,
+        properties,
+        startLine,
+        endLine,
+        extends: extendsClass,
+        implements: implementsInterfaces
+      });
     }
+
+    return classes;
+  }
+
+  /**
+   * 读取文件内容
+   */
+  private async readFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      fs.readFile(filePath, 'utf-8', (err, data) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(data);
+        }
+      });
+    });
   }
 
   /**
@@ -0,0 +1,137 @@
+/**
+ * 上下文预算单元测试
+ * 使用每个字符计 1 个 token 的分词器，验证按权重分配、历史裁剪和按行截断
+ */
+
+import { ChatMessage, CodeContext } from '../api/types';
+import { Tokenizer } from '../api/tokenizer';
+import { ContextBudgeter } from './budget';
+
+/** 每个字符计 1 个 token */
+const charTokenizer: Tokenizer = {
+  kind: 'cl100k',
+  count: text => text.length,
+  truncate: (text, maxTokens) => text.slice(0, Math.max(0, maxTokens))
+};
+
+/**
+ * 创建预算器，可用于分配的 token 数（扣除空系统提示词和单字符提问各自的消息开销后）为 remaining
+ */
+function createBudgeter(remaining: number): ContextBudgeter {
+  return new ContextBudgeter(charTokenizer, {
+    maxContextTokens: remaining + 4 + 5,
+    reservedOutputTokens: 0,
+    templateOverheadTokens: 0
+  });
+}
+
+function createContext(overrides: Partial<CodeContext>): CodeContext {
+  return {
+    currentFile: { path: '/repo/a.ts', language: 'typescript', content: '' },
+    ...overrides
+  };
+}
+
+describe('ContextBudgeter', () => {
+  it('gives small sections what they need and splits the rest by weight', () => {
+    const result = createBudgeter(980).fit({
+      systemPrompt: '',
+      history: [],
+      query: 'q',
+      context: createContext({
+        selection: { text: 's'.repeat(100), startLine: 0, endLine: 0 },
+        currentFile: { path: '/repo/a.ts', language: 'typescript', content: 'c'.repeat(5000) },
+        relatedFiles: [{ path: '/repo/b.ts', relevance: 1, excerpt: 'r'.repeat(5000) }]
+      })
+    });
+
+    // selection 的份额足够，拿到全部需求；剩余 880 按 currentFile:relatedFiles = 2:1 分配
+    expect(result.usage.selection).toBe(100);
+    expect(result.usage.currentFile).toBe(586);
+    expect(result.usage.relatedFiles).toBe(293);
+    expect(result.context!.selection!.text).toBe('s'.repeat(100));
+    expect(result.context!.currentFile.content.length).toBeLessThanOrEqual(586);
+    expect(result.context!.relatedFiles![0].excerpt.length).toBeLessThanOrEqual(293);
+    expect(result.context!.relatedFiles![0].excerpt).toMatch(/\(truncated\)$/);
+  });
+
+  it('uses custom weights', () => {
+    const budgeter = new ContextBudgeter(charTokenizer, {
+      maxContextTokens: 609,
+      reservedOutputTokens: 0,
+      templateOverheadTokens: 0,
+      weights: { currentFile: 1, relatedFiles: 1 }
+    });
+    const result = budgeter.fit({
+      systemPrompt: '',
+      history: [],
+      query: 'q',
+      context: createContext({
+        currentFile: { path: '/repo/a.ts', language: 'typescript', content: 'c'.repeat(5000) },
+        relatedFiles: [{ path: '/repo/b.ts', relevance: 1, excerpt: 'r'.repeat(5000) }]
+      })
+    });
+
+    expect(result.usage.currentFile).toBe(300);
+    expect(result.usage.relatedFiles).toBe(300);
+  });
+
+  it('keeps the most recent history and drops a leading assistant reply', () => {
+    const message = (role: ChatMessage['role'], char: string): ChatMessage => ({ role, content: char.repeat(100) });
+    const history = [message('user', 'a'), message('assistant', 'b'), message('user', 'c'), message('assistant', 'd')];
+
+    // 每条消息 104 个 token，预算只够最近三条，其中第一条是助手回复
+    const result = createBudgeter(350).fit({ systemPrompt: '', history, query: 'q' });
+
+    expect(result.history).toEqual([history[2], history[3]]);
+    expect(result.usage.history).toBe(208);
+  });
+
+  it('keeps the whole history when it fits', () => {
+    const history: ChatMessage[] = [
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' }
+    ];
+
+    expect(createBudgeter(1000).fit({ systemPrompt: '', history, query: 'q' }).history).toEqual(history);
+  });
+
+  it('truncates the current file around the cursor line', () => {
+    const lines = Array.from({ length: 21 }, (_, index) => `line${String(index).padStart(2, '0')}`);
+    const result = createBudgeter(35).fit({
+      systemPrompt: '',
+      history: [],
+      query: 'q',
+      context: createContext({
+        currentFile: { path: '/repo/a.ts', language: 'typescript', content: lines.join('\n') },
+        cursorContext: { line: 10, column: 0, beforeCursor: '', afterCursor: '' }
+      })
+    });
+
+    // 每行 7 个 token（含换行），以第 10 行为中心向两侧交替扩展
+    expect(result.context!.currentFile.content).toBe(lines.slice(8, 13).join('\n'));
+  });
+
+  it('centres on the selection start and clamps lines past the end of the file', () => {
+    const lines = Array.from({ length: 21 }, (_, index) => `line${String(index).padStart(2, '0')}`);
+    const fit = (startLine: number) => createBudgeter(21).fit({
+      systemPrompt: '',
+      history: [],
+      query: 'q',
+      context: createContext({
+        currentFile: { path: '/repo/a.ts', language: 'typescript', content: lines.join('\n') },
+        selection: { text: '', startLine, endLine: startLine }
+      })
+    }).context!.currentFile.content;
+
+    expect(fit(3)).toBe(lines.slice(2, 5).join('\n'));
+    expect(fit(100)).toBe(lines.slice(18, 21).join('\n'));
+  });
+
+  it('truncates the system prompt to its share of the budget', () => {
+    const result = createBudgeter(1000).fit({ systemPrompt: 'p'.repeat(500), history: [], query: 'q' });
+
+    expect(result.systemPrompt.length).toBeLessThanOrEqual(Math.floor(result.available * 0.1));
+    expect(result.systemPrompt).toMatch(/\(truncated\)$/);
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Context Budgeter
+ * 按模型的最大上下文 token 数，在系统提示词、对话历史、选中代码、@ 提及、当前文件和相关文件之间分配 token
+ */
+
+import { ChatMessage, CodeContext } from '../api/types';
+import { Tokenizer } from '../api/tokenizer';
+
+/**
+ * 参与分配的上下文部分
+ */
+export type BudgetSection = 'history' | 'selection' | 'mentions' | 'currentFile' | 'relatedFiles';
+
+/**
+ * 预算配置
+ */
+export interface ContextBudgetOptions {
+  /** 模型的最大上下文 token 数 */
+  maxContextTokens: number;
+  /** 为模型输出预留的 token 数 */
+  reservedOutputTokens?: number;
+  /** 为提示词模板等固定内容预留的 token 数 */
+  templateOverheadTokens?: number;
+  /** 系统提示词最多占可用 token 的比例 */
+  maxSystemPromptRatio?: number;
+  /** 各部分的分配权重，需求未满足的部分按权重平分剩余 token */
+  weights?: Partial<Record<BudgetSection, number>>;
+}
+
+/**
+ * 待分配的内容
+ */
+export interface BudgetInput {
+  /** 系统提示词 */
+  systemPrompt: string;
+  /** 较早对话的摘要，固定保留，不与历史消息竞争预算 */
+  summary?: string;
+  /** 历史消息（不含本次提问），按时间顺序 */
+  history: ChatMessage[];
+  /** 本次提问 */
+  query: string;
+  /** 本次提问的代码上下文 */
+  context?: CodeContext;
+}
+
+/**
+ * 分配结果
+ */
+export interface BudgetResult {
+  /** 截断后的系统提示词 */
+  systemPrompt: string;
+  /** 截断后的对话摘要 */
+  summary?: string;
+  /** 保留的历史消息（丢弃较早的消息） */
+  history: ChatMessage[];
+  /** 截断后的代码上下文 */
+  context?: CodeContext;
+  /** 各部分实际使用的 token 数 */
+  usage: Record<BudgetSection | 'systemPrompt' | 'summary' | 'query', number>;
+  /** 可用于输入的总 token 数 */
+  available: number;
+}
+
+/** 默认为模型输出预留的 token 数 */
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 2000;
+/** 默认为提示词模板预留的 token 数 */
+const DEFAULT_TEMPLATE_OVERHEAD_TOKENS = 400;
+/** 默认系统提示词最多占可用 token 的比例 */
+const DEFAULT_MAX_SYSTEM_PROMPT_RATIO = 0.1;
+/** 对话摘要最多占可用 token 的比例 */
+const MAX_SUMMARY_RATIO = 0.25;
+/** 每条消息的格式开销（角色、分隔符） */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** 默认分配权重：用户显式提供的内容优先 */
+const DEFAULT_WEIGHTS: Record<BudgetSection, number> = {
+  selection: 4,
+  mentions: 4,
+  history: 2,
+  currentFile: 2,
+  relatedFiles: 1
+};
+
+/** 截断标记 */
+const TRUNCATED_MARKER = '\n... (truncated)';
+
+/**
+ * Context Budgeter类
+ */
+export class ContextBudgeter {
+  private reservedOutputTokens: number;
+  private templateOverheadTokens: number;
+  private maxSystemPromptRatio: number;
+  private weights: Record<BudgetSection, number>;
+
+  constructor(
+    private tokenizer: Tokenizer,
+    private options: ContextBudgetOptions
+  ) {
+    this.reservedOutputTokens = options.reservedOutputTokens ?? DEFAULT_RESERVED_OUTPUT_TOKENS;
+    this.templateOverheadTokens = options.templateOverheadTokens ?? DEFAULT_TEMPLATE_OVERHEAD_TOKENS;
+    this.maxSystemPromptRatio = options.maxSystemPromptRatio ?? DEFAULT_MAX_SYSTEM_PROMPT_RATIO;
+    this.weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  }
+
+  /**
+   * 将内容裁剪到预算以内
+   * 本次提问始终完整保留；系统提示词和对话摘要不超过固定比例；其余部分按权重分配剩余 token
+   */
+  fit(input: BudgetInput): BudgetResult {
+    const available = Math.max(
+      0,
+      this.options.maxContextTokens - this.reservedOutputTokens - this.templateOverheadTokens
+    );
+
+    const systemPrompt = this.truncateText(
+      input.systemPrompt,
+      Math.floor(available * this.maxSystemPromptRatio)
+    );
+    const summary = input.summary !== undefined
+      ? this.truncateText(input.summary, Math.floor(available * MAX_SUMMARY_RATIO))
+      : undefined;
+    const systemTokens = this.countMessage(systemPrompt);
+    const summaryTokens = summary ? this.tokenizer.count(summary) : 0;
+    const queryTokens = this.countMessage(input.query);
+    const remaining = Math.max(0, available - systemTokens - summaryTokens - queryTokens);
+
+    const context = input.context;
+    const needs: Record<BudgetSection, number> = {
+      history: input.history.reduce((sum, msg) => sum + this.countMessage(msg.content), 0),
+      selection: context?.selection ? this.tokenizer.count(context.selection.text) : 0,
+      mentions: (context?.mentions || []).reduce((sum, mention) => sum + this.tokenizer.count(mention.content), 0),
+      currentFile: context?.currentFile ? this.tokenizer.count(context.currentFile.content) : 0,
+      relatedFiles: (context?.relatedFiles || []).reduce((sum, file) => sum + this.tokenizer.count(file.excerpt), 0)
+    };
+    const allocation = this.allocate(needs, remaining);
+
+    const history = this.fitHistory(input.history, allocation.history);
+    const fittedContext = context ? this.fitContext(context, allocation) : undefined;
+
+    return {
+      systemPrompt,
+      summary,
+      history,
+      context: fittedContext,
+      usage: {
+        systemPrompt: systemTokens,
+        summary: summaryTokens,
+        query: queryTokens,
+        history: history.reduce((sum, msg) => sum + this.countMessage(msg.content), 0),
+        selection: Math.min(needs.selection, allocation.selection),
+        mentions: Math.min(needs.mentions, allocation.mentions),
+        currentFile: Math.min(needs.currentFile, allocation.currentFile),
+        relatedFiles: Math.min(needs.relatedFiles, allocation.relatedFiles)
+      },
+      available
+    };
+  }
+
+  /**
+   * 按权重分配 token
+   * 需求小于份额的部分只拿需求量，多出的 token 继续按权重分给其余部分
+   */
+  private allocate(needs: Record<BudgetSection, number>, total: number): Record<BudgetSection, number> {
+    const sections = Object.keys(needs) as BudgetSection[];
+    const allocation = Object.fromEntries(sections.map(section => [section, 0])) as Record<BudgetSection, number>;
+
+    let remaining = total;
+    let pending = sections.filter(section => needs[section] > 0);
+    while (pending.length > 0 && remaining > 0) {
+      const totalWeight = pending.reduce((sum, section) => sum + this.weights[section], 0);
+      const satisfied = pending.filter(section =>
+        needs[section] - allocation[section] <= remaining * this.weights[section] / totalWeight
+      );
+
+      if (satisfied.length === 0) {
+        // 所有部分都无法满足，按权重平分剩余 token
+        for (const section of pending) {
+          allocation[section] += Math.floor(remaining * this.weights[section] / totalWeight);
+        }
+        break;
+      }
+
+      for (const section of satisfied) {
+        remaining -= needs[section] - allocation[section];
+        allocation[section] = needs[section];
+      }
+      pending = pending.filter(section => !satisfied.includes(section));
+    }
+
+    return allocation;
+  }
+
+  /**
+   * 保留最近的历史消息，较早的消息整条丢弃
+   */
+  private fitHistory(history: ChatMessage[], budget: number): ChatMessage[] {
+    const kept: ChatMessage[] = [];
+    let used = 0;
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const tokens = this.countMessage(history[i].content);
+      if (used + tokens > budget) {
+        break;
+      }
+      kept.unshift(history[i]);
+      used += tokens;
+    }
+
+    // 对话需要以用户消息开头，去掉开头孤立的助手回复
+    while (kept.length > 0 && kept[0].role === 'assistant') {
+      kept.shift();
+    }
+    return kept;
+  }
+
+  /**
+   * 按分配结果裁剪代码上下文
+   */
+  private fitContext(context: CodeContext, allocation: Record<BudgetSection, number>): CodeContext {
+    const fitted: CodeContext = { ...context };
+
+    if (context.selection) {
+      fitted.selection = {
+        ...context.selection,
+        text: this.truncateText(context.selection.text, allocation.selection)
+      };
+    }
+
+    if (context.mentions) {
+      let budget = allocation.mentions;
+      fitted.mentions = [];
+      for (const mention of context.mentions) {
+        if (budget <= 0) {
+          break;
+        }
+        const content = this.truncateText(mention.content, budget);
+        budget -= this.tokenizer.count(content);
+        fitted.mentions.push({ ...mention, content });
+      }
+    }
+
+    if (context.currentFile) {
+      fitted.currentFile = {
+        ...context.currentFile,
+        content: this.truncateAroundLine(
+          context.currentFile.content,
+          context.cursorContext?.line ?? context.selection?.startLine,
+          allocation.currentFile
+        )
+      };
+    }
+
+    if (context.relatedFiles) {
+      let budget = allocation.relatedFiles;
+      fitted.relatedFiles = [];
+      for (const file of context.relatedFiles) {
+        if (budget <= 0) {
+          break;
+        }
+        const excerpt = this.truncateText(file.excerpt, budget);
+        budget -= this.tokenizer.count(excerpt);
+        // 没有片段的相关文件只列出路径，不占用预算
+        if (excerpt || !file.excerpt) {
+          fitted.relatedFiles.push({ ...file, excerpt });
+        }
+      }
+    }
+
+    return fitted;
+  }
+
+  /**
+   * 保留文本开头，超出预算时截断并加上标记
+   */
+  private truncateText(text: string, maxTokens: number): string {
+    if (this.tokenizer.count(text) <= maxTokens) {
+      return text;
+    }
+    const markerTokens = this.tokenizer.count(TRUNCATED_MARKER);
+    if (maxTokens <= markerTokens) {
+      return '';
+    }
+    return this.tokenizer.truncate(text, maxTokens - markerTokens) + TRUNCATED_MARKER;
+  }
+
+  /**
+   * 以指定行为中心保留文件内容，向上下两侧交替扩展，超出预算的部分截断
+   * @param line 中心行（从 0 开始），未指定时保留文件开头
+   */
+  private truncateAroundLine(content: string, line: number | undefined, maxTokens: number): string {
+    if (this.tokenizer.count(content) <= maxTokens) {
+      return content;
+    }
+    if (line === undefined) {
+      return this.truncateText(content, maxTokens);
+    }
+
+    const lines = content.split('\n');
+    const center = Math.min(Math.max(line, 0), lines.length - 1);
+    let start = center;
+    let end = center;
+    let used = this.tokenizer.count(lines[center]) + 1;
+    if (used > maxTokens) {
+      return '';
+    }
+
+    for (let expanded = true; expanded;) {
+      expanded = false;
+      for (const next of [end + 1, start - 1]) {
+        if (next < 0 || next >= lines.length) {
+          continue;
+        }
+        const tokens = this.tokenizer.count(lines[next]) + 1;
+        if (used + tokens > maxTokens) {
+          continue;
+        }
+        used += tokens;
+        if (next > end) {
+          end = next;
+        } else {
+          start = next;
+        }
+        expanded = true;
+      }
+    }
+
+    return lines.slice(start, end + 1).join('\n');
+  }
+
+  /**
+   * 计算一条消息的 token 数（含格式开销）
+   */
+  private countMessage(content: string): number {
+    return this.tokenizer.count(content) + MESSAGE_OVERHEAD_TOKENS;
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Code Graph Builder
+ * 负责遍历工作区构建代码图谱，持久化到磁盘并支持按文件增量更新
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeAnalyzer } from './analyzer';
+import { IgnoreMatcher } from './ignore';
+import { ImportResolveHost, resolveImport } from './importResolver';
+import type { CodeGraph, FileNode } from './manager';
+
+/**
+ * 参与代码图谱的源文件扩展名及其语言
+ */
+const SOURCE_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescriptreact',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascriptreact',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.pyi': 'python',
+  '.java': 'java',
+  '.go': 'go',
+  '.c': 'c',
+  '.h': 'cpp',
+  '.cc': 'cpp',
+  '.cpp': 'cpp',
+  '.cxx': 'cpp',
+  '.hh': 'cpp',
+  '.hpp': 'cpp',
+  '.hxx': 'cpp'
+};
+
+/** 始终跳过的目录（即使没有 .gitignore） */
+const ALWAYS_IGNORED = new Set(['.git', 'node_modules']);
+
+/** 最多收录的文件数 */
+const MAX_GRAPH_FILES = 10000;
+
+/** 跳过的大文件阈值（字节），通常是生成或打包产物 */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/** 持久化文件名 */
+const GRAPH_FILE_NAME = 'code-graph.json';
+
+/** 持久化格式版本，结构变化时递增以丢弃旧数据 */
+const GRAPH_FORMAT_VERSION = 2;
+
+/**
+ * 持久化的图谱数据
+ */
+interface PersistedGraph {
+  version: number;
+  /** 文件节点及其修改时间，key 为文件路径 */
+  files: Record<string, FileNode & { mtime: number }>;
+}
+
+/**
+ * 判断文件是否为代码图谱收录的源文件
+ * @param filePath 文件路径
+ */
+export function isGraphSourceFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() in SOURCE_LANGUAGES;
+}
+
+/**
+ * 获取依赖指定文件的文件列表（反向依赖）
+ * @param graph 代码图谱
+ * @param filePath 文件路径
+ */
+export function getDependents(graph: CodeGraph, filePath: string): string[] {
+  const dependents: string[] = [];
+  for (const [file, dependencies] of graph.dependencies) {
+    if (dependencies.includes(filePath)) {
+      dependents.push(file);
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Code Graph Builder类
+ */
+export class CodeGraphBuilder {
+  /** 每个文件解析时的修改时间，用于判断持久化数据是否过期 */
+  private mtimes = new Map<string, number>();
+  /** 最近一次构建使用的忽略规则 */
+  private ignoreMatcher = new IgnoreMatcher();
+  /** 最近一次构建的工作区根目录 */
+  private roots: string[] = [];
+  /** 延迟保存的定时器 */
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param analyzer 代码分析器
+   * @param storagePath 持久化目录（未提供时不持久化）
+   */
+  constructor(
+    private analyzer: CodeAnalyzer,
+    private storagePath?: string
+  ) {}
+
+  /**
+   * 构建代码图谱
+   * 遍历工作区的源文件（遵守 .gitignore），修改时间未变的文件复用持久化的结果
+   * @param roots 工作区根目录列表
+   */
+  async build(roots: string[]): Promise<CodeGraph> {
+    const startTime = Date.now();
+    this.roots = roots;
+    this.ignoreMatcher = new IgnoreMatcher();
+
+    const persisted = await this.load();
+    const graph: CodeGraph = { files: new Map(), dependencies: new Map() };
+    this.mtimes.clear();
+
+    const filePaths: string[] = [];
+    for (const root of roots) {
+      await this.walk(root, filePaths);
+    }
+    if (filePaths.length >= MAX_GRAPH_FILES) {
+      console.warn(`[CodeGraph] Workspace has more than ${MAX_GRAPH_FILES} source files, graph is truncated`);
+    }
+
+    let reused = 0;
+    for (const filePath of filePaths) {
+      const stat = await fs.promises.stat(filePath).catch(() => null);
+      if (!stat || stat.size > MAX_FILE_SIZE) {
+        continue;
+      }
+
+      const cached = persisted?.files[filePath];
+      if (cached && cached.mtime === stat.mtimeMs) {
+        const { mtime, ...node } = cached;
+        graph.files.set(filePath, node);
+        reused++;
+      } else {
+        graph.files.set(filePath, await this.parseNode(filePath));
+      }
+      this.mtimes.set(filePath, stat.mtimeMs);
+    }
+
+    this.resolveAllDependencies(graph);
+    await this.save(graph);
+
+    console.log(
+      `[CodeGraph] Built graph with ${graph.files.size} files (${reused} reused) in ${Date.now() - startTime}ms`
+    );
+    return graph;
+  }
+
+  /**
+   * 增量更新单个文件
+   * 文件不存在、被忽略或不是源文件时从图谱中移除
+   * @param graph 代码图谱
+   * @param filePath 文件路径
+   */
+  async updateFile(graph: CodeGraph, filePath: string): Promise<void> {
+    if (!this.isTracked(filePath)) {
+      return;
+    }
+
+    const stat = await fs.promises.stat(filePath).catch(() => null);
+    if (!stat || !stat.isFile() || stat.size > MAX_FILE_SIZE) {
+      this.removeFile(graph, filePath);
+      return;
+    }
+
+    const isNew = !graph.files.has(filePath);
+    graph.files.set(filePath, await this.parseNode(filePath));
+    this.mtimes.set(filePath, stat.mtimeMs);
+
+    if (isNew) {
+      // 新文件可能让其他文件原本无法解析的导入变为可解析
+      this.resolveAllDependencies(graph);
+    } else {
+      graph.dependencies.set(filePath, this.resolveDependencies(graph, filePath));
+    }
+    this.scheduleSave(graph);
+  }
+
+  /**
+   * 从图谱中移除文件
+   * @param graph 代码图谱
+   * @param filePath 文件路径
+   */
+  removeFile(graph: CodeGraph, filePath: string): void {
+    if (!graph.files.delete(filePath)) {
+      return;
+    }
+    this.mtimes.delete(filePath);
+    this.resolveAllDependencies(graph);
+    this.scheduleSave(graph);
+  }
+
+  /**
+   * 判断文件的变化是否需要重新构建整个图谱（忽略规则或 Go 模块路径变化）
+   * @param filePath 文件路径
+   */
+  requiresRebuild(filePath: string): boolean {
+    return ['.gitignore', 'go.mod'].includes(path.basename(filePath)) && this.isInRoots(filePath);
+  }
+
+  /**
+   * 立即保存并停止延迟保存
+   * @param graph 代码图谱
+   */
+  async flush(graph: CodeGraph): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save(graph);
+    }
+  }
+
+  /**
+   * 遍历目录收集源文件
+   */
+  private async walk(dir: string, result: string[]): Promise<void> {
+    if (result.length >= MAX_GRAPH_FILES) {
+      return;
+    }
+
+    // 每个目录的 .gitignore 只作用于该目录及其子目录
+    await this.ignoreMatcher.addFile(path.join(dir, '.gitignore'));
+
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (result.length >= MAX_GRAPH_FILES) {
+        return;
+      }
+
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!ALWAYS_IGNORED.has(entry.name) && !this.ignoreMatcher.ignores(fullPath, true, false)) {
+          await this.walk(fullPath, result);
+        }
+      } else if (
+        entry.isFile() &&
+        isGraphSourceFile(fullPath) &&
+        !this.ignoreMatcher.ignores(fullPath, false, false)
+      ) {
+        result.push(fullPath);
+      }
+    }
+  }
+
+  /**
+   * 解析文件生成节点
+   */
+  private async parseNode(filePath: string): Promise<FileNode> {
+    const result = await this.analyzer.parseFile(filePath);
+    return {
+      path: filePath,
+      language: SOURCE_LANGUAGES[path.extname(filePath).toLowerCase()],
+      imports: result.imports,
+      exports: result.exports,
+      functions: result.functions.map(fn => fn.name),
+      classes: result.classes.map(cls => cls.name)
+    };
+  }
+
+  /**
+   * 解析文件的工作区内依赖
+   */
+  private resolveDependencies(
+    graph: CodeGraph,
+    filePath: string,
+    host: ImportResolveHost = this.createResolveHost(graph)
+  ): string[] {
+    const node = graph.files.get(filePath);
+    if (!node) {
+      return [];
+    }
+
+    const dependencies = new Set<string>();
+    for (const specifier of node.imports) {
+      for (const resolved of resolveImport(specifier, filePath, host)) {
+        dependencies.add(resolved);
+      }
+    }
+    return Array.from(dependencies);
+  }
+
+  /**
+   * 重新解析所有文件的依赖
+   */
+  private resolveAllDependencies(graph: CodeGraph): void {
+    graph.dependencies.clear();
+    const host = this.createResolveHost(graph);
+    for (const filePath of graph.files.keys()) {
+      graph.dependencies.set(filePath, this.resolveDependencies(graph, filePath, host));
+    }
+  }
+
+  /**
+   * 创建基于图谱文件列表的导入解析接口
+   * 只能解析到图谱收录的文件；go.mod 从磁盘读取并缓存
+   */
+  private createResolveHost(graph: CodeGraph): ImportResolveHost {
+    const byDirectory = new Map<string, string[]>();
+    const byName = new Map<string, string[]>();
+    const add = (index: Map<string, string[]>, key: string, filePath: string) => {
+      const files = index.get(key);
+      if (files) {
+        files.push(filePath);
+      } else {
+        index.set(key, [filePath]);
+      }
+    };
+    for (const filePath of graph.files.keys()) {
+      add(byDirectory, path.dirname(filePath), filePath);
+      add(byName, path.basename(filePath), filePath);
+    }
+
+    const contents = new Map<string, string | undefined>();
+    return {
+      exists: filePath => graph.files.has(filePath),
+      listFiles: dir => byDirectory.get(dir) ?? [],
+      readFile: filePath => {
+        if (!contents.has(filePath)) {
+          let content: string | undefined;
+          try {
+            content = fs.readFileSync(filePath, 'utf8');
+          } catch {
+            content = undefined;
+          }
+          contents.set(filePath, content);
+        }
+        return contents.get(filePath);
+      },
+      findBySuffix: suffix => {
+        const relative = suffix.split('/').join(path.sep);
+        return (byName.get(path.basename(relative)) ?? [])
+          .filter(filePath => filePath.endsWith(path.sep + relative) && this.isInRoots(filePath));
+      }
+    };
+  }
+
+  /**
+   * 判断文件是否在图谱的收录范围内
+   */
+  private isTracked(filePath: string): boolean {
+    if (!isGraphSourceFile(filePath) || !this.isInRoots(filePath)) {
+      return false;
+    }
+    const parts = filePath.split(path.sep);
+    if (parts.some(part => ALWAYS_IGNORED.has(part))) {
+      return false;
+    }
+    return !this.ignoreMatcher.ignores(filePath);
+  }
+
+  /**
+   * 判断文件是否位于工作区内
+   */
+  private isInRoots(filePath: string): boolean {
+    return this.roots.some(root => {
+      const relative = path.relative(root, filePath);
+      return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+  }
+
+  /**
+   * 延迟保存，合并短时间内的多次更新
+   */
+  private scheduleSave(graph: CodeGraph): void {
+    if (!this.storagePath) {
+      return;
+    }
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save(graph);
+    }, 2000);
+  }
+
+  /**
+   * 读取持久化的图谱
+   */
+  private async load(): Promise<PersistedGraph | null> {
+    if (!this.storagePath) {
+      return null;
+    }
+    try {
+      const content = await fs.promises.readFile(path.join(this.storagePath, GRAPH_FILE_NAME), 'utf-8');
+      const data = JSON.parse(content) as PersistedGraph;
+      return data.version === GRAPH_FORMAT_VERSION ? data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 保存图谱，失败只记录警告
+   */
+  private async save(graph: CodeGraph): Promise<void> {
+    if (!this.storagePath) {
+      return;
+    }
+
+    const data: PersistedGraph = { version: GRAPH_FORMAT_VERSION, files: {} };
+    for (const [filePath, node] of graph.files) {
+      data.files[filePath] = { ...node, mtime: this.mtimes.get(filePath) ?? 0 };
+    }
+
+    try {
+      await fs.promises.mkdir(this.storagePath, { recursive: true });
+      await fs.promises.writeFile(path.join(this.storagePath, GRAPH_FILE_NAME), JSON.stringify(data), 'utf-8');
+    } catch (error) {
+      console.warn('[CodeGraph] Failed to persist code graph:', error);
+    }
+  }
+}
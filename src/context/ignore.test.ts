@@ -0,0 +1,120 @@
+/**
+ * 忽略规则单元测试
+ * 验证 gitignore 语法的匹配，代码图谱和数据外发策略都依赖这些规则
+ */
+
+import * as path from 'path';
+import { IgnoreMatcher } from './ignore';
+
+const root = path.resolve('/repo');
+
+function file(...parts: string[]): string {
+  return path.join(root, ...parts);
+}
+
+function createMatcher(content: string): IgnoreMatcher {
+  const matcher = new IgnoreMatcher();
+  matcher.add(content, root);
+  return matcher;
+}
+
+describe('IgnoreMatcher', () => {
+  it('matches patterns without a slash at any depth', () => {
+    const matcher = createMatcher('*.log\n');
+
+    expect(matcher.ignores(file('debug.log'))).toBe(true);
+    expect(matcher.ignores(file('logs', 'app', 'debug.log'))).toBe(true);
+    expect(matcher.ignores(file('debug.log.txt'))).toBe(false);
+  });
+
+  it('anchors patterns containing a slash to the rule directory', () => {
+    const matcher = createMatcher('/build\ndocs/*.md\n');
+
+    expect(matcher.ignores(file('build', 'out.js'))).toBe(true);
+    expect(matcher.ignores(file('src', 'build', 'out.js'))).toBe(false);
+    expect(matcher.ignores(file('docs', 'guide.md'))).toBe(true);
+    expect(matcher.ignores(file('docs', 'api', 'guide.md'))).toBe(false);
+    expect(matcher.ignores(file('src', 'docs', 'guide.md'))).toBe(false);
+  });
+
+  it('matches zero or more directories with **/', () => {
+    const matcher = createMatcher('**/fixtures\nconfig/**/secret.json\n');
+
+    expect(matcher.ignores(file('fixtures', 'a.json'))).toBe(true);
+    expect(matcher.ignores(file('packages', 'api', 'fixtures', 'a.json'))).toBe(true);
+    expect(matcher.ignores(file('config', 'secret.json'))).toBe(true);
+    expect(matcher.ignores(file('config', 'prod', 'eu', 'secret.json'))).toBe(true);
+    expect(matcher.ignores(file('other', 'secret.json'))).toBe(false);
+  });
+
+  it('matches everything inside a directory with a trailing /**', () => {
+    const matcher = createMatcher('vendor/licensed/**\n');
+
+    expect(matcher.ignores(file('vendor', 'licensed', 'lib.c'))).toBe(true);
+    expect(matcher.ignores(file('vendor', 'licensed', 'deep', 'lib.c'))).toBe(true);
+    expect(matcher.ignores(file('vendor', 'licensed'), true)).toBe(false);
+    expect(matcher.ignores(file('vendor', 'open', 'lib.c'))).toBe(false);
+  });
+
+  it('re-includes files with ! negation, with later rules taking precedence', () => {
+    const matcher = createMatcher('*.pem\n!public.pem\n');
+
+    expect(matcher.ignores(file('keys', 'server.pem'))).toBe(true);
+    expect(matcher.ignores(file('keys', 'public.pem'))).toBe(false);
+    expect(createMatcher('!public.pem\n*.pem\n').ignores(file('keys', 'public.pem'))).toBe(true);
+  });
+
+  it('keeps files blocked when their parent directory is excluded, even if negated', () => {
+    const matcher = createMatcher('secrets/\n!secrets/readme.md\ndata/customers/*\n!data/customers/sample.csv\n');
+
+    expect(matcher.ignores(file('secrets', 'readme.md'))).toBe(true);
+    expect(matcher.ignores(file('data', 'customers', 'acme.csv'))).toBe(true);
+    expect(matcher.ignores(file('data', 'customers', 'sample.csv'))).toBe(false);
+  });
+
+  it('applies rules ending with / only to directories', () => {
+    const matcher = createMatcher('cache/\n');
+
+    expect(matcher.ignores(file('cache'), true)).toBe(true);
+    expect(matcher.ignores(file('src', 'cache', 'entry.json'))).toBe(true);
+    expect(matcher.ignores(file('cache'))).toBe(false);
+  });
+
+  it('supports character classes, negated classes and ?', () => {
+    const matcher = createMatcher('*.[oa]\nlog[0-9].txt\n[!d]ump\nfile?.bin\n');
+
+    expect(matcher.ignores(file('main.o'))).toBe(true);
+    expect(matcher.ignores(file('libfoo.a'))).toBe(true);
+    expect(matcher.ignores(file('main.c'))).toBe(false);
+    expect(matcher.ignores(file('log7.txt'))).toBe(true);
+    expect(matcher.ignores(file('logs.txt'))).toBe(false);
+    expect(matcher.ignores(file('pump'))).toBe(true);
+    expect(matcher.ignores(file('dump'))).toBe(false);
+    expect(matcher.ignores(file('file1.bin'))).toBe(true);
+    expect(matcher.ignores(file('file10.bin'))).toBe(false);
+  });
+
+  it('skips comments and blank lines and honours escapes', () => {
+    const matcher = createMatcher('# comment\n\n\\#notes.txt\n\\!important.txt\n');
+
+    expect(matcher.ignores(file('comment'))).toBe(false);
+    expect(matcher.ignores(file('#notes.txt'))).toBe(true);
+    expect(matcher.ignores(file('!important.txt'))).toBe(true);
+  });
+
+  it('does not match paths outside the rule directory', () => {
+    const matcher = createMatcher('*\n');
+
+    expect(matcher.ignores(path.resolve('/other', 'a.ts'))).toBe(false);
+    expect(matcher.ignores(path.resolve('/repository', 'a.ts'))).toBe(false);
+  });
+
+  it('scopes rules to the directory they were added for', () => {
+    const matcher = createMatcher('*.tmp\n');
+    matcher.add('/generated\n', file('packages', 'api'));
+
+    expect(matcher.ignores(file('packages', 'api', 'generated', 'client.ts'))).toBe(true);
+    expect(matcher.ignores(file('generated', 'client.ts'))).toBe(false);
+    expect(matcher.ignores(file('packages', 'api', 'a.tmp'))).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Ignore Matcher
+ * 解析 .gitignore 风格的忽略规则，判断文件是否应被忽略
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 忽略规则
+ */
+interface IgnoreRule {
+  /** 匹配相对路径的正则表达式 */
+  regex: RegExp;
+  /** 是否为取反规则（以 ! 开头） */
+  negated: boolean;
+  /** 是否只匹配目录（以 / 结尾） */
+  directoryOnly: boolean;
+  /** 规则所在目录，规则中的路径相对于该目录 */
+  baseDir: string;
+}
+
+/**
+ * Ignore Matcher类
+ * 支持 gitignore 的常用语法：通配符 * ? **、字符组、取反 !、目录规则、锚定规则
+ */
+export class IgnoreMatcher {
+  private rules: IgnoreRule[] = [];
+
+  /**
+   * 添加忽略规则
+   * @param content 规则文本（每行一条）
+   * @param baseDir 规则所在目录
+   */
+  add(content: string, baseDir: string): void {
+    for (const rawLine of content.split(/\r?\n/)) {
+      const rule = this.parseRule(rawLine, baseDir);
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+  }
+
+  /**
+   * 从文件添加忽略规则
+   * @param filePath 规则文件路径（如 .gitignore）
+   * @returns 文件是否存在并已加载
+   */
+  async addFile(filePath: string): Promise<boolean> {
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      this.add(content, path.dirname(filePath));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 判断路径是否被忽略
+   * 父目录被忽略时，其中的文件也被忽略
+   * @param filePath 绝对路径
+   * @param isDirectory 是否为目录
+   * @param checkParents 是否检查父目录（遍历目录时父目录已检查过，可以跳过）
+   */
+  ignores(filePath: string, isDirectory: boolean = false, checkParents: boolean = true): boolean {
+    if (this.rules.length === 0) {
+      return false;
+    }
+    if (!checkParents) {
+      return this.matches(filePath, isDirectory);
+    }
+
+    const parts = path.resolve(filePath).split(path.sep);
+    for (let i = 2; i < parts.length; i++) {
+      if (this.matches(parts.slice(0, i).join(path.sep), true)) {
+        return true;
+      }
+    }
+    return this.matches(filePath, isDirectory);
+  }
+
+  /**
+   * 判断单个路径是否命中规则（不检查父目录），后出现的规则优先
+   */
+  private matches(filePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      const relative = path.relative(rule.baseDir, filePath);
+      if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        continue;
+      }
+      if (rule.regex.test(relative.split(path.sep).join('/'))) {
+        ignored = !rule.negated;
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * 解析单条规则
+   * @returns 规则，空行和注释返回 null
+   */
+  private parseRule(rawLine: string, baseDir: string): IgnoreRule | null {
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+      return null;
+    }
+
+    const negated = pattern.startsWith('!');
+    if (negated) {
+      pattern = pattern.substring(1);
+    }
+    if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+      pattern = pattern.substring(1);
+    }
+
+    const directoryOnly = pattern.endsWith('/');
+    if (directoryOnly) {
+      pattern = pattern.replace(/\/+$/, '');
+    }
+
+    // 包含 / 的规则相对于规则所在目录锚定，否则匹配任意层级的文件名
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+    if (!pattern) {
+      return null;
+    }
+
+    const body = this.toRegexSource(pattern);
+    return {
+      regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negated,
+      directoryOnly,
+      baseDir
+    };
+  }
+
+  /**
+   * 将通配符模式转换为正则表达式源码
+   */
+  private toRegexSource(pattern: string): string {
+    let source = '';
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === '*') {
+        if (pattern[i + 1] === '*') {
+          if (pattern[i + 2] === '/') {
+            // **/ 匹配零个或多个目录
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[') {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          const group = pattern.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+          source += `[${group}]`;
+          i = end;
+        }
+      } else if (char === '\\' && i + 1 < pattern.length) {
+        source += pattern[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        i += 1;
+      } else {
+        source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      }
+    }
+
+    return source;
+  }
+}
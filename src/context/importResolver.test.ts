@@ -0,0 +1,165 @@
+/**
+ * 导入解析单元测试
+ * 使用内存中的文件列表验证各语言的模块名解析
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileSystemResolveHost, ImportResolveHost, resolveImport } from './importResolver';
+
+const root = path.resolve('/repo');
+
+function file(...parts: string[]): string {
+  return path.join(root, ...parts);
+}
+
+/**
+ * 创建内存中的解析接口
+ * @param files 文件路径到内容的映射
+ */
+function createHost(files: Record<string, string>): ImportResolveHost {
+  const paths = Object.keys(files);
+  return {
+    exists: filePath => filePath in files,
+    listFiles: dir => paths.filter(filePath => path.dirname(filePath) === dir),
+    readFile: filePath => files[filePath],
+    findBySuffix: suffix => paths.filter(filePath => filePath.endsWith(path.sep + suffix.split('/').join(path.sep)))
+  };
+}
+
+describe('resolveImport', () => {
+  describe('TypeScript/JavaScript', () => {
+    const host = createHost({
+      [file('src', 'a.ts')]: '',
+      [file('src', 'b.ts')]: '',
+      [file('src', 'lib', 'index.ts')]: ''
+    });
+
+    it('resolves relative imports with extensions, .js specifiers and index files', () => {
+      expect(resolveImport('./b', file('src', 'a.ts'), host)).toEqual([file('src', 'b.ts')]);
+      expect(resolveImport('./b.js', file('src', 'a.ts'), host)).toEqual([file('src', 'b.ts')]);
+      expect(resolveImport('./lib', file('src', 'a.ts'), host)).toEqual([file('src', 'lib', 'index.ts')]);
+    });
+
+    it('does not resolve package imports', () => {
+      expect(resolveImport('lodash', file('src', 'a.ts'), host)).toEqual([]);
+    });
+  });
+
+  describe('Python', () => {
+    const host = createHost({
+      [file('src', 'app', '__init__.py')]: '',
+      [file('src', 'app', 'main.py')]: '',
+      [file('src', 'app', 'models.py')]: '',
+      [file('src', 'app', 'api', '__init__.py')]: '',
+      [file('src', 'app', 'api', 'routes.py')]: '',
+      [file('libs', 'shared', 'shared', 'config.py')]: ''
+    });
+
+    it('resolves dotted modules against the source root of the importing file', () => {
+      expect(resolveImport('app.models', file('src', 'app', 'api', 'routes.py'), host))
+        .toEqual([file('src', 'app', 'models.py')]);
+      expect(resolveImport('app.api', file('src', 'app', 'main.py'), host))
+        .toEqual([file('src', 'app', 'api', '__init__.py')]);
+    });
+
+    it('resolves leading-dot relative imports', () => {
+      expect(resolveImport('.models', file('src', 'app', 'main.py'), host))
+        .toEqual([file('src', 'app', 'models.py')]);
+      expect(resolveImport('..models', file('src', 'app', 'api', 'routes.py'), host))
+        .toEqual([file('src', 'app', 'models.py')]);
+      expect(resolveImport('.', file('src', 'app', 'api', 'routes.py'), host))
+        .toEqual([file('src', 'app', 'api', '__init__.py')]);
+    });
+
+    it('finds modules in other source roots and skips standard library modules', () => {
+      expect(resolveImport('shared.config', file('src', 'app', 'main.py'), host))
+        .toEqual([file('libs', 'shared', 'shared', 'config.py')]);
+      expect(resolveImport('os.path', file('src', 'app', 'main.py'), host)).toEqual([]);
+    });
+  });
+
+  describe('Java', () => {
+    const host = createHost({
+      [file('core', 'src', 'main', 'java', 'com', 'acme', 'core', 'User.java')]: '',
+      [file('core', 'src', 'main', 'java', 'com', 'acme', 'core', 'Role.java')]: '',
+      [file('web', 'src', 'main', 'java', 'com', 'acme', 'web', 'UserController.java')]: '',
+      [file('web', 'src', 'main', 'java', 'com', 'acme', 'web', 'Routes.java')]: ''
+    });
+    const controller = file('web', 'src', 'main', 'java', 'com', 'acme', 'web', 'UserController.java');
+
+    it('resolves classes in the same source root', () => {
+      expect(resolveImport('com.acme.web.Routes', controller, host))
+        .toEqual([file('web', 'src', 'main', 'java', 'com', 'acme', 'web', 'Routes.java')]);
+    });
+
+    it('resolves classes in other modules, static imports and wildcard imports', () => {
+      const user = file('core', 'src', 'main', 'java', 'com', 'acme', 'core', 'User.java');
+      expect(resolveImport('com.acme.core.User', controller, host)).toEqual([user]);
+      expect(resolveImport('com.acme.core.User.fromJson', controller, host)).toEqual([user]);
+      expect(resolveImport('com.acme.web.*', controller, host))
+        .toEqual([file('web', 'src', 'main', 'java', 'com', 'acme', 'web', 'Routes.java')]);
+    });
+
+    it('does not resolve JDK classes', () => {
+      expect(resolveImport('java.util.List', controller, host)).toEqual([]);
+    });
+  });
+
+  describe('Go', () => {
+    const host = createHost({
+      [file('go.mod')]: 'module github.com/acme/shop\n\ngo 1.22\n',
+      [file('cmd', 'server', 'main.go')]: '',
+      [file('internal', 'orders', 'orders.go')]: '',
+      [file('internal', 'orders', 'store.go')]: '',
+      [file('internal', 'orders', 'orders_test.go')]: ''
+    });
+
+    it('resolves import paths under the module path to the package files', () => {
+      expect(resolveImport('github.com/acme/shop/internal/orders', file('cmd', 'server', 'main.go'), host))
+        .toEqual([file('internal', 'orders', 'orders.go'), file('internal', 'orders', 'store.go')]);
+    });
+
+    it('does not resolve standard library and third-party imports', () => {
+      expect(resolveImport('fmt', file('cmd', 'server', 'main.go'), host)).toEqual([]);
+      expect(resolveImport('github.com/other/lib', file('cmd', 'server', 'main.go'), host)).toEqual([]);
+    });
+  });
+
+  describe('C/C++', () => {
+    const host = createHost({
+      [file('src', 'main.c')]: '',
+      [file('src', 'util.h')]: '',
+      [file('include', 'config.h')]: ''
+    });
+
+    it('resolves includes relative to the including file', () => {
+      expect(resolveImport('util.h', file('src', 'main.c'), host)).toEqual([file('src', 'util.h')]);
+      expect(resolveImport('../include/config.h', file('src', 'main.c'), host)).toEqual([file('include', 'config.h')]);
+      expect(resolveImport('stdio.h', file('src', 'main.c'), host)).toEqual([]);
+    });
+  });
+
+  describe('fileSystemResolveHost', () => {
+    let rootDir: string;
+
+    beforeEach(() => {
+      rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hicode-imports-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    });
+
+    it('reads go.mod from disk to resolve package imports', () => {
+      fs.mkdirSync(path.join(rootDir, 'pkg', 'util'), { recursive: true });
+      fs.writeFileSync(path.join(rootDir, 'go.mod'), 'module example.com/app\n');
+      fs.writeFileSync(path.join(rootDir, 'main.go'), 'package main\n');
+      fs.writeFileSync(path.join(rootDir, 'pkg', 'util', 'util.go'), 'package util\n');
+
+      expect(resolveImport('example.com/app/pkg/util', path.join(rootDir, 'main.go'), fileSystemResolveHost))
+        .toEqual([path.join(rootDir, 'pkg', 'util', 'util.go')]);
+    });
+  });
+});
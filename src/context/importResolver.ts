@@ -0,0 +1,287 @@
+/**
+ * Import Resolver
+ * 将各语言导入语句中的模块名解析为工作区内的文件
+ * - TypeScript/JavaScript：相对路径和绝对路径，包名导入不解析
+ * - Python：点分模块名（pkg.mod）和以点开头的相对导入（.mod、..pkg）
+ * - Java：包名加类名（com.foo.Bar），按源码根目录查找
+ * - Go：导入路径，按 go.mod 中的模块路径解析为包目录下的所有文件
+ * - C/C++：include 路径，相对于包含它的文件
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 解析导入时访问文件的接口
+ * 代码图谱使用内存中的文件列表，没有图谱时直接访问文件系统
+ */
+export interface ImportResolveHost {
+  /**
+   * 判断文件是否存在
+   * @param filePath 文件路径
+   */
+  exists(filePath: string): boolean;
+
+  /**
+   * 列出目录下的文件（不含子目录）
+   * @param dir 目录路径
+   */
+  listFiles(dir: string): string[];
+
+  /**
+   * 读取文件内容
+   * @param filePath 文件路径
+   * @returns 文件内容，文件不存在时返回 undefined
+   */
+  readFile(filePath: string): string | undefined;
+
+  /**
+   * 查找以指定相对路径结尾的文件（可选）
+   * 用于在其他源码根目录中查找 Python 模块和 Java 类（如多模块项目）
+   * @param suffix 使用 / 分隔的相对路径
+   */
+  findBySuffix?(suffix: string): string[];
+}
+
+/** 解析 JS/TS 导入路径时尝试的扩展名 */
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+/** 各语言的源文件扩展名 */
+const PYTHON_EXTENSIONS = new Set(['.py', '.pyi']);
+const C_EXTENSIONS = new Set(['.c', '.h', '.cc', '.cpp', '.cxx', '.hh', '.hpp', '.hxx']);
+
+/** go.mod 中的模块路径 */
+const GO_MODULE_PATTERN = /^\s*module\s+("?)([^\s"]+)\1/m;
+
+/**
+ * 解析导入的模块
+ * 按导入所在文件的语言选择解析方式
+ * @param specifier 导入语句中的模块名
+ * @param fromFile 导入所在文件
+ * @param host 文件访问接口
+ * @returns 工作区内对应的文件（Go 包对应目录下的多个文件），无法解析时返回空数组
+ */
+export function resolveImport(specifier: string, fromFile: string, host: ImportResolveHost): string[] {
+  const extension = path.extname(fromFile).toLowerCase();
+
+  let resolved: string[];
+  if (PYTHON_EXTENSIONS.has(extension)) {
+    resolved = resolvePythonImport(specifier, fromFile, host);
+  } else if (extension === '.java') {
+    resolved = resolveJavaImport(specifier, fromFile, host);
+  } else if (extension === '.go') {
+    resolved = resolveGoImport(specifier, fromFile, host);
+  } else if (C_EXTENSIONS.has(extension)) {
+    resolved = resolveInclude(specifier, fromFile, host);
+  } else {
+    const file = resolveScriptImport(specifier, fromFile, host);
+    resolved = file ? [file] : [];
+  }
+
+  return resolved.filter(file => file !== fromFile);
+}
+
+/**
+ * 直接访问文件系统的解析接口
+ */
+export const fileSystemResolveHost: ImportResolveHost = {
+  exists(filePath) {
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  },
+  listFiles(dir) {
+    try {
+      return fs.readdirSync(dir, { withFileTypes: true })
+        .filter(entry => entry.isFile())
+        .map(entry => path.join(dir, entry.name));
+    } catch {
+      return [];
+    }
+  },
+  readFile(filePath) {
+    try {
+      return fs.readFileSync(filePath, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+/**
+ * 解析 TypeScript/JavaScript 导入
+ * 只处理相对路径和绝对路径，包名导入返回 null
+ */
+function resolveScriptImport(specifier: string, fromFile: string, host: ImportResolveHost): string | null {
+  if (!specifier.startsWith('.') && !specifier.startsWith('/')) {
+    return null;
+  }
+
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  const candidates = [base, ...RESOLVE_EXTENSIONS.map(ext => base + ext)];
+
+  // ESM 中以 .js 引用的 TypeScript 源文件
+  const jsExtension = path.extname(base);
+  if (['.js', '.jsx', '.mjs', '.cjs'].includes(jsExtension)) {
+    const withoutExtension = base.slice(0, -jsExtension.length);
+    candidates.push(
+      `${withoutExtension}.ts`,
+      `${withoutExtension}.tsx`,
+      `${withoutExtension}.mts`,
+      `${withoutExtension}.cts`
+    );
+  }
+
+  candidates.push(...RESOLVE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)));
+
+  return candidates.find(candidate => host.exists(candidate)) ?? null;
+}
+
+/**
+ * 解析 Python 导入
+ * 相对导入以导入所在目录为起点，每多一个点向上一级；
+ * 绝对导入依次在导入所在文件的各级父目录中查找（覆盖 src 布局等常见的源码根目录）
+ */
+function resolvePythonImport(specifier: string, fromFile: string, host: ImportResolveHost): string[] {
+  const dots = /^\.*/.exec(specifier)![0].length;
+  const parts = specifier.slice(dots).split('.').filter(Boolean);
+
+  if (dots > 0) {
+    let base = path.dirname(fromFile);
+    for (let level = 1; level < dots; level++) {
+      base = path.dirname(base);
+    }
+    const file = findPythonModule(path.join(base, ...parts), host);
+    return file ? [file] : [];
+  }
+
+  if (parts.length === 0) {
+    return [];
+  }
+  for (const dir of ancestors(fromFile)) {
+    const file = findPythonModule(path.join(dir, ...parts), host);
+    if (file) {
+      return [file];
+    }
+  }
+
+  const relative = parts.join('/');
+  const file = findUnique(host, [`${relative}.py`, `${relative}.pyi`, `${relative}/__init__.py`]);
+  return file ? [file] : [];
+}
+
+/**
+ * 查找 Python 模块对应的文件（模块文件或包的 __init__）
+ */
+function findPythonModule(modulePath: string, host: ImportResolveHost): string | undefined {
+  return [
+    `${modulePath}.py`,
+    `${modulePath}.pyi`,
+    path.join(modulePath, '__init__.py'),
+    path.join(modulePath, '__init__.pyi')
+  ].find(candidate => host.exists(candidate));
+}
+
+/**
+ * 解析 Java 导入
+ * 源码根目录是导入所在文件的某一级父目录，依次查找；
+ * 静态导入和内部类导入去掉末尾的成员名后重试，通配符导入解析为包目录下的所有类
+ */
+function resolveJavaImport(specifier: string, fromFile: string, host: ImportResolveHost): string[] {
+  const parts = specifier.split('.').filter(Boolean);
+
+  if (parts[parts.length - 1] === '*') {
+    const packagePath = parts.slice(0, -1);
+    for (const dir of ancestors(fromFile)) {
+      const files = host.listFiles(path.join(dir, ...packagePath)).filter(file => file.endsWith('.java'));
+      if (files.length > 0) {
+        return files;
+      }
+    }
+    return [];
+  }
+
+  for (let length = parts.length; length >= 2; length--) {
+    const classPath = parts.slice(0, length);
+    for (const dir of ancestors(fromFile)) {
+      const candidate = `${path.join(dir, ...classPath)}.java`;
+      if (host.exists(candidate)) {
+        return [candidate];
+      }
+    }
+    const file = findUnique(host, [`${classPath.join('/')}.java`]);
+    if (file) {
+      return [file];
+    }
+  }
+  return [];
+}
+
+/**
+ * 解析 Go 导入
+ * 从导入所在目录向上查找 go.mod，导入路径以模块路径开头时解析为模块内对应的包目录
+ */
+function resolveGoImport(specifier: string, fromFile: string, host: ImportResolveHost): string[] {
+  for (const dir of ancestors(fromFile)) {
+    const goMod = host.readFile(path.join(dir, 'go.mod'));
+    if (goMod === undefined) {
+      continue;
+    }
+
+    // 只使用最近的 go.mod，外层模块不能直接引用内层模块的包
+    const modulePath = GO_MODULE_PATTERN.exec(goMod)?.[2];
+    if (!modulePath || (specifier !== modulePath && !specifier.startsWith(`${modulePath}/`))) {
+      return [];
+    }
+    const packageDir = path.join(dir, ...specifier.slice(modulePath.length).split('/').filter(Boolean));
+    return host.listFiles(packageDir).filter(file => file.endsWith('.go') && !file.endsWith('_test.go'));
+  }
+  return [];
+}
+
+/**
+ * 解析 C/C++ include
+ * 相对于包含它的文件所在目录解析，系统头文件和通过 -I 指定目录查找的头文件不解析
+ */
+function resolveInclude(specifier: string, fromFile: string, host: ImportResolveHost): string[] {
+  const candidate = path.resolve(path.dirname(fromFile), specifier);
+  return host.exists(candidate) ? [candidate] : [];
+}
+
+/**
+ * 获取文件的各级父目录（由近到远）
+ */
+function ancestors(filePath: string): string[] {
+  const dirs: string[] = [];
+  let dir = path.dirname(filePath);
+  while (true) {
+    dirs.push(dir);
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return dirs;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * 按相对路径后缀查找唯一匹配的文件
+ * 多个文件匹配时无法确定导入的是哪一个，不解析
+ */
+function findUnique(host: ImportResolveHost, suffixes: string[]): string | undefined {
+  if (!host.findBySuffix) {
+    return undefined;
+  }
+  for (const suffix of suffixes) {
+    const matches = host.findBySuffix(suffix);
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
@@ -6,3 +6,8 @@
 export { ContextManager, IContextManager, CodeGraph, FileNode } from './manager';
 export { CodeAnalyzer, ParseResult, FunctionInfo, ClassInfo } from './analyzer';
 export { ContextCache } from './cache';
+export { CodeGraphBuilder, isGraphSourceFile, getDependents } from './graph';
+export { resolveImport, ImportResolveHost, fileSystemResolveHost } from './importResolver';
+export { IgnoreMatcher } from './ignore';
+export { CodeSearchIndex, CodeChunk, CodeSearchResult, EmbeddingProvider, LocalEmbeddingProvider } from './searchIndex';
+export { ContextBudgeter, ContextBudgetOptions, BudgetInput, BudgetResult, BudgetSection } from './budget';
@@ -4,9 +4,15 @@
  */
 
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import { CodeContext } from '../api/types';
+import { Tokenizer, getTokenizer } from '../api/tokenizer';
 import { CodeAnalyzer } from './analyzer';
 import { ContextCache } from './cache';
+import { CodeGraphBuilder, getDependents } from './graph';
+import { fileSystemResolveHost, resolveImport } from './importResolver';
+import { CodeSearchIndex, CodeSearchResult, LocalEmbeddingProvider } from './searchIndex';
+import { egressPolicy } from '../security/egressPolicy';
 
 /**
  * 代码图谱接口
@@ -72,13 +78,22 @@ export interface IContextManager {
    */
   buildCodeGraph(): Promise<CodeGraph>;
 
+  /**
+   * 在本地代码索引中检索与查询相关的代码块
+   * @param query 查询文本（通常为用户的问题）
+   * @param limit 最多返回的结果数
+   * @returns 按相关度排序的代码块
+   */
+  searchCode(query: string, limit: number): Promise<CodeSearchResult[]>;
+
   /**
    * 智能截断上下文
    * @param context 原始上下文
    * @param maxTokens 最大token数
+   * @param tokenizer 目标模型的分词器，默认使用 cl100k_base
    * @returns 截断后的上下文
    */
-  truncateContext(context: CodeContext, maxTokens: number): CodeContext;
+  truncateContext(context: CodeContext, maxTokens: number, tokenizer?: Tokenizer): CodeContext;
 }
 
 /**
@@ -87,12 +102,25 @@ export interface IContextManager {
  */
 export class ContextManager implements IContextManager {
   private codeGraph: CodeGraph | null = null;
+  private codeGraphBuilding: Promise<CodeGraph> | null = null;
   private cache: ContextCache;
   private analyzer: CodeAnalyzer;
+  private graphBuilder: CodeGraphBuilder;
+  private searchIndex: CodeSearchIndex;
+  private searchIndexBuilt = false;
+  private searchIndexBuilding: Promise<void> | null = null;
+  private disposables: vscode.Disposable[] = [];
 
-  constructor() {
+  /**
+   * @param storagePath 代码图谱和检索索引的持久化目录（通常为工作区存储目录，未提供时不持久化）
+   */
+  constructor(storagePath?: string) {
     this.cache = new ContextCache();
     this.analyzer = new CodeAnalyzer();
+    this.graphBuilder = new CodeGraphBuilder(this.analyzer, storagePath);
+    this.searchIndex = new CodeSearchIndex(this.analyzer, storagePath);
+    this.applyEmbeddingConfig();
+    this.registerFileListeners();
   }
 
   /**
@@ -109,6 +137,11 @@ export class ContextManager implements IContextManager {
       return this.getEmptyContext();
     }
 
+    // 当前文件被数据外发策略排除时，不包含其内容、选中代码和相关文件
+    if (egressPolicy.isBlocked(currentFile.path)) {
+      return { ...this.getEmptyContext(), withheld: [vscode.workspace.asRelativePath(currentFile.path)] };
+    }
+
     // 构建上下文对象
     const context: CodeContext = {
       currentFile: currentFile
@@ -144,11 +177,17 @@ export class ContextManager implements IContextManager {
     if (context.currentFile.path) {
       try {
         const relatedFiles = await this.analyzeRelatedFiles(context.currentFile.path);
-        context.relatedFiles = relatedFiles.map((filePath: string) => ({
-          path: filePath,
-          relevance: 1.0,
-          excerpt: ''
-        }));
+        const withheld = relatedFiles.filter(filePath => egressPolicy.isBlocked(filePath));
+        context.relatedFiles = relatedFiles
+          .filter(filePath => !withheld.includes(filePath))
+          .map((filePath: string) => ({
+            path: filePath,
+            relevance: 1.0,
+            excerpt: ''
+          }));
+        if (withheld.length > 0) {
+          context.withheld = withheld.map(filePath => vscode.workspace.asRelativePath(filePath));
+        }
       } catch (error) {
         // 分析失败不影响主流程
         console.warn('[ContextManager] Failed to analyze related files:', error);
@@ -257,6 +296,13 @@ export class ContextManager implements IContextManager {
    * 通过导入语句和依赖关系找到相关文件
    */
   async analyzeRelatedFiles(currentFile: string): Promise<string[]> {
+    // 代码图谱已构建时，直接使用依赖和反向依赖
+    if (this.codeGraph?.files.has(currentFile)) {
+      const dependencies = this.codeGraph.dependencies.get(currentFile) || [];
+      const dependents = getDependents(this.codeGraph, currentFile);
+      return Array.from(new Set([...dependencies, ...dependents]));
+    }
+
     // 检查缓存
     const cacheKey = this.getCacheKey(`related:${currentFile}`);
     const cached = this.cache.get(cacheKey);
@@ -268,53 +314,95 @@ export class ContextManager implements IContextManager {
     const imports = await this.analyzer.parseImports(currentFile);
 
     // 查找相关文件
-    const relatedFiles: string[] = [];
+    const relatedFiles = new Set<string>();
     for (const importPath of imports) {
-      const resolvedPath = await this.resolveImportPath(importPath, currentFile);
-      if (resolvedPath) {
-        relatedFiles.push(resolvedPath);
+      for (const resolvedPath of this.resolveImportPath(importPath, currentFile)) {
+        relatedFiles.add(resolvedPath);
       }
     }
 
-    return relatedFiles;
+    return Array.from(relatedFiles);
   }
 
   /**
    * 构建代码图谱
    * 分析整个项目的代码结构和依赖关系
+   * 首次调用时遍历工作区构建（复用持久化的结果），之后在文件保存、删除和重命名时增量更新
    */
   async buildCodeGraph(): Promise<CodeGraph> {
     if (this.codeGraph) {
       return this.codeGraph;
     }
 
-    const graph: CodeGraph = {
-      files: new Map(),
-      dependencies: new Map()
-    };
+    // 构建中的并发调用共享同一次构建
+    if (!this.codeGraphBuilding) {
+      const roots = (vscode.workspace.workspaceFolders || [])
+        .filter(folder => folder.uri.scheme === 'file')
+        .map(folder => folder.uri.fsPath);
+
+      this.codeGraphBuilding = this.graphBuilder.build(roots)
+        .then(graph => {
+          this.codeGraph = graph;
+          return graph;
+        })
+        .finally(() => {
+          this.codeGraphBuilding = null;
+        });
+    }
+
+    return this.codeGraphBuilding;
+  }
 
-    // 在实际实现中，这里会遍历项目文件并分析
-    // 这里提供基础框架
+  /**
+   * 在本地代码索引中检索与查询相关的代码块
+   * 首次调用时基于代码图谱收录的文件构建索引（复用持久化的结果），之后随文件变化增量更新
+   * 被数据外发策略排除的文件中的代码块不会返回
+   */
+  async searchCode(query: string, limit: number): Promise<CodeSearchResult[]> {
+    if (!this.searchIndexBuilt) {
+      // 构建中的并发调用共享同一次构建
+      if (!this.searchIndexBuilding) {
+        this.searchIndexBuilding = this.buildCodeGraph()
+          .then(graph => this.searchIndex.build(Array.from(graph.files.keys())))
+          .then(() => {
+            this.searchIndexBuilt = true;
+          })
+          .finally(() => {
+            this.searchIndexBuilding = null;
+          });
+      }
+      await this.searchIndexBuilding;
+    }
 
-    this.codeGraph = graph;
-    return graph;
+    const results = await this.searchIndex.search(query, limit);
+    return results.filter(result => !egressPolicy.isBlocked(result.chunk.filePath));
+  }
+
+  /**
+   * 释放资源
+   * 停止监听文件变化并保存未持久化的代码图谱和检索索引
+   */
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    if (this.codeGraph) {
+      this.graphBuilder.flush(this.codeGraph);
+    }
+    this.searchIndex.flush();
   }
 
   /**
    * 智能截断上下文
    * 根据优先级保留最重要的上下文信息
    */
-  truncateContext(context: CodeContext, maxTokens: number): CodeContext {
+  truncateContext(context: CodeContext, maxTokens: number, tokenizer: Tokenizer = getTokenizer()): CodeContext {
     // 优先级：选中代码 > 光标上下文 > 当前文件 > 相关文件
     let currentTokens = 0;
     const truncated: CodeContext = {
       currentFile: context.currentFile
     };
 
-    // 估算token数量（简化实现：1 token ≈ 4 字符）
-    const estimateTokens = (text: string): number => {
-      return Math.ceil(text.length / 4);
-    };
+    const estimateTokens = (text: string): number => tokenizer.count(text);
 
     // 1. 保留选中代码（最高优先级）
     if (context.selection) {
@@ -343,11 +431,9 @@ export class ContextManager implements IContextManager {
       currentTokens += fileTokens;
     } else {
       // 只保留部分文件内容
-      const remainingTokens = maxTokens - currentTokens;
-      const remainingChars = remainingTokens * 4;
       truncated.currentFile = {
         ...context.currentFile,
-        content: context.currentFile.content.substring(0, remainingChars)
+        content: tokenizer.truncate(context.currentFile.content, maxTokens - currentTokens)
       };
       currentTokens = maxTokens;
     }
@@ -376,15 +462,100 @@ export class ContextManager implements IContextManager {
 
   /**
    * 解析导入路径
-   * 将相对路径或模块名解析为绝对路径
+   * 将各语言的模块名解析为工作区内的文件，node_modules 中的包和系统头文件不作为相关文件
+   */
+  private resolveImportPath(importPath: string, currentFile: string): string[] {
+    return resolveImport(importPath, currentFile, fileSystemResolveHost);
+  }
+
+  /**
+   * 注册文件变化监听，增量更新代码图谱
+   */
+  private registerFileListeners(): void {
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument(document => {
+        this.onFileChanged(document.uri);
+      }),
+      vscode.workspace.onDidCreateFiles(event => {
+        event.files.forEach(uri => this.onFileChanged(uri));
+      }),
+      vscode.workspace.onDidDeleteFiles(event => {
+        event.files.forEach(uri => this.onFileChanged(uri));
+      }),
+      vscode.workspace.onDidRenameFiles(event => {
+        event.files.forEach(({ oldUri, newUri }) => {
+          this.onFileChanged(oldUri);
+          this.onFileChanged(newUri);
+        });
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('hicode.embeddingApiBaseUrl') ||
+            event.affectsConfiguration('hicode.embeddingModel') ||
+            event.affectsConfiguration('hicode.localMode.allowedHosts')) {
+          this.applyEmbeddingConfig();
+        }
+      })
+    );
+  }
+
+  /**
+   * 根据配置设置检索索引的嵌入模型
+   * 未配置或配置了非本地地址时只使用 BM25
+   */
+  private applyEmbeddingConfig(): void {
+    const config = vscode.workspace.getConfiguration('hicode');
+    const baseUrl = config.get<string>('embeddingApiBaseUrl', '').trim();
+    const model = config.get<string>('embeddingModel', '').trim();
+    const allowedHosts = config.get<string[]>('localMode.allowedHosts', []);
+
+    if (!baseUrl || !model) {
+      this.searchIndex.setEmbeddingProvider(null);
+      return;
+    }
+
+    try {
+      this.searchIndex.setEmbeddingProvider(new LocalEmbeddingProvider(baseUrl, model, allowedHosts));
+    } catch (error) {
+      console.warn('[ContextManager] Embedding model is ignored:', error);
+      this.searchIndex.setEmbeddingProvider(null);
+    }
+  }
+
+  /**
+   * 处理文件变化
+   * 只在代码图谱已构建时更新，检索索引跟随图谱收录的文件更新；
+   * 忽略规则变化时丢弃图谱和索引，下次使用时重新构建
    */
-  private async resolveImportPath(
-    importPath: string,
-    currentFile: string
-  ): Promise<string | null> {
-    // 在实际实现中，这里会使用Node.js的路径解析逻辑
-    // 处理相对路径、绝对路径和node_modules
-    return null;
+  private async onFileChanged(uri: vscode.Uri): Promise<void> {
+    if (!this.codeGraph || uri.scheme !== 'file') {
+      return;
+    }
+
+    const filePath = uri.fsPath;
+    if (this.graphBuilder.requiresRebuild(filePath)) {
+      this.codeGraph = null;
+      this.searchIndexBuilt = false;
+      return;
+    }
+
+    try {
+      await this.graphBuilder.updateFile(this.codeGraph, filePath);
+    } catch (error) {
+      console.warn('[ContextManager] Failed to update code graph:', error);
+    }
+
+    if (!this.searchIndexBuilt) {
+      return;
+    }
+    try {
+      if (this.codeGraph?.files.has(filePath)) {
+        await this.searchIndex.updateFile(filePath);
+      } else {
+        this.searchIndex.removeFile(filePath);
+      }
+    } catch (error) {
+      console.warn('[ContextManager] Failed to update search index:', error);
+    }
   }
 
   /**
@@ -0,0 +1,678 @@
+/**
+ * Code Search Index
+ * 本地代码检索索引：按函数和类切分代码块，使用 BM25 排序，可选结合本地嵌入模型的语义相似度
+ * 索引持久化到磁盘并支持按文件增量更新，检索全程不访问外部网络
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeAnalyzer, SymbolInfo } from './analyzer';
+import { isLocalEndpoint } from '../security/localDiscovery';
+
+/**
+ * 代码块
+ */
+export interface CodeChunk {
+  /** 文件路径 */
+  filePath: string;
+  /** 代码块类型：函数、类或普通代码段 */
+  kind: 'function' | 'class' | 'block';
+  /** 函数名、类名，普通代码段为文件名 */
+  name: string;
+  /** 起始行号（从 1 开始） */
+  startLine: number;
+  /** 结束行号（包含） */
+  endLine: number;
+}
+
+/**
+ * 检索结果
+ */
+export interface CodeSearchResult {
+  /** 命中的代码块 */
+  chunk: CodeChunk;
+  /** 相关度得分（0-1） */
+  score: number;
+  /** 代码块内容 */
+  excerpt: string;
+}
+
+/**
+ * 嵌入向量提供者
+ */
+export interface EmbeddingProvider {
+  /** 提供者标识，变化时丢弃已计算的向量 */
+  readonly id: string;
+
+  /**
+   * 计算文本的嵌入向量
+   * @param texts 文本列表
+   * @returns 与文本一一对应的向量
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * 索引中的代码块
+ */
+interface IndexedChunk extends CodeChunk {
+  /** 词频 */
+  terms: Record<string, number>;
+  /** 词数 */
+  length: number;
+  /** 归一化的嵌入向量 */
+  embedding?: number[];
+}
+
+/**
+ * 持久化的索引数据
+ */
+interface PersistedIndex {
+  version: number;
+  /** 计算向量所用的提供者标识 */
+  embeddingProvider?: string;
+  /** 文件的代码块及修改时间，key 为文件路径 */
+  files: Record<string, { mtime: number; chunks: IndexedChunk[] }>;
+}
+
+/** 持久化文件名 */
+const INDEX_FILE_NAME = 'search-index.json';
+
+/** 持久化格式版本，结构或分词规则变化时递增以丢弃旧数据 */
+const INDEX_FORMAT_VERSION = 2;
+
+/** 单个代码块的最大行数，超出时按窗口切分 */
+const MAX_CHUNK_LINES = 80;
+
+/** 每批计算嵌入向量的代码块数 */
+const EMBEDDING_BATCH_SIZE = 16;
+
+/** 计算嵌入向量时每个代码块截取的最大字符数 */
+const MAX_EMBEDDING_TEXT = 2000;
+
+/** 语义相似度在综合得分中的权重 */
+const EMBEDDING_WEIGHT = 0.5;
+
+/** BM25 参数 */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** 不参与检索的常见关键字和虚词 */
+const STOP_WORDS = new Set([
+  'the', 'an', 'of', 'to', 'in', 'on', 'is', 'it', 'and', 'or', 'for', 'with', 'as', 'be', 'by', 'at',
+  'we', 'do', 'does', 'where', 'what', 'how', 'which', 'who',
+  'const', 'let', 'var', 'function', 'return', 'import', 'export', 'from', 'default', 'this', 'new',
+  'if', 'else', 'true', 'false', 'null', 'undefined', 'void', 'await', 'async', 'private', 'public',
+  'protected', 'readonly', 'static', 'string', 'number', 'boolean', 'any', 'type', 'interface'
+]);
+
+/**
+ * 将文本切分为检索词
+ * 标识符按驼峰和下划线拆分（同时保留完整标识符），中文按相邻两字切分
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[A-Za-z_$][A-Za-z0-9_$]*|[\u4e00-\u9fff]+/g) || []) {
+    if (/^[\u4e00-\u9fff]/.test(word)) {
+      if (word.length === 1) {
+        tokens.push(word);
+      }
+      for (let i = 0; i + 1 < word.length; i++) {
+        tokens.push(word.substring(i, i + 2));
+      }
+      continue;
+    }
+
+    const parts = word
+      .split(/[_$]+/)
+      .flatMap(part => part.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/))
+      .map(part => stem(part.toLowerCase()))
+      .filter(part => part.length > 1 && !STOP_WORDS.has(part));
+    tokens.push(...parts);
+    if (parts.length > 1) {
+      tokens.push(word.toLowerCase());
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 简单的词形归一（去掉复数和常见词尾）
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) {
+    return word.slice(0, -3);
+  }
+  if (word.length > 4 && word.endsWith('ed')) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * 归一化向量，零向量返回 null
+ */
+function normalize(vector: number[]): number[] | null {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : null;
+}
+
+/**
+ * 计算两个归一化向量的点积
+ */
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * 本地嵌入模型提供者
+ * 调用本地 OpenAI 兼容的 /embeddings 接口（如 Ollama、LM Studio），
+ * 与本地模式使用相同的本地地址判断，保证代码不离开本地网络
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private endpoint: string;
+
+  /**
+   * @param baseUrl 服务地址（如 http://localhost:11434/v1）
+   * @param model 嵌入模型名称
+   * @param allowedHosts 本地模式额外允许的主机名
+   * @throws Error 如果地址不是本地地址
+   */
+  constructor(baseUrl: string, private model: string, allowedHosts: string[] = []) {
+    if (!isLocalEndpoint(baseUrl, allowedHosts)) {
+      throw new Error(`Embedding endpoint must be a local address: ${baseUrl}`);
+    }
+    this.endpoint = `${baseUrl.replace(/\/+$/, '')}/embeddings`;
+    this.id = `${this.endpoint}#${model}`;
+  }
+
+  /**
+   * 计算文本的嵌入向量
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: AbortSignal.timeout(30000)
+    });
+    if (!response.ok) {
+      throw new Error(`Embedding request failed with status ${response.status}`);
+    }
+
+    const data = await response.json() as { data?: Array<{ embedding: number[]; index?: number }> };
+    if (!Array.isArray(data.data) || data.data.length !== texts.length) {
+      throw new Error('Embedding response does not match the request');
+    }
+    return data.data
+      .slice()
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Code Search Index类
+ */
+export class CodeSearchIndex {
+  /** 每个文件的代码块 */
+  private files = new Map<string, IndexedChunk[]>();
+  /** 每个文件索引时的修改时间 */
+  private mtimes = new Map<string, number>();
+  /** 包含各检索词的代码块数 */
+  private documentFrequency = new Map<string, number>();
+  /** 代码块总数 */
+  private chunkCount = 0;
+  /** 所有代码块的词数之和 */
+  private totalLength = 0;
+  /** 嵌入向量提供者（未配置时只使用 BM25） */
+  private embeddingProvider: EmbeddingProvider | null = null;
+  /** 正在进行的向量计算 */
+  private embedding: Promise<void> | null = null;
+  /** 延迟保存的定时器 */
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param analyzer 代码分析器
+   * @param storagePath 持久化目录（未提供时不持久化）
+   */
+  constructor(
+    private analyzer: CodeAnalyzer,
+    private storagePath?: string
+  ) {}
+
+  /**
+   * 设置嵌入向量提供者
+   * 提供者变化时丢弃已计算的向量，并在后台重新计算
+   * @param provider 提供者，null 表示只使用 BM25
+   */
+  setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+    if (provider?.id === this.embeddingProvider?.id) {
+      return;
+    }
+    this.embeddingProvider = provider;
+    for (const chunks of this.files.values()) {
+      chunks.forEach(chunk => delete chunk.embedding);
+    }
+    this.embedPending();
+  }
+
+  /**
+   * 构建索引
+   * 修改时间未变的文件复用持久化的结果，不在列表中的文件从索引中移除
+   * @param filePaths 要索引的文件列表
+   */
+  async build(filePaths: string[]): Promise<void> {
+    const startTime = Date.now();
+    const persisted = await this.load();
+    const reuseEmbeddings = !!persisted && persisted.embeddingProvider === this.embeddingProvider?.id;
+
+    this.files.clear();
+    this.mtimes.clear();
+    this.documentFrequency.clear();
+    this.chunkCount = 0;
+    this.totalLength = 0;
+
+    let reused = 0;
+    for (const filePath of filePaths) {
+      const stat = await fs.promises.stat(filePath).catch(() => null);
+      if (!stat) {
+        continue;
+      }
+
+      const cached = persisted?.files[filePath];
+      if (cached && cached.mtime === stat.mtimeMs) {
+        const chunks = cached.chunks.map(chunk => ({
+          ...chunk,
+          filePath,
+          embedding: reuseEmbeddings ? chunk.embedding : undefined
+        }));
+        this.addChunks(filePath, chunks);
+        reused++;
+      } else {
+        this.addChunks(filePath, await this.indexFile(filePath));
+      }
+      this.mtimes.set(filePath, stat.mtimeMs);
+    }
+
+    await this.save();
+    this.embedPending();
+
+    console.log(
+      `[CodeSearchIndex] Indexed ${this.chunkCount} chunks from ${this.files.size} files ` +
+      `(${reused} reused) in ${Date.now() - startTime}ms`
+    );
+  }
+
+  /**
+   * 增量更新单个文件
+   * 文件不存在时从索引中移除
+   * @param filePath 文件路径
+   */
+  async updateFile(filePath: string): Promise<void> {
+    const stat = await fs.promises.stat(filePath).catch(() => null);
+    if (!stat || !stat.isFile()) {
+      this.removeFile(filePath);
+      return;
+    }
+
+    const chunks = await this.indexFile(filePath);
+    this.removeChunks(filePath);
+    this.addChunks(filePath, chunks);
+    this.mtimes.set(filePath, stat.mtimeMs);
+    this.scheduleSave();
+    this.embedPending();
+  }
+
+  /**
+   * 从索引中移除文件
+   * @param filePath 文件路径
+   */
+  removeFile(filePath: string): void {
+    if (!this.files.has(filePath)) {
+      return;
+    }
+    this.removeChunks(filePath);
+    this.mtimes.delete(filePath);
+    this.scheduleSave();
+  }
+
+  /**
+   * 检索与查询最相关的代码块
+   * 配置了嵌入模型时综合 BM25 和语义相似度，向量计算失败时退回 BM25
+   * @param query 查询文本
+   * @param limit 最多返回的结果数
+   */
+  async search(query: string, limit: number): Promise<CodeSearchResult[]> {
+    if (limit <= 0 || this.chunkCount === 0) {
+      return [];
+    }
+
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const queryEmbedding = await this.embedQuery(query);
+    if (queryTerms.length === 0 && !queryEmbedding) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.chunkCount;
+    const idf = new Map(queryTerms.map(term => {
+      const df = this.documentFrequency.get(term) || 0;
+      return [term, Math.log(1 + (this.chunkCount - df + 0.5) / (df + 0.5))] as const;
+    }));
+
+    const scored: Array<{ chunk: IndexedChunk; bm25: number; similarity: number }> = [];
+    let maxBm25 = 0;
+    for (const chunks of this.files.values()) {
+      for (const chunk of chunks) {
+        let bm25 = 0;
+        for (const term of queryTerms) {
+          const tf = chunk.terms[term];
+          if (tf) {
+            const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength);
+            bm25 += idf.get(term)! * tf * (BM25_K1 + 1) / norm;
+          }
+        }
+        const similarity = queryEmbedding && chunk.embedding ? Math.max(0, dot(queryEmbedding, chunk.embedding)) : 0;
+        if (bm25 > 0 || similarity > 0) {
+          scored.push({ chunk, bm25, similarity });
+          maxBm25 = Math.max(maxBm25, bm25);
+        }
+      }
+    }
+
+    const results = scored
+      .map(({ chunk, bm25, similarity }) => {
+        const lexical = maxBm25 > 0 ? bm25 / maxBm25 : 0;
+        const score = queryEmbedding
+          ? lexical * (1 - EMBEDDING_WEIGHT) + similarity * EMBEDDING_WEIGHT
+          : lexical;
+        return { chunk, score };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return Promise.all(results.map(async ({ chunk, score }) => ({
+      chunk: {
+        filePath: chunk.filePath,
+        kind: chunk.kind,
+        name: chunk.name,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine
+      },
+      score,
+      excerpt: await this.readExcerpt(chunk)
+    })));
+  }
+
+  /**
+   * 立即保存并停止延迟保存
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  /**
+   * 读取文件并切分为代码块
+   * 函数和类各自成块；超过最大行数的类按其中的方法继续切分，其余代码按固定行数切分
+   */
+  private async indexFile(filePath: string): Promise<IndexedChunk[]> {
+    const content = await fs.promises.readFile(filePath, 'utf-8').catch(() => null);
+    if (content === null) {
+      return [];
+    }
+    const { symbols } = await this.analyzer.parseFile(filePath);
+
+    const lines = content.split('\n');
+    const chunks = this.chunkSymbols(filePath, symbols, 1, lines.length, 'block', path.basename(filePath), lines);
+
+    return chunks.map(chunk => {
+      const text = `${chunk.name}\n${lines.slice(chunk.startLine - 1, chunk.endLine).join('\n')}`;
+      const terms: Record<string, number> = {};
+      const tokens = tokenize(text);
+      for (const token of tokens) {
+        terms[token] = (terms[token] || 0) + 1;
+      }
+      return { ...chunk, terms, length: tokens.length };
+    });
+  }
+
+  /**
+   * 将行范围按符号切分为代码块
+   * 符号之间的代码归入所在的范围（文件或类）；符号的结束行截断到下一个符号之前
+   */
+  private chunkSymbols(
+    filePath: string,
+    symbols: SymbolInfo[],
+    startLine: number,
+    endLine: number,
+    kind: CodeChunk['kind'],
+    name: string,
+    lines: string[]
+  ): CodeChunk[] {
+    const sorted = symbols
+      .filter(symbol => symbol.startLine >= startLine && symbol.startLine <= endLine)
+      .sort((a, b) => a.startLine - b.startLine);
+
+    const chunks: CodeChunk[] = [];
+    let nextLine = startLine;
+    sorted.forEach((symbol, index) => {
+      if (symbol.startLine < nextLine) {
+        return;
+      }
+      const following = sorted.slice(index + 1).find(other => other.startLine > symbol.startLine);
+      const symbolEnd = Math.min(symbol.endLine, endLine, following ? following.startLine - 1 : endLine);
+      const symbolKind: CodeChunk['kind'] = symbol.kind === 'function' || symbol.kind === 'method'
+        ? 'function'
+        : symbol.kind === 'namespace' ? 'block' : 'class';
+
+      chunks.push(...this.splitRange(filePath, kind, name, nextLine, symbol.startLine - 1, lines));
+      if (symbolEnd - symbol.startLine + 1 > MAX_CHUNK_LINES && symbol.children.length > 0) {
+        chunks.push(...this.chunkSymbols(filePath, symbol.children, symbol.startLine, symbolEnd, symbolKind, symbol.name, lines));
+      } else {
+        chunks.push(...this.splitRange(filePath, symbolKind, symbol.name, symbol.startLine, symbolEnd, lines));
+      }
+      nextLine = symbolEnd + 1;
+    });
+    chunks.push(...this.splitRange(filePath, kind, name, nextLine, endLine, lines));
+
+    return chunks;
+  }
+
+  /**
+   * 按最大行数切分行范围，跳过空白内容
+   */
+  private splitRange(
+    filePath: string,
+    kind: CodeChunk['kind'],
+    name: string,
+    startLine: number,
+    endLine: number,
+    lines: string[]
+  ): CodeChunk[] {
+    const chunks: CodeChunk[] = [];
+    for (let start = startLine; start <= endLine; start += MAX_CHUNK_LINES) {
+      const end = Math.min(start + MAX_CHUNK_LINES - 1, endLine);
+      if (lines.slice(start - 1, end).some(line => line.trim() !== '')) {
+        chunks.push({ filePath, kind, name, startLine: start, endLine: end });
+      }
+    }
+    return chunks;
+  }
+
+  /**
+   * 将文件的代码块加入索引
+   */
+  private addChunks(filePath: string, chunks: IndexedChunk[]): void {
+    this.files.set(filePath, chunks);
+    for (const chunk of chunks) {
+      this.chunkCount++;
+      this.totalLength += chunk.length;
+      for (const term of Object.keys(chunk.terms)) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * 将文件的代码块移出索引
+   */
+  private removeChunks(filePath: string): void {
+    for (const chunk of this.files.get(filePath) || []) {
+      this.chunkCount--;
+      this.totalLength -= chunk.length;
+      for (const term of Object.keys(chunk.terms)) {
+        const df = (this.documentFrequency.get(term) || 0) - 1;
+        if (df > 0) {
+          this.documentFrequency.set(term, df);
+        } else {
+          this.documentFrequency.delete(term);
+        }
+      }
+    }
+    this.files.delete(filePath);
+  }
+
+  /**
+   * 读取代码块内容
+   */
+  private async readExcerpt(chunk: IndexedChunk): Promise<string> {
+    const content = await fs.promises.readFile(chunk.filePath, 'utf-8').catch(() => '');
+    return content.split('\n').slice(chunk.startLine - 1, chunk.endLine).join('\n');
+  }
+
+  /**
+   * 计算查询的嵌入向量，未配置或失败时返回 null
+   */
+  private async embedQuery(query: string): Promise<number[] | null> {
+    if (!this.embeddingProvider) {
+      return null;
+    }
+    try {
+      const [vector] = await this.embeddingProvider.embed([query]);
+      return normalize(vector);
+    } catch (error) {
+      console.warn('[CodeSearchIndex] Failed to embed query, falling back to BM25:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 在后台为还没有向量的代码块计算嵌入向量
+   * 同一时间只进行一轮计算，出错时停止本轮，下次更新时重试
+   */
+  private embedPending(): void {
+    if (!this.embeddingProvider || this.embedding) {
+      return;
+    }
+
+    const provider = this.embeddingProvider;
+    this.embedding = (async () => {
+      while (provider === this.embeddingProvider) {
+        const pending = Array.from(this.files.values())
+          .flat()
+          .filter(chunk => !chunk.embedding)
+          .slice(0, EMBEDDING_BATCH_SIZE);
+        if (pending.length === 0) {
+          break;
+        }
+
+        const texts = await Promise.all(pending.map(async chunk =>
+          `${path.basename(chunk.filePath)} ${chunk.name}\n${await this.readExcerpt(chunk)}`.substring(0, MAX_EMBEDDING_TEXT)
+        ));
+        const vectors = await provider.embed(texts);
+        if (provider !== this.embeddingProvider) {
+          break;
+        }
+        // 零向量也标记为已计算，避免反复请求
+        pending.forEach((chunk, index) => {
+          chunk.embedding = normalize(vectors[index]) ?? [];
+        });
+        this.scheduleSave();
+      }
+    })()
+      .catch(error => {
+        console.warn('[CodeSearchIndex] Failed to compute embeddings:', error);
+      })
+      .finally(() => {
+        this.embedding = null;
+        // 计算期间更换了提供者，为新提供者重新计算
+        if (provider !== this.embeddingProvider) {
+          this.embedPending();
+        }
+      });
+  }
+
+  /**
+   * 延迟保存，合并短时间内的多次更新
+   */
+  private scheduleSave(): void {
+    if (!this.storagePath) {
+      return;
+    }
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 2000);
+  }
+
+  /**
+   * 读取持久化的索引
+   */
+  private async load(): Promise<PersistedIndex | null> {
+    if (!this.storagePath) {
+      return null;
+    }
+    try {
+      const content = await fs.promises.readFile(path.join(this.storagePath, INDEX_FILE_NAME), 'utf-8');
+      const data = JSON.parse(content) as PersistedIndex;
+      return data.version === INDEX_FORMAT_VERSION ? data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 保存索引，失败只记录警告
+   */
+  private async save(): Promise<void> {
+    if (!this.storagePath) {
+      return;
+    }
+
+    const data: PersistedIndex = {
+      version: INDEX_FORMAT_VERSION,
+      embeddingProvider: this.embeddingProvider?.id,
+      files: {}
+    };
+    for (const [filePath, chunks] of this.files) {
+      data.files[filePath] = {
+        mtime: this.mtimes.get(filePath) ?? 0,
+        chunks: chunks.map(({ filePath: _filePath, ...chunk }) => chunk as IndexedChunk)
+      };
+    }
+
+    try {
+      await fs.promises.mkdir(this.storagePath, { recursive: true });
+      await fs.promises.writeFile(path.join(this.storagePath, INDEX_FILE_NAME), JSON.stringify(data), 'utf-8');
+    } catch (error) {
+      console.warn('[CodeSearchIndex] Failed to persist search index:', error);
+    }
+  }
+}
@@ -0,0 +1,772 @@
+/**
+ * Syntax Parser
+ * 基于 tree-sitter（WASM 语法）解析源代码，提取导入、导出、函数、类及嵌套符号
+ * 支持 TypeScript/JavaScript、Python、Java、Go、C/C++
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Parser from 'web-tree-sitter';
+import type { ClassInfo, FunctionInfo, ParseResult, SymbolInfo, SymbolKind } from './analyzer';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+/**
+ * 支持的语法
+ */
+export type SyntaxLanguage = 'typescript' | 'tsx' | 'javascript' | 'python' | 'java' | 'go' | 'c' | 'cpp';
+
+/**
+ * 构建时复制到扩展目录（dist/grammars）的语法文件和 tree-sitter 运行时（tree-sitter.wasm）
+ * 打包时不包含 node_modules，扩展运行时只能从这里加载
+ */
+const BUNDLED_GRAMMAR_DIR = path.join(__dirname, '..', 'grammars');
+
+/**
+ * 文件扩展名对应的语法
+ */
+const LANGUAGE_EXTENSIONS: Record<string, SyntaxLanguage> = {
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'tsx',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.pyi': 'python',
+  '.java': 'java',
+  '.go': 'go',
+  '.c': 'c',
+  '.h': 'cpp',
+  '.cc': 'cpp',
+  '.cpp': 'cpp',
+  '.cxx': 'cpp',
+  '.hh': 'cpp',
+  '.hpp': 'cpp',
+  '.hxx': 'cpp'
+};
+
+/**
+ * 各语法的函数定义节点
+ */
+const FUNCTION_NODES: Record<SyntaxLanguage, string[]> = {
+  typescript: ['function_declaration', 'generator_function_declaration', 'method_definition'],
+  tsx: ['function_declaration', 'generator_function_declaration', 'method_definition'],
+  javascript: ['function_declaration', 'generator_function_declaration', 'method_definition'],
+  python: ['function_definition'],
+  java: ['method_declaration', 'constructor_declaration', 'compact_constructor_declaration'],
+  go: ['function_declaration', 'method_declaration'],
+  c: ['function_definition'],
+  cpp: ['function_definition']
+};
+
+/**
+ * 各语法的类型定义节点及对应的符号类型
+ */
+const TYPE_NODES: Record<SyntaxLanguage, Record<string, SymbolKind>> = {
+  typescript: {
+    class_declaration: 'class',
+    abstract_class_declaration: 'class',
+    interface_declaration: 'interface',
+    enum_declaration: 'enum',
+    internal_module: 'namespace',
+    module: 'namespace'
+  },
+  tsx: {
+    class_declaration: 'class',
+    abstract_class_declaration: 'class',
+    interface_declaration: 'interface',
+    enum_declaration: 'enum',
+    internal_module: 'namespace',
+    module: 'namespace'
+  },
+  javascript: {
+    class_declaration: 'class'
+  },
+  python: {
+    class_definition: 'class'
+  },
+  java: {
+    class_declaration: 'class',
+    record_declaration: 'class',
+    interface_declaration: 'interface',
+    annotation_type_declaration: 'interface',
+    enum_declaration: 'enum'
+  },
+  go: {},
+  c: {
+    struct_specifier: 'struct',
+    union_specifier: 'struct',
+    enum_specifier: 'enum'
+  },
+  cpp: {
+    class_specifier: 'class',
+    struct_specifier: 'struct',
+    union_specifier: 'struct',
+    enum_specifier: 'enum',
+    namespace_definition: 'namespace'
+  }
+};
+
+/** 包裹定义的节点（导出、装饰器、模板），符号范围和注释从包裹节点开始 */
+const WRAPPER_NODES = new Set(['export_statement', 'decorated_definition', 'template_declaration']);
+
+/** 注释节点 */
+const COMMENT_NODES = new Set(['comment', 'block_comment', 'line_comment']);
+
+/** 函数表达式节点（赋值给变量或类字段时视为函数） */
+const FUNCTION_VALUE_NODES = new Set(['arrow_function', 'function_expression', 'function', 'generator_function']);
+
+/** 签名的最大长度 */
+const MAX_SIGNATURE_LENGTH = 300;
+
+/**
+ * 类型符号的附加信息
+ */
+interface TypeDetails {
+  properties: string[];
+  extends?: string;
+  implements?: string[];
+}
+
+/**
+ * 单个文件的解析状态
+ */
+interface ParseState {
+  language: SyntaxLanguage;
+  /** 符号对应的语法节点 */
+  nodes: Map<SymbolInfo, SyntaxNode>;
+  /** 类型符号的附加信息 */
+  typeDetails: Map<SymbolInfo, TypeDetails>;
+}
+
+/**
+ * 获取文件对应的语法
+ * @param filePath 文件路径
+ * @returns 语法，不支持的文件返回 null
+ */
+export function getSyntaxLanguage(filePath: string): SyntaxLanguage | null {
+  return LANGUAGE_EXTENSIONS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * Syntax Parser类
+ * 语法文件按需加载并在实例内复用
+ */
+export class SyntaxParser {
+  /** tree-sitter 运行时初始化（全局只需一次） */
+  private static initialization: Promise<void> | null = null;
+
+  private parser: Parser | null = null;
+  private languages = new Map<SyntaxLanguage, Promise<Parser.Language | null>>();
+
+  /**
+   * 解析源代码
+   * @param content 源代码
+   * @param language 语法
+   * @returns 解析结果，语法加载失败时返回 null
+   */
+  async parse(content: string, language: SyntaxLanguage): Promise<ParseResult | null> {
+    const grammar = await this.loadLanguage(language);
+    if (!grammar || !this.parser) {
+      return null;
+    }
+
+    this.parser.setLanguage(grammar);
+    const tree = this.parser.parse(content);
+    try {
+      return this.extract(tree.rootNode, language);
+    } finally {
+      tree.delete();
+    }
+  }
+
+  /**
+   * 加载语法，失败时记录警告并返回 null
+   */
+  private loadLanguage(language: SyntaxLanguage): Promise<Parser.Language | null> {
+    let loading = this.languages.get(language);
+    if (!loading) {
+      loading = (async () => {
+        const bundled = fs.existsSync(BUNDLED_GRAMMAR_DIR);
+        if (!SyntaxParser.initialization) {
+          SyntaxParser.initialization = Parser.init(bundled
+            ? { locateFile: (fileName: string) => path.join(BUNDLED_GRAMMAR_DIR, fileName) }
+            : undefined);
+        }
+        await SyntaxParser.initialization;
+        if (!this.parser) {
+          this.parser = new Parser();
+        }
+        // 开发和测试时没有构建产物，直接使用依赖包中的语法文件
+        const grammarDir = bundled
+          ? BUNDLED_GRAMMAR_DIR
+          : path.join(path.dirname(require.resolve('tree-sitter-wasms/package.json')), 'out');
+        return Parser.Language.load(path.join(grammarDir, `tree-sitter-${language}.wasm`));
+      })().catch(error => {
+        console.warn(`[SyntaxParser] Failed to load ${language} grammar:`, error);
+        return null;
+      });
+      this.languages.set(language, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * 从语法树提取解析结果
+   */
+  private extract(root: SyntaxNode, language: SyntaxLanguage): ParseResult {
+    const state: ParseState = { language, nodes: new Map(), typeDetails: new Map() };
+    const symbols: SymbolInfo[] = [];
+    this.visit(root, null, symbols, state);
+
+    const functions: FunctionInfo[] = [];
+    const classes: ClassInfo[] = [];
+    const collect = (list: SymbolInfo[]) => {
+      for (const symbol of list) {
+        const node = state.nodes.get(symbol)!;
+        if (symbol.kind === 'function') {
+          functions.push({
+            name: symbol.name,
+            parameters: this.getParameters(node, language),
+            startLine: symbol.startLine,
+            endLine: symbol.endLine,
+            isAsync: this.isAsync(node),
+            signature: symbol.signature,
+            docComment: symbol.docComment
+          });
+        } else if (symbol.kind !== 'method' && symbol.kind !== 'namespace') {
+          const details = state.typeDetails.get(symbol);
+          classes.push({
+            name: symbol.name,
+            kind: symbol.kind,
+            methods: symbol.children.filter(child => child.kind === 'method').map(child => child.name),
+            properties: details?.properties ?? [],
+            startLine: symbol.startLine,
+            endLine: symbol.endLine,
+            extends: details?.extends,
+            implements: details?.implements,
+            signature: symbol.signature,
+            docComment: symbol.docComment
+          });
+        }
+        collect(symbol.children);
+      }
+    };
+    collect(symbols);
+
+    // Go 和 C++ 的方法可以定义在类型之外，按所属类型归入类的方法列表
+    for (const symbol of symbols) {
+      if (symbol.kind === 'method' && symbol.container) {
+        classes.find(cls => cls.name === symbol.container)?.methods.push(symbol.name);
+      }
+    }
+
+    return {
+      language,
+      imports: Array.from(new Set(this.getImports(root, language))),
+      exports: Array.from(new Set(this.getExports(root, symbols, state))),
+      functions,
+      classes,
+      symbols
+    };
+  }
+
+  /**
+   * 遍历语法树收集符号，嵌套的定义作为子符号
+   */
+  private visit(node: SyntaxNode, parent: SymbolInfo | null, result: SymbolInfo[], state: ParseState): void {
+    for (const child of node.namedChildren) {
+      const symbol = this.createSymbol(child, parent, state);
+      if (symbol) {
+        result.push(symbol);
+        this.visit(child, symbol, symbol.children, state);
+      } else {
+        this.visit(child, parent, result, state);
+      }
+    }
+  }
+
+  /**
+   * 为定义节点创建符号，其他节点返回 null
+   */
+  private createSymbol(node: SyntaxNode, parent: SymbolInfo | null, state: ParseState): SymbolInfo | null {
+    const { language } = state;
+    const inType = !!parent && parent.kind !== 'function' && parent.kind !== 'method' && parent.kind !== 'namespace';
+
+    let kind: SymbolKind | null = null;
+    let name: string | null = null;
+    let container: string | undefined;
+    let body: SyntaxNode | null = null;
+
+    if (FUNCTION_NODES[language].includes(node.type)) {
+      body = node.childForFieldName('body');
+      if (language === 'c' || language === 'cpp') {
+        const declarator = this.findFunctionDeclarator(node);
+        let target = declarator?.childForFieldName('declarator') ?? null;
+        // A::B::method 取最内层的名称，所属类型为最后一级作用域
+        while (target?.type === 'qualified_identifier') {
+          container = target.childForFieldName('scope')?.text;
+          target = target.childForFieldName('name');
+        }
+        name = target ? this.getDeclaratorName(target) : null;
+      } else {
+        name = node.childForFieldName('name')?.text ?? null;
+      }
+      if (language === 'go' && node.type === 'method_declaration') {
+        container = this.getGoReceiverType(node);
+      }
+      kind = inType || container || node.type === 'method_definition' ? 'method' : 'function';
+    } else if (TYPE_NODES[language][node.type]) {
+      body = node.childForFieldName('body');
+      // C/C++ 中没有定义体的是前置声明或类型引用
+      if ((language === 'c' || language === 'cpp') && !body && node.type !== 'namespace_definition') {
+        return null;
+      }
+      kind = TYPE_NODES[language][node.type];
+      name = node.childForFieldName('name')?.text ?? null;
+    } else if (language === 'go' && node.type === 'type_spec') {
+      const type = node.childForFieldName('type');
+      if (type?.type === 'struct_type' || type?.type === 'interface_type') {
+        kind = type.type === 'struct_type' ? 'struct' : 'interface';
+        name = node.childForFieldName('name')?.text ?? null;
+        body = type.namedChildren.find(child => child.type.endsWith('_list')) ?? null;
+      }
+    } else if (node.type === 'variable_declarator' || node.type === 'public_field_definition' || node.type === 'field_definition') {
+      // const name = () => {}，以及类字段 name = () => {}
+      const value = node.childForFieldName('value');
+      if (value && FUNCTION_VALUE_NODES.has(value.type)) {
+        kind = node.type === 'variable_declarator' ? 'function' : 'method';
+        name = (node.childForFieldName('name') ?? node.childForFieldName('property'))?.text ?? null;
+        body = value.childForFieldName('body');
+      }
+    }
+
+    if (!kind || !name) {
+      return null;
+    }
+
+    const outer = this.getOuterNode(node);
+    const symbol: SymbolInfo = {
+      name,
+      kind,
+      signature: this.getSignature(outer, body, language),
+      docComment: this.getDocComment(outer, body, language),
+      startLine: outer.startPosition.row + 1,
+      endLine: outer.endPosition.row + 1,
+      container: container ?? (parent && kind === 'method' ? parent.name : undefined),
+      children: []
+    };
+    state.nodes.set(symbol, node);
+    if (kind !== 'function' && kind !== 'method' && kind !== 'namespace') {
+      state.typeDetails.set(symbol, this.getTypeDetails(node, body, language));
+    }
+    return symbol;
+  }
+
+  /**
+   * 获取包含定义的最外层节点（变量声明、导出、装饰器、模板）
+   */
+  private getOuterNode(node: SyntaxNode): SyntaxNode {
+    let outer = node;
+
+    // 只声明一个变量时，从声明语句开始
+    if (outer.type === 'variable_declarator' && outer.parent && outer.parent.namedChildren
+      .filter(child => child.type === 'variable_declarator').length === 1) {
+      outer = outer.parent;
+    }
+    // Go 的类型声明只包含一个类型时，从 type 关键字开始
+    if (outer.type === 'type_spec' && outer.parent?.type === 'type_declaration' && outer.parent.namedChildren.length === 1) {
+      outer = outer.parent;
+    }
+    while (outer.parent && WRAPPER_NODES.has(outer.parent.type)) {
+      outer = outer.parent;
+    }
+
+    return outer;
+  }
+
+  /**
+   * 获取签名：定义开头到定义体之前的文本，空白折叠为一个空格
+   */
+  private getSignature(outer: SyntaxNode, body: SyntaxNode | null, language: SyntaxLanguage): string {
+    let text = outer.text;
+    if (body) {
+      text = text.substring(0, body.startIndex - outer.startIndex);
+    } else {
+      text = text.split('\n')[0];
+    }
+
+    // 去掉没有定义体的声明末尾的分号，Python 去掉定义末尾的冒号
+    text = text.replace(/\s+/g, ' ').trim().replace(/;$/, '');
+    if (language === 'python') {
+      text = text.replace(/:$/, '').trim();
+    }
+    return text.length > MAX_SIGNATURE_LENGTH ? `${text.substring(0, MAX_SIGNATURE_LENGTH)}...` : text;
+  }
+
+  /**
+   * 获取文档注释
+   * Python 使用定义体开头的文档字符串，其他语言使用紧邻定义之前的注释
+   */
+  private getDocComment(outer: SyntaxNode, body: SyntaxNode | null, language: SyntaxLanguage): string | undefined {
+    if (language === 'python' && body) {
+      const first = body.firstNamedChild;
+      const docstring = first?.type === 'expression_statement' ? first.firstNamedChild : null;
+      if (docstring?.type === 'string') {
+        return this.cleanComment(docstring.text.replace(/^[rRbBuU]*("""|'''|"|')/, '').replace(/("""|'''|"|')$/, ''));
+      }
+    }
+
+    const comments: string[] = [];
+    let line = outer.startPosition.row;
+    let sibling = outer.previousNamedSibling;
+    while (sibling && COMMENT_NODES.has(sibling.type) && sibling.endPosition.row >= line - 1) {
+      comments.unshift(sibling.text);
+      line = sibling.startPosition.row;
+      sibling = sibling.previousNamedSibling;
+    }
+
+    if (comments.length === 0) {
+      return undefined;
+    }
+    return this.cleanComment(comments.join('\n')) || undefined;
+  }
+
+  /**
+   * 去掉注释标记和公共缩进
+   */
+  private cleanComment(text: string): string {
+    return text
+      .split('\n')
+      .map(line => line
+        .trim()
+        .replace(/^\/\*\*?/, '')
+        .replace(/\*\/$/, '')
+        .replace(/^(?:\/\/\/?|#|\*)\s?/, '')
+        .trimEnd())
+      .join('\n')
+      .trim();
+  }
+
+  /**
+   * 获取类型的属性、父类和接口
+   */
+  private getTypeDetails(node: SyntaxNode, body: SyntaxNode | null, language: SyntaxLanguage): TypeDetails {
+    const properties: string[] = [];
+    const bases: string[] = [];
+    let interfaces: string[] = [];
+
+    for (const member of body?.namedChildren ?? []) {
+      switch (member.type) {
+        case 'public_field_definition':
+        case 'field_definition':
+        case 'property_signature': {
+          const value = member.childForFieldName('value');
+          const name = member.childForFieldName('name') ?? member.childForFieldName('property');
+          if (name && !(value && FUNCTION_VALUE_NODES.has(value.type))) {
+            properties.push(name.text);
+          }
+          break;
+        }
+        case 'expression_statement': {
+          // Python 类属性：name = value
+          const assignment = member.firstNamedChild;
+          const left = assignment?.type === 'assignment' ? assignment.childForFieldName('left') : null;
+          if (left?.type === 'identifier') {
+            properties.push(left.text);
+          }
+          break;
+        }
+        case 'field_declaration': {
+          // Java 的 variable_declarator、C/C++ 的 declarator、Go 的 name
+          for (const declarator of member.childrenForFieldName('declarator')) {
+            if (declarator.type === 'function_declarator') {
+              continue;
+            }
+            const name = declarator.type === 'variable_declarator'
+              ? declarator.childForFieldName('name')?.text
+              : this.getDeclaratorName(declarator);
+            if (name) {
+              properties.push(name);
+            }
+          }
+          properties.push(...member.childrenForFieldName('name').map(name => name.text));
+          break;
+        }
+      }
+    }
+
+    switch (language) {
+      case 'typescript':
+      case 'tsx':
+      case 'javascript': {
+        const heritage = node.namedChildren.find(child => child.type === 'class_heritage');
+        for (const clause of heritage?.namedChildren ?? []) {
+          if (clause.type === 'extends_clause') {
+            bases.push(...clause.childrenForFieldName('value').map(value => value.text));
+          } else if (clause.type === 'implements_clause') {
+            interfaces = clause.namedChildren.map(child => child.text);
+          }
+        }
+        // 接口的 extends 视为父类型
+        const extendsType = node.namedChildren.find(child => child.type === 'extends_type_clause');
+        bases.push(...(extendsType?.namedChildren.map(child => child.text) ?? []));
+        break;
+      }
+      case 'python': {
+        const superclasses = node.childForFieldName('superclasses');
+        bases.push(...(superclasses?.namedChildren
+          .filter(child => child.type !== 'keyword_argument' && !COMMENT_NODES.has(child.type))
+          .map(child => child.text) ?? []));
+        break;
+      }
+      case 'java': {
+        const superclass = node.childForFieldName('superclass');
+        if (superclass?.firstNamedChild) {
+          bases.push(superclass.firstNamedChild.text);
+        }
+        const superInterfaces = node.childForFieldName('interfaces')
+          ?? node.namedChildren.find(child => child.type === 'extends_interfaces');
+        const typeList = superInterfaces?.namedChildren.find(child => child.type === 'type_list');
+        interfaces = typeList?.namedChildren.map(child => child.text) ?? [];
+        break;
+      }
+      case 'cpp': {
+        const baseClause = node.namedChildren.find(child => child.type === 'base_class_clause');
+        bases.push(...(baseClause?.namedChildren
+          .filter(child => child.type !== 'access_specifier')
+          .map(child => child.text) ?? []));
+        break;
+      }
+    }
+
+    // 多个父类型时，第一个作为父类，其余作为接口
+    return {
+      properties: Array.from(new Set(properties)),
+      extends: bases[0],
+      implements: [...bases.slice(1), ...interfaces].length > 0 ? [...bases.slice(1), ...interfaces] : undefined
+    };
+  }
+
+  /**
+   * 获取函数的参数名
+   */
+  private getParameters(node: SyntaxNode, language: SyntaxLanguage): string[] {
+    const value = node.childForFieldName('value');
+    const fn = value && FUNCTION_VALUE_NODES.has(value.type) ? value : node;
+
+    // 箭头函数的单个参数没有括号
+    const single = fn.childForFieldName('parameter');
+    if (single) {
+      return [single.text];
+    }
+
+    const parameterList = language === 'c' || language === 'cpp'
+      ? this.findFunctionDeclarator(fn)?.childForFieldName('parameters')
+      : fn.childForFieldName('parameters');
+
+    const names: string[] = [];
+    for (const parameter of parameterList?.namedChildren ?? []) {
+      if (COMMENT_NODES.has(parameter.type)) {
+        continue;
+      }
+
+      const goNames = parameter.childrenForFieldName('name');
+      if (goNames.length > 1) {
+        names.push(...goNames.map(name => name.text));
+        continue;
+      }
+
+      const target = parameter.childForFieldName('name')
+        ?? parameter.childForFieldName('pattern')
+        ?? (parameter.type === 'identifier' ? parameter : null);
+      const declarator = parameter.childForFieldName('declarator');
+      const name = target?.text
+        ?? (declarator ? this.getDeclaratorName(declarator) : null)
+        ?? parameter.descendantsOfType('identifier')[0]?.text;
+      if (name) {
+        names.push(name);
+      }
+    }
+
+    // Python 方法的 self/cls 不算作参数
+    if (language === 'python' && (names[0] === 'self' || names[0] === 'cls')) {
+      names.shift();
+    }
+    return names;
+  }
+
+  /**
+   * 判断函数是否为异步函数
+   */
+  private isAsync(node: SyntaxNode): boolean {
+    const value = node.childForFieldName('value');
+    const fn = value && FUNCTION_VALUE_NODES.has(value.type) ? value : node;
+    return fn.children.some(child => child.type === 'async');
+  }
+
+  /**
+   * 查找 C/C++ 函数定义的函数声明符（可能被指针、引用声明符包裹）
+   */
+  private findFunctionDeclarator(node: SyntaxNode): SyntaxNode | null {
+    let declarator = node.childForFieldName('declarator');
+    while (declarator && declarator.type !== 'function_declarator') {
+      declarator = declarator.childForFieldName('declarator');
+    }
+    return declarator;
+  }
+
+  /**
+   * 获取 C/C++ 声明符中的名称
+   */
+  private getDeclaratorName(declarator: SyntaxNode): string | null {
+    let current: SyntaxNode | null = declarator;
+    while (current) {
+      if (['identifier', 'field_identifier', 'type_identifier', 'destructor_name', 'operator_name'].includes(current.type)) {
+        return current.text;
+      }
+      if (current.type === 'qualified_identifier') {
+        return current.childForFieldName('name')?.text ?? current.text;
+      }
+      current = current.childForFieldName('declarator') ?? current.firstNamedChild;
+    }
+    return null;
+  }
+
+  /**
+   * 获取 Go 方法接收者的类型名
+   */
+  private getGoReceiverType(node: SyntaxNode): string | undefined {
+    const receiver = node.childForFieldName('receiver')?.firstNamedChild;
+    const type = receiver?.childForFieldName('type');
+    return type?.text.replace(/^\*/, '').replace(/\[.*\]$/, '');
+  }
+
+  /**
+   * 获取导入的模块
+   */
+  private getImports(root: SyntaxNode, language: SyntaxLanguage): string[] {
+    const imports: string[] = [];
+    const unquote = (text: string) => text.replace(/^["'`<]|["'`>]$/g, '');
+
+    switch (language) {
+      case 'typescript':
+      case 'tsx':
+      case 'javascript':
+        for (const node of root.descendantsOfType(['import_statement', 'export_statement', 'call_expression'])) {
+          if (node.type === 'call_expression') {
+            // require('module') 和 import('module')
+            const fn = node.childForFieldName('function');
+            const argument = node.childForFieldName('arguments')?.firstNamedChild;
+            if (fn && (fn.type === 'import' || (fn.type === 'identifier' && fn.text === 'require')) &&
+                argument?.type === 'string') {
+              imports.push(unquote(argument.text));
+            }
+          } else {
+            // import ... from 'module' 和 export ... from 'module'
+            const source = node.childForFieldName('source');
+            if (source) {
+              imports.push(unquote(source.text));
+            }
+          }
+        }
+        break;
+      case 'python':
+        for (const node of root.descendantsOfType(['import_statement', 'import_from_statement'])) {
+          if (node.type === 'import_from_statement') {
+            const module = node.childForFieldName('module_name');
+            if (module) {
+              imports.push(module.text);
+            }
+          } else {
+            for (const name of node.childrenForFieldName('name')) {
+              imports.push((name.childForFieldName('name') ?? name).text);
+            }
+          }
+        }
+        break;
+      case 'java':
+        for (const node of root.descendantsOfType('import_declaration')) {
+          imports.push(node.text.replace(/^import\s+(?:static\s+)?/, '').replace(/\s*;$/, '').replace(/\s+/g, ''));
+        }
+        break;
+      case 'go':
+        for (const node of root.descendantsOfType('import_spec')) {
+          const importPath = node.childForFieldName('path');
+          if (importPath) {
+            imports.push(unquote(importPath.text));
+          }
+        }
+        break;
+      case 'c':
+      case 'cpp':
+        for (const node of root.descendantsOfType('preproc_include')) {
+          const includePath = node.childForFieldName('path');
+          if (includePath) {
+            imports.push(unquote(includePath.text));
+          }
+        }
+        break;
+    }
+
+    return imports;
+  }
+
+  /**
+   * 获取导出项
+   * TypeScript/JavaScript 使用导出语句，其他语言按各自的可见性约定取顶层符号
+   */
+  private getExports(root: SyntaxNode, symbols: SymbolInfo[], state: ParseState): string[] {
+    const { language } = state;
+
+    if (language === 'typescript' || language === 'tsx' || language === 'javascript') {
+      const exports: string[] = [];
+      for (const node of root.namedChildren.filter(child => child.type === 'export_statement')) {
+        if (node.children.some(child => child.type === 'default')) {
+          exports.push('default');
+          continue;
+        }
+        const declaration = node.childForFieldName('declaration');
+        if (declaration) {
+          const declarators = declaration.namedChildren.filter(child => child.type === 'variable_declarator');
+          const names = declarators.length > 0
+            ? declarators.map(declarator => declarator.childForFieldName('name'))
+            : [declaration.childForFieldName('name')];
+          exports.push(...names.filter((name): name is SyntaxNode => !!name).map(name => name.text));
+        }
+        for (const specifier of node.descendantsOfType('export_specifier')) {
+          const name = specifier.childForFieldName('name');
+          if (name) {
+            exports.push(name.text);
+          }
+        }
+      }
+      return exports;
+    }
+
+    // C++ 命名空间中的符号同样对外可见
+    const topLevel = language === 'cpp'
+      ? symbols.flatMap(symbol => symbol.kind === 'namespace' ? symbol.children : [symbol])
+      : symbols;
+
+    return topLevel
+      .filter(symbol => {
+        const node = state.nodes.get(symbol)!;
+        switch (language) {
+          case 'python':
+            return !symbol.name.startsWith('_');
+          case 'go':
+            return symbol.kind !== 'method' && /^[A-Z]/.test(symbol.name);
+          case 'java':
+            return /\bpublic\b/.test(node.namedChildren.find(child => child.type === 'modifiers')?.text ?? '');
+          default:
+            return symbol.kind !== 'method' &&
+              !node.namedChildren.some(child => child.type === 'storage_class_specifier' && child.text === 'static');
+        }
+      })
+      .map(symbol => symbol.name);
+  }
+}
@@ -14,6 +14,8 @@ import { commandManager } from './commands';
 import { ChatWebviewProvider } from './providers/chatWebviewProvider';
 import * as MessageType from './utils/messageType';
 import { registerDiffPreviewCommands } from './utils/codeDiffPreview';
+import { egressPolicy, EGRESS_IGNORE_FILE } from './security/egressPolicy';
+import { LocalModeManager } from './security/localMode';
 
 /** 扩展版本号 */
 export const version = '0.1.0';
@@ -45,6 +47,9 @@ let configManagerModule: LazyModule<any> | null = null;
 /** 代码补全提供器模块 */
 let completionProviderModule: LazyModule<any> | null = null;
 
+/** 内联补全（幽灵文本）提供器模块 */
+let inlineCompletionProviderModule: LazyModule<any> | null = null;
+
 /** Prompt 管理器模块 */
 let promptManagerModule: LazyModule<any> | null = null;
 
@@ -78,6 +83,9 @@ let configManagerInstance: any = null;
 /** 代码补全提供器实例 */
 let completionProviderInstance: any = null;
 
+/** 内联补全（幽灵文本）提供器实例 */
+let inlineCompletionProviderInstance: any = null;
+
 /** 聊天 Webview 提供器实例 */
 let chatWebviewProvider: ChatWebviewProvider | null = null;
 
@@ -110,6 +118,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     initializeLazyModules();
     timer.mark('lazy-modules-initialized');
 
+    // 数据外发策略需要在注册任何可能发出请求的命令、提供器和视图之前加载
+    await registerEgressPolicy(context);
+    timer.mark('egress-policy-loaded');
+
     // ========== 第二阶段：初始化命令系统 ==========
     // 命令系统是最轻量的，优先初始化以确保用户可以立即使用命令
     initializeCommandSystem(context);
@@ -225,20 +237,22 @@ function initializeCommandSystem(context: vscode.ExtensionContext): void {
 function registerProviders(context: vscode.ExtensionContext): void {
   console.log('Registering providers...');
   
-  // TODO: 注册代码补全提供器
+  // 注册内联补全提供器，以幽灵文本显示代码补全
   // 需求: 1.5 - AI 代码补全
-  // const completionProvider = vscode.languages.registerCompletionItemProvider(
-  //   { scheme: 'file', language: '*' },
-  //   {
-  //     async provideCompletionItems(document, position, token, context) {
-  //       // 懒加载补全提供器
-  //       const provider = await getCompletionProvider();
-  //       return provider.provideCompletionItems(document, position, token, context);
-  //     }
-  //   },
-  //   '.' // 触发字符
-  // );
-  // context.subscriptions.push(completionProvider);
+  const inlineCompletionProvider = vscode.languages.registerInlineCompletionItemProvider(
+    { scheme: 'file' },
+    {
+      async provideInlineCompletionItems(document, position, context, token) {
+        if (!vscode.workspace.getConfiguration('hicode').get<boolean>('enableCodeCompletion', true)) {
+          return [];
+        }
+        // 懒加载内联补全提供器
+        const provider = await getInlineCompletionProvider();
+        return provider.provideInlineCompletionItems(document, position, context, token);
+      }
+    }
+  );
+  context.subscriptions.push(inlineCompletionProvider);
 
   // TODO: 注册内联聊天提供器
   // 需求: 9.1 - 内联聊天功能
@@ -254,7 +268,7 @@ function registerProviders(context: vscode.ExtensionContext): void {
   // );
   // context.subscriptions.push(inlineChatProvider);
 
-  console.log('✓ Providers registered (placeholder)');
+  console.log('✓ Providers registered');
 }
 
 /**
@@ -331,8 +345,8 @@ function registerSelectionChangeListener(context: vscode.ExtensionContext): void
       const selection = editor.selection;
       const document = editor.document;
 
-      // 如果选择为空，发送空选择事件
-      if (selection.isEmpty) {
+      // 如果选择为空或文件被 .hicodeignore 排除，发送空选择事件
+      if (selection.isEmpty || egressPolicy.isBlocked(document.uri.fsPath)) {
         const provider = getChatWebviewProvider();
         if (provider) {
           provider.postMessage({
@@ -425,6 +439,43 @@ async function loadMinimalConfiguration(context: vscode.ExtensionContext): Promi
   }
 }
 
+/**
+ * 加载数据外发策略
+ * 读取工作区根目录下的 .hicodeignore 和 hicode.egressExcludes 配置，
+ * 并在规则文件、配置或工作区文件夹变化时重新加载
+ *
+ * @param context VS Code 扩展上下文
+ */
+async function registerEgressPolicy(context: vscode.ExtensionContext): Promise<void> {
+  const reload = async () => {
+    try {
+      const roots = (vscode.workspace.workspaceFolders || [])
+        .filter(folder => folder.uri.scheme === 'file')
+        .map(folder => folder.uri.fsPath);
+      const patterns = vscode.workspace.getConfiguration('hicode').get<string[]>('egressExcludes', []);
+      await egressPolicy.load(roots, patterns);
+    } catch (error) {
+      console.error('Failed to load egress policy:', error);
+    }
+  };
+
+  await reload();
+
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/${EGRESS_IGNORE_FILE}`);
+  context.subscriptions.push(
+    watcher,
+    watcher.onDidCreate(reload),
+    watcher.onDidChange(reload),
+    watcher.onDidDelete(reload),
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('hicode.egressExcludes')) {
+        reload();
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(reload)
+  );
+}
+
 /**
  * 初始化懒加载模块
  * 
@@ -489,6 +540,12 @@ function initializeLazyModules(): void {
     return AICompletionProvider;
   });
 
+  // 内联补全提供器 - 当编辑器首次请求幽灵文本时加载
+  inlineCompletionProviderModule = createLazyModule(async () => {
+    const { AIInlineCompletionProvider } = await import('./providers/inlineCompletionProvider');
+    return AIInlineCompletionProvider;
+  });
+
   // Prompt 管理器 - 当需要使用模板系统时加载
   // 需求: 1.5, 8.4
   promptManagerModule = createLazyModule(async () => {
@@ -518,6 +575,7 @@ export async function getPromptManager(): Promise<any> {
     const { IntentRecognizer } = await import('./prompts/intentRecognizer');
     const { ContextCollector } = await import('./prompts/contextCollector');
     const { TemplateRenderer } = await import('./prompts/templateRenderer');
+    const { SpecificationApplier } = await import('./prompts/specificationApplier');
     const { defaultTemplates } = await import('./prompts/templates/defaultTemplates');
     
     // 创建 TemplateRegistry 实例并加载模板
@@ -528,6 +586,12 @@ export async function getPromptManager(): Promise<any> {
     const templateRenderer = new TemplateRenderer();
     const contextCollector = new ContextCollector();
     
+    // 创建规范应用器，每次应用时从配置管理器读取最新的产品级规范
+    const configMgr = await getConfigManager();
+    const specificationApplier = new SpecificationApplier(
+      () => configMgr.specifications.getSpecificationConfigs()
+    );
+    
     // 创建 IntentRecognizer（需要 API 客户端，但延迟获取）
     // 注意：这里我们先创建一个占位符，稍后在实际使用时再注入 API 客户端
     const intentRecognizer = new IntentRecognizer(null as any);
@@ -538,7 +602,8 @@ export async function getPromptManager(): Promise<any> {
       templateRegistry,
       intentRecognizer,
       contextCollector,
-      templateRenderer
+      templateRenderer,
+      specificationApplier
     );
     
     console.log('✓ Prompt Manager initialized with template system');
@@ -602,6 +667,17 @@ export async function getAPIClient(): Promise<any> {
     
     // 创建 API 客户端，传入 promptManager
     apiClientInstance = new APIClientManagerClass(configMgr.models, promptManager);
+
+    // 本地模式：只允许向本地网络中的模型发送请求，在任何请求发出之前设置
+    applyLocalModeConfig(apiClientInstance);
+    extensionContext?.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('hicode.enableLocalMode') ||
+            event.affectsConfiguration('hicode.localMode.allowedHosts')) {
+          applyLocalModeConfig(apiClientInstance);
+        }
+      })
+    );
     
     // 初始化 PromptManager 的依赖（注入 API 客户端到 IntentRecognizer）
     await initializePromptManagerDependencies();
@@ -610,6 +686,8 @@ export async function getAPIClient(): Promise<any> {
     const { DeepSeekAdapter } = await import('./api/adapters/deepseek');
     const { OpenAIAdapter } = await import('./api/adapters/openai');
     const { ZhipuAIAdapter } = await import('./api/adapters/zhipuai');
+    const { AnthropicAdapter } = await import('./api/adapters/anthropic');
+    const { OllamaAdapter } = await import('./api/adapters/ollama');
     
     // 获取所有模型配置并为每个vendor注册adapter
     const models = configMgr.models.getModelConfigs();
@@ -628,6 +706,12 @@ export async function getAPIClient(): Promise<any> {
           case 'zhipuai':
             adapter = new ZhipuAIAdapter(model, promptManager);
             break;
+          case 'anthropic':
+            adapter = new AnthropicAdapter(model, promptManager);
+            break;
+          case 'ollama':
+            adapter = new OllamaAdapter(model, promptManager);
+            break;
           default:
             // 对于未知的vendor，使用OpenAI兼容的adapter
             adapter = new OpenAIAdapter(model, promptManager);
@@ -637,11 +721,94 @@ export async function getAPIClient(): Promise<any> {
         registeredVendors.add(model.vendor);
       }
     }
+
+    // 请求脱敏：配置或工作区变化时重新创建脱敏器
+    await applyRedactionConfig(apiClientInstance);
+    extensionContext?.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('hicode.enableRedaction') ||
+            event.affectsConfiguration('hicode.redactEnvValues') ||
+            event.affectsConfiguration('hicode.redactionPatterns')) {
+          applyRedactionConfig(apiClientInstance);
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => applyRedactionConfig(apiClientInstance))
+    );
+
+    // 发送前授权：按模型端点记住用户的选择，启用预览时展示完整请求
+    if (extensionContext) {
+      const { AuthorizationManager } = await import('./security/authorization');
+      apiClientInstance.setAuthorizer(new AuthorizationManager(extensionContext));
+    }
+
+    // 模型流量审计日志：记录每个发送给模型的请求
+    await applyAuditLogConfig(apiClientInstance);
+    extensionContext?.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('hicode.auditLog.enabled')) {
+          applyAuditLogConfig(apiClientInstance);
+        }
+      })
+    );
   }
   
   return apiClientInstance;
 }
 
+/**
+ * 根据配置设置 API 客户端的请求脱敏器
+ * 启用时使用日志过滤器的敏感模式、工作区 .env 文件中的变量值和自定义正则表达式
+ * @param apiClient API 客户端
+ */
+async function applyRedactionConfig(apiClient: any): Promise<void> {
+  const config = vscode.workspace.getConfiguration('hicode');
+  if (!config.get<boolean>('enableRedaction', true)) {
+    apiClient.setRedactor(null);
+    return;
+  }
+
+  const { Redactor, loadEnvSecrets } = await import('./security/redaction');
+  const secretValues = config.get<boolean>('redactEnvValues', true)
+    ? (vscode.workspace.workspaceFolders || []).flatMap(folder => loadEnvSecrets(folder.uri.fsPath))
+    : [];
+
+  apiClient.setRedactor(new Redactor({
+    secretValues,
+    customPatterns: config.get<string[]>('redactionPatterns', [])
+  }));
+}
+
+/**
+ * 根据配置设置 API 客户端的本地模式
+ * @param apiClient API 客户端
+ */
+function applyLocalModeConfig(apiClient: any): void {
+  if (!extensionContext) {
+    return;
+  }
+  const config = new LocalModeManager(extensionContext).getConfig();
+  apiClient.setLocalMode(config.enabled, config.allowedHosts);
+}
+
+/**
+ * 根据配置设置 API 客户端的模型流量审计日志
+ * 审计日志保存在扩展全局存储目录下，关闭后不再记录，已有记录保留
+ * @param apiClient API 客户端
+ */
+async function applyAuditLogConfig(apiClient: any): Promise<void> {
+  const enabled = vscode.workspace.getConfiguration('hicode').get<boolean>('auditLog.enabled', true);
+  if (!enabled || !extensionContext) {
+    apiClient.setAuditLog(null);
+    return;
+  }
+
+  if (!apiClient.getAuditLog()) {
+    const path = await import('path');
+    const { TrafficAuditLog, AUDIT_LOG_DIR } = await import('./security/auditLog');
+    apiClient.setAuditLog(new TrafficAuditLog(path.join(extensionContext.globalStorageUri.fsPath, AUDIT_LOG_DIR)));
+  }
+}
+
 /**
  * 获取上下文管理器（懒加载，单例）
  * 需求: 5.1
@@ -653,7 +820,9 @@ export async function getContextManager(): Promise<any> {
   
   if (!contextManagerInstance) {
     const ContextManagerClass = await contextManagerModule.load();
-    contextManagerInstance = new ContextManagerClass();
+    // 代码图谱按工作区持久化到工作区存储目录
+    contextManagerInstance = new ContextManagerClass(extensionContext?.storageUri?.fsPath);
+    extensionContext?.subscriptions.push(contextManagerInstance);
   }
   
   return contextManagerInstance;
@@ -673,10 +842,26 @@ export async function getHistoryManager(): Promise<any> {
   
   if (!historyManagerInstance) {
     const HistoryManagerClass = await historyManagerModule.load();
-    // 导入 VSCodeStorageManager
-    const { VSCodeStorageManager } = await import('./history/storage');
-    const storageManager = new VSCodeStorageManager(extensionContext.globalState);
-    historyManagerInstance = new HistoryManagerClass(storageManager);
+    const { FileStorageManager } = await import('./history/storage');
+    const path = await import('path');
+
+    // 历史记录按会话保存为文件，默认位于全局存储目录，可配置到其他目录（如同步盘）
+    const configuredPath = vscode.workspace.getConfiguration('hicode').get<string>('historyStoragePath', '');
+    const storageManager = new FileStorageManager(
+      configuredPath || path.join(extensionContext.globalStorageUri.fsPath, 'history')
+    );
+
+    // 旧版本保存在 globalState 中的历史记录交给 HistoryManager 迁移
+    const legacyKey = 'hicode.chatSessions';
+    const legacySessions = extensionContext.globalState.get<string>(legacyKey);
+    if (legacySessions) {
+      storageManager.set(legacyKey, legacySessions);
+      await extensionContext.globalState.update(legacyKey, undefined);
+    }
+
+    historyManagerInstance = new HistoryManagerClass(storageManager, {
+      workspace: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+    });
   }
   
   return historyManagerInstance;
@@ -758,12 +943,35 @@ export async function getCompletionProvider(): Promise<any> {
     const CompletionProviderClass = await completionProviderModule.load();
     const apiClient = await getAPIClient();
     const contextMgr = await getContextManager();
-    completionProviderInstance = new CompletionProviderClass(apiClient, contextMgr);
+    const configMgr = await getConfigManager();
+    completionProviderInstance = new CompletionProviderClass(
+      apiClient,
+      contextMgr,
+      configMgr.get('completionDelay', 300),
+      configMgr.get('adaptiveCompletion', true)
+    );
   }
   
   return completionProviderInstance;
 }
 
+/**
+ * 获取内联补全提供器（懒加载，单例）
+ */
+export async function getInlineCompletionProvider(): Promise<any> {
+  if (!inlineCompletionProviderModule) {
+    throw new Error('Extension not activated');
+  }
+  
+  if (!inlineCompletionProviderInstance) {
+    const InlineCompletionProviderClass = await inlineCompletionProviderModule.load();
+    const completionProvider = await getCompletionProvider();
+    inlineCompletionProviderInstance = new InlineCompletionProviderClass(completionProvider);
+  }
+  
+  return inlineCompletionProviderInstance;
+}
+
 /**
  * 扩展停用函数
  * 当扩展被停用时调用，负责清理资源
@@ -784,6 +992,7 @@ export function deactivate(): void {
     intentRouterModule = null;
     configManagerModule = null;
     completionProviderModule = null;
+    inlineCompletionProviderModule = null;
     promptManagerModule = null;
     
     // 清理单例实例
@@ -795,6 +1004,10 @@ export function deactivate(): void {
     intentRouterInstance = null;
     configManagerInstance = null;
     completionProviderInstance = null;
+    if (inlineCompletionProviderInstance) {
+      inlineCompletionProviderInstance.dispose();
+      inlineCompletionProviderInstance = null;
+    }
     promptManagerInstance = null;
     
     console.log('✓ HiCode AI Integration deactivated successfully');
@@ -3,6 +3,6 @@
  * Exports history management functionality
  */
 
-export { HistoryManager, IHistoryManager } from './manager';
-export { MemoryStorageManager, VSCodeStorageManager } from './storage';
-export { ChatSession, ChatMessage, IStorageManager } from './types';
+export { HistoryManager, IHistoryManager, HistoryManagerOptions } from './manager';
+export { MemoryStorageManager, VSCodeStorageManager, FileStorageManager } from './storage';
+export { ChatSession, ChatMessage, IStorageManager, SessionFilter, SessionSearchResult, BranchNode } from './types';
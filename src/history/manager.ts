@@ -3,18 +3,39 @@
  * Manages chat sessions, including creation, persistence, and retrieval
  */
 
-import { ChatSession, ChatMessage, IStorageManager } from './types';
+import { CodeContext } from '../api/types';
+import { ChatSession, ChatMessage, IStorageManager, SessionFilter, SessionSearchResult, BranchNode, SessionSummary } from './types';
 
 const STORAGE_KEY = 'hicode.chatSessions';
 const MAX_TITLE_LENGTH = 50;
+const MAX_SEARCH_MATCHES = 5;
+const SNIPPET_RADIUS = 40;
+
+/**
+ * History Manager options
+ */
+export interface HistoryManagerOptions {
+  /** Workspace recorded on newly created sessions */
+  workspace?: string;
+}
 
 /**
  * History Manager interface
  */
 export interface IHistoryManager {
   createSession(model: string): ChatSession;
-  addMessage(sessionId: string, message: ChatMessage): void;
-  getSessions(): ChatSession[];
+  addMessage(sessionId: string, message: ChatMessage): ChatMessage;
+  getActivePath(sessionId: string): ChatMessage[];
+  getBranchView(sessionId: string): BranchNode[];
+  getSiblingIds(sessionId: string, messageId: string): string[];
+  editMessage(sessionId: string, messageId: string, content: string, context?: CodeContext): ChatMessage;
+  rewindTo(sessionId: string, messageId: string | null): void;
+  switchBranch(sessionId: string, messageId: string): void;
+  setSummary(sessionId: string, content: string, throughMessageId: string): SessionSummary;
+  getActiveSummary(sessionId: string): SessionSummary | null;
+  getSessions(filter?: SessionFilter): ChatSession[];
+  searchSessions(query: string, filter?: SessionFilter): SessionSearchResult[];
+  getFilterOptions(): { models: string[]; workspaces: string[] };
   getSession(sessionId: string): ChatSession | null;
   deleteSession(sessionId: string): void;
   clearAllSessions(): void;
@@ -30,7 +51,10 @@ export class HistoryManager implements IHistoryManager {
   private sessions: Map<string, ChatSession> = new Map();
   private currentSessionId: string | null = null;
 
-  constructor(private storageManager: IStorageManager) {
+  constructor(
+    private storageManager: IStorageManager,
+    private options: HistoryManagerOptions = {}
+  ) {
     this.loadSessions();
   }
 
@@ -44,44 +68,261 @@ export class HistoryManager implements IHistoryManager {
       createdAt: new Date(),
       updatedAt: new Date(),
       messages: [],
-      model
+      model,
+      workspace: this.options.workspace
     };
 
     this.sessions.set(session.id, session);
     this.currentSessionId = session.id;
-    this.saveSessions();
+    this.saveSession(session);
 
     return session;
   }
 
   /**
    * Add a message to a session
+   * The message is appended to the active branch unless `parentId` is given,
+   * and becomes the new end of the active branch.
+   * @returns The stored message with `id` and `parentId` assigned
    */
-  addMessage(sessionId: string, message: ChatMessage): void {
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
-    }
+  addMessage(sessionId: string, message: ChatMessage): ChatMessage {
+    const session = this.requireSession(sessionId);
 
-    session.messages.push(message);
+    const stored: ChatMessage = {
+      ...message,
+      id: message.id ?? this.generateMessageId(),
+      parentId: message.parentId !== undefined ? message.parentId : session.activeLeafId ?? null
+    };
+    session.messages.push(stored);
+    session.activeLeafId = stored.id;
     session.updatedAt = new Date();
 
     // Auto-generate title from first user message
-    if (session.messages.length === 1 && message.role === 'user') {
-      session.title = this.generateTitle(message.content);
+    if (session.messages.length === 1 && stored.role === 'user') {
+      session.title = this.generateTitle(stored.content);
+    }
+
+    if (this.storageManager.appendMessage) {
+      this.storageManager.appendMessage(session, stored);
+    } else {
+      this.saveSessions();
+    }
+
+    return stored;
+  }
+
+  /**
+   * Get the messages of the active branch, from the first message to the active leaf
+   */
+  getActivePath(sessionId: string): ChatMessage[] {
+    const session = this.requireSession(sessionId);
+    const byId = new Map(session.messages.map(msg => [msg.id!, msg]));
+
+    const path: ChatMessage[] = [];
+    let current = session.activeLeafId ? byId.get(session.activeLeafId) : undefined;
+    while (current && path.length <= session.messages.length) {
+      path.push(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    return path.reverse();
+  }
+
+  /**
+   * Get the active branch with the alternative versions at each position
+   */
+  getBranchView(sessionId: string): BranchNode[] {
+    return this.getActivePath(sessionId).map(message => ({
+      message,
+      siblingIds: this.getSiblingIds(sessionId, message.id!)
+    }));
+  }
+
+  /**
+   * Get the IDs of all versions of a message (messages with the same parent), oldest first
+   */
+  getSiblingIds(sessionId: string, messageId: string): string[] {
+    const session = this.requireSession(sessionId);
+    const message = this.requireMessage(sessionId, messageId);
+
+    return session.messages
+      .filter(msg => (msg.parentId ?? null) === (message.parentId ?? null))
+      .map(msg => msg.id!);
+  }
+
+  /**
+   * Edit a user message by adding the new content as a sibling version
+   * The original message and its replies are kept on their own branch.
+   * @param context Context of the new version, defaults to the original's
+   * @returns The new user message, now the end of the active branch
+   */
+  editMessage(sessionId: string, messageId: string, content: string, context?: CodeContext): ChatMessage {
+    const original = this.requireMessage(sessionId, messageId);
+    if (original.role !== 'user') {
+      throw new Error('Can only edit user messages');
+    }
+
+    return this.addMessage(sessionId, {
+      role: 'user',
+      content,
+      context: context ?? original.context,
+      timestamp: new Date(),
+      parentId: original.parentId ?? null
+    });
+  }
+
+  /**
+   * Make a message the end of the active branch
+   * The next added message starts a new branch after it, e.g. to regenerate
+   * a reply rewind to the user message it answers.
+   * @param messageId Message ID, or null to start a new branch at the root
+   */
+  rewindTo(sessionId: string, messageId: string | null): void {
+    const session = this.requireSession(sessionId);
+    if (messageId !== null) {
+      this.requireMessage(sessionId, messageId);
     }
 
-    this.saveSessions();
+    session.activeLeafId = messageId ?? undefined;
+    this.updateSession(session);
   }
 
   /**
-   * Get all sessions
+   * Switch to the branch containing a message
+   * Below the message the most recently added version is followed.
    */
-  getSessions(): ChatSession[] {
+  switchBranch(sessionId: string, messageId: string): void {
+    const session = this.requireSession(sessionId);
+    let leaf = this.requireMessage(sessionId, messageId);
+
+    for (;;) {
+      const children = session.messages.filter(msg => msg.parentId === leaf.id);
+      if (children.length === 0) {
+        break;
+      }
+      leaf = children[children.length - 1];
+    }
+
+    session.activeLeafId = leaf.id;
+    this.updateSession(session);
+  }
+
+  /**
+   * Store a summary of the active path up to and including a message
+   * Replaces any previous summary of the session.
+   */
+  setSummary(sessionId: string, content: string, throughMessageId: string): SessionSummary {
+    const session = this.requireSession(sessionId);
+    const activePath = this.getActivePath(sessionId);
+    const index = activePath.findIndex(msg => msg.id === throughMessageId);
+    if (index < 0) {
+      throw new Error(`Message ${throughMessageId} is not on the active branch`);
+    }
+
+    session.summary = {
+      content,
+      throughMessageId,
+      messageCount: index + 1,
+      createdAt: new Date()
+    };
+
+    if (this.storageManager.saveSummary) {
+      this.storageManager.saveSummary(session);
+    } else {
+      this.saveSession(session);
+    }
+
+    return session.summary;
+  }
+
+  /**
+   * Get the session summary if it covers the start of the active branch
+   * A summary made on another branch does not apply after switching away from it.
+   */
+  getActiveSummary(sessionId: string): SessionSummary | null {
+    const session = this.requireSession(sessionId);
+    const summary = session.summary;
+    if (!summary) {
+      return null;
+    }
+
+    const activePath = this.getActivePath(sessionId);
+    return activePath[summary.messageCount - 1]?.id === summary.throughMessageId ? summary : null;
+  }
+
+  /**
+   * Get all sessions matching the filter, most recently updated first
+   */
+  getSessions(filter?: SessionFilter): ChatSession[] {
     return Array.from(this.sessions.values())
+      .filter(session => this.matchesFilter(session, filter))
       .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
 
+  /**
+   * Full-text search across session titles and messages
+   * Every whitespace-separated term must occur in the session (case-insensitive).
+   * An empty query lists all sessions matching the filter.
+   */
+  searchSessions(query: string, filter?: SessionFilter): SessionSearchResult[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+    const sessions = this.getSessions(filter);
+    if (terms.length === 0) {
+      return sessions.map(session => ({ session, score: 0, matches: [] }));
+    }
+
+    const results: SessionSearchResult[] = [];
+    for (const session of sessions) {
+      const texts = [session.title, ...session.messages.map(msg => msg.content)];
+      const lowerTexts = texts.map(text => text.toLowerCase());
+
+      const counts = terms.map(term => lowerTexts.reduce((sum, text) => sum + countOccurrences(text, term), 0));
+      if (counts.some(count => count === 0)) {
+        continue;
+      }
+
+      const matches: SessionSearchResult['matches'] = [];
+      session.messages.forEach((msg, index) => {
+        if (matches.length >= MAX_SEARCH_MATCHES) {
+          return;
+        }
+        const lower = lowerTexts[index + 1];
+        const positions = terms.map(term => lower.indexOf(term)).filter(position => position !== -1);
+        if (positions.length > 0) {
+          matches.push({ messageIndex: index, snippet: this.createSnippet(msg.content, Math.min(...positions)) });
+        }
+      });
+
+      results.push({
+        session,
+        score: counts.reduce((sum, count) => sum + count, 0),
+        matches
+      });
+    }
+
+    return results.sort((a, b) =>
+      b.score - a.score || b.session.updatedAt.getTime() - a.session.updatedAt.getTime()
+    );
+  }
+
+  /**
+   * Get the distinct models and workspaces of all sessions, for building filters
+   */
+  getFilterOptions(): { models: string[]; workspaces: string[] } {
+    const models = new Set<string>();
+    const workspaces = new Set<string>();
+    for (const session of this.sessions.values()) {
+      models.add(session.model);
+      if (session.workspace) {
+        workspaces.add(session.workspace);
+      }
+    }
+    return {
+      models: Array.from(models).sort(),
+      workspaces: Array.from(workspaces).sort()
+    };
+  }
+
   /**
    * Get a specific session
    */
@@ -99,16 +340,26 @@ export class HistoryManager implements IHistoryManager {
       this.currentSessionId = null;
     }
     
-    this.saveSessions();
+    if (this.storageManager.deleteSession) {
+      this.storageManager.deleteSession(sessionId);
+    } else {
+      this.saveSessions();
+    }
   }
 
   /**
    * Clear all sessions
    */
   clearAllSessions(): void {
+    const sessionIds = Array.from(this.sessions.keys());
     this.sessions.clear();
     this.currentSessionId = null;
-    this.saveSessions();
+
+    if (this.storageManager.deleteSession) {
+      sessionIds.forEach(sessionId => this.storageManager.deleteSession!(sessionId));
+    } else {
+      this.saveSessions();
+    }
   }
 
   /**
@@ -142,13 +393,15 @@ export class HistoryManager implements IHistoryManager {
         ...msg,
         timestamp: new Date(msg.timestamp)
       }));
+      session.summary = reviveSummary(session.summary);
+      this.linkMessages(session);
 
       // Generate new ID to avoid conflicts
       const newId = this.generateId();
       session.id = newId;
 
       this.sessions.set(newId, session);
-      this.saveSessions();
+      this.saveSession(session);
 
       return session;
     } catch (error) {
@@ -178,8 +431,16 @@ export class HistoryManager implements IHistoryManager {
 
   /**
    * Load sessions from storage
+   * Storages with session-level persistence also migrate sessions saved under the legacy single key
    */
   private loadSessions(): void {
+    if (this.storageManager.loadSessions) {
+      this.sessions = new Map(this.storageManager.loadSessions().map(session => [session.id, session]));
+      this.sessions.forEach(session => this.linkMessages(session));
+      this.migrateLegacySessions();
+      return;
+    }
+
     const data = this.storageManager.get(STORAGE_KEY);
     if (data) {
       try {
@@ -194,10 +455,12 @@ export class HistoryManager implements IHistoryManager {
               messages: session.messages.map(msg => ({
                 ...msg,
                 timestamp: new Date(msg.timestamp)
-              }))
+              })),
+              summary: reviveSummary(session.summary)
             }
           ])
         );
+        this.sessions.forEach(session => this.linkMessages(session));
       } catch (error) {
         console.error('Failed to load sessions:', error);
         this.sessions = new Map();
@@ -205,6 +468,82 @@ export class HistoryManager implements IHistoryManager {
     }
   }
 
+  /**
+   * Move sessions saved under the legacy single key into session-level storage
+   */
+  private migrateLegacySessions(): void {
+    const data = this.storageManager.get(STORAGE_KEY);
+    if (!data) {
+      return;
+    }
+
+    try {
+      const entries = JSON.parse(data) as Array<[string, ChatSession]>;
+      for (const [id, session] of entries) {
+        if (this.sessions.has(id)) {
+          continue;
+        }
+        const migrated: ChatSession = {
+          ...session,
+          createdAt: new Date(session.createdAt),
+          updatedAt: new Date(session.updatedAt),
+          messages: session.messages.map(msg => ({
+            ...msg,
+            timestamp: new Date(msg.timestamp)
+          })),
+          summary: reviveSummary(session.summary)
+        };
+        this.linkMessages(migrated);
+        this.sessions.set(id, migrated);
+        this.storageManager.saveSession!(migrated);
+      }
+      this.storageManager.delete(STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to migrate sessions:', error);
+    }
+  }
+
+  /**
+   * Link messages saved before branching was supported into a single branch
+   * IDs are derived from the position so that they stay stable across loads.
+   */
+  private linkMessages(session: ChatSession): void {
+    let previousId: string | null = null;
+    session.messages.forEach((msg, index) => {
+      if (!msg.id) {
+        msg.id = `${session.id}-m${index}`;
+        msg.parentId = previousId;
+      }
+      previousId = msg.id;
+    });
+
+    if (!session.activeLeafId && session.messages.length > 0) {
+      session.activeLeafId = session.messages[session.messages.length - 1].id;
+    }
+  }
+
+  /**
+   * Persist session metadata
+   */
+  private updateSession(session: ChatSession): void {
+    if (this.storageManager.updateSession) {
+      this.storageManager.updateSession(session);
+    } else {
+      this.saveSession(session);
+    }
+  }
+
+  /**
+   * Persist a single session
+   */
+  private saveSession(session: ChatSession): void {
+    if (this.storageManager.saveSession) {
+      this.storageManager.saveSession(session);
+    } else {
+      this.saveSessions();
+    }
+  }
+
   /**
    * Save sessions to storage
    */
@@ -213,6 +552,61 @@ export class HistoryManager implements IHistoryManager {
     this.storageManager.set(STORAGE_KEY, data);
   }
 
+  /**
+   * Check whether a session matches the filter
+   */
+  private matchesFilter(session: ChatSession, filter?: SessionFilter): boolean {
+    if (!filter) {
+      return true;
+    }
+    if (filter.model && session.model !== filter.model) {
+      return false;
+    }
+    if (filter.workspace && session.workspace !== filter.workspace) {
+      return false;
+    }
+    if (filter.from && session.updatedAt < filter.from) {
+      return false;
+    }
+    if (filter.to && session.updatedAt > filter.to) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Create a single-line snippet around a match position
+   */
+  private createSnippet(content: string, position: number): string {
+    const start = Math.max(0, position - SNIPPET_RADIUS);
+    const end = Math.min(content.length, position + SNIPPET_RADIUS * 2);
+    const snippet = content.substring(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '...' : ''}${snippet}${end < content.length ? '...' : ''}`;
+  }
+
+  private requireSession(sessionId: string): ChatSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    return session;
+  }
+
+  private requireMessage(sessionId: string, messageId: string): ChatMessage {
+    const message = this.requireSession(sessionId).messages.find(msg => msg.id === messageId);
+    if (!message) {
+      throw new Error(`Message ${messageId} not found`);
+    }
+    return message;
+  }
+
+  /**
+   * Generate a unique message ID
+   */
+  private generateMessageId(): string {
+    return `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
   /**
    * Generate a unique session ID
    */
@@ -240,3 +634,23 @@ export class HistoryManager implements IHistoryManager {
     return cleaned;
   }
 }
+
+/**
+ * Count non-overlapping occurrences of a term in text
+ */
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+/**
+ * Convert the date of a deserialized summary back to a Date object
+ */
+function reviveSummary(summary: SessionSummary | undefined): SessionSummary | undefined {
+  return summary && { ...summary, createdAt: new Date(summary.createdAt) };
+}
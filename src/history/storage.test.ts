@@ -0,0 +1,62 @@
+/**
+ * FileStorageManager unit tests
+ * Verifies that an index rebuilt from the session logs matches the saved sessions
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorageManager } from './storage';
+import { ChatSession } from './types';
+
+let rootDir: string;
+
+beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hicode-history-'));
+});
+
+afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+function createSession(): ChatSession {
+  const now = new Date('2025-01-01T00:00:00Z');
+  return {
+    id: 'session-1',
+    title: 'New chat',
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    model: 'deepseek-chat'
+  };
+}
+
+describe('FileStorageManager', () => {
+  it('keeps the latest title and counts only messages when rebuilding the index', () => {
+    const storage = new FileStorageManager(rootDir);
+    const session = createSession();
+    storage.saveSession(session);
+
+    const question = { id: 'm1', parentId: null, role: 'user' as const, content: 'Explain closures', timestamp: new Date() };
+    session.messages.push(question);
+    session.title = 'Explain closures';
+    storage.appendMessage(session, question);
+
+    const answer = { id: 'm2', parentId: 'm1', role: 'assistant' as const, content: 'A closure is...', timestamp: new Date() };
+    session.messages.push(answer);
+    storage.appendMessage(session, answer);
+
+    session.summary = { content: 'Closures', throughMessageId: 'm2', messageCount: 2, createdAt: new Date() };
+    storage.saveSummary(session);
+
+    session.title = 'Closures in JavaScript';
+    storage.updateSession(session);
+
+    fs.rmSync(path.join(rootDir, 'index.json'));
+    const [restored] = new FileStorageManager(rootDir).loadSessions();
+
+    expect(restored.title).toBe('Closures in JavaScript');
+    expect(restored.messages.map(message => message.id)).toEqual(['m1', 'm2']);
+    expect(restored.activeLeafId).toBe('m2');
+  });
+});
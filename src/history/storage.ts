@@ -3,7 +3,37 @@
  * Handles persistence of chat sessions
  */
 
-import { IStorageManager } from './types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatSession, ChatMessage, IStorageManager, SessionSummary } from './types';
+
+const INDEX_FILE = 'index.json';
+const SESSIONS_DIR = 'sessions';
+const KEYS_DIR = 'keys';
+const INDEX_FORMAT_VERSION = 1;
+
+/**
+ * Session metadata kept in the index file
+ */
+interface SessionIndexEntry {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  model: string;
+  workspace?: string;
+  activeLeafId?: string;
+  messageCount: number;
+}
+
+/**
+ * Record in a session log file (one JSON object per line)
+ */
+type SessionLogRecord =
+  | { type: 'session'; id: string; title: string; createdAt: string; model: string; workspace?: string }
+  | { type: 'message'; message: ChatMessage }
+  | { type: 'summary'; summary: SessionSummary }
+  | { type: 'title'; title: string };
 
 /**
  * In-memory storage implementation for testing
@@ -47,3 +77,307 @@ export class VSCodeStorageManager implements IStorageManager {
     this.globalState.update(key, undefined);
   }
 }
+
+/**
+ * File storage implementation
+ *
+ * Layout under the root directory:
+ * - `index.json`: metadata of all sessions
+ * - `sessions/<id>.jsonl`: append-only log of one session, a header record
+ *   followed by one record per message, per saved summary and per title change
+ * - `keys/<key>`: plain key-value entries
+ *
+ * Writes are synchronous so that the history is never lost when the
+ * extension host exits; each write only touches one session and the index.
+ */
+export class FileStorageManager implements IStorageManager {
+  private index: Map<string, SessionIndexEntry> = new Map();
+
+  constructor(private rootDir: string) {
+    fs.mkdirSync(path.join(rootDir, SESSIONS_DIR), { recursive: true });
+    fs.mkdirSync(path.join(rootDir, KEYS_DIR), { recursive: true });
+    this.loadIndex();
+  }
+
+  get(key: string): string | undefined {
+    try {
+      return fs.readFileSync(this.keyPath(key), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(key: string, value: string): void {
+    this.writeAtomic(this.keyPath(key), value);
+  }
+
+  delete(key: string): void {
+    fs.rmSync(this.keyPath(key), { force: true });
+  }
+
+  /**
+   * Load all sessions listed in the index
+   * The session log is authoritative for messages, the index for title and update time
+   */
+  loadSessions(): ChatSession[] {
+    const sessions: ChatSession[] = [];
+
+    for (const entry of this.index.values()) {
+      try {
+        const session = this.readSession(entry);
+        if (session) {
+          sessions.push(session);
+        }
+      } catch (error) {
+        console.error(`Failed to load session ${entry.id}:`, error);
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Rewrite a session log and its index entry
+   */
+  saveSession(session: ChatSession): void {
+    const records: SessionLogRecord[] = [
+      this.headerRecord(session),
+      ...session.messages.map(message => ({ type: 'message' as const, message })),
+      ...(session.summary ? [{ type: 'summary' as const, summary: session.summary }] : [])
+    ];
+    this.writeAtomic(
+      this.sessionPath(session.id),
+      records.map(record => JSON.stringify(record)).join('\n') + '\n'
+    );
+    this.updateIndex(session);
+  }
+
+  /**
+   * Append a message to a session log
+   */
+  appendMessage(session: ChatSession, message: ChatMessage): void {
+    const filePath = this.sessionPath(session.id);
+    if (!this.index.has(session.id) || !fs.existsSync(filePath)) {
+      this.saveSession(session);
+      return;
+    }
+
+    this.appendTitleIfChanged(session, filePath);
+    const record: SessionLogRecord = { type: 'message', message };
+    fs.appendFileSync(filePath, JSON.stringify(record) + '\n', 'utf-8');
+    this.updateIndex(session);
+  }
+
+  updateSession(session: ChatSession): void {
+    const filePath = this.sessionPath(session.id);
+    if (fs.existsSync(filePath)) {
+      this.appendTitleIfChanged(session, filePath);
+    }
+    this.updateIndex(session);
+  }
+
+  /**
+   * Append the session summary to its log; the last summary record wins
+   */
+  saveSummary(session: ChatSession): void {
+    const filePath = this.sessionPath(session.id);
+    if (!session.summary || !this.index.has(session.id) || !fs.existsSync(filePath)) {
+      this.saveSession(session);
+      return;
+    }
+
+    this.appendTitleIfChanged(session, filePath);
+    const record: SessionLogRecord = { type: 'summary', summary: session.summary };
+    fs.appendFileSync(filePath, JSON.stringify(record) + '\n', 'utf-8');
+    this.updateIndex(session);
+  }
+
+  deleteSession(sessionId: string): void {
+    fs.rmSync(this.sessionPath(sessionId), { force: true });
+    this.index.delete(sessionId);
+    this.saveIndex();
+  }
+
+  /**
+   * Read a session log
+   * A truncated last line (interrupted append) is skipped
+   */
+  private readSession(entry: SessionIndexEntry): ChatSession | null {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.sessionPath(entry.id), 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const messages: ChatMessage[] = [];
+    let summary: SessionSummary | undefined;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      let record: SessionLogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (record.type === 'message') {
+        messages.push({ ...record.message, timestamp: new Date(record.message.timestamp) });
+      } else if (record.type === 'summary') {
+        summary = { ...record.summary, createdAt: new Date(record.summary.createdAt) };
+      }
+    }
+
+    return {
+      id: entry.id,
+      title: entry.title,
+      createdAt: new Date(entry.createdAt),
+      updatedAt: new Date(entry.updatedAt),
+      messages,
+      model: entry.model,
+      workspace: entry.workspace,
+      // The index lags behind the log if the process exited between the two writes
+      activeLeafId: entry.messageCount === messages.length && messages.some(message => message.id === entry.activeLeafId)
+        ? entry.activeLeafId
+        : messages[messages.length - 1]?.id,
+      summary
+    };
+  }
+
+  /**
+   * Append a title record when the title differs from the indexed one,
+   * so that an index rebuilt from the log keeps the latest title
+   */
+  private appendTitleIfChanged(session: ChatSession, filePath: string): void {
+    const entry = this.index.get(session.id);
+    if (entry && entry.title !== session.title) {
+      const record: SessionLogRecord = { type: 'title', title: session.title };
+      fs.appendFileSync(filePath, JSON.stringify(record) + '\n', 'utf-8');
+    }
+  }
+
+  private headerRecord(session: ChatSession): SessionLogRecord {
+    return {
+      type: 'session',
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt.toISOString(),
+      model: session.model,
+      workspace: session.workspace
+    };
+  }
+
+  private updateIndex(session: ChatSession): void {
+    this.index.set(session.id, {
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt.toISOString(),
+      updatedAt: session.updatedAt.toISOString(),
+      model: session.model,
+      workspace: session.workspace,
+      activeLeafId: session.activeLeafId,
+      messageCount: session.messages.length
+    });
+    this.saveIndex();
+  }
+
+  /**
+   * Load the index, rebuilding it from the session logs when missing or corrupt
+   */
+  private loadIndex(): void {
+    try {
+      const data = JSON.parse(fs.readFileSync(path.join(this.rootDir, INDEX_FILE), 'utf-8'));
+      if (data.version === INDEX_FORMAT_VERSION && Array.isArray(data.sessions)) {
+        this.index = new Map((data.sessions as SessionIndexEntry[]).map(entry => [entry.id, entry]));
+        return;
+      }
+    } catch {
+      // Fall through and rebuild
+    }
+
+    this.index = new Map();
+    let files: string[] = [];
+    try {
+      files = fs.readdirSync(path.join(this.rootDir, SESSIONS_DIR)).filter(file => file.endsWith('.jsonl'));
+    } catch {
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        const filePath = path.join(this.rootDir, SESSIONS_DIR, file);
+        const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(line => line.trim());
+        const header = JSON.parse(lines[0]) as SessionLogRecord;
+        if (header.type !== 'session') {
+          continue;
+        }
+
+        // The last title record wins; only message records count as messages
+        let title = header.title;
+        let messageCount = 0;
+        for (const line of lines.slice(1)) {
+          let record: SessionLogRecord;
+          try {
+            record = JSON.parse(line);
+          } catch {
+            continue;
+          }
+          if (record.type === 'title') {
+            title = record.title;
+          } else if (record.type === 'message') {
+            messageCount++;
+          }
+        }
+
+        this.index.set(header.id, {
+          id: header.id,
+          title,
+          createdAt: header.createdAt,
+          updatedAt: fs.statSync(filePath).mtime.toISOString(),
+          model: header.model,
+          workspace: header.workspace,
+          messageCount
+        });
+      } catch (error) {
+        console.error(`Failed to read session log ${file}:`, error);
+      }
+    }
+
+    if (this.index.size > 0) {
+      this.saveIndex();
+    }
+  }
+
+  private saveIndex(): void {
+    const data = {
+      version: INDEX_FORMAT_VERSION,
+      sessions: Array.from(this.index.values())
+    };
+    this.writeAtomic(path.join(this.rootDir, INDEX_FILE), JSON.stringify(data));
+  }
+
+  /**
+   * Write through a temporary file so that a crash never leaves a partial file
+   */
+  private writeAtomic(filePath: string, content: string): void {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, content, 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private sessionPath(sessionId: string): string {
+    return path.join(this.rootDir, SESSIONS_DIR, `${sanitizeFileName(sessionId)}.jsonl`);
+  }
+
+  private keyPath(key: string): string {
+    return path.join(this.rootDir, KEYS_DIR, sanitizeFileName(key));
+  }
+}
+
+/**
+ * Make a string safe for use as a file name
+ */
+function sanitizeFileName(name: string): string {
+  return encodeURIComponent(name).replace(/\*/g, '%2A');
+}
@@ -7,12 +7,21 @@ import { CodeContext } from '../api/types';
 
 /**
  * Chat message interface
+ *
+ * Messages form a tree: editing a user message or regenerating a reply adds a
+ * sibling under the same parent instead of replacing the original. `id` and
+ * `parentId` are assigned by the history manager when the message is added.
  */
 export interface ChatMessage {
+  id?: string;
+  /** Parent message ID, null for the first message of a branch root */
+  parentId?: string | null;
   role: 'system' | 'user' | 'assistant';
   content: string;
   context?: CodeContext;
   timestamp: Date;
+  /** Model that generated an assistant message, when it differs from the session model after a failover */
+  model?: string;
 }
 
 /**
@@ -23,15 +32,86 @@ export interface ChatSession {
   title: string;
   createdAt: Date;
   updatedAt: Date;
+  /** All messages of all branches, in the order they were added */
   messages: ChatMessage[];
   model: string;
+  /** Workspace the session was created in */
+  workspace?: string;
+  /** Last message of the active branch; the active path leads from the root to it */
+  activeLeafId?: string;
+  /** Summary of the older part of the conversation, see {@link SessionSummary} */
+  summary?: SessionSummary;
+}
+
+/**
+ * Summary of the older part of a conversation
+ *
+ * When building model requests the summary replaces the messages from the
+ * root up to `throughMessageId`. The messages themselves stay in the session
+ * for display. The summary only applies while that message is on the active
+ * path.
+ */
+export interface SessionSummary {
+  content: string;
+  /** Last message covered by the summary */
+  throughMessageId: string;
+  /** Number of messages covered, counted from the root */
+  messageCount: number;
+  createdAt: Date;
+}
+
+/**
+ * Message on the active path together with its alternative versions
+ */
+export interface BranchNode {
+  message: ChatMessage;
+  /** IDs of all versions at this position (including this message), oldest first */
+  siblingIds: string[];
+}
+
+/**
+ * Filter for listing and searching sessions
+ */
+export interface SessionFilter {
+  model?: string;
+  workspace?: string;
+  /** Only sessions updated at or after this time */
+  from?: Date;
+  /** Only sessions updated at or before this time */
+  to?: Date;
+}
+
+/**
+ * Full-text search result for a session
+ */
+export interface SessionSearchResult {
+  session: ChatSession;
+  /** Number of query term occurrences across title and messages */
+  score: number;
+  /** Matching messages with a snippet around the first match */
+  matches: Array<{
+    messageIndex: number;
+    snippet: string;
+  }>;
 }
 
 /**
  * Storage interface for persisting sessions
+ *
+ * The session methods are optional. Storages implementing them persist each
+ * session separately so that adding a message does not rewrite the whole
+ * history; otherwise all sessions are serialized under a single key.
  */
 export interface IStorageManager {
   get(key: string): string | undefined;
   set(key: string, value: string): void;
   delete(key: string): void;
+  loadSessions?(): ChatSession[];
+  saveSession?(session: ChatSession): void;
+  appendMessage?(session: ChatSession, message: ChatMessage): void;
+  /** Persist session metadata (title, active branch) without rewriting messages */
+  updateSession?(session: ChatSession): void;
+  /** Persist the session summary without rewriting messages */
+  saveSummary?(session: ChatSession): void;
+  deleteSession?(sessionId: string): void;
 }
@@ -0,0 +1,176 @@
+/**
+ * 历史记录视图
+ * 以快速选择列表展示聊天历史，支持全文搜索以及按模型、工作区、日期过滤
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IHistoryManager } from './manager';
+import { ChatSession, ChatMessage, SessionFilter, SessionSearchResult } from './types';
+
+/** 日期过滤选项（天数，undefined 表示不限） */
+const DATE_RANGES: Array<{ label: string; days?: number }> = [
+  { label: '今天', days: 1 },
+  { label: '最近 7 天', days: 7 },
+  { label: '最近 30 天', days: 30 },
+  { label: '不限日期' }
+];
+
+type SessionItem = vscode.QuickPickItem & { session: ChatSession };
+
+/**
+ * 显示历史记录视图
+ * 输入内容作为全文搜索关键词，标题栏按钮用于设置过滤条件，选中会话后打开对话记录
+ * @param historyManager 历史记录管理器
+ */
+export async function showHistoryView(historyManager: IHistoryManager): Promise<void> {
+  const filter: SessionFilter = {};
+  let dateLabel: string | undefined;
+  // 选择过滤条件时列表会暂时隐藏，此时不能释放
+  let pickingFilter = false;
+
+  const modelButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('hubot'),
+    tooltip: '按模型过滤'
+  };
+  const workspaceButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('root-folder'),
+    tooltip: '按工作区过滤'
+  };
+  const dateButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('calendar'),
+    tooltip: '按日期过滤'
+  };
+  const clearButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('clear-all'),
+    tooltip: '清除过滤条件'
+  };
+
+  const quickPick = vscode.window.createQuickPick<SessionItem>();
+  quickPick.placeholder = '输入关键词搜索对话内容';
+  quickPick.buttons = [modelButton, workspaceButton, dateButton, clearButton];
+
+  const refresh = () => {
+    const results = historyManager.searchSessions(quickPick.value, filter);
+    quickPick.items = results.map(toItem);
+
+    const conditions = [
+      filter.model,
+      filter.workspace && path.basename(filter.workspace),
+      dateLabel
+    ].filter(Boolean);
+    quickPick.title = conditions.length > 0
+      ? `聊天历史（${results.length}）- ${conditions.join('，')}`
+      : `聊天历史（${results.length}）`;
+  };
+
+  quickPick.onDidChangeValue(refresh);
+
+  quickPick.onDidTriggerButton(async button => {
+    const options = historyManager.getFilterOptions();
+    pickingFilter = true;
+    if (button === modelButton) {
+      filter.model = await pickFilterValue(options.models, filter.model, '选择模型', value => value);
+    } else if (button === workspaceButton) {
+      filter.workspace = await pickFilterValue(options.workspaces, filter.workspace, '选择工作区', value => path.basename(value));
+    } else if (button === dateButton) {
+      const range = await vscode.window.showQuickPick(DATE_RANGES, { placeHolder: '选择日期范围' });
+      if (range) {
+        filter.from = range.days ? new Date(Date.now() - range.days * 24 * 60 * 60 * 1000) : undefined;
+        dateLabel = range.days ? range.label : undefined;
+      }
+    } else if (button === clearButton) {
+      filter.model = undefined;
+      filter.workspace = undefined;
+      filter.from = undefined;
+      dateLabel = undefined;
+    }
+    pickingFilter = false;
+    refresh();
+    quickPick.show();
+  });
+
+  quickPick.onDidAccept(async () => {
+    const item = quickPick.selectedItems[0];
+    if (!item) {
+      return;
+    }
+    quickPick.hide();
+    const document = await vscode.workspace.openTextDocument({
+      content: formatTranscript(item.session, historyManager.getActivePath(item.session.id)),
+      language: 'markdown'
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  });
+
+  quickPick.onDidHide(() => {
+    if (!pickingFilter) {
+      quickPick.dispose();
+    }
+  });
+
+  refresh();
+  quickPick.show();
+}
+
+/**
+ * 将搜索结果转换为列表项
+ */
+function toItem(result: SessionSearchResult): SessionItem {
+  const { session, matches } = result;
+  const details = [session.model, session.workspace && path.basename(session.workspace)].filter(Boolean);
+
+  return {
+    label: session.title,
+    description: `${session.updatedAt.toLocaleString()} · ${session.messages.length} 条消息`,
+    detail: matches.length > 0 ? matches[0].snippet : details.join(' · '),
+    // 列表由搜索结果决定，不再由快速选择按标签二次过滤
+    alwaysShow: true,
+    session
+  };
+}
+
+/**
+ * 选择过滤值
+ * @returns 选中的值；选择“全部”时返回 undefined；取消时保持当前值
+ */
+async function pickFilterValue(
+  values: string[],
+  current: string | undefined,
+  placeHolder: string,
+  format: (value: string) => string
+): Promise<string | undefined> {
+  const items = [
+    { label: '全部', value: undefined as string | undefined },
+    ...values.map(value => ({
+      label: format(value),
+      description: format(value) !== value ? value : undefined,
+      value: value as string | undefined,
+      picked: value === current
+    }))
+  ];
+  const picked = await vscode.window.showQuickPick(items, { placeHolder });
+  return picked ? picked.value : current;
+}
+
+/**
+ * 将会话格式化为 Markdown 对话记录
+ * @param messages 当前分支上的消息
+ */
+function formatTranscript(session: ChatSession, messages: ChatMessage[]): string {
+  const lines = [
+    `# ${session.title}`,
+    '',
+    `- 模型：${session.model}`,
+    `- 创建时间：${session.createdAt.toLocaleString()}`,
+    ...(session.workspace ? [`- 工作区：${session.workspace}`] : []),
+    ''
+  ];
+
+  for (const message of messages) {
+    const role = message.role === 'user' ? '用户' : message.role === 'assistant' ? '助手' : '系统';
+    lines.push(`## ${role}（${message.timestamp.toLocaleString()}）`, '', message.content, '');
+  }
+
+  return lines.join('\n');
+}
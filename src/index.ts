@@ -22,6 +22,7 @@ export {
   getIntentRouter,
   getInlineChatProvider,
   getCompletionProvider,
+  getInlineCompletionProvider,
   getChatWebviewProvider
 } from './extension';
 
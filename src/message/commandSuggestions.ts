@@ -3,6 +3,8 @@
  * Provides input suggestions and command parsing
  */
 
+import { MentionType } from '../api/types';
+
 export interface CommandSuggestion {
   command: string;
   description: string;
@@ -17,6 +19,52 @@ export interface ParsedCommand {
   rawInput: string;
 }
 
+export interface MentionSuggestion {
+  /** Text inserted into the input, e.g. `@file:src/index.ts` */
+  mention: string;
+  type: MentionType;
+  description: string;
+  /** Mention value (path or symbol name), absent for the bare mention type */
+  value?: string;
+  /** Extra information such as the containing file of a symbol */
+  detail?: string;
+}
+
+export interface ParsedMention {
+  type: MentionType;
+  /** Argument after the colon (path or symbol name) */
+  value?: string;
+  /** Original mention text */
+  raw: string;
+  /** Offset of the mention in the input */
+  start: number;
+  end: number;
+}
+
+/**
+ * Available mention types
+ */
+export const MENTION_TYPES: Array<{
+  type: MentionType;
+  description: string;
+  requiresValue: boolean;
+  usage: string;
+}> = [
+  { type: 'file', description: '引用文件内容', requiresValue: true, usage: '@file:<path>' },
+  { type: 'folder', description: '引用文件夹中的文件', requiresValue: true, usage: '@folder:<path>' },
+  { type: 'symbol', description: '引用函数、类等符号的定义', requiresValue: true, usage: '@symbol:<name>' },
+  { type: 'selection', description: '引用编辑器中选中的代码', requiresValue: false, usage: '@selection' },
+  { type: 'problems', description: '引用当前的错误和警告', requiresValue: false, usage: '@problems' },
+  { type: 'git-diff', description: '引用未提交的代码变更', requiresValue: false, usage: '@git-diff' },
+  { type: 'terminal', description: '引用终端的最近输出', requiresValue: false, usage: '@terminal' },
+];
+
+/**
+ * Matches `@type` or `@type:value`; values containing spaces can be quoted,
+ * trailing punctuation such as `,` or `.` is not part of the mention
+ */
+const MENTION_PATTERN = /(^|\s)@(file|folder|symbol|selection|problems|git-diff|terminal)(?::(?:"([^"]+)"|(\S+?)))?(?=[.,;!?)]*(?:\s|$))/g;
+
 /**
  * Available quick commands
  */
@@ -86,6 +134,86 @@ export function getCommandSuggestions(input: string): CommandSuggestion[] {
   );
 }
 
+/**
+ * Get the mention being typed at the cursor, if any
+ * @returns The mention type and partial value, or null when the cursor is not inside a mention
+ */
+export function getActiveMention(
+  input: string,
+  cursor: number = input.length
+): { type?: MentionType; query: string; start: number } | null {
+  const before = input.substring(0, cursor);
+  const match = /(^|\s)@([\w-]*)(?::("?)([^\s"]*))?$/.exec(before);
+  if (!match) {
+    return null;
+  }
+
+  const start = match.index + match[1].length;
+  // The quote group only participates once a colon has been typed
+  if (match[3] === undefined) {
+    return { query: match[2], start };
+  }
+
+  const type = MENTION_TYPES.find((m) => m.type === match[2]);
+  if (!type || !type.requiresValue) {
+    return null;
+  }
+  return { type: type.type, query: match[4] || '', start };
+}
+
+/**
+ * Get mention type suggestions based on the partial mention after `@`
+ */
+export function getMentionSuggestions(query: string): MentionSuggestion[] {
+  const prefix = query.toLowerCase();
+
+  return MENTION_TYPES.filter((m) => m.type.startsWith(prefix)).map((m) => ({
+    mention: m.requiresValue ? `@${m.type}:` : `@${m.type}`,
+    type: m.type,
+    description: m.description,
+    detail: m.usage,
+  }));
+}
+
+/**
+ * Format a mention for insertion into the input, quoting values with spaces
+ */
+export function formatMention(type: MentionType, value?: string): string {
+  if (!value) {
+    return `@${type}`;
+  }
+  return /\s/.test(value) ? `@${type}:"${value}"` : `@${type}:${value}`;
+}
+
+/**
+ * Parse all mentions in user input
+ * Mentions that require a value but have none are ignored
+ */
+export function parseMentions(input: string): ParsedMention[] {
+  const mentions: ParsedMention[] = [];
+
+  for (const match of input.matchAll(MENTION_PATTERN)) {
+    const type = match[2] as MentionType;
+    const value = match[3] ?? match[4];
+    const definition = MENTION_TYPES.find((m) => m.type === type);
+    if (definition?.requiresValue && !value) {
+      continue;
+    }
+
+    const start = (match.index ?? 0) + match[1].length;
+    const raw = match[0].substring(match[1].length);
+    mentions.push({
+      type,
+      value: definition?.requiresValue ? value : undefined,
+      raw,
+      start,
+      end: start + raw.length,
+    });
+  }
+
+  return mentions;
+}
+
 /**
  * Parse user input to detect commands
  */
@@ -191,5 +319,5 @@ export function formatSuggestion(suggestion: CommandSuggestion): string {
  * Check if input should trigger suggestions
  */
 export function shouldShowSuggestions(input: string): boolean {
-  return input.startsWith('/') && input.length > 0;
+  return (input.startsWith('/') && input.length > 0) || getActiveMention(input) !== null;
 }
@@ -21,6 +21,9 @@ export {
   createMarkdownRenderer
 } from './markdownRenderer';
 
+// @ 提及解析
+export { MentionResolver } from './mentionResolver';
+
 // Webview 消息路由和处理器
 export {
   routeWebviewMessage,
@@ -30,6 +33,9 @@ export {
 
 export {
   handleAskQuestion,
+  handleEditMessage,
+  handleRegenerateMessage,
+  handleSwitchBranch,
   handleNewChat,
   handleGetModels,
   handleChangeModel,
@@ -39,6 +45,7 @@ export {
   handleDeleteModel,
   handleGetSettings,
   handleGetHistory,
+  handleGetMentionSuggestions,
   handleWebviewReady,
   handleConsoleLog
 } from './webviewMessageHandler';
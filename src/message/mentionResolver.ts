@@ -0,0 +1,503 @@
+/**
+ * Mention Resolver
+ * 将聊天输入中的 @ 提及解析为显式上下文，并为输入框提供自动补全候选
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MentionContext } from '../api/types';
+import { IContextManager } from '../context/manager';
+import { egressPolicy } from '../security/egressPolicy';
+import {
+  ParsedMention,
+  MentionSuggestion,
+  getActiveMention,
+  getMentionSuggestions,
+  formatMention
+} from './commandSuggestions';
+
+/** 单个提及内容的最大字符数 */
+const MAX_MENTION_CHARS = 20000;
+/** 文件夹提及最多包含的文件数 */
+const MAX_FOLDER_FILES = 20;
+/** 终端提及保留的最大行数 */
+const MAX_TERMINAL_LINES = 200;
+/** 自动补全最多返回的候选数 */
+const MAX_SUGGESTIONS = 20;
+/** 查找文件时排除的目录 */
+const FIND_FILES_EXCLUDE = '**/{node_modules,.git,dist,out,build}/**';
+
+/**
+ * Mention Resolver类
+ * 解析失败的提及会被跳过，不影响消息发送
+ */
+export class MentionResolver {
+  constructor(private contextManager: IContextManager) {}
+
+  /**
+   * 解析提及为上下文
+   * 被数据外发策略排除的文件不会解析，其路径追加到 withheld 中
+   * @param mentions 从输入中解析出的提及
+   * @param withheld 接收被排除文件的工作区相对路径（可选）
+   * @returns 提及对应的上下文（重复的提及只解析一次）
+   */
+  async resolve(mentions: ParsedMention[], withheld: string[] = []): Promise<MentionContext[]> {
+    const results: MentionContext[] = [];
+    const seen = new Set<string>();
+
+    for (const mention of mentions) {
+      const key = `${mention.type}:${mention.value ?? ''}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      try {
+        const resolved = await this.resolveMention(mention, withheld);
+        if (resolved) {
+          results.push({ ...resolved, content: truncate(resolved.content, MAX_MENTION_CHARS) });
+        }
+      } catch (error) {
+        console.warn(`[MentionResolver] Failed to resolve ${mention.raw}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 获取自动补全候选
+   * 输入 @ 时返回提及类型，输入 @file: / @folder: / @symbol: 时返回对应的文件、文件夹或符号
+   * @param input 输入框内容
+   * @param cursor 光标位置（默认为输入末尾）
+   */
+  async getSuggestions(input: string, cursor?: number): Promise<MentionSuggestion[]> {
+    const active = getActiveMention(input, cursor);
+    if (!active) {
+      return [];
+    }
+
+    switch (active.type) {
+      case undefined:
+        return getMentionSuggestions(active.query);
+      case 'file':
+        return this.suggestFiles(active.query);
+      case 'folder':
+        return this.suggestFolders(active.query);
+      case 'symbol':
+        return this.suggestSymbols(active.query);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * 解析单个提及
+   */
+  private async resolveMention(mention: ParsedMention, withheld: string[]): Promise<MentionContext | null> {
+    switch (mention.type) {
+      case 'file':
+        return this.resolveFile(mention.value!, withheld);
+      case 'folder':
+        return this.resolveFolder(mention.value!, withheld);
+      case 'symbol':
+        return this.resolveSymbol(mention.value!, withheld);
+      case 'selection':
+        return this.resolveSelection(withheld);
+      case 'problems':
+        return this.resolveProblems(withheld);
+      case 'git-diff':
+        return this.resolveGitDiff(withheld);
+      case 'terminal':
+        return this.resolveTerminal();
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 解析文件提及
+   */
+  private async resolveFile(value: string, withheld: string[]): Promise<MentionContext | null> {
+    const uri = this.resolveUri(value);
+    if (!uri) {
+      return null;
+    }
+    if (egressPolicy.isBlocked(uri.fsPath)) {
+      withheld.push(vscode.workspace.asRelativePath(uri));
+      return null;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    return {
+      type: 'file',
+      label: vscode.workspace.asRelativePath(uri),
+      content: document.getText(),
+      language: document.languageId
+    };
+  }
+
+  /**
+   * 解析文件夹提及
+   * 列出文件夹下的文件，并在长度限制内附带文件内容
+   */
+  private async resolveFolder(value: string, withheld: string[]): Promise<MentionContext | null> {
+    const uri = this.resolveUri(value);
+    if (!uri) {
+      return null;
+    }
+    if (egressPolicy.isBlocked(uri.fsPath, true)) {
+      withheld.push(vscode.workspace.asRelativePath(uri));
+      return null;
+    }
+
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(uri, '**/*'),
+      FIND_FILES_EXCLUDE,
+      MAX_FOLDER_FILES
+    );
+    files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+
+    const sections: string[] = [];
+    let remaining = MAX_MENTION_CHARS;
+    for (const file of files) {
+      const label = vscode.workspace.asRelativePath(file);
+      // 被排除的文件不列出
+      if (egressPolicy.isBlocked(file.fsPath)) {
+        withheld.push(label);
+        continue;
+      }
+      if (remaining <= 0) {
+        sections.push(label);
+        continue;
+      }
+      try {
+        const content = (await vscode.workspace.fs.readFile(file)).toString();
+        // 跳过二进制文件
+        if (content.includes('\u0000')) {
+          sections.push(label);
+          continue;
+        }
+        const excerpt = truncate(content, remaining);
+        remaining -= excerpt.length;
+        sections.push(`${label}:\n\`\`\`\n${excerpt}\n\`\`\``);
+      } catch {
+        sections.push(label);
+      }
+    }
+
+    return {
+      type: 'folder',
+      label: vscode.workspace.asRelativePath(uri),
+      content: sections.length > 0 ? sections.join('\n\n') : '(empty folder)'
+    };
+  }
+
+  /**
+   * 解析符号提及
+   * 优先使用语言服务提供的工作区符号，找不到时回退到本地代码索引
+   */
+  private async resolveSymbol(name: string, withheld: string[]): Promise<MentionContext | null> {
+    const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+      'vscode.executeWorkspaceSymbolProvider',
+      name
+    ) || [];
+    const symbol = symbols.find(item => item.name === name)
+      || symbols.find(item => item.name.toLowerCase() === name.toLowerCase());
+
+    if (symbol && egressPolicy.isBlocked(symbol.location.uri.fsPath)) {
+      withheld.push(vscode.workspace.asRelativePath(symbol.location.uri));
+      return null;
+    }
+
+    if (symbol) {
+      const document = await vscode.workspace.openTextDocument(symbol.location.uri);
+      const range = symbol.location.range;
+      // 部分语言服务只返回符号名所在的位置，此时取整行
+      const text = range.isSingleLine
+        ? document.lineAt(range.start.line).text
+        : document.getText(new vscode.Range(range.start.line, 0, range.end.line + 1, 0));
+      return {
+        type: 'symbol',
+        label: `${name} (${vscode.workspace.asRelativePath(symbol.location.uri)}:${range.start.line + 1})`,
+        content: text,
+        language: document.languageId
+      };
+    }
+
+    const results = await this.contextManager.searchCode(name, 10);
+    const match = results.find(result => result.chunk.name === name || result.chunk.name.endsWith(`.${name}`));
+    if (!match) {
+      return null;
+    }
+    return {
+      type: 'symbol',
+      label: `${name} (${vscode.workspace.asRelativePath(match.chunk.filePath)}:${match.chunk.startLine})`,
+      content: match.excerpt
+    };
+  }
+
+  /**
+   * 解析选中代码提及
+   */
+  private async resolveSelection(withheld: string[]): Promise<MentionContext | null> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+      return null;
+    }
+    if (egressPolicy.isBlocked(editor.document.uri.fsPath)) {
+      withheld.push(vscode.workspace.asRelativePath(editor.document.uri));
+      return null;
+    }
+
+    const { start, end } = editor.selection;
+    return {
+      type: 'selection',
+      label: `${vscode.workspace.asRelativePath(editor.document.uri)}:${start.line + 1}-${end.line + 1}`,
+      content: editor.document.getText(editor.selection),
+      language: editor.document.languageId
+    };
+  }
+
+  /**
+   * 解析问题提及
+   * 收集工作区中的错误和警告
+   */
+  private async resolveProblems(withheld: string[]): Promise<MentionContext | null> {
+    const lines: string[] = [];
+
+    for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+      if (diagnostics.length > 0 && egressPolicy.isBlocked(uri.fsPath)) {
+        withheld.push(vscode.workspace.asRelativePath(uri));
+        continue;
+      }
+      for (const diagnostic of diagnostics) {
+        if (diagnostic.severity > vscode.DiagnosticSeverity.Warning) {
+          continue;
+        }
+        const severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'warning';
+        const source = diagnostic.source ? ` [${diagnostic.source}]` : '';
+        lines.push(
+          `${vscode.workspace.asRelativePath(uri)}:${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1} ` +
+          `${severity}${source}: ${diagnostic.message}`
+        );
+      }
+    }
+
+    return {
+      type: 'problems',
+      label: 'Problems',
+      content: lines.length > 0 ? lines.join('\n') : 'No errors or warnings.'
+    };
+  }
+
+  /**
+   * 解析 Git 变更提及
+   * 通过内置 Git 扩展获取已暂存和未暂存的变更，被数据外发策略排除的文件的变更不包含在内
+   */
+  private async resolveGitDiff(withheld: string[]): Promise<MentionContext | null> {
+    const gitExtension = vscode.extensions.getExtension('vscode.git');
+    if (!gitExtension) {
+      return null;
+    }
+
+    const git = (gitExtension.isActive ? gitExtension.exports : await gitExtension.activate()).getAPI(1);
+    const diffs: string[] = [];
+    for (const repository of git.repositories) {
+      const root: string = repository.rootUri.fsPath;
+      const staged = filterDiff(await repository.diff(true), root, withheld);
+      const unstaged = filterDiff(await repository.diff(false), root, withheld);
+      diffs.push(...[staged, unstaged].filter(diff => diff.trim().length > 0));
+    }
+
+    return {
+      type: 'git-diff',
+      label: 'Git diff',
+      content: diffs.length > 0 ? diffs.join('\n') : 'No uncommitted changes.',
+      language: 'diff'
+    };
+  }
+
+  /**
+   * 解析终端提及
+   * VS Code 没有读取终端输出的 API，通过全选复制终端内容获取，完成后恢复剪贴板
+   * 复制前先向剪贴板写入标记文本，复制后剪贴板仍为标记时视为没有输出，避免把用户剪贴板中的内容当作终端输出发送
+   */
+  private async resolveTerminal(): Promise<MentionContext | null> {
+    const terminal = vscode.window.activeTerminal;
+    if (!terminal) {
+      return null;
+    }
+
+    const clipboard = await vscode.env.clipboard.readText();
+    const sentinel = `hicode-terminal-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    let output: string;
+    try {
+      await vscode.env.clipboard.writeText(sentinel);
+      terminal.show(true);
+      await vscode.commands.executeCommand('workbench.action.terminal.selectAll');
+      await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
+      await vscode.commands.executeCommand('workbench.action.terminal.clearSelection');
+      output = await vscode.env.clipboard.readText();
+    } finally {
+      await vscode.env.clipboard.writeText(clipboard);
+    }
+
+    const text = output === sentinel ? '' : output.trimEnd();
+    return {
+      type: 'terminal',
+      label: `Terminal: ${terminal.name}`,
+      content: text ? text.split(/\r?\n/).slice(-MAX_TERMINAL_LINES).join('\n') : 'No terminal output.'
+    };
+  }
+
+  /**
+   * 补全文件候选
+   */
+  private async suggestFiles(query: string): Promise<MentionSuggestion[]> {
+    const files = await vscode.workspace.findFiles(
+      `**/*${stripGlob(query)}*`,
+      FIND_FILES_EXCLUDE,
+      MAX_SUGGESTIONS * 5
+    );
+
+    return files
+      .map(file => vscode.workspace.asRelativePath(file))
+      .sort((a, b) => rankPath(a, query) - rankPath(b, query) || a.length - b.length)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(relativePath => ({
+        mention: formatMention('file', relativePath),
+        type: 'file' as const,
+        value: relativePath,
+        description: path.basename(relativePath),
+        detail: path.dirname(relativePath)
+      }));
+  }
+
+  /**
+   * 补全文件夹候选
+   * 从代码图谱中的文件路径推导出文件夹
+   */
+  private async suggestFolders(query: string): Promise<MentionSuggestion[]> {
+    const graph = await this.contextManager.buildCodeGraph();
+    const folders = new Set<string>();
+    for (const filePath of graph.files.keys()) {
+      let folder = path.dirname(vscode.workspace.asRelativePath(filePath));
+      while (folder && folder !== '.' && !folders.has(folder)) {
+        folders.add(folder);
+        folder = path.dirname(folder);
+      }
+    }
+
+    const lowerQuery = query.toLowerCase();
+    return Array.from(folders)
+      .filter(folder => folder.toLowerCase().includes(lowerQuery))
+      .sort((a, b) => rankPath(a, query) - rankPath(b, query) || a.length - b.length)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(folder => ({
+        mention: formatMention('folder', folder),
+        type: 'folder' as const,
+        value: folder,
+        description: path.basename(folder),
+        detail: path.dirname(folder)
+      }));
+  }
+
+  /**
+   * 补全符号候选
+   */
+  private async suggestSymbols(query: string): Promise<MentionSuggestion[]> {
+    if (!query) {
+      return [];
+    }
+
+    const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+      'vscode.executeWorkspaceSymbolProvider',
+      query
+    ) || [];
+
+    return symbols.slice(0, MAX_SUGGESTIONS).map(symbol => ({
+      mention: formatMention('symbol', symbol.name),
+      type: 'symbol' as const,
+      value: symbol.name,
+      description: `${symbol.name} (${vscode.SymbolKind[symbol.kind]})`,
+      detail: vscode.workspace.asRelativePath(symbol.location.uri)
+    }));
+  }
+
+  /**
+   * 将提及中的路径解析为 URI
+   * 相对路径依次在各个工作区文件夹中查找
+   */
+  private resolveUri(value: string): vscode.Uri | null {
+    if (path.isAbsolute(value)) {
+      return vscode.Uri.file(value);
+    }
+
+    const folders = vscode.workspace.workspaceFolders || [];
+    for (const folder of folders) {
+      // 多根工作区的相对路径以文件夹名开头
+      const relative = folders.length > 1 && value.startsWith(`${folder.name}/`)
+        ? value.substring(folder.name.length + 1)
+        : value;
+      const candidate = vscode.Uri.joinPath(folder.uri, relative);
+      if (fs.existsSync(candidate.fsPath)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * 截断过长的内容
+ */
+function truncate(content: string, maxChars: number): string {
+  return content.length > maxChars ? `${content.substring(0, maxChars)}\n... (truncated)` : content;
+}
+
+/**
+ * 从统一差异中移除被数据外发策略排除的文件的变更
+ * @param diff git diff 输出
+ * @param root 仓库根目录
+ * @param withheld 接收被排除文件的工作区相对路径
+ */
+function filterDiff(diff: string, root: string, withheld: string[]): string {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter(section => {
+      const match = /^diff --git a\/(.+?) b\/(.+)$/m.exec(section);
+      if (!match) {
+        return true;
+      }
+      const blocked = [match[1], match[2]]
+        .map(file => path.join(root, file))
+        .find(filePath => egressPolicy.isBlocked(filePath));
+      if (blocked) {
+        withheld.push(vscode.workspace.asRelativePath(blocked));
+        return false;
+      }
+      return true;
+    })
+    .join('');
+}
+
+/**
+ * 去除 glob 特殊字符，避免用户输入被当作通配符
+ */
+function stripGlob(value: string): string {
+  return value.replace(/[*?[\]{}]/g, '');
+}
+
+/**
+ * 路径匹配排序：文件名以查询开头的优先，其次是文件名包含查询的
+ */
+function rankPath(relativePath: string, query: string): number {
+  const name = path.basename(relativePath).toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  if (name.startsWith(lowerQuery)) {
+    return 0;
+  }
+  return name.includes(lowerQuery) ? 1 : 2;
+}
@@ -15,6 +15,16 @@ export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  /** IDs of all versions of this message (edits or regenerations), oldest first */
+  siblingIds?: string[];
+}
+
+export interface MessageVersionInfo {
+  /** 1-based position of this version */
+  current: number;
+  total: number;
+  previousId?: string;
+  nextId?: string;
 }
 
 /**
@@ -100,6 +110,25 @@ export function getMessageActions(
   return actions;
 }
 
+/**
+ * Get version navigation info for a message with edited or regenerated versions
+ * @returns null when the message has a single version
+ */
+export function getMessageVersionInfo(message: Message): MessageVersionInfo | null {
+  const siblings = message.siblingIds || [];
+  const index = siblings.indexOf(message.id);
+  if (siblings.length <= 1 || index === -1) {
+    return null;
+  }
+
+  return {
+    current: index + 1,
+    total: siblings.length,
+    previousId: index > 0 ? siblings[index - 1] : undefined,
+    nextId: index < siblings.length - 1 ? siblings[index + 1] : undefined,
+  };
+}
+
 /**
  * Format message timestamp for display
  */
@@ -6,8 +6,18 @@
 import { APIClientManager } from '../api/client';
 import { ContextManager } from '../context/manager';
 import { HistoryManager } from '../history/manager';
-import { ChatRequest, ChatMessage, ChatResponse } from '../api/types';
-import { ChatMessage as HistoryChatMessage } from '../history/types';
+import { ChatRequest, ChatMessage, ChatResponse, CodeContext } from '../api/types';
+import { ChatMessage as HistoryChatMessage, ChatSession, SessionSummary } from '../history/types';
+import { MentionResolver } from './mentionResolver';
+import { parseMentions } from './commandSuggestions';
+import { ContextBudgeter } from '../context/budget';
+import { getTokenizer } from '../api/tokenizer';
+import { ConversationSummarizer } from './summarizer';
+
+/** 历史消息（含已有摘要）超过可用输入 token 的该比例时触发摘要 */
+const SUMMARIZE_THRESHOLD = 0.6;
+/** 摘要时保留原文的最近消息最多占可用输入 token 的比例 */
+const SUMMARY_KEEP_RATIO = 0.25;
 
 /**
  * 消息处理器配置
@@ -21,6 +31,10 @@ export interface MessageHandlerConfig {
   defaultMaxTokens?: number;
   /** 是否自动包含代码上下文 */
   includeContext?: boolean;
+  /** 从本地代码索引检索的代码块数（0 表示不检索） */
+  retrievalMaxResults?: number;
+  /** 历史消息接近模型上下文上限时，是否自动将较早的对话压缩为摘要 */
+  autoSummarize?: boolean;
 }
 
 /**
@@ -49,6 +63,14 @@ export interface StreamCallbacks {
   onEnd: () => void;
   /** 发生错误时的回调 */
   onError: (error: Error) => void;
+  /** 消息保存到历史记录时的回调（可选，用于获取消息ID及其所有版本的ID） */
+  onMessageAdded?: (message: HistoryChatMessage, siblingIds: string[]) => void;
+  /** 较早的对话被压缩为摘要时的回调（可选） */
+  onSummarized?: (summary: SessionSummary) => void;
+  /** 确定实际回答的模型时的回调（可选，发生故障切换时与请求的模型不同） */
+  onModel?: (modelId: string, requestedModelId: string) => void;
+  /** 有文件被数据外发策略（.hicodeignore）排除、未包含在上下文中时的回调（可选） */
+  onContextWithheld?: (files: string[]) => void;
 }
 
 /**
@@ -80,13 +102,41 @@ export interface IMessageHandler {
 
   /**
    * 重新发送消息
-   * @param messageIndex 消息索引
+   * @param messageIndex 消息在当前分支中的索引
    * @param options 发送选项
    */
   resendMessage(
     messageIndex: number,
     options?: SendMessageOptions
   ): Promise<ChatResponse>;
+
+  /**
+   * 编辑用户消息并重新生成回复（流式）
+   * 编辑后的消息作为原消息的兄弟版本，原消息及其回复保留在原分支上
+   * @param messageId 要编辑的用户消息ID
+   * @param content 新的消息内容
+   * @param callbacks 流式响应回调
+   * @param options 发送选项
+   */
+  editMessage(
+    messageId: string,
+    content: string,
+    callbacks: StreamCallbacks,
+    options?: SendMessageOptions
+  ): Promise<void>;
+
+  /**
+   * 重新生成助手回复（流式）
+   * 新回复作为原回复的兄弟版本
+   * @param messageId 要重新生成的助手消息ID
+   * @param callbacks 流式响应回调
+   * @param options 发送选项
+   */
+  regenerateMessage(
+    messageId: string,
+    callbacks: StreamCallbacks,
+    options?: SendMessageOptions
+  ): Promise<void>;
 }
 
 /**
@@ -94,6 +144,8 @@ export interface IMessageHandler {
  */
 export class MessageHandler implements IMessageHandler {
   private config: Required<MessageHandlerConfig>;
+  private mentionResolver: MentionResolver;
+  private summarizer: ConversationSummarizer;
 
   constructor(
     private apiClient: APIClientManager,
@@ -106,8 +158,12 @@ export class MessageHandler implements IMessageHandler {
       enableStreaming: config?.enableStreaming ?? true,
       defaultTemperature: config?.defaultTemperature ?? 0.7,
       defaultMaxTokens: config?.defaultMaxTokens ?? 2000,
-      includeContext: config?.includeContext ?? true
+      includeContext: config?.includeContext ?? true,
+      retrievalMaxResults: config?.retrievalMaxResults ?? 5,
+      autoSummarize: config?.autoSummarize ?? true
     };
+    this.mentionResolver = new MentionResolver(contextManager);
+    this.summarizer = new ConversationSummarizer(apiClient);
   }
 
   /**
@@ -128,7 +184,7 @@ export class MessageHandler implements IMessageHandler {
     // 收集代码上下文（如果启用）
     const includeContext = options?.includeContext ?? this.config.includeContext;
     const context = includeContext 
-      ? await this.contextManager.getCurrentContext()
+      ? await this.collectContext(content.trim())
       : undefined;
 
     // 创建用户消息
@@ -142,22 +198,29 @@ export class MessageHandler implements IMessageHandler {
     // 添加到历史记录
     this.historyManager.addMessage(session.id, userMessage as HistoryChatMessage);
 
+    // 本轮的摘要和回复请求共享授权
+    const authorizationScope = this.createAuthorizationScope();
+
+    // 历史过长时先压缩较早的对话
+    await this.summarizeIfNeeded(session.id, options?.maxTokens, authorizationScope);
+
     // 构建请求
-    const request = this.buildChatRequest(session.id, options);
+    const request = this.buildChatRequest(session.id, options, authorizationScope);
 
     try {
       // 发送请求
       const response = await this.apiClient.sendChatRequest(request);
 
-      // 创建助手消息
-      const assistantMessage: ChatMessage = {
+      // 创建助手消息，故障切换时记录实际回答的模型
+      const assistantMessage: HistoryChatMessage = {
         role: 'assistant',
         content: response.content,
-        timestamp: new Date()
+        timestamp: new Date(),
+        ...(response.modelId && response.modelId !== request.model ? { model: response.modelId } : {})
       };
 
       // 添加到历史记录
-      this.historyManager.addMessage(session.id, assistantMessage as HistoryChatMessage);
+      this.historyManager.addMessage(session.id, assistantMessage);
 
       return response;
     } catch (error) {
@@ -189,13 +252,16 @@ export class MessageHandler implements IMessageHandler {
     const includeContext = options?.includeContext ?? this.config.includeContext;
     const contextStartTime = Date.now();
     const context = includeContext 
-      ? await this.contextManager.getCurrentContext()
+      ? await this.collectContext(content.trim())
       : undefined;
     const contextTime = Date.now() - contextStartTime;
     
     if (contextTime > 100) {
       console.warn(`[MessageHandler] Context collection took ${contextTime}ms, consider optimizing`);
     }
+    if (context?.withheld) {
+      callbacks.onContextWithheld?.(context.withheld);
+    }
 
     // 创建用户消息
     const userMessage: ChatMessage = {
@@ -207,7 +273,7 @@ export class MessageHandler implements IMessageHandler {
 
     // 添加到历史记录
     // 检查是否重复添加（防止重复）
-    const existingMessages = session.messages;
+    const existingMessages = this.historyManager.getActivePath(session.id);
     const isDuplicate = existingMessages.length > 0 && 
       existingMessages[existingMessages.length - 1].role === 'user' &&
       existingMessages[existingMessages.length - 1].content === userMessage.content;
@@ -215,11 +281,89 @@ export class MessageHandler implements IMessageHandler {
     if (isDuplicate) {
       console.warn(`[MessageHandler] Duplicate message detected, skipping addMessage`);
     } else {
-      this.historyManager.addMessage(session.id, userMessage as HistoryChatMessage);
+      const stored = this.historyManager.addMessage(session.id, userMessage as HistoryChatMessage);
+      callbacks.onMessageAdded?.(stored, this.historyManager.getSiblingIds(session.id, stored.id!));
+    }
+
+    await this.streamReply(session.id, callbacks, options);
+  }
+
+  /**
+   * 编辑用户消息并重新生成回复（流式）
+   */
+  async editMessage(
+    messageId: string,
+    content: string,
+    callbacks: StreamCallbacks,
+    options?: SendMessageOptions
+  ): Promise<void> {
+    if (!content || content.trim().length === 0) {
+      callbacks.onError(new Error('Message content cannot be empty'));
+      return;
+    }
+
+    try {
+      const session = this.getOrCreateSession(options?.sessionId);
+
+      // 内容变化后重新收集上下文（@ 提及、检索结果依赖消息内容）
+      const includeContext = options?.includeContext ?? this.config.includeContext;
+      const context = includeContext ? await this.collectContext(content.trim()) : undefined;
+      if (context?.withheld) {
+        callbacks.onContextWithheld?.(context.withheld);
+      }
+
+      const stored = this.historyManager.editMessage(session.id, messageId, content.trim(), context);
+      callbacks.onMessageAdded?.(stored, this.historyManager.getSiblingIds(session.id, stored.id!));
+
+      await this.streamReply(session.id, callbacks, options);
+    } catch (error) {
+      callbacks.onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * 重新生成助手回复（流式）
+   */
+  async regenerateMessage(
+    messageId: string,
+    callbacks: StreamCallbacks,
+    options?: SendMessageOptions
+  ): Promise<void> {
+    try {
+      const session = this.getOrCreateSession(options?.sessionId);
+      const message = session.messages.find(msg => msg.id === messageId);
+      if (!message || message.role !== 'assistant') {
+        throw new Error('Can only regenerate assistant messages');
+      }
+
+      // 回到该回复对应的用户消息，新回复成为原回复的兄弟版本
+      this.historyManager.rewindTo(session.id, message.parentId ?? null);
+
+      await this.streamReply(session.id, callbacks, options);
+    } catch (error) {
+      callbacks.onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * 基于当前分支请求流式回复，完成后将回复追加到当前分支
+   */
+  private async streamReply(
+    sessionId: string,
+    callbacks: StreamCallbacks,
+    options?: SendMessageOptions
+  ): Promise<void> {
+    // 本轮的摘要和回复请求共享授权
+    const authorizationScope = this.createAuthorizationScope();
+
+    // 历史过长时先压缩较早的对话
+    const summary = await this.summarizeIfNeeded(sessionId, options?.maxTokens, authorizationScope);
+    if (summary) {
+      callbacks.onSummarized?.(summary);
     }
 
     // 构建请求（强制使用流式）
-    const request = this.buildChatRequest(session.id, { ...options, stream: true });
+    const request = this.buildChatRequest(sessionId, { ...options, stream: true }, authorizationScope);
 
     // 累积响应内容
     let accumulatedContent = '';
@@ -230,17 +374,25 @@ export class MessageHandler implements IMessageHandler {
       callbacks.onChunk(chunk);
     };
 
+    // 实际回答的模型（发生故障切换时与请求的模型不同）
+    let answeredModel: string | undefined;
+    const wrappedOnModel = (modelId: string) => {
+      answeredModel = modelId;
+      callbacks.onModel?.(modelId, request.model);
+    };
+
     const wrappedOnEnd = () => {
       // 创建助手消息
-      const assistantMessage: ChatMessage = {
+      const assistantMessage: HistoryChatMessage = {
         role: 'assistant',
         content: accumulatedContent,
-        timestamp: new Date()
+        timestamp: new Date(),
+        ...(answeredModel && answeredModel !== request.model ? { model: answeredModel } : {})
       };
 
       // 添加到历史记录
       // 检查是否重复添加（防止重复）
-      const existingMessages = this.historyManager.getSession(session.id)?.messages || [];
+      const existingMessages = this.historyManager.getActivePath(sessionId);
       const isDuplicate = existingMessages.length > 0 && 
         existingMessages[existingMessages.length - 1].role === 'assistant' &&
         existingMessages[existingMessages.length - 1].content === assistantMessage.content;
@@ -248,7 +400,8 @@ export class MessageHandler implements IMessageHandler {
       if (isDuplicate) {
         console.warn(`[MessageHandler] Duplicate assistant message detected, skipping addMessage`);
       } else {
-        this.historyManager.addMessage(session.id, assistantMessage as HistoryChatMessage);
+        const stored = this.historyManager.addMessage(sessionId, assistantMessage);
+        callbacks.onMessageAdded?.(stored, this.historyManager.getSiblingIds(sessionId, stored.id!));
       }
 
       callbacks.onEnd();
@@ -264,7 +417,9 @@ export class MessageHandler implements IMessageHandler {
         request,
         wrappedOnChunk,
         wrappedOnEnd,
-        wrappedOnError
+        wrappedOnError,
+        undefined,
+        wrappedOnModel
       );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -286,18 +441,19 @@ export class MessageHandler implements IMessageHandler {
     }
 
     // 验证消息索引
-    if (messageIndex < 0 || messageIndex >= session.messages.length) {
+    const activePath = this.historyManager.getActivePath(session.id);
+    if (messageIndex < 0 || messageIndex >= activePath.length) {
       throw new Error('Invalid message index');
     }
 
     // 获取要重新发送的消息
-    const message = session.messages[messageIndex];
+    const message = activePath[messageIndex];
     if (message.role !== 'user') {
       throw new Error('Can only resend user messages');
     }
 
-    // 删除该消息之后的所有消息
-    session.messages.splice(messageIndex);
+    // 回到该消息之前，重新发送的消息作为新分支，原消息及其回复保留在原分支上
+    this.historyManager.rewindTo(session.id, message.parentId ?? null);
 
     // 重新发送消息
     return this.handleSendMessage(message.content, {
@@ -324,22 +480,73 @@ export class MessageHandler implements IMessageHandler {
     
     // 如果没有当前会话，创建新会话
     if (!session) {
-      const currentModel = this.apiClient.getCurrentModel();
-      if (!currentModel) {
+      const chatModel = this.apiClient.getModelForFeature('chat');
+      if (!chatModel) {
         throw new Error('No model is currently selected');
       }
-      session = this.historyManager.createSession(currentModel);
+      session = this.historyManager.createSession(chatModel);
     }
 
     return session;
   }
 
+  /**
+   * 收集代码上下文
+   * 在当前编辑器上下文的基础上，解析问题中的 @ 提及，并从本地代码索引检索与问题相关的代码块作为相关文件
+   * 被数据外发策略排除的文件汇总到 withheld 中
+   */
+  private async collectContext(query: string): Promise<CodeContext> {
+    const context = await this.contextManager.getCurrentContext();
+
+    const mentions = parseMentions(query);
+    if (mentions.length > 0) {
+      const withheld = context.withheld || [];
+      context.mentions = await this.mentionResolver.resolve(mentions, withheld);
+      context.withheld = withheld.length > 0 ? Array.from(new Set(withheld)) : undefined;
+    }
+
+    if (this.config.retrievalMaxResults <= 0) {
+      return context;
+    }
+
+    try {
+      const results = await this.contextManager.searchCode(query, this.config.retrievalMaxResults);
+
+      // 同一文件的多个代码块合并为一个相关文件
+      const retrieved = new Map<string, { path: string; relevance: number; excerpt: string }>();
+      for (const result of results) {
+        const existing = retrieved.get(result.chunk.filePath);
+        if (existing) {
+          existing.excerpt += `\n...\n${result.excerpt}`;
+        } else {
+          retrieved.set(result.chunk.filePath, {
+            path: result.chunk.filePath,
+            relevance: result.score,
+            excerpt: result.excerpt
+          });
+        }
+      }
+
+      // 检索结果优先，其次是导入关系得到的相关文件
+      context.relatedFiles = [
+        ...retrieved.values(),
+        ...(context.relatedFiles || []).filter(file => !retrieved.has(file.path))
+      ];
+    } catch (error) {
+      // 检索失败不影响主流程
+      console.warn('[MessageHandler] Failed to retrieve related code:', error);
+    }
+
+    return context;
+  }
+
   /**
    * 构建聊天请求
    */
   private buildChatRequest(
     sessionId: string,
-    options?: SendMessageOptions
+    options?: SendMessageOptions,
+    authorizationScope?: string
   ): ChatRequest {
     // 获取会话
     const session = this.historyManager.getSession(sessionId);
@@ -347,12 +554,17 @@ export class MessageHandler implements IMessageHandler {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    // 构建消息列表（深拷贝，避免修改原始消息）
-    const messages: ChatMessage[] = session.messages.map(msg => ({
-      ...msg,
-      // 移除context字段，避免在请求中重复包含上下文信息
-      // context信息已经在enrichMessageContent中处理过了
-      context: undefined
+    // 构建消息列表（深拷贝，避免修改原始消息），只包含当前分支上的消息
+    // 已被摘要覆盖的消息由摘要代替
+    // 只保留最后一条消息的context字段（本次提问收集的上下文），避免在请求中重复包含历史消息的上下文信息
+    const summary = this.historyManager.getActiveSummary(sessionId);
+    const activePath = this.historyManager.getActivePath(sessionId).slice(summary?.messageCount ?? 0);
+    const lastIndex = activePath.length - 1;
+    const messages: ChatMessage[] = activePath.map((msg, index) => ({
+      role: msg.role,
+      content: msg.content,
+      timestamp: msg.timestamp,
+      context: index === lastIndex && msg.role === 'user' ? msg.context : undefined
     }));
 
     // 添加系统消息（如果还没有）
@@ -364,18 +576,154 @@ export class MessageHandler implements IMessageHandler {
       });
     }
 
+    const maxTokens = options?.maxTokens ?? this.config.defaultMaxTokens;
+    const model = this.getChatModel(session);
+
     // 构建请求
     const request: ChatRequest = {
-      messages,
-      model: session.model,
+      messages: this.fitToBudget(model, messages, summary?.content, maxTokens),
+      model,
       stream: options?.stream ?? this.config.enableStreaming,
       temperature: options?.temperature ?? this.config.defaultTemperature,
-      maxTokens: options?.maxTokens ?? this.config.defaultMaxTokens
+      maxTokens,
+      feature: 'chat',
+      authorizationScope
     };
 
     return request;
   }
 
+  /**
+   * 为一轮对话创建授权范围
+   */
+  private createAuthorizationScope(): string {
+    return `turn-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * 获取聊天使用的模型
+   * 使用为聊天功能配置的模型路由，未选择任何模型时使用会话创建时的模型
+   */
+  private getChatModel(session: ChatSession): string {
+    return this.apiClient.getModelForFeature('chat') || session.model;
+  }
+
+  /**
+   * 按模型的最大上下文 token 数裁剪消息列表
+   * 使用模型对应的分词器，在系统提示词、对话摘要、历史消息和本次提问的上下文之间分配 token
+   * @param messages 以系统消息开头、以本次提问结尾的消息列表
+   * @param summary 较早对话的摘要，附加在系统消息之后
+   */
+  private fitToBudget(modelId: string, messages: ChatMessage[], summary?: string, maxTokens?: number): ChatMessage[] {
+    const modelConfig = this.apiClient.getModelConfig(modelId);
+    const last = messages[messages.length - 1];
+    if (!modelConfig?.maxContextTokens || messages.length < 2 || last.role !== 'user') {
+      return [this.withSummary(messages[0], summary), ...messages.slice(1)];
+    }
+
+    const budgeter = new ContextBudgeter(getTokenizer(modelConfig), {
+      maxContextTokens: modelConfig.maxContextTokens,
+      reservedOutputTokens: maxTokens
+    });
+    const result = budgeter.fit({
+      systemPrompt: messages[0].content,
+      summary,
+      history: messages.slice(1, -1),
+      query: last.content,
+      context: last.context
+    });
+
+    const dropped = messages.length - 2 - result.history.length;
+    if (dropped > 0) {
+      console.warn(`[MessageHandler] Dropped ${dropped} history messages to fit ${modelConfig.maxContextTokens} context tokens`);
+    }
+
+    return [
+      this.withSummary({ ...messages[0], content: result.systemPrompt }, result.summary),
+      ...result.history,
+      { ...last, context: result.context }
+    ];
+  }
+
+  /**
+   * 将对话摘要附加到系统消息
+   */
+  private withSummary(systemMessage: ChatMessage, summary?: string): ChatMessage {
+    if (!summary) {
+      return systemMessage;
+    }
+    return {
+      ...systemMessage,
+      content: `${systemMessage.content}\n\n以下是此前对话的摘要，请结合摘要继续对话：\n${summary}`
+    };
+  }
+
+  /**
+   * 历史消息接近模型上下文上限时，将较早的对话压缩为摘要
+   * 最近的消息保留原文；摘要只替换请求中的消息，原消息仍保留在会话中用于显示
+   * 摘要失败时不影响本次请求，由上下文预算丢弃较早的消息
+   * @param authorizationScope 本轮对话的授权范围
+   * @returns 新生成的摘要，未触发或失败时返回 null
+   */
+  private async summarizeIfNeeded(
+    sessionId: string,
+    maxTokens?: number,
+    authorizationScope?: string
+  ): Promise<SessionSummary | null> {
+    if (!this.config.autoSummarize) {
+      return null;
+    }
+
+    const session = this.historyManager.getSession(sessionId);
+    const model = session ? this.getChatModel(session) : null;
+    const modelConfig = model ? this.apiClient.getModelConfig(model) : null;
+    if (!session || !model || !modelConfig?.maxContextTokens) {
+      return null;
+    }
+
+    const tokenizer = getTokenizer(modelConfig);
+    const previous = this.historyManager.getActiveSummary(sessionId);
+    // 不含本次提问
+    const history = this.historyManager.getActivePath(sessionId).slice(previous?.messageCount ?? 0, -1);
+    const available = modelConfig.maxContextTokens - (maxTokens ?? this.config.defaultMaxTokens);
+
+    const historyTokens = history.reduce((sum, msg) => sum + tokenizer.count(msg.content), 0)
+      + (previous ? tokenizer.count(previous.content) : 0);
+    if (historyTokens <= available * SUMMARIZE_THRESHOLD) {
+      return null;
+    }
+
+    // 保留最近的消息原文，被摘要的部分以助手回复结尾，使保留的部分从用户消息开始
+    let keepFrom = history.length;
+    let kept = 0;
+    while (keepFrom > 0 && kept + tokenizer.count(history[keepFrom - 1].content) <= available * SUMMARY_KEEP_RATIO) {
+      kept += tokenizer.count(history[keepFrom - 1].content);
+      keepFrom--;
+    }
+    while (keepFrom > 0 && history[keepFrom - 1].role !== 'assistant') {
+      keepFrom--;
+    }
+    if (keepFrom === 0) {
+      return null;
+    }
+
+    const older = history.slice(0, keepFrom);
+    try {
+      const content = await this.summarizer.summarize(
+        model,
+        older.map(msg => ({ role: msg.role, content: msg.content, timestamp: msg.timestamp })),
+        previous?.content,
+        tokenizer,
+        modelConfig.maxContextTokens,
+        authorizationScope
+      );
+      return this.historyManager.setSummary(sessionId, content, older[older.length - 1].id!);
+    } catch (error) {
+      console.warn('[MessageHandler] Failed to summarize conversation:', error);
+      return null;
+    }
+  }
+
   /**
    * 更新配置
    */
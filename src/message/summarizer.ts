@@ -0,0 +1,106 @@
+/**
+ * Conversation Summarizer
+ * 将较早的对话轮次压缩为摘要，使长会话不超出模型的上下文窗口
+ */
+
+import { APIClientManager } from '../api/client';
+import { ChatMessage } from '../api/types';
+import { Tokenizer } from '../api/tokenizer';
+
+/** 摘要请求的最大输出 token 数 */
+export const SUMMARY_MAX_TOKENS = 1024;
+
+/** 摘要请求的指令 */
+const SUMMARY_INSTRUCTION = `请将下面这段开发者与编程助手之间的对话压缩为一份摘要，供后续对话继续使用。
+要求：
+- 保留开发者的目标、已确认的需求和约束
+- 保留涉及的文件路径、函数名、报错信息和关键代码片段
+- 保留已经尝试过的方案及其结果、得出的结论和尚未解决的问题
+- 省略寒暄和重复内容，不要编造对话中没有的信息
+- 使用对话所用的语言，直接输出摘要正文`;
+
+/** 请求中指令和格式占用的 token 数（估算） */
+const INSTRUCTION_OVERHEAD_TOKENS = 300;
+
+/**
+ * 对话摘要器
+ */
+export class ConversationSummarizer {
+  constructor(private apiClient: APIClientManager) {}
+
+  /**
+   * 生成对话摘要
+   * 已有摘要会与新的对话轮次合并为一份摘要；对话过长时按比例截断每条消息
+   * @param model 模型ID
+   * @param messages 要压缩的对话轮次，按时间顺序
+   * @param previousSummary 已有摘要（覆盖这些轮次之前的对话）
+   * @param tokenizer 模型对应的分词器
+   * @param maxContextTokens 模型的最大上下文 token 数
+   * @param authorizationScope 触发摘要的对话轮次的授权范围（摘要请求与该轮次共享授权）
+   * @returns 摘要内容
+   */
+  async summarize(
+    model: string,
+    messages: ChatMessage[],
+    previousSummary: string | undefined,
+    tokenizer: Tokenizer,
+    maxContextTokens: number,
+    authorizationScope?: string
+  ): Promise<string> {
+    const inputBudget = Math.max(0, maxContextTokens - SUMMARY_MAX_TOKENS - INSTRUCTION_OVERHEAD_TOKENS);
+    const transcript = this.formatTranscript(messages, previousSummary, tokenizer, inputBudget);
+
+    const response = await this.apiClient.sendChatRequest({
+      messages: [
+        {
+          role: 'user',
+          content: `${SUMMARY_INSTRUCTION}\n\n${transcript}`,
+          timestamp: new Date()
+        }
+      ],
+      model,
+      stream: false,
+      temperature: 0.2,
+      maxTokens: SUMMARY_MAX_TOKENS,
+      feature: 'chat',
+      authorizationScope
+    });
+
+    const summary = response.content.trim();
+    if (!summary) {
+      throw new Error('Model returned an empty summary');
+    }
+    return summary;
+  }
+
+  /**
+   * 将对话格式化为纯文本记录
+   * 超出预算时，超过平均份额的消息截断到平均份额
+   */
+  private formatTranscript(
+    messages: ChatMessage[],
+    previousSummary: string | undefined,
+    tokenizer: Tokenizer,
+    budget: number
+  ): string {
+    const sections = [
+      ...(previousSummary ? [{ label: '此前对话的摘要', content: previousSummary }] : []),
+      ...messages.map(msg => ({
+        label: msg.role === 'user' ? '开发者' : msg.role === 'assistant' ? '助手' : '系统',
+        content: msg.content
+      }))
+    ];
+
+    const total = sections.reduce((sum, section) => sum + tokenizer.count(section.content), 0);
+    if (total > budget && sections.length > 0) {
+      const share = Math.floor(budget / sections.length);
+      for (const section of sections) {
+        if (tokenizer.count(section.content) > share) {
+          section.content = tokenizer.truncate(section.content, share) + '\n...';
+        }
+      }
+    }
+
+    return sections.map(section => `【${section.label}】\n${section.content}`).join('\n\n');
+  }
+}
@@ -13,10 +13,14 @@
 import * as vscode from 'vscode';
 import { logger } from '../utils/logger';
 import * as MessageType from '../utils/messageType';
-import { getConfigManager, getAPIClient, getHistoryManager, getContextManager, getChatWebviewProvider } from '../extension';
-import { MessageHandler } from './messageHandler';
+import { getConfigManager, getAPIClient, getHistoryManager, getContextManager, getChatWebviewProvider, getAgentSystem } from '../extension';
+import { MessageHandler, StreamCallbacks } from './messageHandler';
+import { ChatMessage as HistoryChatMessage, SessionSummary } from '../history/types';
+import { MentionResolver } from './mentionResolver';
 import { generateUUID } from '../utils/tools';
 import { SettingsWebviewProvider } from '../providers/settingsWebviewProvider';
+import { ChangeConflictError, describeChange } from '../agent';
+import { ModelFeature } from '../api/types';
 
 /**
  * 处理发送聊天消息请求
@@ -49,73 +53,21 @@ export async function handleAskQuestion(
       return;
     }
 
-    // 获取 API 客户端、历史记录管理器和上下文管理器
-    const apiClient = await getAPIClient();
-    const historyManager = await getHistoryManager();
-    const contextManager = await getContextManager();
     const configManager = await getConfigManager();
 
-    // 创建消息处理器
-    const messageHandler = new MessageHandler(
-      apiClient,
-      contextManager,
-      historyManager,
-      {
-        enableStreaming: true,
-        includeContext: true
-      }
-    );
+    // Agent 模式：使用多步工具调用循环处理
+    if (configManager.getChatMode() === 'agent') {
+      await handleAgentQuestion(content.trim(), token, chatId || sessionId, webview);
+      return;
+    }
 
-    // 累积响应内容
-    let accumulatedContent = '';
+    // 创建消息处理器
+    const messageHandler = await createChatMessageHandler();
 
     // 发送流式响应
     await messageHandler.handleSendStreamMessage(
       content.trim(),
-      {
-        // 接收到数据块时的回调
-        onChunk: (chunk: string) => {
-          // 确保chunk是有效的字符串，避免undefined
-          const textChunk = chunk || '';
-          accumulatedContent += textChunk;
-          // 发送流式数据到前端
-          // 前端期望的格式：{ chatId, text }
-          webview.postMessage({
-            token: token || generateUUID(),
-            message: MessageType.HICODE_ASK_QUESTION_B2F_RES,
-            data: {
-              chatId: chatId || sessionId,
-              text: textChunk  // 前端期望使用 text 字段，而不是 content
-            }
-          });
-        },
-        // 流结束时的回调
-        onEnd: () => {
-          // 发送完成标志
-          // 前端期望的格式：{ chatId, text: '[DONE]' }
-          webview.postMessage({
-            token: token || generateUUID(),
-            message: MessageType.HICODE_ASK_QUESTION_B2F_RES,
-            data: {
-              chatId: chatId || sessionId,
-              text: '[DONE]'  // 前端期望使用 text 字段，完成标志为 '[DONE]'
-            }
-          });
-          logger.debug('聊天消息处理完成', { chatId, contentLength: accumulatedContent.length }, 'WebviewMessageHandler');
-        },
-        // 发生错误时的回调
-        onError: (error: Error) => {
-          logger.error('处理聊天消息时发生错误：', error, 'WebviewMessageHandler');
-          webview.postMessage({
-            token: token || generateUUID(),
-            message: MessageType.HICODE_ERROR_B2F,
-            data: {
-              error: error.message || '处理消息时发生未知错误',
-              chatId: chatId || sessionId
-            }
-          });
-        }
-      },
+      createStreamCallbacks(webview, token, chatId || sessionId),
       {
         sessionId,
         stream: true,
@@ -134,6 +86,390 @@ export async function handleAskQuestion(
   }
 }
 
+/**
+ * 创建聊天消息处理器
+ * 使用 API 客户端、历史记录管理器、上下文管理器和代码检索配置
+ */
+async function createChatMessageHandler(): Promise<MessageHandler> {
+  const apiClient = await getAPIClient();
+  const historyManager = await getHistoryManager();
+  const contextManager = await getContextManager();
+  const configManager = await getConfigManager();
+
+  return new MessageHandler(
+    apiClient,
+    contextManager,
+    historyManager,
+    {
+      enableStreaming: true,
+      includeContext: true,
+      retrievalMaxResults: configManager.get('enableCodeSearch', true)
+        ? configManager.get('codeSearchMaxResults', 5)
+        : 0,
+      autoSummarize: configManager.get('autoSummarize', true)
+    }
+  );
+}
+
+/**
+ * 处理编辑消息请求
+ * 编辑后的消息作为原消息的新版本，并基于新版本重新生成回复
+ * @param message 消息对象，data 包含 messageId、content、chatId 和可选的 sessionId
+ * @param webview Webview 实例
+ */
+export async function handleEditMessage(
+  message: any,
+  webview: vscode.Webview
+): Promise<void> {
+  logger.debug('收到编辑消息请求', { message }, 'WebviewMessageHandler');
+
+  const { token, data } = message;
+  const { messageId, content, sessionId, chatId } = data || {};
+
+  if (!messageId || !content || typeof content !== 'string' || content.trim().length === 0) {
+    webview.postMessage({
+      token: token || generateUUID(),
+      message: MessageType.HICODE_ERROR_B2F,
+      data: {
+        error: '消息内容不能为空',
+        chatId
+      }
+    });
+    return;
+  }
+
+  const messageHandler = await createChatMessageHandler();
+  await messageHandler.editMessage(
+    messageId,
+    content,
+    createStreamCallbacks(webview, token, chatId || sessionId),
+    { sessionId, stream: true, includeContext: true }
+  );
+}
+
+/**
+ * 处理重新生成回复请求
+ * 新回复作为原回复的新版本
+ * @param message 消息对象，data 包含 messageId（助手消息ID）、chatId 和可选的 sessionId
+ * @param webview Webview 实例
+ */
+export async function handleRegenerateMessage(
+  message: any,
+  webview: vscode.Webview
+): Promise<void> {
+  logger.debug('收到重新生成回复请求', { message }, 'WebviewMessageHandler');
+
+  const { token, data } = message;
+  const { messageId, sessionId, chatId } = data || {};
+
+  const messageHandler = await createChatMessageHandler();
+  await messageHandler.regenerateMessage(
+    messageId,
+    createStreamCallbacks(webview, token, chatId || sessionId),
+    { sessionId, stream: true, includeContext: true }
+  );
+}
+
+/**
+ * 处理切换消息版本请求
+ * 切换到包含指定消息的分支，并将新的当前分支发送给前端
+ * @param message 消息对象，data 包含 messageId 和可选的 sessionId
+ * @param webview Webview 实例
+ */
+export async function handleSwitchBranch(
+  message: any,
+  webview: vscode.Webview
+): Promise<void> {
+  logger.debug('收到切换消息版本请求', { message }, 'WebviewMessageHandler');
+
+  try {
+    const historyManager = await getHistoryManager();
+    const { messageId, sessionId } = message.data || {};
+    const session = sessionId ? historyManager.getSession(sessionId) : historyManager.getCurrentSession();
+    if (!session) {
+      throw new Error('会话不存在');
+    }
+
+    historyManager.switchBranch(session.id, messageId);
+
+    webview.postMessage({
+      token: message.token || generateUUID(),
+      message: MessageType.HICODE_SWITCH_BRANCH_B2F_RES,
+      data: {
+        sessionId: session.id,
+        messages: historyManager.getBranchView(session.id)
+      }
+    });
+  } catch (error) {
+    logger.error('切换消息版本失败', error, 'WebviewMessageHandler');
+    webview.postMessage({
+      token: message.token || generateUUID(),
+      message: MessageType.HICODE_ERROR_B2F,
+      data: {
+        error: error instanceof Error ? error.message : String(error)
+      }
+    });
+  }
+}
+
+/**
+ * 创建将流式回复推送到前端的回调
+ * @param webview Webview 实例
+ * @param token 请求 token
+ * @param chatId 前端对话ID
+ */
+function createStreamCallbacks(
+  webview: vscode.Webview,
+  token: string | undefined,
+  chatId: string | undefined
+): StreamCallbacks {
+  // 累积响应内容
+  let accumulatedContent = '';
+
+  return {
+    // 接收到数据块时的回调
+    onChunk: (chunk: string) => {
+      // 确保chunk是有效的字符串，避免undefined
+      const textChunk = chunk || '';
+      accumulatedContent += textChunk;
+      // 发送流式数据到前端
+      // 前端期望的格式：{ chatId, text }
+      webview.postMessage({
+        token: token || generateUUID(),
+        message: MessageType.HICODE_ASK_QUESTION_B2F_RES,
+        data: {
+          chatId,
+          text: textChunk  // 前端期望使用 text 字段，而不是 content
+        }
+      });
+    },
+    // 流结束时的回调
+    onEnd: () => {
+      // 发送完成标志
+      // 前端期望的格式：{ chatId, text: '[DONE]' }
+      webview.postMessage({
+        token: token || generateUUID(),
+        message: MessageType.HICODE_ASK_QUESTION_B2F_RES,
+        data: {
+          chatId,
+          text: '[DONE]'  // 前端期望使用 text 字段，完成标志为 '[DONE]'
+        }
+      });
+      logger.debug('聊天消息处理完成', { chatId, contentLength: accumulatedContent.length }, 'WebviewMessageHandler');
+    },
+    // 发生错误时的回调
+    onError: (error: Error) => {
+      logger.error('处理聊天消息时发生错误：', error, 'WebviewMessageHandler');
+      webview.postMessage({
+        token: token || generateUUID(),
+        message: MessageType.HICODE_ERROR_B2F,
+        data: {
+          error: error.message || '处理消息时发生未知错误',
+          chatId
+        }
+      });
+    },
+    // 消息保存后通知前端消息ID及其兄弟版本，用于编辑、重新生成和切换版本
+    onMessageAdded: (saved: HistoryChatMessage, siblingIds: string[]) => {
+      webview.postMessage({
+        token: token || generateUUID(),
+        message: MessageType.HICODE_MESSAGE_SAVED_B2F,
+        data: {
+          chatId,
+          messageId: saved.id,
+          parentId: saved.parentId,
+          role: saved.role,
+          siblingIds
+        }
+      });
+    },
+    // 较早的对话被压缩为摘要后通知前端，可在被覆盖的消息处显示分隔标记
+    onSummarized: (summary: SessionSummary) => {
+      webview.postMessage({
+        token: token || generateUUID(),
+        message: MessageType.HICODE_CONVERSATION_SUMMARIZED_B2F,
+        data: {
+          chatId,
+          throughMessageId: summary.throughMessageId,
+          messageCount: summary.messageCount,
+          summary: summary.content
+        }
+      });
+    },
+    // 通知前端实际回答的模型，所选模型不可用而切换到备用模型时前端可提示用户
+    onModel: (modelId: string, requestedModelId: string) => {
+      getAPIClient().then(apiClient => {
+        const failover = modelId !== requestedModelId;
+        webview.postMessage({
+          token: token || generateUUID(),
+          message: MessageType.HICODE_ANSWER_MODEL_B2F,
+          data: {
+            chatId,
+            modelId,
+            modelName: apiClient.getModelConfig(modelId)?.modelName || modelId,
+            requestedModelId,
+            failover
+          }
+        });
+        if (failover) {
+          logger.warn('所选模型不可用，已切换到备用模型', { requestedModelId, modelId }, 'WebviewMessageHandler');
+        }
+      }).catch(error => {
+        logger.warn('通知实际回答的模型失败', error, 'WebviewMessageHandler');
+      });
+    },
+    // 通知前端有文件被 .hicodeignore 排除，前端在对话中提示本次回答缺少这些文件的上下文
+    onContextWithheld: (files: string[]) => {
+      postContextWithheld(webview, token, chatId, files);
+    }
+  };
+}
+
+/**
+ * 通知前端有文件被数据外发策略排除
+ * @param webview Webview 实例
+ * @param token 请求 token
+ * @param chatId 前端对话ID
+ * @param files 被排除文件的工作区相对路径
+ */
+function postContextWithheld(
+  webview: vscode.Webview,
+  token: string | undefined,
+  chatId: string | undefined,
+  files: string[]
+): void {
+  webview.postMessage({
+    token: token || generateUUID(),
+    message: MessageType.HICODE_CONTEXT_WITHHELD_B2F,
+    data: {
+      chatId,
+      files
+    }
+  });
+  logger.info('部分文件被 .hicodeignore 排除，未发送给模型', { count: files.length }, 'WebviewMessageHandler');
+}
+
+/**
+ * 以 Agent 循环处理聊天消息
+ * 每个工具调用步骤以流式文本推送到前端，最终答复推送后发送完成标志
+ * @param content 用户指令
+ * @param token 请求 token
+ * @param chatId 前端对话ID
+ * @param webview Webview 实例
+ */
+async function handleAgentQuestion(
+  content: string,
+  token: string | undefined,
+  chatId: string | undefined,
+  webview: vscode.Webview
+): Promise<void> {
+  const agentSystem = await getAgentSystem();
+  const apiClient = await getAPIClient();
+  const historyManager = await getHistoryManager();
+  const contextManager = await getContextManager();
+
+  const postText = (text: string) => {
+    webview.postMessage({
+      token: token || generateUUID(),
+      message: MessageType.HICODE_ASK_QUESTION_B2F_RES,
+      data: { chatId, text }
+    });
+  };
+
+  // 获取或创建会话，保证 Agent 对话也进入历史记录
+  let session = historyManager.getCurrentSession();
+  if (!session) {
+    const currentModel = apiClient.getCurrentModel();
+    if (!currentModel) {
+      throw new Error('未选择模型，请先配置模型');
+    }
+    session = historyManager.createSession(currentModel);
+  }
+
+  const context = await contextManager.getCurrentContext();
+  if (context.withheld) {
+    postContextWithheld(webview, token, chatId, context.withheld);
+  }
+  historyManager.addMessage(session.id, { role: 'user', content, context, timestamp: new Date() });
+
+  const task = {
+    type: 'custom' as const,
+    name: 'Agent任务',
+    description: content,
+    prompt: content,
+    isCustom: true
+  };
+
+  const result = await agentSystem.runAgentLoop(task, context, {
+    model: apiClient.getModelForFeature('agent') || session.model,
+    onStep: (step: any) => {
+      if (step.toolCall) {
+        const status = step.toolResult?.success ? '✓' : '✗';
+        postText(`> ${status} \`${step.toolCall.name}\` ${JSON.stringify(step.toolCall.arguments)}\n\n`);
+      }
+    }
+  });
+
+  let answer = result.message;
+  if (result.changes.length > 0) {
+    answer += `\n\n${await reviewAndApplyAgentChanges(agentSystem, result)}`;
+  }
+  if (!result.success && result.error) {
+    answer += `\n\n错误：${result.error}`;
+  }
+
+  postText(answer);
+  postText('[DONE]');
+  historyManager.addMessage(session.id, { role: 'assistant', content: answer, timestamp: new Date() });
+
+  logger.debug('Agent 任务处理完成', {
+    chatId,
+    success: result.success,
+    steps: result.steps?.length || 0,
+    changes: result.changes.length
+  }, 'WebviewMessageHandler');
+}
+
+/**
+ * 审阅并应用 Agent 更改
+ * 用户在审阅列表中选择要应用的文件，选中的更改作为一个整体原子应用；
+ * 文件在任务开始后被修改时询问用户是否覆盖
+ * @param agentSystem Agent 系统
+ * @param result Agent 执行结果
+ * @returns 应用结果的说明文本
+ */
+async function reviewAndApplyAgentChanges(agentSystem: any, result: any): Promise<string> {
+  const reviewed = await agentSystem.reviewChanges(result);
+  if (!reviewed || reviewed.changes.length === 0) {
+    return `已放弃 ${result.changes.length} 个文件的更改`;
+  }
+
+  try {
+    await agentSystem.applyChanges(reviewed);
+  } catch (error) {
+    if (!(error instanceof ChangeConflictError)) {
+      return `应用更改失败，未修改任何文件：${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `HiCode: ${error.files.length} 个文件在 Agent 任务开始后已被修改，是否仍要覆盖？`,
+      { modal: true, detail: error.files.map(file => vscode.workspace.asRelativePath(file)).join('\n') },
+      '覆盖'
+    );
+    if (choice !== '覆盖') {
+      return '由于文件冲突，已放弃更改';
+    }
+    try {
+      await agentSystem.applyChanges(reviewed, { force: true });
+    } catch (forceError) {
+      return `应用更改失败，未修改任何文件：${forceError instanceof Error ? forceError.message : String(forceError)}`;
+    }
+  }
+
+  const files = reviewed.changes.map((change: any) => `- ${describeChange(change)}`).join('\n');
+  return `已应用 ${reviewed.changes.length} 个文件的更改（可通过"撤销 Agent 操作"恢复）：\n${files}`;
+}
+
 /**
  * 处理新建对话请求
  * @param message 消息对象
@@ -149,14 +485,14 @@ export async function handleNewChat(
     const historyManager = await getHistoryManager();
     const apiClient = await getAPIClient();
 
-    // 获取当前模型
-    const currentModel = apiClient.getCurrentModel();
-    if (!currentModel) {
+    // 获取聊天使用的模型
+    const chatModel = apiClient.getModelForFeature('chat');
+    if (!chatModel) {
       throw new Error('未选择模型，请先配置模型');
     }
 
     // 创建新会话（这会自动更新currentSessionId）
-    const session = historyManager.createSession(currentModel);
+    const session = historyManager.createSession(chatModel);
 
     // 生成新的convId（用于前端标识）
     const newConvId = generateUUID();
@@ -771,6 +1107,121 @@ export async function handleDeleteModel(
   }
 }
 
+/** 支持按功能分配模型的功能类型 */
+const MODEL_FEATURES: ModelFeature[] = ['chat', 'completion', 'agent', 'intent'];
+
+/**
+ * 发送各功能的模型路由
+ * 除路由配置外，还包含每个功能实际使用的模型（未配置路由的功能使用当前模型）、故障切换链和各模型的健康状态
+ * @param webview Webview 实例
+ * @param token 请求 token
+ */
+async function postModelRouting(webview: vscode.Webview, token?: string): Promise<void> {
+  const configManager = await getConfigManager();
+  const apiClient = await getAPIClient();
+
+  const effectiveModels: Record<string, string | null> = {};
+  for (const feature of MODEL_FEATURES) {
+    effectiveModels[feature] = apiClient.getModelForFeature(feature);
+  }
+
+  webview.postMessage({
+    token: token || generateUUID(),
+    message: MessageType.HICODE_GET_MODEL_ROUTING_B2F_RES,
+    data: {
+      modelRouting: configManager.models.getModelRouting(),
+      effectiveModels,
+      fallbackChain: apiClient.getFallbackChain(),
+      modelHealth: apiClient.getModelHealth()
+    }
+  });
+}
+
+/**
+ * 处理获取模型路由请求
+ * @param message 消息对象
+ * @param webview Webview 实例
+ */
+export async function handleGetModelRouting(
+  message: any,
+  webview: vscode.Webview
+): Promise<void> {
+  logger.debug('收到获取模型路由请求', { message }, 'WebviewMessageHandler');
+
+  try {
+    await postModelRouting(webview, message.token);
+  } catch (error) {
+    logger.error('获取模型路由失败', error, 'WebviewMessageHandler');
+    webview.postMessage({
+      token: message.token || generateUUID(),
+      message: MessageType.HICODE_ERROR_B2F,
+      data: {
+        error: error instanceof Error ? error.message : String(error)
+      }
+    });
+  }
+}
+
+/**
+ * 处理设置模型路由请求
+ * data 包含 feature、modelId（或 modelName）和可选的 fallbacks；modelId 为空时清除该功能的路由
+ * @param message 消息对象
+ * @param webview Webview 实例
+ */
+export async function handleSetModelRoute(
+  message: any,
+  webview: vscode.Webview
+): Promise<void> {
+  logger.debug('收到设置模型路由请求', { message }, 'WebviewMessageHandler');
+
+  const { data } = message;
+
+  try {
+    const feature = data?.feature as ModelFeature;
+    if (!MODEL_FEATURES.includes(feature)) {
+      throw new Error(`未知的功能类型：${data?.feature}`);
+    }
+
+    const configManager = await getConfigManager();
+    const models = configManager.models.getModelConfigs();
+
+    // 前端可能使用 modelName 作为标识，统一转换为 modelId
+    const toModelId = (value: string): string => {
+      const model = models.find((m: any) => m.modelId === value || m.modelName === value);
+      if (!model) {
+        throw new Error(`模型 ${value} 不存在`);
+      }
+      return model.modelId;
+    };
+
+    const primary = data?.modelId || data?.modelName;
+    if (!primary) {
+      await configManager.models.setModelRoute(feature, null);
+    } else {
+      const fallbacks: string[] = Array.isArray(data?.fallbacks) ? data.fallbacks : [];
+      await configManager.models.setModelRoute(feature, {
+        modelId: toModelId(primary),
+        fallbacks: fallbacks.map(toModelId)
+      });
+    }
+
+    logger.info('设置模型路由成功', { feature, modelId: primary }, 'WebviewMessageHandler');
+    await postModelRouting(webview, message.token);
+  } catch (error) {
+    logger.error('设置模型路由失败', error, 'WebviewMessageHandler');
+    webview.postMessage({
+      token: message.token || generateUUID(),
+      message: MessageType.HICODE_ERROR_B2F,
+      data: {
+        operationType: '设置模型路由',
+        operation: 'setModelRoute',
+        error: error instanceof Error ? error.message : String(error),
+        feature: data?.feature
+      }
+    });
+  }
+}
+
 /**
  * 处理获取设置请求
  * @param message 消息对象
@@ -836,6 +1287,7 @@ export async function handleGetSettings(
         prompts: userPrompts,
         userPrompt: userPrompts, // 兼容旧字段名
         specifications,
+        modelRouting: configManager.models.getModelRouting(), // 各功能的模型路由
         chatMode: chatMode, // 当前聊天模式
         mode: chatMode // 兼容字段
       }
@@ -959,7 +1411,7 @@ export async function handleChangeMode(
 
 /**
  * 处理获取历史记录请求
- * @param message 消息对象
+ * @param message 消息对象，data 可包含 query（全文搜索关键词）、model、workspace、from、to（过滤条件）
  * @param webview Webview 实例
  */
 export async function handleGetHistory(
@@ -970,16 +1422,24 @@ export async function handleGetHistory(
 
   try {
     const historyManager = await getHistoryManager();
-
-    // 获取所有会话
-    const sessions = historyManager.getAllSessions();
+    const { query, model, workspace, from, to } = message.data || {};
+
+    // 按关键词和过滤条件查询会话，没有关键词时返回全部匹配过滤条件的会话
+    const results = historyManager.searchSessions(typeof query === 'string' ? query : '', {
+      model: model || undefined,
+      workspace: workspace || undefined,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined
+    });
+    const sessions = results.map((result: any) => ({ ...result.session, matches: result.matches }));
 
     // 发送响应
     webview.postMessage({
       token: message.token || generateUUID(),
       message: MessageType.HICODE_GET_HISTORY_B2F_RES,
       data: {
-        sessions
+        sessions,
+        filters: historyManager.getFilterOptions()
       }
     });
 
@@ -996,6 +1456,43 @@ export async function handleGetHistory(
   }
 }
 
+/**
+ * 处理获取 @ 提及自动补全候选请求
+ * @param message 消息对象，data 包含 input（输入框内容）和可选的 cursor（光标位置）
+ * @param webview Webview 实例
+ */
+export async function handleGetMentionSuggestions(
+  message: any,
+  webview: vscode.Webview
+): Promise<void> {
+  logger.debug('收到获取提及候选请求', { message }, 'WebviewMessageHandler');
+
+  try {
+    const { input, cursor } = message.data || {};
+    const contextManager = await getContextManager();
+    const suggestions = typeof input === 'string'
+      ? await new MentionResolver(contextManager).getSuggestions(input, cursor)
+      : [];
+
+    webview.postMessage({
+      token: message.token || generateUUID(),
+      message: MessageType.HICODE_GET_MENTION_SUGGESTIONS_B2F_RES,
+      data: {
+        suggestions
+      }
+    });
+  } catch (error) {
+    logger.error('获取提及候选失败', error, 'WebviewMessageHandler');
+    webview.postMessage({
+      token: message.token || generateUUID(),
+      message: MessageType.HICODE_ERROR_B2F,
+      data: {
+        error: error instanceof Error ? error.message : String(error)
+      }
+    });
+  }
+}
+
 /**
  * 处理 Webview 准备就绪通知
  * @param message 消息对象
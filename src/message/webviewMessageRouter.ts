@@ -15,6 +15,9 @@ import { logger } from '../utils/logger';
 import * as MessageType from '../utils/messageType';
 import {
   handleAskQuestion,
+  handleEditMessage,
+  handleRegenerateMessage,
+  handleSwitchBranch,
   handleNewChat,
   handleGetModels,
   handleChangeModel,
@@ -22,8 +25,11 @@ import {
   handleAddModel,
   handleEditModel,
   handleDeleteModel,
+  handleGetModelRouting,
+  handleSetModelRoute,
   handleGetSettings,
   handleGetHistory,
+  handleGetMentionSuggestions,
   handleWebviewReady,
   handleConsoleLog,
   handleAddUserPrompt,
@@ -84,6 +90,24 @@ export function routeWebviewMessage(
         });
         break;
 
+      case MessageType.HICODE_EDIT_MESSAGE_F2B_REQ:
+        handleEditMessage(message, webview).catch(error => {
+          logger.error('处理编辑消息失败', error, 'WebviewMessageRouter');
+        });
+        break;
+
+      case MessageType.HICODE_REGENERATE_MESSAGE_F2B_REQ:
+        handleRegenerateMessage(message, webview).catch(error => {
+          logger.error('处理重新生成回复失败', error, 'WebviewMessageRouter');
+        });
+        break;
+
+      case MessageType.HICODE_SWITCH_BRANCH_F2B_REQ:
+        handleSwitchBranch(message, webview).catch(error => {
+          logger.error('处理切换消息版本失败', error, 'WebviewMessageRouter');
+        });
+        break;
+
       case MessageType.HICODE_NEW_CHAT_F2B_REQ:
         handleNewChat(message, webview).catch(error => {
           logger.error('处理新建对话失败', error, 'WebviewMessageRouter');
@@ -127,6 +151,18 @@ export function routeWebviewMessage(
         });
         break;
 
+      case MessageType.HICODE_GET_MODEL_ROUTING_F2B_REQ:
+        handleGetModelRouting(message, webview).catch(error => {
+          logger.error('处理获取模型路由失败', error, 'WebviewMessageRouter');
+        });
+        break;
+
+      case MessageType.HICODE_SET_MODEL_ROUTE_F2B_REQ:
+        handleSetModelRoute(message, webview).catch(error => {
+          logger.error('处理设置模型路由失败', error, 'WebviewMessageRouter');
+        });
+        break;
+
       // ========== 设置相关消息 ==========
       case MessageType.HICODE_GET_SETTINGS_F2B_REQ:
         handleGetSettings(message, webview).catch(error => {
@@ -179,6 +215,13 @@ export function routeWebviewMessage(
         });
         break;
 
+      // ========== @ 提及相关消息 ==========
+      case MessageType.HICODE_GET_MENTION_SUGGESTIONS_F2B_REQ:
+        handleGetMentionSuggestions(message, webview).catch(error => {
+          logger.error('处理获取提及候选失败', error, 'WebviewMessageRouter');
+        });
+        break;
+
       // ========== 代码选择相关消息 ==========
       case MessageType.HICODE_CLEAR_SELECTION:
         // 兼容旧的 clearSelected 命令
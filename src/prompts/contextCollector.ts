@@ -40,7 +40,8 @@ export class ContextCollector implements IContextCollector {
       selection: '',
       current_file: '',
       current_file_path: '',
-      related_files: ''
+      related_files: '',
+      mentions: ''
     };
     
     // 如果消息包含代码上下文，提取相关信息
@@ -72,14 +73,28 @@ export class ContextCollector implements IContextCollector {
       
       // 提取相关文件信息
       if (ctx.relatedFiles && ctx.relatedFiles.length > 0) {
-        context.related_files = ctx.relatedFiles
-          .map(file => `${file.path}:\n${file.excerpt}`)
+        // 没有片段的相关文件只列出路径
+        const files = ctx.relatedFiles
+          .map(file => file.excerpt ? `${file.path}:\n\`\`\`\n${file.excerpt}\n\`\`\`` : file.path)
           .join('\n\n');
+        context.related_files = `Relevant code from the user's workspace:\n${files}`;
         this.logger.debug('提取相关文件', {
           fileCount: ctx.relatedFiles.length,
           totalLength: context.related_files.length
         });
       }
+      
+      // 提取 @ 提及的上下文
+      if (ctx.mentions && ctx.mentions.length > 0) {
+        const mentions = ctx.mentions
+          .map(mention => `${mention.label}:\n\`\`\`${mention.language || ''}\n${mention.content}\n\`\`\``)
+          .join('\n\n');
+        context.mentions = `Context explicitly referenced by the user:\n${mentions}`;
+        this.logger.debug('提取提及上下文', {
+          mentionCount: ctx.mentions.length,
+          totalLength: context.mentions.length
+        });
+      }
     }
     
     // TODO: 提取历史记录（需要从外部传入）
@@ -93,7 +108,8 @@ export class ContextCollector implements IContextCollector {
         language: !!context.language,
         selection: !!context.selection,
         current_file: !!context.current_file,
-        related_files: !!context.related_files
+        related_files: !!context.related_files,
+        mentions: !!context.mentions
       }
     });
     
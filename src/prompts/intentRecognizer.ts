@@ -102,7 +102,10 @@ Response:`;
       });
       
       // 3. 调用大模型进行意图识别
-      const currentModel = (this.apiClient as any).getCurrentModel?.() || 'default';
+      const currentModel = this.apiClient.getModelForFeature('intent');
+      if (!currentModel) {
+        throw new Error('未选择模型');
+      }
       this.logger.debug('调用大模型进行意图识别', { model: currentModel });
       
       const response = await this.apiClient.sendChatRequest({
@@ -115,7 +118,8 @@ Response:`;
         model: currentModel,
         stream: false,
         temperature: 0.1, // 低温度以获得更确定的结果
-        maxTokens: 50
+        maxTokens: 50,
+        feature: 'intent'
       });
       
       this.logger.debug('大模型响应接收', {
@@ -12,6 +12,7 @@ import {
   IIntentRecognizer,
   IContextCollector,
   ITemplateRenderer,
+  ISpecificationApplier,
   PromptManagerOptions,
   TemplateConfig,
   IntentType
@@ -26,6 +27,7 @@ import { getConfigManager } from '../extension';
  * - 协调模板注册表、意图识别器、上下文收集器、模板渲染器
  * - 支持多种使用模式（自动、指定意图、指定模板类型、组合）
  * - 提供错误处理和回退逻辑
+ * - 对用户消息应用产品级规范（可选）
  * - 替换 adapter 中的 enrichMessageContent 方法
  */
 export class PromptManager implements IPromptManager {
@@ -35,7 +37,8 @@ export class PromptManager implements IPromptManager {
     private readonly templateRegistry: ITemplateRegistry,
     private readonly intentRecognizer: IIntentRecognizer,
     private readonly contextCollector: IContextCollector,
-    private readonly templateRenderer: ITemplateRenderer
+    private readonly templateRenderer: ITemplateRenderer,
+    private readonly specificationApplier?: ISpecificationApplier
   ) {
     this.logger.info('PromptManager 初始化完成');
   }
@@ -48,6 +51,7 @@ export class PromptManager implements IPromptManager {
    * 2. 提供 intent：跳过意图识别，使用指定意图选择模板
    * 3. 提供 templateType：直接使用指定类型的模板
    * 4. 同时提供 intent 和 templateType：使用指定意图下的指定类型模板
+   * 5. 提供 skipIntentRecognition：不识别意图（不调用模型），未指定意图和模板类型时使用默认模板
    * 
    * @param message 聊天消息
    * @param options 可选配置
@@ -78,8 +82,9 @@ export class PromptManager implements IPromptManager {
       
       let template: TemplateConfig | undefined;
       if (chatMode === 'chat') {
-        if (!options) {
+        if (!options?.intent && !options?.templateType) {
           options = {
+            ...options,
             intent: undefined,
             templateType: 'hicode_common_chat_prompt_type'
           } as PromptManagerOptions;
@@ -87,7 +92,9 @@ export class PromptManager implements IPromptManager {
       }
       // 确定意图
       let intent: IntentType | undefined = options?.intent;
-      if (!intent && !options?.templateType) {
+      if (!intent && !options?.templateType && options?.skipIntentRecognition) {
+        this.logger.debug('跳过意图识别，使用默认模板');
+      } else if (!intent && !options?.templateType) {
         // 如果没有提供意图也没有提供模板类型，则需要识别意图
         this.logger.debug('未提供意图或模板类型，开始意图识别');
         intent = await this.intentRecognizer.recognizeIntent(message);
@@ -151,7 +158,12 @@ export class PromptManager implements IPromptManager {
         templateType: template.templateType,
         slotCount: template.slotConfig.length
       });
-      const enrichedContent = this.templateRenderer.render(template, context);
+      let enrichedContent = this.templateRenderer.render(template, context);
+      
+      // 应用产品级规范（只作用于用户消息，避免系统消息和助手消息重复注入）
+      if (this.specificationApplier && message.role === 'user') {
+        enrichedContent = this.specificationApplier.apply(enrichedContent, context);
+      }
       
       const duration = Date.now() - startTime;
       this.logger.info('消息丰富完成', {
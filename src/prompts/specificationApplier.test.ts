@@ -0,0 +1,88 @@
+/**
+ * SpecificationApplier 单元测试
+ * 验证每种 action 下渲染出的完整提示词
+ */
+
+jest.mock('vscode', () => ({}), { virtual: true });
+
+import { SpecificationApplier } from './specificationApplier';
+import { SpecificationConfig } from '../config/specificationManager';
+import { ContextData } from './types';
+
+const PROMPT = '请解释下面的代码：\nconst a = 1;';
+
+function createContext(overrides: Partial<ContextData> = {}): ContextData {
+  return {
+    user_query: '解释这段代码',
+    language: 'typescript',
+    history: '',
+    selection: 'const a = 1;',
+    current_file: 'const a = 1;\n',
+    current_file_path: 'src/index.ts',
+    related_files: '',
+    mentions: '',
+    ...overrides
+  };
+}
+
+function createApplier(specifications: SpecificationConfig[]): SpecificationApplier {
+  return new SpecificationApplier(() => specifications);
+}
+
+describe('SpecificationApplier', () => {
+  it('appends matching specifications to the rendered prompt', () => {
+    const applier = createApplier([
+      { id: 'naming', name: '命名规范', regex: '代码', action: 'append', content: '变量使用 camelCase 命名。', state: true }
+    ]);
+
+    expect(applier.apply(PROMPT, createContext())).toBe(
+      '请解释下面的代码：\nconst a = 1;\n\n变量使用 camelCase 命名。'
+    );
+  });
+
+  it('appends multiple specifications in configuration order', () => {
+    const applier = createApplier([
+      { id: 'first', name: '规范一', action: 'append', content: '规范一', state: true },
+      { id: 'second', name: '规范二', action: 'append', content: '规范二', state: true }
+    ]);
+
+    expect(applier.apply(PROMPT, createContext())).toBe(`${PROMPT}\n\n规范一\n\n规范二`);
+  });
+
+  it('replaces the whole prompt with the first matching replace specification', () => {
+    const applier = createApplier([
+      { id: 'review', name: '审查模板', regex: '\\.ts$', action: 'replace', content: '按团队规范审查 ${current_file_path}：\n${selection}', state: true },
+      { id: 'ignored', name: '第二个替换', action: 'replace', content: '不会生效', state: true }
+    ]);
+
+    expect(applier.apply(PROMPT, createContext())).toBe('按团队规范审查 src/index.ts：\nconst a = 1;');
+  });
+
+  it('appends to the replaced prompt when both actions match', () => {
+    const applier = createApplier([
+      { id: 'footer', name: '结尾', action: 'append', content: '使用中文回答。', state: true },
+      { id: 'replace', name: '替换', action: 'replace', content: '问题：${user_query}', state: true }
+    ]);
+
+    expect(applier.apply(PROMPT, createContext())).toBe('问题：解释这段代码\n\n使用中文回答。');
+  });
+
+  it('leaves the prompt unchanged when no specification applies', () => {
+    const applier = createApplier([
+      { id: 'python', name: 'Python', regex: '\\.py$', action: 'append', content: '遵循 PEP 8。', state: true },
+      { id: 'disabled', name: '已禁用', action: 'append', content: '不会生效', state: false },
+      { id: 'empty', name: '空内容', action: 'replace', content: '   ', state: true },
+      { id: 'invalid', name: '非法正则', regex: '(', action: 'append', content: '不会生效', state: true }
+    ]);
+
+    expect(applier.apply(PROMPT, createContext())).toBe(PROMPT);
+  });
+
+  it('keeps unknown slots in specification content', () => {
+    const applier = createApplier([
+      { id: 'slots', name: '槽位', action: 'append', content: '语言：${language}，未知：${unknown_slot}', state: true }
+    ]);
+
+    expect(applier.apply(PROMPT, createContext())).toBe(`${PROMPT}\n\n语言：typescript，未知：\${unknown_slot}`);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * 规范应用器
+ *
+ * 负责将用户配置的产品级规范（SpecificationConfig）应用到发送给模型的提示词
+ */
+
+import { ISpecificationApplier, ContextData } from './types';
+import { SpecificationConfig } from '../config/specificationManager';
+import { createLogger } from '../utils/logger';
+
+/**
+ * 规范来源
+ * 每次应用时调用，保证读取到最新的规范配置
+ */
+export type SpecificationSource = () => SpecificationConfig[];
+
+/**
+ * 参与正则匹配的上下文字段
+ */
+const MATCH_FIELDS = ['user_query', 'selection', 'current_file_path'] as const;
+
+/**
+ * 规范应用器实现类
+ *
+ * 功能：
+ * - 过滤出启用且有内容的规范
+ * - 使用规范的正则表达式匹配用户查询、选中代码和当前文件路径
+ * - 按 action 追加或替换提示词内容
+ * - 规范内容支持与模板相同的 ${slot_name} 槽位
+ * - 缓存编译后的正则表达式，非法正则只记录警告并跳过
+ */
+export class SpecificationApplier implements ISpecificationApplier {
+  private logger = createLogger('SpecificationApplier');
+
+  // 缓存编译后的正则表达式，key: 正则源字符串，null 表示编译失败
+  private regexCache: Map<string, RegExp | null> = new Map();
+
+  /**
+   * 构造函数
+   * @param source 规范来源
+   */
+  constructor(private readonly source: SpecificationSource) {
+    this.logger.info('SpecificationApplier 初始化完成');
+  }
+
+  /**
+   * 应用规范
+   * @param prompt 模板渲染后的提示词
+   * @param context 上下文数据
+   * @returns 应用规范后的提示词
+   */
+  apply(prompt: string, context: ContextData): string {
+    let specifications: SpecificationConfig[];
+    try {
+      specifications = this.source();
+    } catch (error) {
+      this.logger.warn('读取产品级规范失败，跳过规范应用', error);
+      return prompt;
+    }
+
+    const matched = specifications.filter(spec => this.isApplicable(spec, context));
+    if (matched.length === 0) {
+      return prompt;
+    }
+
+    // 第一条命中的 replace 规范替换整个提示词，其余 replace 规范忽略
+    const replacement = matched.find(spec => spec.action === 'replace');
+    let result = replacement ? this.renderContent(replacement.content!, context) : prompt;
+
+    // append 规范按配置顺序追加到末尾
+    const appended = matched
+      .filter(spec => spec.action !== 'replace')
+      .map(spec => this.renderContent(spec.content!, context));
+    if (appended.length > 0) {
+      result = `${result}\n\n${appended.join('\n\n')}`;
+    }
+
+    this.logger.info('产品级规范应用完成', {
+      matchedCount: matched.length,
+      replacedBy: replacement?.id,
+      appendedCount: appended.length,
+      specIds: matched.map(spec => spec.id)
+    });
+
+    return result;
+  }
+
+  /**
+   * 判断规范是否适用于当前上下文
+   * @param spec 规范配置
+   * @param context 上下文数据
+   * @returns 是否适用
+   */
+  private isApplicable(spec: SpecificationConfig, context: ContextData): boolean {
+    // state 未设置时视为启用，与 SpecificationManager 的默认值保持一致
+    if (spec.state === false || !spec.content || spec.content.trim() === '') {
+      return false;
+    }
+
+    if (!spec.regex) {
+      return true;
+    }
+
+    const regex = this.getRegex(spec);
+    if (!regex) {
+      return false;
+    }
+
+    return MATCH_FIELDS.some(field => {
+      const value = context[field];
+      return !!value && regex.test(value);
+    });
+  }
+
+  /**
+   * 获取规范的正则表达式（带缓存）
+   *
+   * 不使用全局标志，避免 test() 的 lastIndex 状态影响后续匹配
+   *
+   * @param spec 规范配置
+   * @returns 编译后的正则表达式，编译失败返回 null
+   */
+  private getRegex(spec: SpecificationConfig): RegExp | null {
+    const source = spec.regex!;
+    if (!this.regexCache.has(source)) {
+      try {
+        this.regexCache.set(source, new RegExp(source));
+      } catch (error) {
+        this.logger.warn('规范正则表达式无效，已跳过', { specId: spec.id, regex: source });
+        this.regexCache.set(source, null);
+      }
+    }
+    return this.regexCache.get(source)!;
+  }
+
+  /**
+   * 替换规范内容中的 ${slot_name} 槽位
+   *
+   * 只替换上下文中存在的字段，未知槽位保持原样
+   *
+   * @param content 规范内容
+   * @param context 上下文数据
+   * @returns 替换后的内容
+   */
+  private renderContent(content: string, context: ContextData): string {
+    return content.replace(/\$\{([a-zA-Z0-9_]+)\}/g, (match, name: string) => {
+      if (Object.prototype.hasOwnProperty.call(context, name)) {
+        const value = context[name];
+        return value !== undefined && value !== null ? String(value) : '';
+      }
+      return match;
+    });
+  }
+}
@@ -23,6 +23,8 @@ Do not prefix your answer with "HiCode".
 \${history}
 The user has a \${language} file opened in a code editor.
 The user includes some code snippets from the file.
+\${related_files}
+\${mentions}
 Answer with a single \${language} code block.
 If the user's question does not involve code-related content, please forget all the above constraints and respond as you would to a general question.
 Respond in the following locale: zh.
@@ -42,6 +44,18 @@ Please Based on the above info to answer the user's query directly.`,
         defaultValue: '',
         required: false
       },
+      {
+        name: 'related_files',
+        sourcePath: 'related_files',
+        defaultValue: '',
+        required: false
+      },
+      {
+        name: 'mentions',
+        sourcePath: 'mentions',
+        defaultValue: '',
+        required: false
+      },
       {
         name: 'user_query',
         sourcePath: 'user_query',
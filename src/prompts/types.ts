@@ -73,6 +73,8 @@ export interface ContextData {
   current_file_path: string;
   /** 相关文件信息 */
   related_files: string;
+  /** 用户通过 @ 提及引用的上下文 */
+  mentions: string;
   /** 其他自定义字段 */
   [key: string]: string;
 }
@@ -108,6 +110,8 @@ export interface PromptManagerOptions {
   intent?: IntentType;
   /** 直接指定模板类型（可选） */
   templateType?: string;
+  /** 是否跳过意图识别（可选，意图识别会调用模型；跳过时未指定意图和模板类型则使用默认模板） */
+  skipIntentRecognition?: boolean;
 }
 
 /**
@@ -214,3 +218,23 @@ export interface IPromptManager {
    */
   enrichMessageContent(message: ChatMessage, options?: PromptManagerOptions): Promise<string>;
 }
+
+/**
+ * 规范应用器接口
+ * 负责将启用的产品级规范（SpecificationConfig）应用到渲染后的提示词
+ */
+export interface ISpecificationApplier {
+  /**
+   * 应用规范
+   * @param prompt 模板渲染后的提示词
+   * @param context 上下文数据（用于正则匹配和规范内容的槽位替换）
+   * @returns 应用规范后的提示词
+   * 
+   * 应用规则：
+   * 1. 只处理 state 不为 false 且 content 非空的规范
+   * 2. regex 为空表示对所有请求生效，否则匹配 user_query、selection、current_file_path 任一字段
+   * 3. action 为 replace 时，第一条命中的规范内容替换整个提示词
+   * 4. action 为 append（默认）时，命中的规范内容依次追加到提示词末尾
+   */
+  apply(prompt: string, context: ContextData): string;
+}
@@ -0,0 +1,194 @@
+/**
+ * 自适应补全策略单元测试
+ * 验证触发上下文判断，以及根据补全结果调整抑制、防抖延迟和补全长度
+ */
+
+import { AdaptiveCompletionPolicy, CompletionOutcome, detectTriggerContext } from './completionAdaptation';
+
+describe('detectTriggerContext', () => {
+  it.each([
+    ['const a = ', 'code'],
+    ['// 计算总和\nconst total = ', 'code'],
+    ['const a = 1; // 计算', 'comment'],
+    ['/**\n * 计算总和\n * ', 'comment'],
+    ['/* 计算 */ const a = ', 'code'],
+    ['const message = "hello ', 'string'],
+    ["const message = 'it\\'s ", 'string'],
+    ['const html = `\n<div>', 'string'],
+    ['const url = "http://example.com"; ', 'code'],
+    ["include: ['src/**/*.ts'], ", 'code'],
+    ["include: ['src/**/*.ts'],\nexclude: ['", 'string'],
+    ['// don\'t\nconst a = ', 'code'],
+    ['/* "unterminated */ const a = ', 'code']
+  ])('detects %j as %s', (prefix, expected) => {
+    expect(detectTriggerContext(prefix, 'typescript')).toBe(expected);
+  });
+
+  it('uses the line comment marker of the language', () => {
+    expect(detectTriggerContext('x = 1  # 注释', 'python')).toBe('comment');
+    expect(detectTriggerContext('SELECT * FROM t -- 注释', 'sql')).toBe('comment');
+    expect(detectTriggerContext('url = "http://a" # ', 'python')).toBe('comment');
+    expect(detectTriggerContext('path = "a#b" + ', 'python')).toBe('code');
+  });
+});
+
+/**
+ * 记录一批补全结果
+ * @param accepted 其中被接受的数量（排在前面）
+ */
+function record(
+  policy: AdaptiveCompletionPolicy,
+  count: number,
+  accepted: number,
+  overrides: Partial<CompletionOutcome> | ((index: number) => Partial<CompletionOutcome>) = {}
+): void {
+  for (let index = 0; index < count; index++) {
+    policy.recordOutcome({
+      accepted: index < accepted,
+      language: 'typescript',
+      file: '/repo/a.ts',
+      triggerContext: 'code',
+      model: 'deepseek-coder',
+      lines: 1,
+      timestamp: index,
+      ...(typeof overrides === 'function' ? overrides(index) : overrides)
+    });
+  }
+}
+
+describe('AdaptiveCompletionPolicy', () => {
+  describe('shouldSuppress', () => {
+    it('does not suppress without enough samples', () => {
+      const policy = new AdaptiveCompletionPolicy(300);
+      record(policy, 19, 0, { triggerContext: 'comment' });
+
+      expect(policy.shouldSuppress('typescript', '/repo/a.ts', 'comment')).toBe(false);
+    });
+
+    it('suppresses a low-acceptance context and lets every tenth request through as a probe', () => {
+      const policy = new AdaptiveCompletionPolicy(300);
+      record(policy, 20, 1, index => ({ triggerContext: 'comment', file: `/repo/f${index}.ts` }));
+
+      const decisions = Array.from({ length: 20 }, () => policy.shouldSuppress('typescript', '/repo/a.ts', 'comment'));
+      expect(decisions.filter(suppressed => !suppressed)).toHaveLength(2);
+      expect(decisions[9]).toBe(false);
+      expect(decisions[19]).toBe(false);
+
+      // 同一语言的其他上下文不受影响
+      expect(policy.shouldSuppress('typescript', '/repo/a.ts', 'code')).toBe(false);
+    });
+
+    it('suppresses a low-acceptance file even when its language is doing well', () => {
+      const policy = new AdaptiveCompletionPolicy(300);
+      record(policy, 20, 0, { file: '/repo/generated.ts' });
+      record(policy, 20, 20, { file: '/repo/b.ts' });
+
+      expect(policy.shouldSuppress('typescript', '/repo/generated.ts', 'code')).toBe(true);
+      expect(policy.shouldSuppress('typescript', '/repo/b.ts', 'code')).toBe(false);
+    });
+
+    it('stops suppressing once the acceptance rate recovers', () => {
+      const policy = new AdaptiveCompletionPolicy(300);
+      record(policy, 20, 0, { triggerContext: 'string' });
+      expect(policy.shouldSuppress('typescript', '/repo/a.ts', 'string')).toBe(true);
+
+      record(policy, 5, 5, { triggerContext: 'string' });
+      expect(policy.shouldSuppress('typescript', '/repo/a.ts', 'string')).toBe(false);
+    });
+
+    it('never suppresses when adaptation is disabled', () => {
+      const policy = new AdaptiveCompletionPolicy(300, false);
+      record(policy, 20, 0, { triggerContext: 'comment' });
+
+      expect(policy.shouldSuppress('typescript', '/repo/a.ts', 'comment')).toBe(false);
+    });
+  });
+
+  describe('getDebounceDelay', () => {
+    it('uses the base delay without enough samples', () => {
+      const policy = new AdaptiveCompletionPolicy(300);
+      record(policy, 19, 0);
+
+      expect(policy.getDebounceDelay('typescript')).toBe(300);
+    });
+
+    it.each([
+      [0, 600],
+      [2, 600],
+      [6, 390],
+      [10, 180],
+      [20, 180]
+    ])('scales the delay with %d of 20 completions accepted', (accepted, delay) => {
+      const policy = new AdaptiveCompletionPolicy(300);
+      record(policy, 20, accepted);
+
+      expect(policy.getDebounceDelay('typescript')).toBe(delay);
+      expect(policy.getDebounceDelay('python')).toBe(300);
+    });
+
+    it('uses the base delay when adaptation is disabled and follows base delay changes', () => {
+      const policy = new AdaptiveCompletionPolicy(300, false);
+      record(policy, 20, 0);
+      expect(policy.getDebounceDelay('typescript')).toBe(300);
+
+      policy.setBaseDebounceDelay(500);
+      expect(policy.getDebounceDelay('typescript')).toBe(500);
+    });
+  });
+
+  describe('getMaxLines', () => {
+    it('falls back to single-line completions when multi-line ones are rejected much more often', () => {
+      const policy = new AdaptiveCompletionPolicy(300);
+      record(policy, 20, 10, { lines: 1 });
+      record(policy, 20, 2, { lines: 5 });
+
+      expect(policy.getMaxLines('typescript')).toBe(1);
+      expect(policy.getMaxLines('python')).toBeUndefined();
+    });
+
+    it('keeps multi-line completions when their acceptance rate is comparable or samples are few', () => {
+      const comparable = new AdaptiveCompletionPolicy(300);
+      record(comparable, 20, 10, { lines: 1 });
+      record(comparable, 20, 6, { lines: 5 });
+      expect(comparable.getMaxLines('typescript')).toBeUndefined();
+
+      const few = new AdaptiveCompletionPolicy(300);
+      record(few, 20, 10, { lines: 1 });
+      record(few, 19, 0, { lines: 5 });
+      expect(few.getMaxLines('typescript')).toBeUndefined();
+    });
+  });
+
+  describe('getReport', () => {
+    it('reports acceptance by dimension and the active adaptations', () => {
+      const policy = new AdaptiveCompletionPolicy(300);
+      record(policy, 20, 10, { model: 'deepseek-coder', lines: 1 });
+      record(policy, 20, 0, index => ({ model: 'qwen', triggerContext: 'comment', file: `/repo/f${index}.ts`, lines: 3 }));
+
+      const report = policy.getReport();
+
+      expect(report.total).toEqual({ shown: 40, accepted: 10, acceptanceRate: 0.25 });
+      expect(report.byModel['deepseek-coder']).toEqual({ shown: 20, accepted: 10, acceptanceRate: 0.5 });
+      expect(report.byModel.qwen).toEqual({ shown: 20, accepted: 0, acceptanceRate: 0 });
+      expect(report.byTriggerContext.comment.shown).toBe(20);
+      expect(report.byLength.singleLine.acceptanceRate).toBe(0.5);
+      expect(report.byLength.multiLine.acceptanceRate).toBe(0);
+      expect(report.adaptation).toEqual({
+        enabled: true,
+        debounceDelay: { typescript: 443 },
+        suppressed: ['typescript:comment'],
+        singleLineOnly: ['typescript']
+      });
+    });
+
+    it('reports no adaptations when disabled and clears statistics', () => {
+      const policy = new AdaptiveCompletionPolicy(300, false);
+      record(policy, 20, 0, { triggerContext: 'comment' });
+
+      expect(policy.getReport().adaptation).toMatchObject({ enabled: false, suppressed: [], singleLineOnly: [] });
+
+      policy.clear();
+      expect(policy.getReport().total.shown).toBe(0);
+    });
+  });
+});
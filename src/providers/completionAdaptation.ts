@@ -0,0 +1,381 @@
+/**
+ * 自适应补全策略
+ * 根据补全的接受/拒绝情况调整补全行为：
+ * - 按语言调整防抖延迟（接受率高时更快触发，接受率低时减少打扰）
+ * - 在拒绝率高的上下文（如注释、字符串）中抑制自动补全
+ * - 多行补全经常被拒绝时只返回单行补全
+ */
+
+/**
+ * 补全触发上下文
+ */
+export type CompletionTriggerContext = 'code' | 'comment' | 'string';
+
+/**
+ * 补全结果记录
+ */
+export interface CompletionOutcome {
+  /** 是否被接受（包括部分接受） */
+  accepted: boolean;
+  /** 文档语言 */
+  language: string;
+  /** 文件路径 */
+  file: string;
+  /** 触发上下文 */
+  triggerContext: CompletionTriggerContext;
+  /** 生成补全的模型 */
+  model: string;
+  /** 补全行数 */
+  lines: number;
+  /** 记录时间 */
+  timestamp: number;
+}
+
+/**
+ * 接受率统计
+ */
+export interface OutcomeStats {
+  /** 显示的补全数 */
+  shown: number;
+  /** 被接受的补全数 */
+  accepted: number;
+  /** 接受率（0-1） */
+  acceptanceRate: number;
+}
+
+/**
+ * 补全统计报告
+ */
+export interface CompletionReport {
+  /** 生成时间 */
+  generatedAt: string;
+  /** 总体统计 */
+  total: OutcomeStats;
+  /** 按模型统计 */
+  byModel: Record<string, OutcomeStats>;
+  /** 按语言统计 */
+  byLanguage: Record<string, OutcomeStats>;
+  /** 按触发上下文统计 */
+  byTriggerContext: Record<string, OutcomeStats>;
+  /** 按文件统计 */
+  byFile: Record<string, OutcomeStats>;
+  /** 按补全长度统计 */
+  byLength: {
+    singleLine: OutcomeStats;
+    multiLine: OutcomeStats;
+  };
+  /** 当前生效的自适应调整 */
+  adaptation: {
+    enabled: boolean;
+    /** 各语言的防抖延迟（毫秒） */
+    debounceDelay: Record<string, number>;
+    /** 被抑制自动补全的上下文（语言:上下文 或 文件路径） */
+    suppressed: string[];
+    /** 只返回单行补全的语言 */
+    singleLineOnly: string[];
+  };
+}
+
+/** 保留的最近补全结果数（滑动窗口） */
+const MAX_OUTCOMES = 2000;
+/** 做出调整前每个统计维度需要的最少样本数 */
+const MIN_SAMPLES = 20;
+/** 接受率低于该值时抑制该上下文的自动补全 */
+const SUPPRESS_RATE = 0.1;
+/** 被抑制的上下文每隔多少次请求放行一次，以便接受率回升后恢复补全 */
+const PROBE_INTERVAL = 10;
+/** 防抖延迟的调整范围（相对于基础延迟的倍数） */
+const MIN_DEBOUNCE_FACTOR = 0.6;
+const MAX_DEBOUNCE_FACTOR = 2;
+/** 接受率达到该值时使用最短防抖延迟 */
+const HIGH_ACCEPTANCE_RATE = 0.5;
+/** 多行补全接受率低于单行补全的该比例时只返回单行补全 */
+const MULTILINE_PENALTY_RATIO = 0.5;
+
+/** 使用 # 作为行注释的语言 */
+const HASH_COMMENT_LANGUAGES = new Set([
+  'python', 'shellscript', 'ruby', 'perl', 'r', 'yaml', 'toml', 'dockerfile', 'makefile', 'powershell', 'coffeescript'
+]);
+/** 使用 -- 作为行注释的语言 */
+const DASH_COMMENT_LANGUAGES = new Set(['sql', 'lua', 'haskell']);
+
+/**
+ * 判断光标所处的触发上下文
+ * 从头扫描光标前的代码，同时跟踪字符串和注释：字符串中的 /* 和 // 不算注释，
+ * 注释中的引号也不算字符串。单双引号字符串在行尾结束，模板字符串和块注释可以跨行
+ * @param prefix 光标前的代码
+ * @param language 文档语言
+ * @returns 触发上下文
+ */
+export function detectTriggerContext(prefix: string, language: string): CompletionTriggerContext {
+  const lineComment = HASH_COMMENT_LANGUAGES.has(language)
+    ? '#'
+    : DASH_COMMENT_LANGUAGES.has(language) ? '--' : '//';
+
+  let quote: string | null = null;
+  let inLineComment = false;
+  let inBlockComment = false;
+
+  for (let i = 0; i < prefix.length; i++) {
+    const ch = prefix[i];
+    if (inBlockComment) {
+      if (prefix.startsWith('*/', i)) {
+        inBlockComment = false;
+        i++;
+      }
+      continue;
+    }
+    if (ch === '\n') {
+      inLineComment = false;
+      if (quote !== '`') {
+        quote = null;
+      }
+      continue;
+    }
+    if (inLineComment) {
+      continue;
+    }
+    if (quote) {
+      if (ch === '\\') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (ch === '"' || ch === '\'' || ch === '`') {
+      quote = ch;
+    } else if (prefix.startsWith('/*', i)) {
+      inBlockComment = true;
+      i++;
+    } else if (prefix.startsWith(lineComment, i)) {
+      inLineComment = true;
+    }
+  }
+
+  if (inLineComment || inBlockComment) {
+    return 'comment';
+  }
+  return quote ? 'string' : 'code';
+}
+
+/**
+ * 自适应补全策略
+ * 记录最近的补全结果，按语言、文件和触发上下文统计接受率并据此调整补全行为
+ */
+export class AdaptiveCompletionPolicy {
+  private outcomes: CompletionOutcome[] = [];
+  private baseDebounceDelay: number;
+  private enabled: boolean;
+  private suppressedRequests: Map<string, number> = new Map();
+
+  /**
+   * 构造函数
+   * @param baseDebounceDelay 基础防抖延迟（毫秒）
+   * @param enabled 是否启用自适应调整，禁用时仍记录统计
+   */
+  constructor(baseDebounceDelay: number, enabled: boolean = true) {
+    this.baseDebounceDelay = baseDebounceDelay;
+    this.enabled = enabled;
+  }
+
+  /**
+   * 记录补全结果
+   * @param outcome 补全结果
+   */
+  recordOutcome(outcome: CompletionOutcome): void {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > MAX_OUTCOMES) {
+      this.outcomes.shift();
+    }
+  }
+
+  /**
+   * 是否抑制自动补全
+   * 语言+触发上下文或文件的接受率过低时抑制，每隔若干次请求放行一次以重新评估
+   * @param language 文档语言
+   * @param file 文件路径
+   * @param triggerContext 触发上下文
+   */
+  shouldSuppress(language: string, file: string, triggerContext: CompletionTriggerContext): boolean {
+    if (!this.enabled) {
+      return false;
+    }
+
+    const key = this.getSuppressionKey(language, file, triggerContext);
+    if (!key) {
+      this.suppressedRequests.delete(`${language}:${triggerContext}`);
+      this.suppressedRequests.delete(file);
+      return false;
+    }
+
+    const count = (this.suppressedRequests.get(key) || 0) + 1;
+    this.suppressedRequests.set(key, count);
+    return count % PROBE_INTERVAL !== 0;
+  }
+
+  /**
+   * 获取防抖延迟
+   * 接受率越高延迟越短，样本不足时使用基础延迟
+   * @param language 文档语言
+   * @returns 防抖延迟（毫秒）
+   */
+  getDebounceDelay(language: string): number {
+    if (!this.enabled) {
+      return this.baseDebounceDelay;
+    }
+
+    const stats = this.getStats(outcome => outcome.language === language);
+    if (stats.shown < MIN_SAMPLES) {
+      return this.baseDebounceDelay;
+    }
+
+    const ratio = Math.min(
+      Math.max((stats.acceptanceRate - SUPPRESS_RATE) / (HIGH_ACCEPTANCE_RATE - SUPPRESS_RATE), 0),
+      1
+    );
+    const factor = MAX_DEBOUNCE_FACTOR - ratio * (MAX_DEBOUNCE_FACTOR - MIN_DEBOUNCE_FACTOR);
+    return Math.round(this.baseDebounceDelay * factor);
+  }
+
+  /**
+   * 获取补全的最大行数
+   * 该语言的多行补全接受率明显低于单行补全时只返回单行补全
+   * @param language 文档语言
+   * @returns 最大行数，不限制时返回 undefined
+   */
+  getMaxLines(language: string): number | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+    return this.isSingleLineOnly(language) ? 1 : undefined;
+  }
+
+  /**
+   * 设置基础防抖延迟
+   * @param delay 延迟时间（毫秒）
+   */
+  setBaseDebounceDelay(delay: number): void {
+    this.baseDebounceDelay = delay;
+  }
+
+  /**
+   * 生成补全统计报告
+   * 用于比较不同模型、语言和上下文下的补全质量
+   */
+  getReport(): CompletionReport {
+    const languages = this.distinct(outcome => outcome.language);
+    const files = this.distinct(outcome => outcome.file);
+
+    const suppressed: string[] = [];
+    for (const language of languages) {
+      for (const triggerContext of ['code', 'comment', 'string'] as CompletionTriggerContext[]) {
+        const key = `${language}:${triggerContext}`;
+        if (this.isLowAcceptance(outcome => outcome.language === language && outcome.triggerContext === triggerContext)) {
+          suppressed.push(key);
+        }
+      }
+    }
+    suppressed.push(...files.filter(file => this.isLowAcceptance(outcome => outcome.file === file)));
+
+    return {
+      generatedAt: new Date().toISOString(),
+      total: this.getStats(() => true),
+      byModel: this.groupStats(outcome => outcome.model),
+      byLanguage: this.groupStats(outcome => outcome.language),
+      byTriggerContext: this.groupStats(outcome => outcome.triggerContext),
+      byFile: this.groupStats(outcome => outcome.file),
+      byLength: {
+        singleLine: this.getStats(outcome => outcome.lines <= 1),
+        multiLine: this.getStats(outcome => outcome.lines > 1)
+      },
+      adaptation: {
+        enabled: this.enabled,
+        debounceDelay: Object.fromEntries(languages.map(language => [language, this.getDebounceDelay(language)])),
+        suppressed: this.enabled ? suppressed : [],
+        singleLineOnly: this.enabled ? languages.filter(language => this.isSingleLineOnly(language)) : []
+      }
+    };
+  }
+
+  /**
+   * 清空统计
+   */
+  clear(): void {
+    this.outcomes = [];
+    this.suppressedRequests.clear();
+  }
+
+  /**
+   * 获取需要抑制的统计维度
+   * @returns 接受率过低的维度，不需要抑制时返回 null
+   */
+  private getSuppressionKey(
+    language: string,
+    file: string,
+    triggerContext: CompletionTriggerContext
+  ): string | null {
+    if (this.isLowAcceptance(outcome => outcome.language === language && outcome.triggerContext === triggerContext)) {
+      return `${language}:${triggerContext}`;
+    }
+    if (this.isLowAcceptance(outcome => outcome.file === file)) {
+      return file;
+    }
+    return null;
+  }
+
+  /**
+   * 是否只返回单行补全
+   */
+  private isSingleLineOnly(language: string): boolean {
+    const multiLine = this.getStats(outcome => outcome.language === language && outcome.lines > 1);
+    const singleLine = this.getStats(outcome => outcome.language === language && outcome.lines <= 1);
+    if (multiLine.shown < MIN_SAMPLES || singleLine.shown < MIN_SAMPLES) {
+      return false;
+    }
+    return multiLine.acceptanceRate < singleLine.acceptanceRate * MULTILINE_PENALTY_RATIO;
+  }
+
+  /**
+   * 满足条件的补全样本充足且接受率过低
+   */
+  private isLowAcceptance(predicate: (outcome: CompletionOutcome) => boolean): boolean {
+    const stats = this.getStats(predicate);
+    return stats.shown >= MIN_SAMPLES && stats.acceptanceRate < SUPPRESS_RATE;
+  }
+
+  /**
+   * 统计满足条件的补全结果
+   */
+  private getStats(predicate: (outcome: CompletionOutcome) => boolean): OutcomeStats {
+    let shown = 0;
+    let accepted = 0;
+    for (const outcome of this.outcomes) {
+      if (predicate(outcome)) {
+        shown++;
+        if (outcome.accepted) {
+          accepted++;
+        }
+      }
+    }
+    return { shown, accepted, acceptanceRate: shown > 0 ? accepted / shown : 0 };
+  }
+
+  /**
+   * 按维度分组统计
+   */
+  private groupStats(keyOf: (outcome: CompletionOutcome) => string): Record<string, OutcomeStats> {
+    const result: Record<string, OutcomeStats> = {};
+    for (const key of this.distinct(keyOf)) {
+      result[key] = this.getStats(outcome => keyOf(outcome) === key);
+    }
+    return result;
+  }
+
+  /**
+   * 获取维度的所有取值
+   */
+  private distinct(keyOf: (outcome: CompletionOutcome) => string): string[] {
+    return Array.from(new Set(this.outcomes.map(keyOf)));
+  }
+}
@@ -8,6 +8,9 @@
 import { APIClientManager } from '../api/client';
 import { ContextManager } from '../context/manager';
 import { CodeContext, CompletionSuggestion } from '../api/types';
+import { MAX_PREFIX_LINES, MAX_SUFFIX_LINES } from '../api/fim';
+import { AdaptiveCompletionPolicy, CompletionReport, detectTriggerContext } from './completionAdaptation';
+import { egressPolicy } from '../security/egressPolicy';
 
 /**
  * VSCode补全项类型（模拟）
@@ -128,6 +131,7 @@ interface RejectionRecord {
  * 实现代码补全功能，集成API Client和Context Manager
  * 包含性能优化：防抖、请求取消、结果缓存
  * 包含拒绝记录：跟踪用户拒绝的补全建议
+ * 包含自适应调整：根据接受率调整防抖延迟、抑制低接受率上下文、限制补全长度
  */
 export class AICompletionProvider {
   private apiClient: APIClientManager;
@@ -147,26 +151,31 @@ export class AICompletionProvider {
   private maxRejectionRecords: number = 1000; // 最大记录数
   private lastProvidedSuggestions: Map<string, CompletionItem[]> = new Map();
 
+  // 自适应调整相关
+  private policy: AdaptiveCompletionPolicy;
+
   /**
    * 构造函数
    * @param apiClient API客户端管理器
    * @param contextManager 上下文管理器
    * @param debounceDelay 防抖延迟（毫秒），默认300ms
+   * @param adaptive 是否根据接受率自适应调整补全行为，默认启用
    */
   constructor(
     apiClient: APIClientManager,
     contextManager: ContextManager,
-    debounceDelay: number = 300
+    debounceDelay: number = 300,
+    adaptive: boolean = true
   ) {
     this.apiClient = apiClient;
     this.contextManager = contextManager;
     this.debounceDelay = debounceDelay;
+    this.policy = new AdaptiveCompletionPolicy(debounceDelay, adaptive);
   }
 
   /**
    * 提供补全项
    * 这是VSCode CompletionItemProvider接口的核心方法
-   * 包含防抖、缓存和请求取消优化
    * 
    * @param document 当前文档
    * @param position 光标位置
@@ -179,6 +188,35 @@ export class AICompletionProvider {
     position: Position,
     token: CancellationToken,
     context: CompletionContext
+  ): Promise<CompletionItem[]> {
+    const items = await this.requestCompletions(document, position, token, undefined, context.triggerKind === 0);
+
+    // 存储建议以便跟踪拒绝
+    if (items.length > 0) {
+      const { prefix, suffix } = this.extractPrefixAndSuffix(document, position);
+      this.lastProvidedSuggestions.set(this.generateCacheKey(document, position, prefix, suffix), items);
+    }
+
+    return items;
+  }
+
+  /**
+   * 请求补全项
+   * 补全下拉列表和内联幽灵文本共用的请求流程，包含防抖、缓存和请求取消优化
+   * 
+   * @param document 当前文档
+   * @param position 光标位置
+   * @param token 取消令牌
+   * @param onPartial 流式生成时接收当前已生成补全文本的回调（可选，缓存命中时不回调）
+   * @param explicit 是否由用户手动触发，手动触发时不抑制补全
+   * @returns 补全项列表
+   */
+  async requestCompletions(
+    document: TextDocument,
+    position: Position,
+    token: CancellationToken,
+    onPartial?: (text: string) => void,
+    explicit: boolean = false
   ): Promise<CompletionItem[]> {
     try {
       // 检查是否已取消
@@ -186,8 +224,21 @@ export class AICompletionProvider {
         return [];
       }
 
-      // 生成缓存键
+      // 被数据外发策略（.hicodeignore）排除的文件不请求补全
+      if (egressPolicy.isBlocked(document.uri.fsPath)) {
+        return [];
+      }
+
       const { prefix, suffix } = this.extractPrefixAndSuffix(document, position);
+      const language = document.languageId;
+
+      // 接受率过低的上下文（如注释、字符串）不自动补全
+      const triggerContext = detectTriggerContext(prefix, language);
+      if (!explicit && this.policy.shouldSuppress(language, document.uri.fsPath, triggerContext)) {
+        return [];
+      }
+
+      // 生成缓存键
       const cacheKey = this.generateCacheKey(document, position, prefix, suffix);
 
       // 检查缓存
@@ -222,11 +273,15 @@ export class AICompletionProvider {
           return [];
         }
 
+        // 多行补全接受率低时只保留首行
+        const maxLines = this.policy.getMaxLines(language);
+
         // 调用API获取补全建议
         const suggestions = await this.apiClient.sendCompletionRequest(
           codeContext,
           prefix,
-          suffix
+          suffix,
+          onPartial && (text => onPartial(this.limitLines(text, maxLines)))
         );
 
         // 检查是否已取消
@@ -235,16 +290,16 @@ export class AICompletionProvider {
         }
 
         // 转换为VSCode补全项
-        const items = suggestions.map(s => this.convertToCompletionItem(s, position));
+        const items = suggestions.map(s => this.convertToCompletionItem(
+          { ...s, text: this.limitLines(s.text, maxLines) },
+          position
+        ));
 
         // 缓存结果
         this.addToCache(cacheKey, items);
 
-        // 存储建议以便跟踪拒绝
-        this.lastProvidedSuggestions.set(cacheKey, items);
-
         return items;
-      });
+      }, this.policy.getDebounceDelay(language));
 
       return debouncedRequest;
     } catch (error) {
@@ -298,20 +353,20 @@ export class AICompletionProvider {
    * @param position 光标位置
    * @returns 前缀和后缀
    */
-  private extractPrefixAndSuffix(
+  public extractPrefixAndSuffix(
     document: TextDocument,
     position: Position
   ): { prefix: string; suffix: string } {
-    // 获取光标前10行的代码作为前缀
-    const startLine = Math.max(0, position.line - 10);
+    // 获取光标前的代码作为前缀（FIM 补全需要较长的前文）
+    const startLine = Math.max(0, position.line - MAX_PREFIX_LINES);
     const prefixRange: Range = {
       start: { line: startLine, character: 0 },
       end: position
     };
     const prefix = document.getText(prefixRange);
 
-    // 获取光标后10行的代码作为后缀
-    const endLine = Math.min(document.lineCount - 1, position.line + 10);
+    // 获取光标后的代码作为后缀
+    const endLine = Math.min(document.lineCount - 1, position.line + MAX_SUFFIX_LINES);
     const suffixRange: Range = {
       start: position,
       end: { line: endLine, character: document.lineAt(endLine).text.length }
@@ -336,8 +391,9 @@ export class AICompletionProvider {
     // 解析kind字符串为CompletionItemKind枚举
     const kind = this.parseCompletionKind(suggestion.kind);
 
+    // 多行补全以首行作为标签，插入完整文本
     const item: CompletionItem = {
-      label: suggestion.text,
+      label: suggestion.text.split('\n').find(line => line.trim() !== '')?.trim() || suggestion.text,
       kind: kind,
       detail: suggestion.detail,
       documentation: suggestion.documentation,
@@ -386,14 +442,29 @@ export class AICompletionProvider {
     return kindMap[kindStr.toLowerCase()] || CompletionItemKind.Text;
   }
 
+  /**
+   * 限制补全行数
+   * 
+   * @param text 补全文本
+   * @param maxLines 最大行数，未设置时不限制
+   * @returns 截断后的文本
+   */
+  private limitLines(text: string, maxLines?: number): string {
+    if (!maxLines) {
+      return text;
+    }
+    return text.split('\n').slice(0, maxLines).join('\n');
+  }
+
   /**
    * 防抖机制
    * 延迟执行函数，如果在延迟期间再次调用则重置计时器
    * 
    * @param fn 要执行的函数
+   * @param delay 延迟时间（毫秒），默认使用配置的防抖延迟
    * @returns 函数执行结果
    */
-  private debounce<T>(fn: () => Promise<T>): Promise<T> {
+  private debounce<T>(fn: () => Promise<T>, delay: number = this.debounceDelay): Promise<T> {
     return new Promise((resolve, reject) => {
       // 清除之前的计时器
       if (this.debounceTimer) {
@@ -408,7 +479,7 @@ export class AICompletionProvider {
         } catch (error) {
           reject(error);
         }
-      }, this.debounceDelay);
+      }, delay);
     });
   }
 
@@ -526,6 +597,7 @@ export class AICompletionProvider {
    */
   public setDebounceDelay(delay: number): void {
     this.debounceDelay = delay;
+    this.policy.setBaseDebounceDelay(delay);
   }
 
   /**
@@ -574,6 +646,44 @@ export class AICompletionProvider {
     if (this.rejectionRecords.length > this.maxRejectionRecords) {
       this.rejectionRecords.shift(); // 删除最旧的记录
     }
+
+    this.recordOutcome(document, suggestion, prefix, false);
+  }
+
+  /**
+   * 记录补全接受
+   * 当用户接受补全建议时调用（包括逐词、逐行的部分接受）
+   * 
+   * @param document 文档
+   * @param suggestion 被接受的建议
+   * @param prefix 前缀
+   */
+  public recordAcceptance(
+    document: TextDocument,
+    suggestion: CompletionItem,
+    prefix: string
+  ): void {
+    this.recordOutcome(document, suggestion, prefix, true);
+  }
+
+  /**
+   * 记录补全结果，供自适应调整和统计报告使用
+   */
+  private recordOutcome(
+    document: TextDocument,
+    suggestion: CompletionItem,
+    prefix: string,
+    accepted: boolean
+  ): void {
+    this.policy.recordOutcome({
+      accepted,
+      language: document.languageId,
+      file: document.uri.fsPath,
+      triggerContext: detectTriggerContext(prefix, document.languageId),
+      model: this.apiClient.getModelForFeature('completion') || 'unknown',
+      lines: (suggestion.insertText ?? suggestion.label).split('\n').length,
+      timestamp: Date.now()
+    });
   }
 
   /**
@@ -601,6 +711,8 @@ export class AICompletionProvider {
     for (const suggestion of suggestions) {
       if (!acceptedSuggestion || suggestion.label !== acceptedSuggestion.label) {
         this.recordRejection(document, position, suggestion, prefix, suffix);
+      } else {
+        this.recordAcceptance(document, suggestion, prefix);
       }
     }
 
@@ -660,6 +772,16 @@ export class AICompletionProvider {
     return stats;
   }
 
+  /**
+   * 获取补全统计报告
+   * 包含按模型、语言、文件、触发上下文和补全长度的接受率，以及当前生效的自适应调整
+   * 
+   * @returns 统计报告
+   */
+  public getCompletionReport(): CompletionReport {
+    return this.policy.getReport();
+  }
+
   /**
    * 清空拒绝记录
    */
@@ -0,0 +1,258 @@
+/**
+ * AI Inline Completion Provider
+ * 以幽灵文本（ghost text）形式在编辑器中显示AI补全
+ *
+ * 复用 AICompletionProvider 的防抖、缓存和拒绝记录，支持流式显示和逐词/逐行部分接受
+ */
+
+import * as vscode from 'vscode';
+import { AICompletionProvider, CompletionItemKind } from './completionProvider';
+
+/**
+ * 内联补全状态
+ * 记录一次补全请求及其显示、接受情况
+ */
+interface InlineCompletionState {
+  /** 请求标识（文档、版本和光标位置） */
+  key: string;
+  /** 请求时的文档 */
+  document: vscode.TextDocument;
+  /** 请求时的光标位置 */
+  position: vscode.Position;
+  /** 请求时的前缀（用于拒绝记录） */
+  prefix: string;
+  /** 请求时的后缀（用于拒绝记录） */
+  suffix: string;
+  /** 当前已生成的补全文本 */
+  text: string;
+  /** 是否已生成完毕 */
+  done: boolean;
+  /** 用户是否已接受（全部、部分或按建议继续输入） */
+  accepted: boolean;
+  /**
+   * 请求的取消令牌源
+   * 刷新显示时编辑器会取消上一次调用的令牌，请求不能随之取消，只在补全结束时取消
+   */
+  cancellation: vscode.CancellationTokenSource;
+}
+
+/** 流式生成时重新触发幽灵文本显示的最小间隔（毫秒） */
+const REFRESH_INTERVAL = 150;
+
+/** 接受补全后执行的命令 */
+const ACCEPTED_COMMAND = 'hicode.inlineCompletionAccepted';
+
+/**
+ * AI内联补全提供者
+ * 实现 VSCode InlineCompletionItemProvider 接口
+ */
+export class AIInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+  private completionProvider: AICompletionProvider;
+  private current: InlineCompletionState | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * 构造函数
+   * @param completionProvider 补全提供者（提供请求、缓存和拒绝记录）
+   */
+  constructor(completionProvider: AICompletionProvider) {
+    this.completionProvider = completionProvider;
+  }
+
+  /**
+   * 提供内联补全项
+   * 流式生成时在首行完整后先返回已生成的部分，后续内容到达时重新触发显示
+   *
+   * @param document 当前文档
+   * @param position 光标位置
+   * @param context 内联补全上下文
+   * @param token 取消令牌
+   * @returns 内联补全项列表
+   */
+  async provideInlineCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.InlineCompletionContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.InlineCompletionItem[]> {
+    const explicit = context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke;
+    const key = this.getKey(document, position);
+
+    // 流式生成过程中的刷新：返回当前已生成的部分
+    if (this.current?.key === key) {
+      return this.toInlineItems(this.current.text, position);
+    }
+
+    // 用户按建议继续输入：显示剩余部分
+    const remainder = this.getRemainder(document, position);
+    if (remainder !== undefined) {
+      return this.toInlineItems(remainder, position);
+    }
+
+    // 光标移动或输入了其他内容，之前显示的补全视为被拒绝
+    this.settle();
+
+    const { prefix, suffix } = this.completionProvider.extractPrefixAndSuffix(document, position);
+    const state: InlineCompletionState = {
+      key,
+      document,
+      position,
+      prefix,
+      suffix,
+      text: '',
+      done: false,
+      accepted: false,
+      cancellation: new vscode.CancellationTokenSource()
+    };
+    this.current = state;
+
+    let firstLineReady: () => void = () => {};
+    const firstLine = new Promise<void>(resolve => {
+      firstLineReady = resolve;
+    });
+    token.onCancellationRequested(() => firstLineReady());
+
+    const request = this.completionProvider
+      .requestCompletions(document, position, state.cancellation.token, text => {
+        if (this.current !== state) {
+          return;
+        }
+        state.text = text;
+        if (text.includes('\n')) {
+          firstLineReady();
+        }
+        this.scheduleRefresh(state);
+      }, explicit)
+      .then(items => {
+        // 补全已结束时请求被取消，返回的空结果不能覆盖已生成的文本
+        if (this.current === state && !state.cancellation.token.isCancellationRequested) {
+          state.text = items[0]?.insertText ?? '';
+          state.done = true;
+          this.scheduleRefresh(state);
+        }
+      });
+
+    await Promise.race([request, firstLine]);
+
+    if (token.isCancellationRequested || this.current !== state) {
+      return [];
+    }
+
+    return this.toInlineItems(state.text, position);
+  }
+
+  /**
+   * 标记当前补全已被接受
+   * 在用户接受全部补全（Tab）或部分接受（逐词、逐行）时调用
+   */
+  public markAccepted(): void {
+    if (this.current) {
+      this.current.accepted = true;
+    }
+  }
+
+  /**
+   * 释放资源
+   */
+  public dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.settle();
+  }
+
+  /**
+   * 生成请求标识
+   */
+  private getKey(document: vscode.TextDocument, position: vscode.Position): string {
+    return `${document.uri.toString()}:${document.version}:${position.line}:${position.character}`;
+  }
+
+  /**
+   * 获取按建议输入后剩余的补全文本
+   *
+   * @returns 剩余文本；用户输入与补全不一致时返回 undefined
+   */
+  private getRemainder(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+    const state = this.current;
+    if (!state || !state.text || state.document.uri.toString() !== document.uri.toString()) {
+      return undefined;
+    }
+    if (!position.isAfter(state.position)) {
+      return undefined;
+    }
+
+    const typed = document.getText(new vscode.Range(state.position, position));
+    if (!state.text.startsWith(typed)) {
+      return undefined;
+    }
+
+    state.accepted = true;
+    return state.text.substring(typed.length);
+  }
+
+  /**
+   * 结束当前补全
+   * 已显示的补全按是否被接受记录为接受或拒绝
+   */
+  private settle(): void {
+    const state = this.current;
+    this.current = null;
+    if (!state) {
+      return;
+    }
+    state.cancellation.cancel();
+    state.cancellation.dispose();
+    if (!state.text) {
+      return;
+    }
+
+    const item = {
+      label: state.text.split('\n', 1)[0],
+      kind: CompletionItemKind.Text,
+      detail: 'AI Suggestion',
+      insertText: state.text
+    };
+    if (state.accepted) {
+      this.completionProvider.recordAcceptance(state.document, item, state.prefix);
+    } else {
+      this.completionProvider.recordRejection(state.document, state.position, item, state.prefix, state.suffix);
+    }
+  }
+
+  /**
+   * 转换为内联补全项
+   */
+  private toInlineItems(text: string, position: vscode.Position): vscode.InlineCompletionItem[] {
+    if (!text.trim()) {
+      return [];
+    }
+
+    const item = new vscode.InlineCompletionItem(text, new vscode.Range(position, position));
+    item.command = { command: ACCEPTED_COMMAND, title: 'Accept Inline Completion' };
+    return [item];
+  }
+
+  /**
+   * 流式生成时重新触发幽灵文本显示
+   * 合并短时间内的多次更新，且只在光标仍停留在请求位置时触发
+   */
+  private scheduleRefresh(state: InlineCompletionState): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      const editor = vscode.window.activeTextEditor;
+      if (this.current !== state || !editor || editor.document !== state.document) {
+        return;
+      }
+      if (!editor.selection.active.isEqual(state.position)) {
+        return;
+      }
+      vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+    }, REFRESH_INTERVAL);
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * 模型流量审计日志
+ * 在本地记录每一个发送给模型的请求（功能、目标模型和端点、包含的文件、token 数、
+ * 脱敏命中和请求内容的哈希），不记录请求内容本身，可浏览并导出为 CSV/JSON
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatRequest, CodeContext } from '../api/types';
+import { Tokenizer } from '../api/tokenizer';
+import { rotateFileIfNeeded, getRotatedFilePath } from '../utils/logger';
+import { logFilter } from './logFilter';
+
+/** 审计日志在扩展全局存储目录下的子目录名 */
+export const AUDIT_LOG_DIR = 'audit';
+
+/** 审计日志文件名（JSON Lines，每行一条记录） */
+const AUDIT_LOG_FILE = 'traffic.jsonl';
+
+/**
+ * 审计日志条目
+ */
+export interface TrafficAuditEntry {
+  /** 请求发出的时间（ISO 8601） */
+  timestamp: string;
+  /** 发起请求的功能 */
+  feature: string;
+  /** 目标模型ID */
+  modelId: string;
+  /** 目标模型名称 */
+  modelName: string;
+  /** 模型提供商 */
+  vendor: string;
+  /** 目标端点 */
+  endpoint: string;
+  /** 请求中包含的文件 */
+  files: string[];
+  /** 请求的 token 数（模型未返回用量时为估算值） */
+  promptTokens: number;
+  /** 回复的 token 数（模型未返回用量时为估算值） */
+  completionTokens: number;
+  /** 各脱敏规则的命中次数 */
+  redactionHits: Record<string, number>;
+  /** 实际发送内容的 SHA-256 哈希 */
+  payloadHash: string;
+  /** 请求结果 */
+  status: 'success' | 'error';
+  /** 请求耗时（毫秒） */
+  durationMs: number;
+  /** 错误信息（请求失败时） */
+  error?: string;
+}
+
+/**
+ * 审计日志配置
+ */
+export interface TrafficAuditLogOptions {
+  /** 单个日志文件的最大大小（字节） */
+  maxFileSize?: number;
+  /** 保留的日志文件数量（含当前文件） */
+  maxFiles?: number;
+}
+
+/**
+ * 模型流量审计日志类
+ * 使用与日志工具相同的轮转方式，超过大小上限时归档为 traffic.1.jsonl、traffic.2.jsonl……
+ */
+export class TrafficAuditLog {
+  private readonly filePath: string;
+  private readonly maxFileSize: number;
+  private readonly maxFiles: number;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param directory 日志目录
+   * @param options 轮转配置
+   */
+  constructor(directory: string, options: TrafficAuditLogOptions = {}) {
+    this.filePath = path.join(directory, AUDIT_LOG_FILE);
+    this.maxFileSize = options.maxFileSize ?? 5 * 1024 * 1024; // 5MB
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  /**
+   * 获取当前日志文件路径
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * 追加一条记录
+   * 写入按调用顺序排队执行，写入失败不影响请求
+   * @param entry 审计日志条目
+   */
+  record(entry: TrafficAuditEntry): void {
+    const line = JSON.stringify(sanitizeEntry(entry)) + '\n';
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        try {
+          await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+          await rotateFileIfNeeded(this.filePath, this.maxFileSize, this.maxFiles);
+          await fs.promises.appendFile(this.filePath, line, 'utf-8');
+        } catch (error) {
+          console.error('Failed to write audit log:', error);
+        }
+      })
+      .catch(error => {
+        console.error('Audit log write queue error:', error);
+      });
+  }
+
+  /**
+   * 读取所有记录（包括已轮转的归档文件）
+   * @returns 按时间从旧到新排列的记录
+   */
+  async getEntries(): Promise<TrafficAuditEntry[]> {
+    await this.writeQueue;
+
+    const files: string[] = [];
+    for (let i = this.maxFiles - 1; i > 0; i--) {
+      files.push(getRotatedFilePath(this.filePath, i));
+    }
+    files.push(this.filePath);
+
+    const entries: TrafficAuditEntry[] = [];
+    for (const file of files) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(file, 'utf-8');
+      } catch {
+        continue;
+      }
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // 写入中断导致的不完整行，跳过
+        }
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 删除所有记录
+   */
+  async clear(): Promise<void> {
+    await this.writeQueue;
+
+    const files = [this.filePath];
+    for (let i = 1; i < this.maxFiles; i++) {
+      files.push(getRotatedFilePath(this.filePath, i));
+    }
+    await Promise.all(files.map(file => fs.promises.rm(file, { force: true })));
+  }
+}
+
+/**
+ * 过滤记录中可能携带密钥的字段（端点、文件路径、错误信息）
+ * 只过滤字符串值：整条记录交给 filterObject 会把 promptTokens 等字段名误判为敏感字段，
+ * 并把十六进制的哈希值当作密钥替换掉
+ */
+function sanitizeEntry(entry: TrafficAuditEntry): TrafficAuditEntry {
+  return {
+    ...entry,
+    modelId: logFilter.filterString(entry.modelId),
+    modelName: logFilter.filterString(entry.modelName),
+    endpoint: logFilter.filterString(entry.endpoint),
+    files: entry.files.map(file => logFilter.filterString(file)),
+    error: entry.error === undefined ? undefined : logFilter.filterString(entry.error)
+  };
+}
+
+/**
+ * 计算发送内容的 SHA-256 哈希
+ * @param payload 发送给模型的内容
+ */
+export function hashPayload(payload: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+/**
+ * 获取代码上下文中包含的文件
+ * @param context 代码上下文
+ */
+export function getContextFiles(context: CodeContext): string[] {
+  const files = new Set<string>();
+  if (context.currentFile.path && (context.currentFile.content || context.selection || context.cursorContext)) {
+    files.add(context.currentFile.path);
+  }
+  context.relatedFiles?.forEach(file => files.add(file.path));
+  context.mentions?.forEach(mention => {
+    if (mention.type === 'file' || mention.type === 'folder') {
+      files.add(mention.label);
+    }
+  });
+  return [...files];
+}
+
+/**
+ * 获取聊天请求中包含的文件
+ * @param request 聊天请求
+ */
+export function getRequestFiles(request: ChatRequest): string[] {
+  const files = new Set<string>();
+  for (const message of request.messages) {
+    if (message.context) {
+      getContextFiles(message.context).forEach(file => files.add(file));
+    }
+  }
+  return [...files];
+}
+
+/**
+ * 估算聊天请求的 token 数
+ * @param request 聊天请求
+ * @param tokenizer 目标模型的分词器
+ */
+export function countRequestTokens(request: ChatRequest, tokenizer: Tokenizer): number {
+  let tokens = 0;
+  for (const message of request.messages) {
+    tokens += tokenizer.count(message.content);
+    message.toolCalls?.forEach(call => {
+      tokens += tokenizer.count(call.arguments);
+    });
+    if (message.context) {
+      tokens += countContextTokens(message.context, tokenizer);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 估算代码上下文的 token 数
+ * @param context 代码上下文
+ * @param tokenizer 目标模型的分词器
+ */
+export function countContextTokens(context: CodeContext, tokenizer: Tokenizer): number {
+  const texts = [context.selection?.text ?? context.currentFile.content];
+  context.relatedFiles?.forEach(file => texts.push(file.excerpt));
+  context.mentions?.forEach(mention => texts.push(mention.content));
+  return texts.reduce((sum, text) => sum + (text ? tokenizer.count(text) : 0), 0);
+}
+
+/** CSV 导出的列 */
+const CSV_COLUMNS: Array<keyof TrafficAuditEntry> = [
+  'timestamp',
+  'feature',
+  'modelId',
+  'modelName',
+  'vendor',
+  'endpoint',
+  'status',
+  'durationMs',
+  'promptTokens',
+  'completionTokens',
+  'redactionHits',
+  'files',
+  'payloadHash',
+  'error'
+];
+
+/**
+ * 将审计日志导出为 CSV
+ * 文件列表以分号分隔，脱敏命中以 规则=次数 的形式以分号分隔
+ * @param entries 审计日志条目
+ */
+export function toCsv(entries: TrafficAuditEntry[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    rows.push(CSV_COLUMNS.map(column => {
+      const value = entry[column];
+      if (column === 'redactionHits') {
+        return escapeCsv(Object.entries(entry.redactionHits).map(([rule, count]) => `${rule}=${count}`).join(';'));
+      }
+      if (Array.isArray(value)) {
+        return escapeCsv(value.join(';'));
+      }
+      return escapeCsv(value === undefined ? '' : String(value));
+    }).join(','));
+  }
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * 转义 CSV 字段
+ */
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
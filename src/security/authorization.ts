@@ -5,6 +5,8 @@
  */
 
 import * as vscode from 'vscode';
+import { ChatMessage, ChatRequest, CodeContext, ModelFeature } from '../api/types';
+import { Redactor } from './redaction';
 
 /**
  * 功能类型枚举
@@ -17,7 +19,78 @@ export enum FeatureType {
   /** Agent功能 */
   AGENT = 'agent',
   /** 内联聊天功能 */
-  INLINE_CHAT = 'inlineChat'
+  INLINE_CHAT = 'inlineChat',
+  /** 意图识别功能 */
+  INTENT = 'intent'
+}
+
+/**
+ * 请求附件
+ * 随请求发送的一项代码上下文，用户可以在预览中移除
+ */
+export interface RequestAttachment {
+  /** 附件ID（消息索引加附件位置，用于移除） */
+  id: string;
+  /** 附件类型 */
+  kind: 'currentFile' | 'selection' | 'relatedFile' | 'mention';
+  /** 显示名称 */
+  label: string;
+  /** 行数 */
+  lines: number;
+}
+
+/**
+ * 请求预览
+ * 发送前展示给用户的完整请求内容
+ */
+export interface RequestPreview {
+  /** 目标模型ID */
+  modelId: string;
+  /** 目标模型名称 */
+  modelName: string;
+  /** 目标端点（API 基础地址） */
+  endpoint: string;
+  /** 随请求发送的附件 */
+  attachments: RequestAttachment[];
+  /**
+   * 渲染发送给模型的提示词
+   * @param excluded 已移除的附件ID
+   */
+  renderPrompt(excluded: string[]): Promise<string>;
+}
+
+/**
+ * 授权审计记录
+ */
+export interface AuthorizationAuditEntry {
+  /** 时间（ISO 格式） */
+  timestamp: string;
+  /** 功能类型 */
+  feature: FeatureType;
+  /** 目标端点 */
+  endpoint?: string;
+  /** 目标模型ID */
+  modelId?: string;
+  /** 是否授权 */
+  granted: boolean;
+  /**
+   * 决定来源
+   * - dialog: 用户在授权对话框中选择
+   * - remembered: 按已记住的端点授权
+   * - policy: 功能已被禁用
+   * - disabled: 授权控制未启用
+   * - auto: 功能设置了自动授权
+   * - cached: 按本次会话缓存的决定授权
+   * - unconfirmed: 功能不需要确认
+   * - scoped: 同一授权范围（智能体运行或对话轮次）内已允许
+   */
+  source: 'dialog' | 'remembered' | 'policy' | 'disabled' | 'auto' | 'cached' | 'unconfirmed' | 'scoped';
+  /** 用户是否选择记住 */
+  remember?: boolean;
+  /** 用户移除的附件名称 */
+  removedAttachments?: string[];
+  /** 拒绝原因 */
+  reason?: string;
 }
 
 /**
@@ -28,6 +101,14 @@ export interface AuthorizationRequest {
   feature: FeatureType;
   /** 请求描述 */
   description: string;
+  /** 目标端点（提供时授权按端点记住，否则按功能记住） */
+  endpoint?: string;
+  /** 目标模型ID */
+  modelId?: string;
+  /** 请求预览（启用预览时展示完整提示词和附件） */
+  preview?: RequestPreview;
+  /** 授权范围（提供时，范围内的后续请求沿用 Allow Once） */
+  scope?: string;
   /** 将要发送的数据摘要 */
   dataSummary?: {
     /** 代码行数 */
@@ -36,6 +117,8 @@ export interface AuthorizationRequest {
     fileCount?: number;
     /** 是否包含敏感信息 */
     containsSensitiveInfo?: boolean;
+    /** 发送前被替换的敏感信息数量（按规则统计） */
+    redactionHits?: Record<string, number>;
   };
 }
 
@@ -49,8 +132,15 @@ export interface AuthorizationResult {
   remember?: boolean;
   /** 拒绝原因 */
   reason?: string;
+  /** 用户在预览中移除的附件ID（发送前需要从请求中移除） */
+  removedAttachments?: string[];
 }
 
+/**
+ * 端点授权决定
+ */
+export type EndpointDecision = 'allow' | 'deny';
+
 /**
  * 授权配置接口
  */
@@ -68,6 +158,12 @@ export interface AuthorizationConfig {
       autoAuthorize: boolean;
     };
   };
+  /** 按端点记住的授权决定（端点 -> 功能 -> 决定） */
+  endpoints: {
+    [endpoint: string]: Partial<Record<FeatureType, EndpointDecision>>;
+  };
+  /** 授权前是否预览完整请求 */
+  previewRequests: boolean;
 }
 
 /**
@@ -111,18 +207,72 @@ export interface IAuthorizationManager {
    * 重置所有授权设置
    */
   resetAuthorizations(): Promise<void>;
+
+  /**
+   * 获取授权审计记录
+   * @returns 审计记录（按时间先后）
+   */
+  getAuditLog(): AuthorizationAuditEntry[];
 }
 
+/** 各功能的默认授权配置 */
+const DEFAULT_FEATURE_CONFIG: AuthorizationConfig['features'] = {
+  [FeatureType.CHAT]: {
+    enabled: true,
+    requireConfirmation: true,
+    autoAuthorize: false
+  },
+  [FeatureType.COMPLETION]: {
+    enabled: true,
+    requireConfirmation: false,
+    autoAuthorize: true
+  },
+  [FeatureType.AGENT]: {
+    enabled: true,
+    requireConfirmation: true,
+    autoAuthorize: false
+  },
+  [FeatureType.INLINE_CHAT]: {
+    enabled: true,
+    requireConfirmation: true,
+    autoAuthorize: false
+  },
+  [FeatureType.INTENT]: {
+    enabled: true,
+    requireConfirmation: false,
+    autoAuthorize: true
+  }
+};
+
+/** 审计记录最多保留的条数 */
+const MAX_AUDIT_ENTRIES = 500;
+
+/** 最多保留一次性允许的授权范围数 */
+const MAX_SCOPED_GRANTS = 20;
+
+/** 授权选项 */
+const ALLOW_ONCE = 'Allow Once';
+const ALWAYS_ALLOW = 'Always Allow';
+const DENY = 'Deny';
+const ALWAYS_DENY = 'Always Deny';
+const REMOVE_ATTACHMENTS = 'Remove Attachments...';
+
 /**
  * 授权管理器实现
  */
 export class AuthorizationManager implements IAuthorizationManager {
   private static readonly CONFIG_KEY = 'hicode.authorization';
   private static readonly FEATURES_KEY = 'features';
-  private static readonly ENABLED_KEY = 'enabled';
+  private static readonly ENDPOINTS_KEY = 'endpoints';
+  private static readonly PREVIEW_KEY = 'previewRequests';
+  private static readonly ENABLED_SETTING = 'hicode.requireAuthorization';
+  private static readonly AUDIT_LOG_KEY = 'hicode.authorizationAuditLog';
 
-  /** 授权缓存，避免重复询问 */
-  private authorizationCache: Map<FeatureType, boolean> = new Map();
+  /** 授权缓存，避免重复询问（按功能和端点区分） */
+  private authorizationCache: Map<string, boolean> = new Map();
+
+  /** 授权范围内的一次性允许（范围 -> 授权缓存键） */
+  private scopedGrants: Map<string, Set<string>> = new Map();
 
   constructor(private context: vscode.ExtensionContext) {
     this.initializeDefaultConfig();
@@ -136,33 +286,7 @@ export class AuthorizationManager implements IAuthorizationManager {
     
     // 如果配置为空，设置默认值
     if (!config.features) {
-      const defaultConfig: AuthorizationConfig = {
-        enabled: true,
-        features: {
-          [FeatureType.CHAT]: {
-            enabled: true,
-            requireConfirmation: true,
-            autoAuthorize: false
-          },
-          [FeatureType.COMPLETION]: {
-            enabled: true,
-            requireConfirmation: false,
-            autoAuthorize: true
-          },
-          [FeatureType.AGENT]: {
-            enabled: true,
-            requireConfirmation: true,
-            autoAuthorize: false
-          },
-          [FeatureType.INLINE_CHAT]: {
-            enabled: true,
-            requireConfirmation: true,
-            autoAuthorize: false
-          }
-        }
-      };
-      
-      this.updateConfig(defaultConfig);
+      this.updateConfig({ features: { ...DEFAULT_FEATURE_CONFIG } });
     }
   }
 
@@ -174,37 +298,89 @@ export class AuthorizationManager implements IAuthorizationManager {
 
     // 如果授权控制未启用，直接授权
     if (!config.enabled) {
-      return { granted: true };
+      const result = { granted: true };
+      await this.recordDecision(request, result, 'disabled');
+      return result;
     }
 
     // 检查功能是否启用
     if (!this.isFeatureEnabled(request.feature)) {
-      return {
+      const result = {
         granted: false,
         reason: `Feature ${request.feature} is disabled`
       };
+      await this.recordDecision(request, result, 'policy');
+      return result;
     }
 
-    const featureConfig = config.features[request.feature];
+    const featureConfig = config.features[request.feature] ?? DEFAULT_FEATURE_CONFIG[request.feature];
 
     // 如果设置了自动授权，直接授权
     if (featureConfig.autoAuthorize) {
-      return { granted: true };
+      const result = { granted: true };
+      await this.recordDecision(request, result, 'auto');
+      return result;
+    }
+
+    // 检查该端点已记住的决定
+    const remembered = request.endpoint ? config.endpoints[request.endpoint]?.[request.feature] : undefined;
+    if (remembered) {
+      const result: AuthorizationResult = remembered === 'allow'
+        ? { granted: true, remember: true }
+        : { granted: false, remember: true, reason: `User denied ${request.endpoint} permanently` };
+      await this.recordDecision(request, result, 'remembered');
+      return result;
     }
 
     // 检查缓存
-    if (this.authorizationCache.has(request.feature)) {
-      const cached = this.authorizationCache.get(request.feature)!;
-      return { granted: cached };
+    const cacheKey = this.getCacheKey(request);
+    if (this.authorizationCache.has(cacheKey)) {
+      const result = { granted: this.authorizationCache.get(cacheKey)! };
+      await this.recordDecision(request, result, 'cached');
+      return result;
     }
 
     // 如果不需要确认，直接授权
     if (!featureConfig.requireConfirmation) {
-      return { granted: true };
+      const result = { granted: true };
+      await this.recordDecision(request, result, 'unconfirmed');
+      return result;
+    }
+
+    // 同一范围内已允许过的请求不再确认
+    if (request.scope && this.scopedGrants.get(request.scope)?.has(cacheKey)) {
+      const result = { granted: true };
+      await this.recordDecision(request, result, 'scoped');
+      return result;
     }
 
-    // 显示授权对话框
-    return await this.showAuthorizationDialog(request);
+    // 显示授权对话框，启用预览时先展示完整请求
+    const result = config.previewRequests && request.preview
+      ? await this.showRequestPreview(request, request.preview)
+      : await this.showAuthorizationDialog(request);
+    await this.recordDecision(request, result, 'dialog');
+    return result;
+  }
+
+  /**
+   * 记录授权范围内的一次性允许
+   * 只保留最近的若干个范围，结束的运行和对话轮次自然淘汰
+   */
+  private grantInScope(scope: string, cacheKey: string): void {
+    const keys = this.scopedGrants.get(scope) ?? new Set<string>();
+    keys.add(cacheKey);
+    this.scopedGrants.delete(scope);
+    this.scopedGrants.set(scope, keys);
+    while (this.scopedGrants.size > MAX_SCOPED_GRANTS) {
+      this.scopedGrants.delete(this.scopedGrants.keys().next().value!);
+    }
+  }
+
+  /**
+   * 获取授权缓存键
+   */
+  private getCacheKey(request: AuthorizationRequest): string {
+    return request.endpoint ? `${request.feature}@${request.endpoint}` : request.feature;
   }
 
   /**
@@ -216,6 +392,9 @@ export class AuthorizationManager implements IAuthorizationManager {
     // 构建消息
     let message = `HiCode wants to send data to AI model for ${this.getFeatureName(request.feature)}.\n\n`;
     message += `${request.description}\n\n`;
+    if (request.endpoint) {
+      message += `Destination: ${request.modelId ?? 'model'} at ${request.endpoint}\n\n`;
+    }
 
     if (request.dataSummary) {
       message += 'Data to be sent:\n';
@@ -228,17 +407,16 @@ export class AuthorizationManager implements IAuthorizationManager {
       if (request.dataSummary.containsSensitiveInfo) {
         message += '- ⚠️ May contain sensitive information\n';
       }
+      const redacted = Object.values(request.dataSummary.redactionHits || {}).reduce((sum, count) => sum + count, 0);
+      if (redacted > 0) {
+        message += `- ${redacted} secret(s) will be replaced with placeholders before sending\n`;
+      }
     }
 
     message += '\nDo you want to proceed?';
 
     // 显示对话框
-    const options = [
-      'Allow Once',
-      'Always Allow',
-      'Deny',
-      'Always Deny'
-    ];
+    const options = [ALLOW_ONCE, ALWAYS_ALLOW, DENY, ALWAYS_DENY];
 
     const choice = await vscode.window.showWarningMessage(
       message,
@@ -246,23 +424,132 @@ export class AuthorizationManager implements IAuthorizationManager {
       ...options
     );
 
-    switch (choice) {
-      case 'Allow Once':
-        return { granted: true, remember: false };
+    return this.applyChoice(request, choice);
+  }
+
+  /**
+   * 显示请求预览
+   * 在编辑器中打开将要发送的完整提示词，通过快速选择决定是否发送，可以移除附件后重新预览
+   */
+  private async showRequestPreview(
+    request: AuthorizationRequest,
+    preview: RequestPreview
+  ): Promise<AuthorizationResult> {
+    let removed: string[] = [];
+
+    for (;;) {
+      const document = await vscode.workspace.openTextDocument({
+        content: await this.renderPreview(request, preview, removed),
+        language: 'markdown'
+      });
+      await vscode.window.showTextDocument(document, {
+        preview: true,
+        preserveFocus: true,
+        viewColumn: vscode.ViewColumn.Beside
+      });
+
+      const choices = [ALLOW_ONCE, ALWAYS_ALLOW, DENY, ALWAYS_DENY];
+      if (preview.attachments.length > 0) {
+        choices.splice(2, 0, REMOVE_ATTACHMENTS);
+      }
+      const kept = preview.attachments.length - removed.length;
+      const choice = await vscode.window.showQuickPick(choices, {
+        title: `Send to ${preview.modelName} (${preview.endpoint})?`,
+        placeHolder: `${this.getFeatureName(request.feature)}: ${kept} attachment(s), see the preview for the full prompt`,
+        ignoreFocusOut: true
+      });
+
+      if (choice !== REMOVE_ATTACHMENTS) {
+        return this.applyChoice(request, choice, removed);
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        preview.attachments.map(attachment => ({
+          label: attachment.label,
+          description: `${attachment.kind}, ${attachment.lines} line(s)`,
+          picked: !removed.includes(attachment.id),
+          id: attachment.id
+        })),
+        { title: 'Attachments to send', canPickMany: true, ignoreFocusOut: true }
+      );
+      if (selected) {
+        const keptIds = new Set(selected.map(item => item.id));
+        removed = preview.attachments.map(attachment => attachment.id).filter(id => !keptIds.has(id));
+      }
+    }
+  }
 
-      case 'Always Allow':
-        // 更新配置为自动授权
-        await this.setAutoAuthorize(request.feature, true);
-        this.authorizationCache.set(request.feature, true);
-        return { granted: true, remember: true };
+  /**
+   * 渲染请求预览文档
+   */
+  private async renderPreview(
+    request: AuthorizationRequest,
+    preview: RequestPreview,
+    removed: string[]
+  ): Promise<string> {
+    const lines = [
+      `# HiCode request preview: ${this.getFeatureName(request.feature)}`,
+      '',
+      `- Model: ${preview.modelName} (${preview.modelId})`,
+      `- Endpoint: ${preview.endpoint}`
+    ];
+    const redacted = Object.values(request.dataSummary?.redactionHits || {}).reduce((sum, count) => sum + count, 0);
+    if (redacted > 0) {
+      lines.push(`- ${redacted} secret(s) replaced with placeholders`);
+    }
+
+    lines.push('', '## Attachments', '');
+    if (preview.attachments.length === 0) {
+      lines.push('(none)');
+    }
+    for (const attachment of preview.attachments) {
+      const status = removed.includes(attachment.id) ? ' — removed' : '';
+      lines.push(`- ${attachment.label} (${attachment.kind}, ${attachment.lines} line(s))${status}`);
+    }
+
+    lines.push('', '## Prompt', '', await preview.renderPrompt(removed));
+    return lines.join('\n');
+  }
+
+  /**
+   * 应用用户的选择
+   * 请求提供端点时，Always Allow / Always Deny 只对该端点生效
+   */
+  private async applyChoice(
+    request: AuthorizationRequest,
+    choice: string | undefined,
+    removed: string[] = []
+  ): Promise<AuthorizationResult> {
+    const removedAttachments = removed.length > 0 ? removed : undefined;
+
+    switch (choice) {
+      case ALLOW_ONCE:
+        if (request.scope) {
+          this.grantInScope(request.scope, this.getCacheKey(request));
+        }
+        return { granted: true, remember: false, removedAttachments };
+
+      case ALWAYS_ALLOW:
+        if (request.endpoint) {
+          await this.setEndpointDecision(request.endpoint, request.feature, 'allow');
+        } else {
+          // 更新配置为自动授权
+          await this.setAutoAuthorize(request.feature, true);
+        }
+        this.authorizationCache.set(this.getCacheKey(request), true);
+        return { granted: true, remember: true, removedAttachments };
 
-      case 'Deny':
+      case DENY:
         return { granted: false, remember: false };
 
-      case 'Always Deny':
-        // 禁用该功能
-        await this.setFeatureEnabled(request.feature, false);
-        this.authorizationCache.set(request.feature, false);
+      case ALWAYS_DENY:
+        if (request.endpoint) {
+          await this.setEndpointDecision(request.endpoint, request.feature, 'deny');
+        } else {
+          // 禁用该功能
+          await this.setFeatureEnabled(request.feature, false);
+        }
+        this.authorizationCache.set(this.getCacheKey(request), false);
         return { granted: false, remember: true, reason: 'User denied permanently' };
 
       default:
@@ -271,6 +558,69 @@ export class AuthorizationManager implements IAuthorizationManager {
     }
   }
 
+  /**
+   * 记住某个端点的授权决定
+   * @param endpoint 端点
+   * @param feature 功能类型
+   * @param decision 授权决定，传入 null 时清除
+   */
+  async setEndpointDecision(endpoint: string, feature: FeatureType, decision: EndpointDecision | null): Promise<void> {
+    const endpoints = { ...this.getConfig().endpoints };
+    const decisions = { ...endpoints[endpoint] };
+    if (decision) {
+      decisions[feature] = decision;
+    } else {
+      delete decisions[feature];
+    }
+
+    if (Object.keys(decisions).length > 0) {
+      endpoints[endpoint] = decisions;
+    } else {
+      delete endpoints[endpoint];
+    }
+    await this.updateConfig({ endpoints });
+  }
+
+  /**
+   * 记录授权决定到审计日志
+   */
+  private async recordDecision(
+    request: AuthorizationRequest,
+    result: AuthorizationResult,
+    source: AuthorizationAuditEntry['source']
+  ): Promise<void> {
+    const removedAttachments = result.removedAttachments
+      ?.map(id => request.preview?.attachments.find(attachment => attachment.id === id)?.label ?? id);
+    const entry: AuthorizationAuditEntry = {
+      timestamp: new Date().toISOString(),
+      feature: request.feature,
+      endpoint: request.endpoint,
+      modelId: request.modelId,
+      granted: result.granted,
+      source,
+      remember: result.remember,
+      removedAttachments,
+      reason: result.reason
+    };
+
+    const log = [...this.getAuditLog(), entry].slice(-MAX_AUDIT_ENTRIES);
+    await this.context.globalState.update(AuthorizationManager.AUDIT_LOG_KEY, log);
+  }
+
+  /**
+   * 获取授权审计记录
+   */
+  getAuditLog(): AuthorizationAuditEntry[] {
+    return this.context.globalState.get<AuthorizationAuditEntry[]>(AuthorizationManager.AUDIT_LOG_KEY, []);
+  }
+
+  /**
+   * 清除授权审计记录
+   */
+  async clearAuditLog(): Promise<void> {
+    await this.context.globalState.update(AuthorizationManager.AUDIT_LOG_KEY, undefined);
+  }
+
   /**
    * 获取功能的友好名称
    */
@@ -279,7 +629,8 @@ export class AuthorizationManager implements IAuthorizationManager {
       [FeatureType.CHAT]: 'Chat',
       [FeatureType.COMPLETION]: 'Code Completion',
       [FeatureType.AGENT]: 'Agent Operations',
-      [FeatureType.INLINE_CHAT]: 'Inline Chat'
+      [FeatureType.INLINE_CHAT]: 'Inline Chat',
+      [FeatureType.INTENT]: 'Intent Recognition'
     };
     return names[feature] || feature;
   }
@@ -300,9 +651,8 @@ export class AuthorizationManager implements IAuthorizationManager {
     
     if (!config.features[feature]) {
       config.features[feature] = {
-        enabled,
-        requireConfirmation: true,
-        autoAuthorize: false
+        ...DEFAULT_FEATURE_CONFIG[feature],
+        enabled
       };
     } else {
       config.features[feature].enabled = enabled;
@@ -337,13 +687,21 @@ export class AuthorizationManager implements IAuthorizationManager {
    */
   getConfig(): AuthorizationConfig {
     const workspaceConfig = vscode.workspace.getConfiguration();
-    const enabled = workspaceConfig.get<boolean>(`${AuthorizationManager.CONFIG_KEY}.${AuthorizationManager.ENABLED_KEY}`, true);
+    const enabled = workspaceConfig.get<boolean>(AuthorizationManager.ENABLED_SETTING, true);
     const features = workspaceConfig.get<AuthorizationConfig['features']>(
       `${AuthorizationManager.CONFIG_KEY}.${AuthorizationManager.FEATURES_KEY}`,
       {} as AuthorizationConfig['features']
     );
+    const endpoints = workspaceConfig.get<AuthorizationConfig['endpoints']>(
+      `${AuthorizationManager.CONFIG_KEY}.${AuthorizationManager.ENDPOINTS_KEY}`,
+      {}
+    );
+    const previewRequests = workspaceConfig.get<boolean>(
+      `${AuthorizationManager.CONFIG_KEY}.${AuthorizationManager.PREVIEW_KEY}`,
+      true
+    );
 
-    return { enabled, features };
+    return { enabled, features, endpoints, previewRequests };
   }
 
   /**
@@ -354,7 +712,7 @@ export class AuthorizationManager implements IAuthorizationManager {
 
     if (config.enabled !== undefined) {
       await workspaceConfig.update(
-        `${AuthorizationManager.CONFIG_KEY}.${AuthorizationManager.ENABLED_KEY}`,
+        AuthorizationManager.ENABLED_SETTING,
         config.enabled,
         vscode.ConfigurationTarget.Global
       );
@@ -368,6 +726,22 @@ export class AuthorizationManager implements IAuthorizationManager {
       );
     }
 
+    if (config.endpoints !== undefined) {
+      await workspaceConfig.update(
+        `${AuthorizationManager.CONFIG_KEY}.${AuthorizationManager.ENDPOINTS_KEY}`,
+        config.endpoints,
+        vscode.ConfigurationTarget.Global
+      );
+    }
+
+    if (config.previewRequests !== undefined) {
+      await workspaceConfig.update(
+        `${AuthorizationManager.CONFIG_KEY}.${AuthorizationManager.PREVIEW_KEY}`,
+        config.previewRequests,
+        vscode.ConfigurationTarget.Global
+      );
+    }
+
     // 清除缓存
     this.authorizationCache.clear();
   }
@@ -378,11 +752,13 @@ export class AuthorizationManager implements IAuthorizationManager {
   async resetAuthorizations(): Promise<void> {
     const workspaceConfig = vscode.workspace.getConfiguration();
     
-    await workspaceConfig.update(
-      AuthorizationManager.CONFIG_KEY,
-      undefined,
-      vscode.ConfigurationTarget.Global
-    );
+    for (const key of [AuthorizationManager.FEATURES_KEY, AuthorizationManager.ENDPOINTS_KEY, AuthorizationManager.PREVIEW_KEY]) {
+      await workspaceConfig.update(
+        `${AuthorizationManager.CONFIG_KEY}.${key}`,
+        undefined,
+        vscode.ConfigurationTarget.Global
+      );
+    }
 
     this.authorizationCache.clear();
     this.initializeDefaultConfig();
@@ -406,10 +782,179 @@ export class AuthorizationManager implements IAuthorizationManager {
     autoAuthorize: boolean;
   } {
     const config = this.getConfig();
-    return config.features[feature] || {
-      enabled: true,
-      requireConfirmation: true,
-      autoAuthorize: false
-    };
+    return config.features[feature] || DEFAULT_FEATURE_CONFIG[feature];
+  }
+}
+
+/**
+ * 获取模型请求对应的授权功能类型
+ * @param feature 请求的功能（未指定时视为聊天）
+ */
+export function getFeatureType(feature?: ModelFeature): FeatureType {
+  switch (feature) {
+    case 'completion':
+      return FeatureType.COMPLETION;
+    case 'agent':
+      return FeatureType.AGENT;
+    case 'intent':
+      return FeatureType.INTENT;
+    default:
+      return FeatureType.CHAT;
+  }
+}
+
+/**
+ * 根据聊天请求生成请求预览
+ * 每条消息的代码上下文（当前文件、选中代码、相关文件和 @ 提及）作为可移除的附件
+ * @param request 聊天请求（已脱敏，与实际发送的内容一致）
+ * @param destination 目标模型和端点
+ * @param renderMessage 将消息渲染为发送给模型的文本（与适配器使用同一模板系统）
+ * @returns 请求预览
+ */
+export function createRequestPreview(
+  request: ChatRequest,
+  destination: Pick<RequestPreview, 'modelId' | 'modelName' | 'endpoint'>,
+  renderMessage: (message: ChatMessage) => Promise<string>
+): RequestPreview {
+  const attachments: RequestAttachment[] = [];
+
+  request.messages.forEach((message, index) => {
+    const context = message.context;
+    if (!context) {
+      return;
+    }
+    if (context.currentFile.content) {
+      attachments.push({
+        id: `${index}:currentFile`,
+        kind: 'currentFile',
+        label: context.currentFile.path || 'Current file',
+        lines: countLines(context.currentFile.content)
+      });
+    }
+    if (context.selection) {
+      attachments.push({
+        id: `${index}:selection`,
+        kind: 'selection',
+        label: `${context.currentFile.path || 'Selection'}:${context.selection.startLine + 1}-${context.selection.endLine + 1}`,
+        lines: countLines(context.selection.text)
+      });
+    }
+    context.relatedFiles?.forEach((file, fileIndex) => {
+      attachments.push({
+        id: `${index}:related:${fileIndex}`,
+        kind: 'relatedFile',
+        label: file.path,
+        lines: countLines(file.excerpt)
+      });
+    });
+    context.mentions?.forEach((mention, mentionIndex) => {
+      attachments.push({
+        id: `${index}:mention:${mentionIndex}`,
+        kind: 'mention',
+        label: `@${mention.type} ${mention.label}`,
+        lines: countLines(mention.content)
+      });
+    });
+  });
+
+  return {
+    ...destination,
+    attachments,
+    async renderPrompt(excluded: string[]): Promise<string> {
+      const sections: string[] = [];
+      for (const message of removeAttachments(request, excluded).messages) {
+        sections.push(`### ${message.role}\n\n${await renderMessage(message)}`);
+      }
+      return sections.join('\n\n');
+    }
+  };
+}
+
+/**
+ * 从请求中移除附件
+ * @param request 聊天请求
+ * @param ids 要移除的附件ID
+ * @returns 移除附件后的新请求（原请求不变）
+ */
+export function removeAttachments(request: ChatRequest, ids: string[]): ChatRequest {
+  if (ids.length === 0) {
+    return request;
   }
+
+  const removed = new Set(ids);
+  return {
+    ...request,
+    messages: request.messages.map((message, index) => {
+      if (!message.context) {
+        return message;
+      }
+      const context: CodeContext = {
+        ...message.context,
+        currentFile: removed.has(`${index}:currentFile`)
+          ? { ...message.context.currentFile, content: '' }
+          : message.context.currentFile,
+        selection: removed.has(`${index}:selection`) ? undefined : message.context.selection,
+        relatedFiles: message.context.relatedFiles
+          ?.filter((_, fileIndex) => !removed.has(`${index}:related:${fileIndex}`)),
+        mentions: message.context.mentions
+          ?.filter((_, mentionIndex) => !removed.has(`${index}:mention:${mentionIndex}`))
+      };
+      return { ...message, context };
+    })
+  };
+}
+
+/**
+ * 统计文本行数（空文本为0行）
+ */
+function countLines(text: string): number {
+  return text ? text.split('\n').length : 0;
+}
+
+/**
+ * 根据聊天请求生成授权请求的数据摘要
+ * 敏感信息的判断与请求发送前的脱敏使用同一次扫描
+ * @param request 聊天请求
+ * @param redactor 请求脱敏器（未启用脱敏时不统计敏感信息）
+ * @returns 数据摘要
+ */
+export function createDataSummary(
+  request: ChatRequest,
+  redactor?: Redactor | null
+): NonNullable<AuthorizationRequest['dataSummary']> {
+  const files = new Set<string>();
+  let codeLines = 0;
+
+  for (const message of request.messages) {
+    const context = message.context;
+    if (!context) {
+      continue;
+    }
+    if (context.currentFile.path) {
+      files.add(context.currentFile.path);
+    }
+    codeLines += countLines(context.selection?.text ?? context.currentFile.content);
+    context.relatedFiles?.forEach(file => {
+      files.add(file.path);
+      codeLines += countLines(file.excerpt);
+    });
+    context.mentions?.forEach(mention => {
+      if (mention.type === 'file') {
+        files.add(mention.label);
+      }
+      codeLines += countLines(mention.content);
+    });
+  }
+
+  if (!redactor) {
+    return { codeLines, fileCount: files.size };
+  }
+
+  const scan = redactor.scanRequest(request);
+  return {
+    codeLines,
+    fileCount: files.size,
+    containsSensitiveInfo: scan.total > 0,
+    redactionHits: scan.hits
+  };
 }
@@ -0,0 +1,78 @@
+/**
+ * 数据外发策略单元测试
+ * 在临时目录中验证 .hicodeignore 和配置规则的加载
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EgressPolicy, EGRESS_IGNORE_FILE } from './egressPolicy';
+
+let rootDir: string;
+
+beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hicode-egress-'));
+});
+
+afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+function writeIgnoreFile(dir: string, content: string): void {
+  fs.mkdirSync(path.join(rootDir, dir), { recursive: true });
+  fs.writeFileSync(path.join(rootDir, dir, EGRESS_IGNORE_FILE), content);
+}
+
+function file(...parts: string[]): string {
+  return path.join(rootDir, ...parts);
+}
+
+describe('EgressPolicy', () => {
+  it('loads nested .hicodeignore files relative to their directory', async () => {
+    writeIgnoreFile('', '*.pem\n');
+    writeIgnoreFile('services/billing', 'fixtures/\n/config.json\n!public.pem\n');
+
+    const policy = new EgressPolicy();
+    await policy.load([rootDir]);
+
+    expect(policy.isBlocked(file('keys', 'server.pem'))).toBe(true);
+    expect(policy.isBlocked(file('services', 'billing', 'fixtures', 'cards.csv'))).toBe(true);
+    expect(policy.isBlocked(file('services', 'billing', 'config.json'))).toBe(true);
+    expect(policy.isBlocked(file('services', 'billing', 'src', 'config.json'))).toBe(false);
+    expect(policy.isBlocked(file('config.json'))).toBe(false);
+    // 子目录的规则优先于上级目录的规则
+    expect(policy.isBlocked(file('services', 'billing', 'public.pem'))).toBe(false);
+  });
+
+  it('ignores .hicodeignore files inside excluded directories', async () => {
+    writeIgnoreFile('', 'secrets/\n');
+    writeIgnoreFile('secrets', '!*\n');
+
+    const policy = new EgressPolicy();
+    await policy.load([rootDir]);
+
+    expect(policy.isBlocked(file('secrets', 'token.txt'))).toBe(true);
+  });
+
+  it('applies configured patterns before the .hicodeignore rules', async () => {
+    writeIgnoreFile('', '!config/production.example.json\n');
+
+    const policy = new EgressPolicy();
+    await policy.load([rootDir], ['config/production.*']);
+
+    expect(policy.isBlocked(file('config', 'production.json'))).toBe(true);
+    expect(policy.isBlocked(file('config', 'production.example.json'))).toBe(false);
+  });
+
+  it('does not block paths outside the workspace roots or non-file paths', async () => {
+    writeIgnoreFile('', '*\n');
+
+    const policy = new EgressPolicy();
+    await policy.load([rootDir]);
+
+    expect(policy.isBlocked(file('src', 'index.ts'))).toBe(true);
+    expect(policy.isBlocked(path.join(os.tmpdir(), 'elsewhere', 'index.ts'))).toBe(false);
+    expect(policy.isBlocked('Untitled-1')).toBe(false);
+    expect(policy.isBlocked('')).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * 数据外发策略
+ * 按 .hicodeignore 文件（gitignore 语法，可放在任意目录）和工作区配置的路径规则，
+ * 阻止匹配的文件进入发送给模型的上下文、代码补全和 Agent 读取
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { IgnoreMatcher } from '../context/ignore';
+
+/** 外发排除规则文件名 */
+export const EGRESS_IGNORE_FILE = '.hicodeignore';
+
+/** 查找规则文件时跳过的目录 */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/**
+ * 数据外发策略类
+ */
+export class EgressPolicy {
+  private matcher = new IgnoreMatcher();
+
+  /**
+   * 加载排除规则
+   * 配置的规则在前，.hicodeignore 中的规则在后（后出现的规则优先，可用 ! 取反放行）；
+   * 与 .gitignore 相同，子目录中的 .hicodeignore 以所在目录为基准，且优先于上级目录的规则
+   * @param roots 工作区根目录列表
+   * @param patterns 工作区配置的额外规则（相对于每个工作区根目录）
+   */
+  async load(roots: string[], patterns: string[] = []): Promise<void> {
+    const matcher = new IgnoreMatcher();
+    for (const root of roots) {
+      if (patterns.length > 0) {
+        matcher.add(patterns.join('\n'), root);
+      }
+      await this.addIgnoreFiles(matcher, root);
+    }
+
+    // 加载完成后整体替换，避免加载过程中出现规则不完整的窗口期
+    this.matcher = matcher;
+  }
+
+  /**
+   * 加载目录及其子目录中的 .hicodeignore
+   * 已被排除的目录不再进入：其中的文件无法被取反规则放行，规则文件也就没有作用
+   */
+  private async addIgnoreFiles(matcher: IgnoreMatcher, dir: string): Promise<void> {
+    await matcher.addFile(path.join(dir, EGRESS_IGNORE_FILE));
+
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name) && !matcher.ignores(fullPath, true, false)) {
+        await this.addIgnoreFiles(matcher, fullPath);
+      }
+    }
+  }
+
+  /**
+   * 判断文件是否禁止发送给模型
+   * 父目录被排除时，其中的文件也被排除
+   * @param filePath 文件绝对路径（非文件系统路径如未保存的文档不受限制）
+   * @param isDirectory 是否为目录
+   */
+  isBlocked(filePath: string, isDirectory: boolean = false): boolean {
+    if (!filePath || !path.isAbsolute(filePath)) {
+      return false;
+    }
+    return this.matcher.ignores(filePath, isDirectory);
+  }
+}
+
+/**
+ * 导出单例实例
+ */
+export const egressPolicy = new EgressPolicy();
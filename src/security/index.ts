@@ -1,8 +1,12 @@
 /**
  * 安全和隐私保护模块
- * 导出授权控制、日志过滤和本地模式相关功能
+ * 导出授权控制、日志过滤、请求脱敏、数据外发策略、审计日志和本地模式相关功能
  */
 
 export * from './authorization';
 export * from './logFilter';
+export * from './redaction';
+export * from './egressPolicy';
+export * from './auditLog';
 export * from './localMode';
+export * from './localDiscovery';
@@ -0,0 +1,231 @@
+/**
+ * 本地推理服务发现单元测试
+ * 使用本地 HTTP 桩服务模拟各类推理服务的接口
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createLocalModelConfig,
+  detectLocalService,
+  discoverLocalServices,
+  isLocalEndpoint
+} from './localDiscovery';
+
+/** 路由表：键为 "方法 路径"，值为 JSON 响应体或响应函数 */
+type Routes = Record<string, unknown | ((body: any) => unknown)>;
+
+const servers: http.Server[] = [];
+
+/**
+ * 启动桩服务，未配置的路由返回 404
+ * @returns 服务地址
+ */
+async function startStub(routes: Routes): Promise<string> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const route = routes[`${req.method} ${req.url}`];
+      if (route === undefined) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('404 page not found');
+        return;
+      }
+      const data = typeof route === 'function' ? route(body ? JSON.parse(body) : undefined) : route;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    });
+  });
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * 获取一个当前未被监听的端口地址
+ */
+async function getClosedEndpoint(): Promise<string> {
+  const server = http.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  return `http://127.0.0.1:${port}`;
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+});
+
+describe('detectLocalService', () => {
+  it('detects Ollama with context lengths, capabilities and loaded state', async () => {
+    const endpoint = await startStub({
+      'GET /api/version': { version: '0.5.7' },
+      'GET /api/tags': { models: [{ name: 'qwen2.5-coder:7b' }, { name: 'nomic-embed-text:latest' }] },
+      'GET /api/ps': { models: [{ name: 'qwen2.5-coder:7b' }] },
+      'POST /api/show': (body: any) => body.model === 'qwen2.5-coder:7b'
+        ? { model_info: { 'qwen2.context_length': 32768 }, capabilities: ['completion', 'insert', 'tools'] }
+        : { model_info: { 'nomic-bert.context_length': 2048 }, capabilities: ['embedding'] }
+    });
+
+    const service = await detectLocalService(`${endpoint}/v1/`);
+
+    expect(service).toMatchObject({ kind: 'ollama', name: 'Ollama', endpoint, apiBaseUrl: endpoint, version: '0.5.7' });
+    expect(service?.models).toEqual([
+      { name: 'qwen2.5-coder:7b', contextLength: 32768, capabilities: ['chat', 'fim', 'tools'], loaded: true },
+      { name: 'nomic-embed-text:latest', contextLength: 2048, capabilities: ['embedding'], loaded: false }
+    ]);
+  });
+
+  it('detects LM Studio from its REST model list', async () => {
+    const endpoint = await startStub({
+      'GET /api/v0/models': {
+        data: [
+          { id: 'qwen2-vl-7b', type: 'vlm', state: 'loaded', max_context_length: 32768, loaded_context_length: 8192 },
+          { id: 'text-embedding-nomic', type: 'embeddings', state: 'not-loaded', max_context_length: 2048 }
+        ]
+      }
+    });
+
+    const service = await detectLocalService(endpoint);
+
+    expect(service).toMatchObject({ kind: 'lmstudio', apiBaseUrl: `${endpoint}/v1` });
+    expect(service?.models).toEqual([
+      { name: 'qwen2-vl-7b', contextLength: 8192, capabilities: ['chat', 'vision'], loaded: true },
+      { name: 'text-embedding-nomic', contextLength: 2048, capabilities: ['embedding'], loaded: false }
+    ]);
+  });
+
+  it('detects llama.cpp server from /props', async () => {
+    const endpoint = await startStub({
+      'GET /props': { default_generation_settings: { n_ctx: 4096 }, build_info: 'b4500' },
+      'GET /v1/models': { data: [{ id: 'deepseek-coder-6.7b.gguf' }] }
+    });
+
+    const service = await detectLocalService(endpoint);
+
+    expect(service).toMatchObject({ kind: 'llamacpp', version: 'b4500' });
+    expect(service?.models).toEqual([
+      { name: 'deepseek-coder-6.7b.gguf', contextLength: 4096, capabilities: ['chat', 'fim'], loaded: true }
+    ]);
+  });
+
+  it('detects vLLM from the model owner', async () => {
+    const endpoint = await startStub({
+      'GET /v1/models': { data: [{ id: 'Qwen/Qwen2.5-Coder-7B', owned_by: 'vllm', max_model_len: 16384 }] },
+      'GET /version': { version: '0.6.3' }
+    });
+
+    const service = await detectLocalService(endpoint);
+
+    expect(service).toMatchObject({ kind: 'vllm', version: '0.6.3' });
+    expect(service?.models).toEqual([
+      { name: 'Qwen/Qwen2.5-Coder-7B', contextLength: 16384, capabilities: ['chat', 'fim'] }
+    ]);
+  });
+
+  it('distinguishes LocalAI from other OpenAI compatible servers', async () => {
+    const localAi = await startStub({
+      'GET /v1/models': { data: [{ id: 'llava-1.5' }] },
+      'GET /readyz': {}
+    });
+    const generic = await startStub({
+      'GET /v1/models': { data: [{ id: 'starcoder2' }] }
+    });
+
+    const [localAiService, genericService] = await Promise.all([
+      detectLocalService(localAi),
+      detectLocalService(generic)
+    ]);
+
+    expect(localAiService).toMatchObject({ kind: 'localai', models: [{ name: 'llava-1.5', capabilities: ['chat', 'vision'] }] });
+    expect(genericService).toMatchObject({ kind: 'openai-compatible', models: [{ name: 'starcoder2', capabilities: ['chat', 'fim'] }] });
+  });
+
+  it('returns null for unreachable endpoints and servers that are not inference services', async () => {
+    const closed = await getClosedEndpoint();
+    const unrelated = await startStub({});
+
+    await expect(detectLocalService(closed, 500)).resolves.toBeNull();
+    await expect(detectLocalService(unrelated)).resolves.toBeNull();
+  });
+});
+
+describe('discoverLocalServices', () => {
+  it('probes endpoints in parallel and skips duplicates and unreachable ones', async () => {
+    const ollama = await startStub({
+      'GET /api/version': { version: '0.5.7' },
+      'GET /api/tags': { models: [] }
+    });
+    const closed = await getClosedEndpoint();
+
+    const services = await discoverLocalServices([ollama, `${ollama}/v1`, closed], 500);
+
+    expect(services).toHaveLength(1);
+    expect(services[0]).toMatchObject({ kind: 'ollama', endpoint: ollama, models: [] });
+  });
+});
+
+describe('createLocalModelConfig', () => {
+  it('uses the native adapter for Ollama and the OpenAI compatible adapter otherwise', () => {
+    expect(createLocalModelConfig(
+      { kind: 'ollama', name: 'Ollama', endpoint: 'http://127.0.0.1:11434', apiBaseUrl: 'http://127.0.0.1:11434', models: [] },
+      { name: 'qwen2.5-coder:7b', contextLength: 32768, capabilities: ['chat', 'fim'] }
+    )).toMatchObject({
+      modelId: 'ollama-qwen2-5-coder-7b',
+      vendor: 'ollama',
+      maxContextTokens: 32768,
+      apiKey: '',
+      apiBaseUrl: 'http://127.0.0.1:11434'
+    });
+
+    expect(createLocalModelConfig(
+      { kind: 'lmstudio', name: 'LM Studio', endpoint: 'http://127.0.0.1:1234', apiBaseUrl: 'http://127.0.0.1:1234/v1', models: [] },
+      { name: 'llava', capabilities: ['chat', 'vision'] }
+    )).toMatchObject({
+      vendor: 'custom',
+      maxContextTokens: 4096,
+      supportMultimodal: true,
+      apiBaseUrl: 'http://127.0.0.1:1234/v1'
+    });
+  });
+});
+
+describe('isLocalEndpoint', () => {
+  it.each([
+    'http://localhost:11434',
+    'http://127.0.0.1:8080/v1',
+    'http://10.1.2.3',
+    'http://172.16.0.5',
+    'http://172.31.255.255',
+    'http://192.168.1.20:1234',
+    'http://169.254.1.1',
+    'http://[::1]:11434',
+    'http://[fd12:3456::1]',
+    'http://[fe80::1]',
+    'http://gpu-box.local:8000',
+    'http://api.localhost'
+  ])('treats %s as local', url => {
+    expect(isLocalEndpoint(url)).toBe(true);
+  });
+
+  it.each([
+    'https://api.openai.com/v1',
+    'http://172.32.0.1',
+    'http://8.8.8.8',
+    'http://[2001:db8::1]',
+    'http://localhost.example.com',
+    'not a url'
+  ])('treats %s as remote', url => {
+    expect(isLocalEndpoint(url)).toBe(false);
+  });
+
+  it('accepts explicitly allowed hosts and wildcard subdomains', () => {
+    const allowedHosts = ['llm.corp.example', '*.inference.internal'];
+
+    expect(isLocalEndpoint('https://llm.corp.example/v1', allowedHosts)).toBe(true);
+    expect(isLocalEndpoint('https://gpu1.inference.internal', allowedHosts)).toBe(true);
+    expect(isLocalEndpoint('https://evil-llm.corp.example', allowedHosts)).toBe(false);
+    expect(isLocalEndpoint('https://inference.internal.attacker.com', allowedHosts)).toBe(false);
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * 本地推理服务发现
+ * 探测本机常用端口上的 Ollama、llama.cpp server、LM Studio、vLLM 和 LocalAI，
+ * 列出可用模型及其上下文长度和能力，并判断端点是否属于本地网络
+ */
+
+import { ModelConfig } from '../api/types';
+
+/**
+ * 本地推理服务类型
+ * openai-compatible 表示提供 OpenAI 兼容接口但无法识别具体实现的服务
+ */
+export type LocalServerKind = 'ollama' | 'llamacpp' | 'lmstudio' | 'vllm' | 'localai' | 'openai-compatible';
+
+/**
+ * 本地模型能力
+ * - chat: 对话
+ * - fim: 代码补全（Fill-in-the-Middle）
+ * - tools: 工具调用
+ * - vision: 图片输入
+ * - embedding: 嵌入向量
+ */
+export type LocalModelCapability = 'chat' | 'fim' | 'tools' | 'vision' | 'embedding';
+
+/**
+ * 本地服务上的模型
+ */
+export interface LocalServiceModel {
+  /** 模型名称（请求中使用） */
+  name: string;
+  /** 上下文长度（服务未提供时为空） */
+  contextLength?: number;
+  /** 模型能力 */
+  capabilities: LocalModelCapability[];
+  /** 是否已加载到内存（服务未提供时为空） */
+  loaded?: boolean;
+}
+
+/**
+ * 本地服务信息
+ */
+export interface LocalServiceInfo {
+  /** 服务类型 */
+  kind: LocalServerKind;
+  /** 服务显示名称 */
+  name: string;
+  /** 服务地址（如 http://127.0.0.1:11434） */
+  endpoint: string;
+  /** 注册模型时使用的 API 基础URL */
+  apiBaseUrl: string;
+  /** 服务版本（服务未提供时为空） */
+  version?: string;
+  /** 可用模型 */
+  models: LocalServiceModel[];
+}
+
+/** 各类服务的显示名称 */
+const SERVER_NAMES: Record<LocalServerKind, string> = {
+  ollama: 'Ollama',
+  llamacpp: 'llama.cpp',
+  lmstudio: 'LM Studio',
+  vllm: 'vLLM',
+  localai: 'LocalAI',
+  'openai-compatible': 'OpenAI Compatible'
+};
+
+/**
+ * 默认探测的本地端点
+ * Ollama 11434、LM Studio 1234、vLLM 8000、llama.cpp server 和 LocalAI 8080
+ * 使用 127.0.0.1 而不是 localhost，避免 localhost 优先解析为 ::1 而服务只监听 IPv4
+ */
+export const DEFAULT_LOCAL_ENDPOINTS = [
+  'http://127.0.0.1:11434',
+  'http://127.0.0.1:1234',
+  'http://127.0.0.1:8000',
+  'http://127.0.0.1:8080'
+];
+
+/** 默认探测超时（毫秒） */
+const DEFAULT_PROBE_TIMEOUT = 3000;
+
+/**
+ * 探测结果
+ * reachable 为 false 表示无法建立连接，此时不再尝试该端点的其他接口
+ */
+interface ProbeResult {
+  /** 是否建立了连接 */
+  reachable: boolean;
+  /** 是否返回成功状态码 */
+  ok: boolean;
+  /** 解析后的 JSON（非 JSON 响应时为 null） */
+  data: any;
+}
+
+/**
+ * 探测指定端点上的本地推理服务
+ * @param endpoint 服务地址（末尾的 /v1 会被忽略）
+ * @param timeout 单个请求的超时时间（毫秒）
+ * @returns 服务信息，端点不可达或不是推理服务时返回 null
+ */
+export async function detectLocalService(
+  endpoint: string,
+  timeout: number = DEFAULT_PROBE_TIMEOUT
+): Promise<LocalServiceInfo | null> {
+  const base = normalizeEndpoint(endpoint);
+  const get = (pathname: string) => probe(`${base}${pathname}`, timeout);
+
+  // Ollama：原生接口 /api/version 和 /api/tags
+  const ollamaVersion = await get('/api/version');
+  if (!ollamaVersion.reachable) {
+    return null;
+  }
+  if (ollamaVersion.ok && typeof ollamaVersion.data?.version === 'string') {
+    return {
+      ...createService('ollama', base, base),
+      version: ollamaVersion.data.version,
+      models: await listOllamaModels(base, timeout)
+    };
+  }
+
+  // LM Studio：REST 接口 /api/v0/models 包含模型类型和上下文长度
+  const lmStudio = await get('/api/v0/models');
+  if (lmStudio.ok && Array.isArray(lmStudio.data?.data)) {
+    return {
+      ...createService('lmstudio', base, `${base}/v1`),
+      models: lmStudio.data.data.map(parseLmStudioModel)
+    };
+  }
+
+  // llama.cpp server：/props 返回服务端的生成参数
+  const props = await get('/props');
+  if (props.ok && props.data?.default_generation_settings) {
+    const openaiModels = await get('/v1/models');
+    return {
+      ...createService('llamacpp', base, `${base}/v1`),
+      version: typeof props.data.build_info === 'string' ? props.data.build_info : undefined,
+      models: parseLlamaCppModels(props.data, openaiModels.ok ? openaiModels.data : null)
+    };
+  }
+
+  // 其余服务只提供 OpenAI 兼容接口，按模型列表的字段和特有的接口区分
+  const openaiModels = await get('/v1/models');
+  if (!openaiModels.ok || !Array.isArray(openaiModels.data?.data)) {
+    return null;
+  }
+  const items: any[] = openaiModels.data.data;
+
+  if (items.some(item => item?.owned_by === 'vllm')) {
+    const version = await get('/version');
+    return {
+      ...createService('vllm', base, `${base}/v1`),
+      version: version.ok && typeof version.data?.version === 'string' ? version.data.version : undefined,
+      models: items.map(item => ({
+        name: String(item.id),
+        contextLength: toPositiveNumber(item.max_model_len),
+        capabilities: ['chat', 'fim']
+      }))
+    };
+  }
+
+  const readiness = await get('/readyz');
+  const kind: LocalServerKind = readiness.ok ? 'localai' : 'openai-compatible';
+  return {
+    ...createService(kind, base, `${base}/v1`),
+    models: items.map(item => ({
+      name: String(item.id),
+      capabilities: inferCapabilities(String(item.id))
+    }))
+  };
+}
+
+/**
+ * 并行探测多个端点
+ * @param endpoints 服务地址列表（默认探测常用端口）
+ * @param timeout 单个请求的超时时间（毫秒）
+ * @returns 发现的服务（按端点去重，顺序与端点列表一致）
+ */
+export async function discoverLocalServices(
+  endpoints: string[] = DEFAULT_LOCAL_ENDPOINTS,
+  timeout: number = DEFAULT_PROBE_TIMEOUT
+): Promise<LocalServiceInfo[]> {
+  const unique = Array.from(new Set(endpoints.map(normalizeEndpoint)));
+  const services = await Promise.all(unique.map(endpoint => detectLocalService(endpoint, timeout)));
+  return services.filter((service): service is LocalServiceInfo => service !== null);
+}
+
+/**
+ * 为发现的模型创建模型配置
+ * Ollama 使用原生适配器，其他服务通过 OpenAI 兼容接口访问；本地服务不需要 API 密钥
+ * @param service 模型所在的服务
+ * @param model 模型
+ */
+export function createLocalModelConfig(service: LocalServiceInfo, model: LocalServiceModel): ModelConfig {
+  return {
+    modelId: `${service.kind}-${model.name}`.replace(/[^a-zA-Z0-9_-]+/g, '-'),
+    modelName: model.name,
+    displayName: `${model.name} (${service.name})`,
+    vendor: service.kind === 'ollama' ? 'ollama' : 'custom',
+    modelDescription: `Local model served by ${service.name} at ${service.endpoint}`,
+    maxContextTokens: model.contextLength ?? 4096,
+    supportMultimodal: model.capabilities.includes('vision'),
+    apiKey: '',
+    apiBaseUrl: service.apiBaseUrl
+  };
+}
+
+/**
+ * 判断端点是否属于本地网络
+ * 本机回环地址、私有网段（10/8、172.16/12、192.168/16）、链路本地地址、
+ * IPv6 唯一本地地址和 .local/.localhost 域名视为本地
+ * @param url 端点URL
+ * @param allowedHosts 额外允许的主机名（如内网域名），以 *. 开头时匹配所有子域名
+ */
+export function isLocalEndpoint(url: string, allowedHosts: string[] = []): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  } catch {
+    return false;
+  }
+
+  const allowed = allowedHosts.some(host => {
+    const pattern = host.trim().toLowerCase();
+    return pattern.startsWith('*.')
+      ? hostname.endsWith(pattern.slice(1))
+      : hostname === pattern;
+  });
+  if (allowed) {
+    return true;
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local')) {
+    return true;
+  }
+
+  const ipv4 = hostname.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 127 ||
+      a === 10 ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 169 && b === 254);
+  }
+
+  if (hostname.includes(':')) {
+    return hostname === '::1' ||
+      /^f[cd][0-9a-f]{0,2}:/.test(hostname) ||
+      /^fe[89ab][0-9a-f]?:/.test(hostname);
+  }
+
+  return false;
+}
+
+/**
+ * 去掉端点末尾的斜杠和 /v1
+ */
+function normalizeEndpoint(endpoint: string): string {
+  return endpoint.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * 创建服务信息（不含模型列表）
+ */
+function createService(kind: LocalServerKind, endpoint: string, apiBaseUrl: string): LocalServiceInfo {
+  return { kind, name: SERVER_NAMES[kind], endpoint, apiBaseUrl, models: [] };
+}
+
+/**
+ * 发送 GET 请求并解析 JSON
+ * 连接失败（端口未监听、超时）时 reachable 为 false，响应不是 JSON 时 data 为 null
+ */
+async function probe(url: string, timeout: number): Promise<ProbeResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'GET',
+      headers: { 'Accept': 'application/json' },
+      signal: AbortSignal.timeout(timeout)
+    });
+  } catch {
+    return { reachable: false, ok: false, data: null };
+  }
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // 非 JSON 响应
+  }
+  return { reachable: true, ok: response.ok, data };
+}
+
+/**
+ * 列出 Ollama 模型
+ * 上下文长度和能力来自 /api/show（旧版本 Ollama 不返回能力时按模型名称推断）
+ */
+async function listOllamaModels(base: string, timeout: number): Promise<LocalServiceModel[]> {
+  const tags = await probe(`${base}/api/tags`, timeout);
+  if (!tags.ok || !Array.isArray(tags.data?.models)) {
+    return [];
+  }
+
+  const running = await probe(`${base}/api/ps`, timeout);
+  const loaded = new Set<string>(
+    running.ok && Array.isArray(running.data?.models)
+      ? running.data.models.map((model: any) => model.name)
+      : []
+  );
+
+  return Promise.all(tags.data.models.map(async (tag: any): Promise<LocalServiceModel> => {
+    const name = String(tag.name);
+    const details = await showOllamaModel(base, name, timeout);
+    return {
+      name,
+      contextLength: details?.contextLength,
+      capabilities: details?.capabilities ?? inferCapabilities(name),
+      loaded: running.ok ? loaded.has(name) : undefined
+    };
+  }));
+}
+
+/**
+ * 查询 Ollama 模型详情
+ */
+async function showOllamaModel(
+  base: string,
+  name: string,
+  timeout: number
+): Promise<{ contextLength?: number; capabilities?: LocalModelCapability[] } | null> {
+  try {
+    const response = await fetch(`${base}/api/show`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: name }),
+      signal: AbortSignal.timeout(timeout)
+    });
+    if (!response.ok) {
+      return null;
+    }
+    const data: any = await response.json();
+
+    // model_info 中的上下文长度以架构名为前缀，如 llama.context_length
+    const modelInfo: Record<string, unknown> = data.model_info ?? {};
+    const contextKey = Object.keys(modelInfo).find(key => key.endsWith('.context_length'));
+
+    const mapping: Record<string, LocalModelCapability> = {
+      completion: 'chat',
+      insert: 'fim',
+      tools: 'tools',
+      vision: 'vision',
+      embedding: 'embedding'
+    };
+    const capabilities = Array.isArray(data.capabilities)
+      ? data.capabilities
+          .map((capability: string) => mapping[capability])
+          .filter((capability: LocalModelCapability | undefined): capability is LocalModelCapability => !!capability)
+      : undefined;
+
+    return {
+      contextLength: contextKey ? toPositiveNumber(modelInfo[contextKey]) : undefined,
+      capabilities
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 解析 LM Studio 模型
+ * type 为 llm、vlm（视觉模型）或 embeddings；已加载的模型使用加载时的上下文长度
+ */
+function parseLmStudioModel(item: any): LocalServiceModel {
+  const capabilities: LocalModelCapability[] = item.type === 'embeddings' ? ['embedding'] : ['chat'];
+  if (item.type === 'vlm') {
+    capabilities.push('vision');
+  }
+  if (Array.isArray(item.capabilities) && item.capabilities.includes('tool_use')) {
+    capabilities.push('tools');
+  }
+  return {
+    name: String(item.id),
+    contextLength: toPositiveNumber(item.loaded_context_length) ?? toPositiveNumber(item.max_context_length),
+    capabilities,
+    loaded: typeof item.state === 'string' ? item.state === 'loaded' : undefined
+  };
+}
+
+/**
+ * 解析 llama.cpp server 模型
+ * server 同时只加载一个模型，上下文长度取服务端配置的 n_ctx
+ */
+function parseLlamaCppModels(props: any, openaiModels: any): LocalServiceModel[] {
+  const settings = props.default_generation_settings ?? {};
+  const contextLength = toPositiveNumber(settings.n_ctx) ?? toPositiveNumber(props.n_ctx);
+  const capabilities: LocalModelCapability[] = ['chat', 'fim'];
+  if (props.modalities?.vision) {
+    capabilities.push('vision');
+  }
+
+  const items: any[] = Array.isArray(openaiModels?.data) ? openaiModels.data : [];
+  if (items.length === 0) {
+    const modelPath = typeof props.model_path === 'string' ? props.model_path : 'default';
+    return [{ name: modelPath.split(/[\\/]/).pop() || modelPath, contextLength, capabilities, loaded: true }];
+  }
+  return items.map(item => ({
+    name: String(item.id),
+    contextLength: contextLength ?? toPositiveNumber(item.meta?.n_ctx_train),
+    capabilities,
+    loaded: true
+  }));
+}
+
+/**
+ * 服务未提供能力信息时按模型名称推断
+ */
+function inferCapabilities(name: string): LocalModelCapability[] {
+  const lower = name.toLowerCase();
+  if (/embed|bge-|e5-|minilm/.test(lower)) {
+    return ['embedding'];
+  }
+  const capabilities: LocalModelCapability[] = ['chat'];
+  if (/coder|code|starcoder|codellama/.test(lower)) {
+    capabilities.push('fim');
+  }
+  if (/vision|llava|-vl\b|vl-/.test(lower)) {
+    capabilities.push('vision');
+  }
+  return capabilities;
+}
+
+/**
+ * 转换为正数，无效值返回 undefined
+ */
+function toPositiveNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+}
@@ -6,6 +6,15 @@
 
 import * as vscode from 'vscode';
 import { ModelConfig } from '../api/types';
+import {
+  DEFAULT_LOCAL_ENDPOINTS,
+  LocalServiceInfo,
+  LocalServiceModel,
+  createLocalModelConfig,
+  detectLocalService,
+  discoverLocalServices,
+  isLocalEndpoint
+} from './localDiscovery';
 
 /**
  * 本地模式配置接口
@@ -23,6 +32,8 @@ export interface LocalModeConfig {
   timeout: number;
   /** 是否记录详细日志 */
   verboseLogging: boolean;
+  /** 本地模式下额外允许的主机名（如内网域名） */
+  allowedHosts: string[];
 }
 
 /**
@@ -87,16 +98,37 @@ export interface ILocalModeManager {
   /**
    * 验证本地服务连接
    * @param endpoint 服务端点
-   * @returns 是否连接成功
+   * @returns 是否是可识别的本地推理服务
    */
   validateLocalService(endpoint: string): Promise<boolean>;
 
   /**
    * 获取本地服务信息
    * @param endpoint 服务端点
-   * @returns 服务信息
+   * @returns 服务类型、版本和可用模型，端点不可达或无法识别时返回 null
    */
-  getLocalServiceInfo(endpoint: string): Promise<any>;
+  getLocalServiceInfo(endpoint: string): Promise<LocalServiceInfo | null>;
+
+  /**
+   * 在常用端口和配置的本地端点上发现本地推理服务
+   * @returns 发现的服务
+   */
+  discoverLocalServices(): Promise<LocalServiceInfo[]>;
+
+  /**
+   * 检查端点是否允许接收请求
+   * 未启用本地模式时允许所有端点，启用后只允许本地网络和配置的主机
+   * @param url 端点URL
+   */
+  isEndpointAllowed(url: string): boolean;
+}
+
+/**
+ * 注册发现的模型所需的模型管理器接口
+ */
+export interface LocalModelRegistry {
+  getModelConfigs(): ModelConfig[];
+  addModelConfig(config: ModelConfig): Promise<void>;
 }
 
 /**
@@ -104,7 +136,8 @@ export interface ILocalModeManager {
  */
 export class LocalModeManager implements ILocalModeManager {
   private static readonly CONFIG_KEY = 'hicode.localMode';
-  private static readonly ENABLED_KEY = 'enabled';
+  /** 本地模式开关（与设置中声明的 hicode.enableLocalMode 一致） */
+  private static readonly ENABLED_SETTING = 'hicode.enableLocalMode';
   private static readonly ENDPOINT_KEY = 'localEndpoint';
   private static readonly VERIFY_SSL_KEY = 'verifySSL';
   private static readonly TIMEOUT_KEY = 'timeout';
@@ -128,7 +161,8 @@ export class LocalModeManager implements ILocalModeManager {
         localEndpoint: 'http://localhost:8080',
         verifySSL: true,
         timeout: 30000,
-        verboseLogging: false
+        verboseLogging: false,
+        allowedHosts: []
       };
       
       this.updateConfig(defaultConfig);
@@ -175,10 +209,7 @@ export class LocalModeManager implements ILocalModeManager {
     const workspaceConfig = vscode.workspace.getConfiguration();
     
     return {
-      enabled: workspaceConfig.get<boolean>(
-        `${LocalModeManager.CONFIG_KEY}.${LocalModeManager.ENABLED_KEY}`,
-        false
-      ),
+      enabled: workspaceConfig.get<boolean>(LocalModeManager.ENABLED_SETTING, false),
       localEndpoint: workspaceConfig.get<string>(
         `${LocalModeManager.CONFIG_KEY}.${LocalModeManager.ENDPOINT_KEY}`,
         'http://localhost:8080'
@@ -198,6 +229,10 @@ export class LocalModeManager implements ILocalModeManager {
       verboseLogging: workspaceConfig.get<boolean>(
         `${LocalModeManager.CONFIG_KEY}.${LocalModeManager.VERBOSE_LOGGING_KEY}`,
         false
+      ),
+      allowedHosts: workspaceConfig.get<string[]>(
+        `${LocalModeManager.CONFIG_KEY}.allowedHosts`,
+        []
       )
     };
   }
@@ -210,7 +245,7 @@ export class LocalModeManager implements ILocalModeManager {
 
     if (config.enabled !== undefined) {
       await workspaceConfig.update(
-        `${LocalModeManager.CONFIG_KEY}.${LocalModeManager.ENABLED_KEY}`,
+        LocalModeManager.ENABLED_SETTING,
         config.enabled,
         vscode.ConfigurationTarget.Global
       );
@@ -255,6 +290,14 @@ export class LocalModeManager implements ILocalModeManager {
         vscode.ConfigurationTarget.Global
       );
     }
+
+    if (config.allowedHosts !== undefined) {
+      await workspaceConfig.update(
+        `${LocalModeManager.CONFIG_KEY}.allowedHosts`,
+        config.allowedHosts,
+        vscode.ConfigurationTarget.Global
+      );
+    }
   }
 
   /**
@@ -315,78 +358,65 @@ export class LocalModeManager implements ILocalModeManager {
    * 验证本地服务连接
    */
   async validateLocalService(endpoint: string): Promise<boolean> {
-    try {
-      // 尝试连接到本地服务的健康检查端点
-      const healthEndpoints = [
-        `${endpoint}/health`,
-        `${endpoint}/v1/health`,
-        `${endpoint}/api/health`,
-        `${endpoint}/`
-      ];
-
-      for (const healthEndpoint of healthEndpoints) {
-        try {
-          const response = await fetch(healthEndpoint, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json'
-            },
-            signal: AbortSignal.timeout(5000) // 5秒超时
-          });
-
-          if (response.ok) {
-            return true;
-          }
-        } catch {
-          // 继续尝试下一个端点
-          continue;
-        }
-      }
-
-      return false;
-    } catch (error) {
-      console.error('Failed to validate local service:', error);
-      return false;
-    }
+    return (await this.getLocalServiceInfo(endpoint)) !== null;
   }
 
   /**
    * 获取本地服务信息
    */
-  async getLocalServiceInfo(endpoint: string): Promise<any> {
+  async getLocalServiceInfo(endpoint: string): Promise<LocalServiceInfo | null> {
     try {
-      const infoEndpoints = [
-        `${endpoint}/info`,
-        `${endpoint}/v1/models`,
-        `${endpoint}/api/models`,
-        `${endpoint}/models`
-      ];
-
-      for (const infoEndpoint of infoEndpoints) {
-        try {
-          const response = await fetch(infoEndpoint, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json'
-            },
-            signal: AbortSignal.timeout(5000)
-          });
-
-          if (response.ok) {
-            return await response.json();
-          }
-        } catch {
-          continue;
-        }
-      }
-
-      return null;
+      return await detectLocalService(endpoint);
     } catch (error) {
       console.error('Failed to get local service info:', error);
       return null;
     }
   }
 
+  /**
+   * 发现本地推理服务
+   * 除常用端口外，也探测配置的本地端点（非本地网络的端点不探测）
+   */
+  async discoverLocalServices(): Promise<LocalServiceInfo[]> {
+    const config = this.getConfig();
+    const endpoints = [...DEFAULT_LOCAL_ENDPOINTS];
+    if (config.localEndpoint && isLocalEndpoint(config.localEndpoint, config.allowedHosts)) {
+      endpoints.push(config.localEndpoint);
+    }
+    return discoverLocalServices(endpoints);
+  }
+
+  /**
+   * 检查端点是否允许接收请求
+   */
+  isEndpointAllowed(url: string): boolean {
+    const config = this.getConfig();
+    return !config.enabled || isLocalEndpoint(url, config.allowedHosts);
+  }
+
+  /**
+   * 将发现的模型注册到模型管理器
+   * 已注册过的模型（相同的模型ID）直接返回已有配置
+   * @param service 模型所在的服务
+   * @param model 模型
+   * @param registry 模型管理器
+   * @returns 注册的模型配置
+   */
+  async registerDiscoveredModel(
+    service: LocalServiceInfo,
+    model: LocalServiceModel,
+    registry: LocalModelRegistry
+  ): Promise<ModelConfig> {
+    const config = createLocalModelConfig(service, model);
+    const existing = registry.getModelConfigs().find(m => m.modelId === config.modelId);
+    if (existing) {
+      return existing;
+    }
+
+    await registry.addModelConfig(config);
+    return config;
+  }
+
   /**
    * 移除本地模型
    */
@@ -0,0 +1,31 @@
+/**
+ * 请求脱敏单元测试
+ * 验证自定义规则的校验和占位符替换
+ */
+
+import { Redactor } from './redaction';
+
+describe('Redactor', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ignores custom patterns that are invalid or match the empty string', () => {
+    const redactor = new Redactor({
+      useLogFilterPatterns: false,
+      customPatterns: ['(unclosed', 'a*', '\\s*', 'internal-[0-9]+']
+    });
+
+    const customRules = redactor.getRules().filter(rule => rule.name.startsWith('custom-'));
+    expect(customRules.map(rule => rule.name)).toEqual(['custom-4']);
+
+    const text = 'host internal-42 banana';
+    const redacted = redactor.redactText(text);
+    expect(redacted).toMatch(/^host \[\[REDACTED_[A-Z0-9_]+_\d+\]\] banana$/);
+    expect(redactor.restore(redacted)).toBe(text);
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * 请求脱敏模块
+ * 在请求发送给模型之前，用占位符替换代码和消息中的密钥、令牌等敏感信息，
+ * 并在模型回复中把原样返回的占位符还原为原始内容，敏感信息不会离开本机
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatRequest, CodeContext, ChatResponse, CompletionSuggestion } from '../api/types';
+import { logFilter } from './logFilter';
+
+/**
+ * 脱敏规则
+ */
+export interface RedactionRule {
+  /** 规则名称 */
+  name: string;
+  /** 匹配敏感内容的正则表达式 */
+  pattern: RegExp;
+}
+
+/**
+ * 脱敏选项
+ */
+export interface RedactionOptions {
+  /** 是否使用日志过滤器的敏感模式（默认true） */
+  useLogFilterPatterns?: boolean;
+  /** 需要脱敏的固定值（如 .env 文件中的变量值） */
+  secretValues?: string[];
+  /** 自定义正则表达式 */
+  customPatterns?: string[];
+}
+
+/**
+ * 扫描结果
+ */
+export interface RedactionScanResult {
+  /** 各规则的命中次数 */
+  hits: Record<string, number>;
+  /** 总命中次数 */
+  total: number;
+}
+
+/**
+ * 流式回复还原器
+ * 占位符可能被拆分到多个数据块中，未闭合的部分暂存到下一个数据块或流结束时输出
+ */
+export interface StreamRestorer {
+  /**
+   * 处理一个数据块
+   * @param chunk 数据块
+   */
+  push(chunk: string): void;
+  /** 输出暂存的内容 */
+  flush(): void;
+}
+
+/** 占位符前缀和后缀 */
+const PLACEHOLDER_OPEN = '[[REDACTED_';
+const PLACEHOLDER_CLOSE = ']]';
+const PLACEHOLDER_PATTERN = /\[\[REDACTED_[A-Z0-9_]+_\d+\]\]/g;
+/** 占位符的最大长度，流式还原时超过该长度仍未闭合的内容直接输出 */
+const MAX_PLACEHOLDER_LENGTH = 64;
+
+/** PEM 格式私钥 */
+const PRIVATE_KEY_PATTERN = /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g;
+
+/** 赋值给密钥类变量的字符串字面量，如 password = "..." */
+const SECRET_ASSIGNMENT_PATTERN = /(?<=(?:password|passwd|secret|api[_-]?key|access[_-]?token|private[_-]?key)["']?\s*[:=]\s*["'])[^"'\s]{8,}(?=["'])/gi;
+
+/** .env 文件中不需要脱敏的值 */
+const TRIVIAL_ENV_VALUE = /^(true|false|yes|no|on|off|null|development|production|test|localhost|\d+(\.\d+)*)$/i;
+
+/** 脱敏的 .env 值的最小长度 */
+const MIN_ENV_VALUE_LENGTH = 6;
+
+/**
+ * 转义正则表达式特殊字符
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 读取工作区根目录下 .env 文件中的变量值
+ * 布尔值、数字、过短的值等不会被视为敏感信息
+ * @param workspaceRoot 工作区根目录
+ * @returns 变量值列表
+ */
+export function loadEnvSecrets(workspaceRoot: string): string[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(workspaceRoot).filter(name => name === '.env' || name.startsWith('.env.'));
+  } catch {
+    return [];
+  }
+
+  const values = new Set<string>();
+  for (const file of files) {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(workspaceRoot, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const line of content.split(/\r?\n/)) {
+      const match = /^\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*(.*)$/.exec(line);
+      if (!match) {
+        continue;
+      }
+      const value = match[1].trim().replace(/^(['"])(.*)\1$/, '$2');
+      if (value.length >= MIN_ENV_VALUE_LENGTH && !TRIVIAL_ENV_VALUE.test(value)) {
+        values.add(value);
+      }
+    }
+  }
+  return Array.from(values);
+}
+
+/**
+ * 请求脱敏器
+ * 同一个敏感值在整个会话期间始终替换为同一个占位符，模型在多轮对话中可以一致地引用它
+ */
+export class Redactor {
+  private rules: RedactionRule[] = [];
+
+  /** 敏感值 -> 占位符 */
+  private placeholders: Map<string, string> = new Map();
+
+  /** 占位符 -> 敏感值 */
+  private originals: Map<string, string> = new Map();
+
+  /** 各规则已分配的占位符数量 */
+  private counters: Map<string, number> = new Map();
+
+  constructor(options: RedactionOptions = {}) {
+    if (options.useLogFilterPatterns ?? true) {
+      for (const pattern of logFilter.getPatterns()) {
+        this.rules.push({ name: pattern.name, pattern: pattern.pattern });
+      }
+    }
+    this.rules.push({ name: 'private-key', pattern: PRIVATE_KEY_PATTERN });
+    this.rules.push({ name: 'secret-assignment', pattern: SECRET_ASSIGNMENT_PATTERN });
+
+    const secretValues = (options.secretValues || []).filter(value => value.length > 0);
+    if (secretValues.length > 0) {
+      // 长的值优先匹配，避免只替换其中一部分
+      const alternatives = secretValues
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join('|');
+      this.rules.push({ name: 'env-value', pattern: new RegExp(alternatives, 'g') });
+    }
+
+    (options.customPatterns || []).forEach((source, index) => {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(source, 'g');
+      } catch (error) {
+        console.warn(`[Redactor] Ignoring invalid redaction pattern "${source}":`, error);
+        return;
+      }
+      // 能匹配空字符串的规则（如 a*）会在每个位置插入占位符，同样忽略
+      if (new RegExp(source).test('')) {
+        console.warn(`[Redactor] Ignoring redaction pattern "${source}" that matches the empty string`);
+        return;
+      }
+      this.rules.push({ name: `custom-${index + 1}`, pattern });
+    });
+  }
+
+  /**
+   * 获取所有脱敏规则
+   */
+  getRules(): RedactionRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * 扫描文本中的敏感信息（不替换）
+   * @param text 文本
+   * @returns 扫描结果
+   */
+  scan(text: string): RedactionScanResult {
+    const result: RedactionScanResult = { hits: {}, total: 0 };
+    if (!text) {
+      return result;
+    }
+
+    // 与 redactText 相同的顺序逐条规则替换，已匹配的内容不会再被后面的规则重复计数
+    let remaining = text;
+    for (const rule of this.rules) {
+      remaining = remaining.replace(this.globalPattern(rule), match => {
+        if (!match || this.originals.has(match)) {
+          return match;
+        }
+        result.hits[rule.name] = (result.hits[rule.name] || 0) + 1;
+        result.total++;
+        return '\u0000';
+      });
+    }
+    return result;
+  }
+
+  /**
+   * 替换文本中的敏感信息
+   * @param text 文本
+   * @param result 累计扫描结果（可选）
+   * @returns 替换后的文本
+   */
+  redactText(text: string, result?: RedactionScanResult): string {
+    if (!text) {
+      return text;
+    }
+
+    let redacted = text;
+    for (const rule of this.rules) {
+      redacted = redacted.replace(this.globalPattern(rule), match => {
+        // 空匹配（如只含断言的规则）和已替换的占位符不处理
+        if (!match || this.originals.has(match)) {
+          return match;
+        }
+        if (result) {
+          result.hits[rule.name] = (result.hits[rule.name] || 0) + 1;
+          result.total++;
+        }
+        return this.getPlaceholder(rule.name, match);
+      });
+    }
+    return redacted;
+  }
+
+  /**
+   * 替换聊天请求中的敏感信息
+   * 包括消息内容、代码上下文和工具调用参数
+   * @param request 聊天请求
+   * @returns 替换后的请求和扫描结果
+   */
+  redactRequest(request: ChatRequest): { request: ChatRequest; scan: RedactionScanResult } {
+    const scan: RedactionScanResult = { hits: {}, total: 0 };
+    const messages = request.messages.map(message => ({
+      ...message,
+      content: this.redactText(message.content, scan),
+      context: message.context ? this.redactContext(message.context, scan) : undefined,
+      toolCalls: message.toolCalls?.map(call => ({
+        ...call,
+        arguments: this.redactText(call.arguments, scan)
+      }))
+    }));
+    return { request: { ...request, messages }, scan };
+  }
+
+  /**
+   * 替换代码上下文中的敏感信息
+   * @param context 代码上下文
+   * @param result 累计扫描结果（可选）
+   * @returns 替换后的上下文
+   */
+  redactContext(context: CodeContext, result?: RedactionScanResult): CodeContext {
+    return {
+      ...context,
+      currentFile: {
+        ...context.currentFile,
+        content: this.redactText(context.currentFile.content, result)
+      },
+      selection: context.selection
+        ? { ...context.selection, text: this.redactText(context.selection.text, result) }
+        : undefined,
+      cursorContext: context.cursorContext
+        ? {
+            ...context.cursorContext,
+            beforeCursor: this.redactText(context.cursorContext.beforeCursor, result),
+            afterCursor: this.redactText(context.cursorContext.afterCursor, result)
+          }
+        : undefined,
+      relatedFiles: context.relatedFiles?.map(file => ({
+        ...file,
+        excerpt: this.redactText(file.excerpt, result)
+      })),
+      mentions: context.mentions?.map(mention => ({
+        ...mention,
+        content: this.redactText(mention.content, result)
+      }))
+    };
+  }
+
+  /**
+   * 扫描聊天请求中的敏感信息（不替换）
+   * @param request 聊天请求
+   * @returns 扫描结果
+   */
+  scanRequest(request: ChatRequest): RedactionScanResult {
+    const result: RedactionScanResult = { hits: {}, total: 0 };
+    for (const text of this.collectRequestTexts(request)) {
+      const scan = this.scan(text);
+      for (const [rule, count] of Object.entries(scan.hits)) {
+        result.hits[rule] = (result.hits[rule] || 0) + count;
+      }
+      result.total += scan.total;
+    }
+    return result;
+  }
+
+  /**
+   * 把文本中的占位符还原为原始内容
+   * @param text 文本
+   * @returns 还原后的文本
+   */
+  restore(text: string): string {
+    if (!text || this.originals.size === 0) {
+      return text;
+    }
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * 还原聊天响应中的占位符
+   * @param response 聊天响应
+   * @returns 还原后的响应
+   */
+  restoreResponse(response: ChatResponse): ChatResponse {
+    return {
+      ...response,
+      content: this.restore(response.content),
+      toolCalls: response.toolCalls?.map(call => ({
+        ...call,
+        arguments: this.restore(call.arguments)
+      }))
+    };
+  }
+
+  /**
+   * 还原补全建议中的占位符
+   * @param suggestions 补全建议列表
+   * @returns 还原后的补全建议
+   */
+  restoreSuggestions(suggestions: CompletionSuggestion[]): CompletionSuggestion[] {
+    return suggestions.map(suggestion => ({ ...suggestion, text: this.restore(suggestion.text) }));
+  }
+
+  /**
+   * 创建流式回复还原器
+   * @param onChunk 接收还原后数据块的回调
+   * @returns 流式回复还原器
+   */
+  createStreamRestorer(onChunk: (chunk: string) => void): StreamRestorer {
+    let pending = '';
+
+    return {
+      push: (chunk: string) => {
+        const text = pending + chunk;
+        const open = text.lastIndexOf(PLACEHOLDER_OPEN[0] + PLACEHOLDER_OPEN[1]);
+        // 末尾可能是未完整的占位符，暂存到下一个数据块
+        if (open !== -1 && text.indexOf(PLACEHOLDER_CLOSE, open) === -1 && text.length - open < MAX_PLACEHOLDER_LENGTH) {
+          pending = text.slice(open);
+          const ready = text.slice(0, open);
+          if (ready) {
+            onChunk(this.restore(ready));
+          }
+          return;
+        }
+        // 末尾的单个 "[" 也可能是占位符的开头
+        if (text.endsWith(PLACEHOLDER_OPEN[0])) {
+          pending = PLACEHOLDER_OPEN[0];
+          const ready = text.slice(0, -1);
+          if (ready) {
+            onChunk(this.restore(ready));
+          }
+          return;
+        }
+        pending = '';
+        onChunk(this.restore(text));
+      },
+      flush: () => {
+        if (pending) {
+          onChunk(this.restore(pending));
+          pending = '';
+        }
+      }
+    };
+  }
+
+  /**
+   * 收集聊天请求中会发送给模型的所有文本
+   */
+  private collectRequestTexts(request: ChatRequest): string[] {
+    const texts: string[] = [];
+    for (const message of request.messages) {
+      texts.push(message.content);
+      message.toolCalls?.forEach(call => texts.push(call.arguments));
+      const context = message.context;
+      if (context) {
+        texts.push(context.currentFile.content);
+        if (context.selection) {
+          texts.push(context.selection.text);
+        }
+        if (context.cursorContext) {
+          texts.push(context.cursorContext.beforeCursor, context.cursorContext.afterCursor);
+        }
+        context.relatedFiles?.forEach(file => texts.push(file.excerpt));
+        context.mentions?.forEach(mention => texts.push(mention.content));
+      }
+    }
+    return texts;
+  }
+
+  /**
+   * 获取敏感值对应的占位符，首次出现时分配新的占位符
+   */
+  private getPlaceholder(ruleName: string, value: string): string {
+    const existing = this.placeholders.get(value);
+    if (existing) {
+      return existing;
+    }
+    const count = (this.counters.get(ruleName) || 0) + 1;
+    this.counters.set(ruleName, count);
+    const label = ruleName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+    const placeholder = `${PLACEHOLDER_OPEN}${label}_${count}${PLACEHOLDER_CLOSE}`;
+    this.placeholders.set(value, placeholder);
+    this.originals.set(placeholder, value);
+    return placeholder;
+  }
+
+  /**
+   * 获取规则的全局匹配正则（复制一份，避免共享 lastIndex）
+   */
+  private globalPattern(rule: RedactionRule): RegExp {
+    const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+    return new RegExp(rule.pattern.source, flags);
+  }
+}
@@ -1,14 +1,49 @@
 /**
  * 代码差异预览工具
- * 
+ *
  * 实现代码对比效果：
+ * - 按差异块（hunk）展示修改，未修改的行只显示一次
  * - 红色背景显示被删除的内容（在上方，带删除线）
  * - 绿色背景显示新插入的内容（在下方）
- * - CodeLens 按钮支持点击操作
+ * - CodeLens 按钮支持逐块保留/撤销，也可以一次性保留/撤销全部修改
  */
 
 import * as vscode from 'vscode';
 import { logger } from './logger';
+import { diffLines, buildHunks } from './diff';
+
+/**
+ * 预览中的差异块
+ */
+interface DiffPreviewHunk {
+  /** 差异块 ID（会话内唯一） */
+  id: number;
+  /** 被删除的行 */
+  deleted: string[];
+  /** 新插入的行 */
+  inserted: string[];
+  /** 处理状态 */
+  state: 'pending' | 'accepted' | 'rejected';
+}
+
+/**
+ * 预览区域的片段：未修改的行或一个差异块
+ */
+type DiffPreviewSegment =
+  | { type: 'equal'; lines: string[] }
+  | { type: 'change'; hunk: DiffPreviewHunk };
+
+/**
+ * 差异块在文档中的位置
+ */
+interface DiffPreviewHunkLayout {
+  /** 差异块 */
+  hunk: DiffPreviewHunk;
+  /** 删除内容的行范围（红色区域），没有删除内容时 end < start */
+  deletedLinesRange: { start: number; end: number };
+  /** 新内容的行范围（绿色区域），没有新内容时 end < start */
+  insertedLinesRange: { start: number; end: number };
+}
 
 /**
  * 代码差异预览会话
@@ -26,34 +61,45 @@ interface DiffPreviewSession {
   newContent: string;
   /** 原始插入位置 */
   insertPosition: vscode.Position;
-  /** 删除内容的行范围（红色区域） */
-  deletedLinesRange: { start: number; end: number };
-  /** 新内容的行范围（绿色区域） */
-  insertedLinesRange: { start: number; end: number };
+  /** 预览区域的片段 */
+  segments: DiffPreviewSegment[];
+  /** 预览区域当前占用的行数（从 insertPosition 所在行开始） */
+  lineCount: number;
   /** 删除内容装饰器 */
   deletedDecoration: vscode.TextEditorDecorationType;
   /** 插入内容装饰器 */
   insertedDecoration: vscode.TextEditorDecorationType;
 }
 
+/**
+ * CodeLens 按钮定义
+ */
+interface DiffCodeLensEntry {
+  /** 显示在该行上方 */
+  line: number;
+  /** 命令 */
+  command: vscode.Command;
+}
+
 /**
  * CodeLens 提供器
  */
 class DiffCodeLensProvider implements vscode.CodeLensProvider {
   private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
   readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
-  
+
   private targetUri: vscode.Uri | null = null;
-  private targetLine: number = 0;
+  private entries: DiffCodeLensEntry[] = [];
 
-  setTarget(uri: vscode.Uri, line: number): void {
+  setTarget(uri: vscode.Uri, entries: DiffCodeLensEntry[]): void {
     this.targetUri = uri;
-    this.targetLine = line;
+    this.entries = entries;
     this._onDidChangeCodeLenses.fire();
   }
 
   clearTarget(): void {
     this.targetUri = null;
+    this.entries = [];
     this._onDidChangeCodeLenses.fire();
   }
 
@@ -62,30 +108,11 @@ class DiffCodeLensProvider implements vscode.CodeLensProvider {
       return [];
     }
 
-    // 目标行：如果超出文档范围，使用最后一行
-    // CodeLens 显示在指定行的上方，所以要显示在某行下面，需要指定下一行
-    let line = this.targetLine;
-    if (line >= document.lineCount) {
-      // 如果目标行超出范围，说明是文件末尾，使用最后一行
-      line = document.lineCount - 1;
-    }
-
-
-    
-    const range = new vscode.Range(line, 0, line, 0);
-    
-    return [
-      new vscode.CodeLens(range, {
-        title: '✓ 保留修改 (Ctrl+Shift+Y)',
-        command: 'hicode.confirmCodeChange',
-        tooltip: '确认并保留代码修改'
-      }),
-      new vscode.CodeLens(range, {
-        title: '✗ 撤销修改 (Ctrl+Shift+N)',
-        command: 'hicode.cancelCodeChange',
-        tooltip: '撤销代码修改，恢复原始内容'
-      })
-    ];
+    return this.entries.map(entry => {
+      // 目标行：如果超出文档范围，说明是文件末尾，使用最后一行
+      const line = Math.min(entry.line, document.lineCount - 1);
+      return new vscode.CodeLens(new vscode.Range(line, 0, line, 0), entry.command);
+    });
   }
 }
 
@@ -95,16 +122,16 @@ class DiffCodeLensProvider implements vscode.CodeLensProvider {
 class CodeDiffPreviewManager {
   /** 当前活动的预览会话 */
   private activeSession: DiffPreviewSession | null = null;
-  
+
   /** CodeLens 提供器 */
   private codeLensProvider: DiffCodeLensProvider;
-  
+
   /** CodeLens 注册 */
   private codeLensRegistration: vscode.Disposable | null = null;
-  
+
   /** 文档变化监听器 */
   private documentChangeListener: vscode.Disposable | null = null;
-  
+
   /** 是否正在执行内部编辑 */
   private isInternalEdit: boolean = false;
 
@@ -122,13 +149,13 @@ class CodeDiffPreviewManager {
       this.codeLensProvider
     );
     context.subscriptions.push(this.codeLensRegistration);
-    
+
     // 监听文档变化，当用户手动编辑时清理装饰器
     this.documentChangeListener = vscode.workspace.onDidChangeTextDocument((event) => {
       this.onDocumentChange(event);
     });
     context.subscriptions.push(this.documentChangeListener);
-    
+
     logger.info('CodeLens 提供器和文档监听器已注册', {}, 'CodeDiffPreview');
   }
 
@@ -140,17 +167,17 @@ class CodeDiffPreviewManager {
     if (this.isInternalEdit) {
       return;
     }
-    
+
     // 如果没有活动会话，忽略
     if (!this.activeSession) {
       return;
     }
-    
+
     // 如果不是当前会话的文档，忽略
     if (event.document.uri.toString() !== this.activeSession.documentUri.toString()) {
       return;
     }
-    
+
     // 用户手动编辑了文档，清理装饰器
     logger.info('检测到用户手动编辑，清理装饰器', {}, 'CodeDiffPreview');
     this.clearDecorations();
@@ -177,6 +204,8 @@ class CodeDiffPreviewManager {
 
   /**
    * 显示代码差异预览
+   *
+   * 预览以整行为单位：选区首行之前和末行之后的内容会一并参与比较，保证差异块按完整行展示
    */
   async showDiffPreview(
     editor: vscode.TextEditor,
@@ -190,48 +219,45 @@ class CodeDiffPreviewManager {
 
     const sessionId = this.generateId();
     const document = editor.document;
-    
+
     // 获取原始内容
     const originalContent = document.getText(originalRange);
-    const insertPosition = originalRange.start;
-    
-    // 准备要插入的内容
-    let contentToInsert = '';
-    let deletedLinesCount = 0;
-    
-    // 如果有原始内容，先添加删除的内容（红色显示）
-    if (originalContent) {
-      const deletedLines = originalContent.split('\n');
-      deletedLinesCount = deletedLines.length;
-      contentToInsert = originalContent + '\n';
-    }
-    
-    // 添加新内容
-    contentToInsert += newContent;
-    
-    // 标记为内部编辑
-    this.isInternalEdit = true;
-    
-    // 执行替换操作
-    await editor.edit((editBuilder) => {
-      if (originalRange.isEmpty) {
-        editBuilder.insert(insertPosition, newContent);
-      } else {
-        editBuilder.replace(originalRange, contentToInsert);
+    const insertPosition = new vscode.Position(originalRange.start.line, 0);
+
+    // 扩展到完整行
+    const linePrefix = document.lineAt(originalRange.start.line).text.substring(0, originalRange.start.character);
+    const lineSuffix = document.lineAt(originalRange.end.line).text.substring(originalRange.end.character);
+    const originalLines = (linePrefix + originalContent + lineSuffix).split('\n');
+    const newLines = (linePrefix + newContent + lineSuffix).split('\n');
+
+    // 计算差异块（不带上下文，每处连续修改各自成块）
+    const segments: DiffPreviewSegment[] = [];
+    let originalIndex = 0;
+    let nextId = 1;
+    for (const hunk of buildHunks(diffLines(originalLines, newLines, 'patience'), 0)) {
+      const hunkStart = hunk.oldStart - 1;
+      if (hunkStart > originalIndex) {
+        segments.push({ type: 'equal', lines: originalLines.slice(originalIndex, hunkStart) });
       }
-    });
-    
-    // 取消内部编辑标记
-    this.isInternalEdit = false;
-
-    // 计算删除内容的行范围（红色）
-    const deletedStartLine = insertPosition.line;
-    const deletedEndLine = deletedStartLine + deletedLinesCount - 1;
-    
-    // 计算新内容的行范围（绿色）
-    const insertedStartLine = originalContent ? deletedEndLine + 1 : insertPosition.line;
-    const newLines = newContent.split('\n');
-    const insertedEndLine = insertedStartLine + newLines.length - 1;
+      segments.push({
+        type: 'change',
+        hunk: {
+          id: nextId++,
+          deleted: hunk.lines.filter(line => line.startsWith('-')).map(line => line.substring(1)),
+          inserted: hunk.lines.filter(line => line.startsWith('+')).map(line => line.substring(1)),
+          state: 'pending'
+        }
+      });
+      originalIndex = hunkStart + hunk.oldLines;
+    }
+    if (originalIndex < originalLines.length) {
+      segments.push({ type: 'equal', lines: originalLines.slice(originalIndex) });
+    }
+
+    if (nextId === 1) {
+      vscode.window.showInformationMessage('生成的代码与原内容相同，无需修改');
+      return sessionId;
+    }
 
     // 创建装饰器
     const deletedDecoration = vscode.window.createTextEditorDecorationType({
@@ -250,64 +276,57 @@ class CodeDiffPreviewManager {
       overviewRulerLane: vscode.OverviewRulerLane.Left,
     });
 
-    // 应用删除内容装饰器（红色）
-    if (originalContent && deletedLinesCount > 0) {
-      const deletedRanges: vscode.DecorationOptions[] = [];
-      for (let line = deletedStartLine; line <= deletedEndLine; line++) {
-        if (line < editor.document.lineCount) {
-          deletedRanges.push({
-            range: new vscode.Range(line, 0, line, editor.document.lineAt(line).text.length)
-          });
-        }
-      }
-      editor.setDecorations(deletedDecoration, deletedRanges);
-    }
-
-    // 应用插入内容装饰器（绿色）
-    const insertedRanges: vscode.DecorationOptions[] = [];
-    for (let line = insertedStartLine; line <= insertedEndLine; line++) {
-      if (line < editor.document.lineCount) {
-        insertedRanges.push({
-          range: new vscode.Range(line, 0, line, editor.document.lineAt(line).text.length)
-        });
-      }
-    }
-    editor.setDecorations(insertedDecoration, insertedRanges);
-
-    // 设置 CodeLens 目标（在绿色区域最后一行的下一行显示，这样按钮会显示在最后一行下面）
-    this.codeLensProvider.setTarget(document.uri, insertedEndLine + 1);
-
     // 保存会话
-    this.activeSession = {
+    const session: DiffPreviewSession = {
       id: sessionId,
       editor,
       documentUri: document.uri,
       originalContent,
       newContent,
       insertPosition,
-      deletedLinesRange: { start: deletedStartLine, end: deletedEndLine },
-      insertedLinesRange: { start: insertedStartLine, end: insertedEndLine },
+      segments,
+      lineCount: originalRange.end.line - originalRange.start.line + 1,
       deletedDecoration,
       insertedDecoration,
     };
+    this.activeSession = session;
+
+    // 写入预览内容并显示装饰器
+    const layouts = await this.renderSession(session);
 
     // 滚动到预览位置
     editor.revealRange(
-      new vscode.Range(insertedStartLine, 0, insertedEndLine, 0),
+      new vscode.Range(insertPosition.line, 0, insertPosition.line + session.lineCount - 1, 0),
       vscode.TextEditorRevealType.InCenter
     );
 
-    logger.info('代码差异预览已显示', { 
-      sessionId, 
-      deletedLines: originalContent ? `${deletedStartLine}-${deletedEndLine}` : 'none',
-      insertedLines: `${insertedStartLine}-${insertedEndLine}`,
+    logger.info('代码差异预览已显示', {
+      sessionId,
+      hunks: layouts.length,
+      lines: `${insertPosition.line}-${insertPosition.line + session.lineCount - 1}`,
     }, 'CodeDiffPreview');
 
     return sessionId;
   }
 
   /**
-   * 确认修改（保留新内容，删除红色区域）
+   * 保留单个差异块
+   * @param hunkId 差异块 ID，未提供时使用光标所在的差异块
+   */
+  async acceptHunk(hunkId?: number): Promise<boolean> {
+    return this.resolveHunk('accepted', hunkId);
+  }
+
+  /**
+   * 撤销单个差异块
+   * @param hunkId 差异块 ID，未提供时使用光标所在的差异块
+   */
+  async rejectHunk(hunkId?: number): Promise<boolean> {
+    return this.resolveHunk('rejected', hunkId);
+  }
+
+  /**
+   * 确认修改（保留所有未处理的差异块）
    */
   async confirmPreview(): Promise<boolean> {
     if (!this.activeSession) {
@@ -318,39 +337,16 @@ class CodeDiffPreviewManager {
     const session = this.activeSession;
 
     try {
-      // 清理装饰器和 CodeLens
-      session.deletedDecoration.dispose();
-      session.insertedDecoration.dispose();
-      this.codeLensProvider.clearTarget();
-      
-      const editor = session.editor;
-      
-      // 如果有删除的内容（红色区域），需要删除它
-      if (session.originalContent && session.deletedLinesRange.start <= session.deletedLinesRange.end) {
-        // 标记为内部编辑
-        this.isInternalEdit = true;
-        
-        await editor.edit((editBuilder) => {
-          // 删除红色区域的行（包括换行符）
-          const deleteRange = new vscode.Range(
-            new vscode.Position(session.deletedLinesRange.start, 0),
-            new vscode.Position(session.deletedLinesRange.end + 1, 0)
-          );
-          editBuilder.delete(deleteRange);
-        });
-        
-        this.isInternalEdit = false;
-      }
-
-      // 清理会话
-      this.activeSession = null;
+      this.getPendingHunks(session).forEach(hunk => hunk.state = 'accepted');
+      await this.renderSession(session);
+      this.finishSession(session);
 
-      // 格式化新插入的代码
+      // 格式化预览区域的代码
+      const editor = session.editor;
       const formatStartLine = session.insertPosition.line;
-      const newLines = session.newContent.split('\n');
-      const formatEndLine = formatStartLine + newLines.length - 1;
-      
-      if (formatEndLine < editor.document.lineCount) {
+      const formatEndLine = formatStartLine + session.lineCount - 1;
+
+      if (session.lineCount > 0 && formatEndLine < editor.document.lineCount) {
         try {
           const formatRange = new vscode.Range(
             new vscode.Position(formatStartLine, 0),
@@ -358,7 +354,7 @@ class CodeDiffPreviewManager {
           );
           editor.selection = new vscode.Selection(formatRange.start, formatRange.end);
           await vscode.commands.executeCommand('editor.action.formatSelection');
-          
+
           // 取消选中
           const newEndPosition = editor.selection.end;
           editor.selection = new vscode.Selection(newEndPosition, newEndPosition);
@@ -378,7 +374,7 @@ class CodeDiffPreviewManager {
   }
 
   /**
-   * 取消预览（撤销修改，恢复原始内容）
+   * 取消预览（撤销所有未处理的差异块）
    */
   async cancelPreview(): Promise<boolean> {
     if (!this.activeSession) {
@@ -389,35 +385,9 @@ class CodeDiffPreviewManager {
     const session = this.activeSession;
 
     try {
-      // 清理装饰器和 CodeLens
-      session.deletedDecoration.dispose();
-      session.insertedDecoration.dispose();
-      this.codeLensProvider.clearTarget();
-
-      const editor = session.editor;
-      
-      // 计算完整的预览范围（红色 + 绿色）
-      const startLine = session.originalContent 
-        ? session.deletedLinesRange.start 
-        : session.insertedLinesRange.start;
-      const endLine = session.insertedLinesRange.end;
-      
-      const deleteRange = new vscode.Range(
-        new vscode.Position(startLine, 0),
-        new vscode.Position(endLine, editor.document.lineAt(endLine).text.length)
-      );
-      
-      // 标记为内部编辑
-      this.isInternalEdit = true;
-      
-      await editor.edit((editBuilder) => {
-        editBuilder.replace(deleteRange, session.originalContent);
-      });
-      
-      this.isInternalEdit = false;
-
-      // 清理会话
-      this.activeSession = null;
+      this.getPendingHunks(session).forEach(hunk => hunk.state = 'rejected');
+      await this.renderSession(session);
+      this.finishSession(session);
 
       logger.info('代码修改已撤销', { sessionId: session.id }, 'CodeDiffPreview');
       vscode.window.showInformationMessage('✗ 代码修改已撤销');
@@ -455,6 +425,225 @@ class CodeDiffPreviewManager {
       this.documentChangeListener.dispose();
     }
   }
+
+  /**
+   * 处理单个差异块，所有差异块处理完毕后结束会话
+   * @param state 处理结果
+   * @param hunkId 差异块 ID，未提供时使用光标所在的差异块
+   */
+  private async resolveHunk(state: 'accepted' | 'rejected', hunkId?: number): Promise<boolean> {
+    if (!this.activeSession) {
+      logger.warn('没有活动的预览会话', {}, 'CodeDiffPreview');
+      return false;
+    }
+
+    const session = this.activeSession;
+    const hunk = hunkId !== undefined
+      ? this.getPendingHunks(session).find(h => h.id === hunkId)
+      : this.findHunkAtCursor(session);
+    if (!hunk) {
+      logger.warn('未找到待处理的差异块', { hunkId }, 'CodeDiffPreview');
+      return false;
+    }
+
+    try {
+      hunk.state = state;
+      await this.renderSession(session);
+
+      if (this.getPendingHunks(session).length === 0) {
+        this.finishSession(session);
+        const hunks = this.getHunks(session);
+        const accepted = hunks.filter(h => h.state === 'accepted').length;
+        vscode.window.showInformationMessage(
+          `代码修改已处理：保留 ${accepted} 处，撤销 ${hunks.length - accepted} 处`
+        );
+      }
+
+      logger.info('差异块已处理', { sessionId: session.id, hunkId: hunk.id, state }, 'CodeDiffPreview');
+      return true;
+    } catch (error) {
+      logger.error('处理差异块失败', error, 'CodeDiffPreview');
+      this.isInternalEdit = false;
+      return false;
+    }
+  }
+
+  /**
+   * 按当前状态重写预览区域，并刷新装饰器和 CodeLens
+   * @returns 待处理差异块的位置
+   */
+  private async renderSession(session: DiffPreviewSession): Promise<DiffPreviewHunkLayout[]> {
+    const startLine = session.insertPosition.line;
+    const lines: string[] = [];
+    const layouts: DiffPreviewHunkLayout[] = [];
+
+    for (const segment of session.segments) {
+      if (segment.type === 'equal') {
+        lines.push(...segment.lines);
+        continue;
+      }
+
+      const hunk = segment.hunk;
+      if (hunk.state === 'pending') {
+        const deletedStart = startLine + lines.length;
+        lines.push(...hunk.deleted);
+        const insertedStart = startLine + lines.length;
+        lines.push(...hunk.inserted);
+        layouts.push({
+          hunk,
+          deletedLinesRange: { start: deletedStart, end: insertedStart - 1 },
+          insertedLinesRange: { start: insertedStart, end: startLine + lines.length - 1 }
+        });
+      } else {
+        lines.push(...(hunk.state === 'accepted' ? hunk.inserted : hunk.deleted));
+      }
+    }
+
+    const editor = session.editor;
+    const document = editor.document;
+
+    // 替换整个预览区域；区域为空时连同换行符一起删除
+    const endLine = startLine + session.lineCount - 1;
+    let replaceRange: vscode.Range;
+    if (session.lineCount === 0) {
+      replaceRange = new vscode.Range(startLine, 0, startLine, 0);
+    } else {
+      replaceRange = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    }
+    let text = lines.join('\n');
+    if (lines.length === 0 && session.lineCount > 0 && endLine + 1 < document.lineCount) {
+      replaceRange = new vscode.Range(startLine, 0, endLine + 1, 0);
+    } else if (session.lineCount === 0 && lines.length > 0) {
+      text += '\n';
+    }
+
+    // 标记为内部编辑
+    this.isInternalEdit = true;
+    try {
+      await editor.edit((editBuilder) => {
+        editBuilder.replace(replaceRange, text);
+      });
+    } finally {
+      // 取消内部编辑标记
+      this.isInternalEdit = false;
+    }
+    session.lineCount = lines.length;
+
+    // 应用删除内容装饰器（红色）和插入内容装饰器（绿色）
+    const toDecorations = (range: { start: number; end: number }): vscode.DecorationOptions[] => {
+      const decorations: vscode.DecorationOptions[] = [];
+      for (let line = range.start; line <= range.end && line < document.lineCount; line++) {
+        decorations.push({ range: new vscode.Range(line, 0, line, document.lineAt(line).text.length) });
+      }
+      return decorations;
+    };
+    editor.setDecorations(session.deletedDecoration, layouts.flatMap(layout => toDecorations(layout.deletedLinesRange)));
+    editor.setDecorations(session.insertedDecoration, layouts.flatMap(layout => toDecorations(layout.insertedLinesRange)));
+
+    // 每个差异块上方显示逐块操作，预览区域下方显示全部操作
+    const entries: DiffCodeLensEntry[] = [];
+    for (const layout of layouts) {
+      const line = layout.deletedLinesRange.start;
+      entries.push(
+        {
+          line,
+          command: {
+            title: '✓ 保留此处',
+            command: 'hicode.acceptDiffHunk',
+            arguments: [layout.hunk.id],
+            tooltip: '保留这一处修改'
+          }
+        },
+        {
+          line,
+          command: {
+            title: '✗ 撤销此处',
+            command: 'hicode.rejectDiffHunk',
+            arguments: [layout.hunk.id],
+            tooltip: '撤销这一处修改，恢复原始内容'
+          }
+        }
+      );
+    }
+    if (layouts.length > 0) {
+      // CodeLens 显示在指定行的上方，所以要显示在预览区域下面，需要指定下一行
+      const line = startLine + session.lineCount;
+      entries.push(
+        {
+          line,
+          command: {
+            title: '✓ 保留全部修改 (Ctrl+Shift+Y)',
+            command: 'hicode.confirmCodeChange',
+            tooltip: '确认并保留所有未处理的代码修改'
+          }
+        },
+        {
+          line,
+          command: {
+            title: '✗ 撤销全部修改 (Ctrl+Shift+N)',
+            command: 'hicode.cancelCodeChange',
+            tooltip: '撤销所有未处理的代码修改，恢复原始内容'
+          }
+        }
+      );
+    }
+    this.codeLensProvider.setTarget(document.uri, entries);
+
+    return layouts;
+  }
+
+  /**
+   * 结束会话（清理装饰器和 CodeLens）
+   */
+  private finishSession(session: DiffPreviewSession): void {
+    session.deletedDecoration.dispose();
+    session.insertedDecoration.dispose();
+    this.codeLensProvider.clearTarget();
+    if (this.activeSession === session) {
+      this.activeSession = null;
+    }
+  }
+
+  /**
+   * 获取会话中的所有差异块
+   */
+  private getHunks(session: DiffPreviewSession): DiffPreviewHunk[] {
+    return session.segments
+      .filter((segment): segment is { type: 'change'; hunk: DiffPreviewHunk } => segment.type === 'change')
+      .map(segment => segment.hunk);
+  }
+
+  /**
+   * 获取会话中待处理的差异块
+   */
+  private getPendingHunks(session: DiffPreviewSession): DiffPreviewHunk[] {
+    return this.getHunks(session).filter(hunk => hunk.state === 'pending');
+  }
+
+  /**
+   * 查找光标所在的待处理差异块，光标不在任何差异块内时返回第一个待处理的差异块
+   */
+  private findHunkAtCursor(session: DiffPreviewSession): DiffPreviewHunk | undefined {
+    const cursorLine = session.editor.selection.active.line;
+    let line = session.insertPosition.line;
+
+    for (const segment of session.segments) {
+      if (segment.type === 'equal') {
+        line += segment.lines.length;
+        continue;
+      }
+      const hunk = segment.hunk;
+      const height = hunk.state === 'pending'
+        ? hunk.deleted.length + hunk.inserted.length
+        : (hunk.state === 'accepted' ? hunk.inserted.length : hunk.deleted.length);
+      if (hunk.state === 'pending' && cursorLine >= line && cursorLine < line + height) {
+        return hunk;
+      }
+      line += height;
+    }
+
+    return this.getPendingHunks(session)[0];
+  }
 }
 
 // 导出单例实例
@@ -478,7 +667,16 @@ export function registerDiffPreviewCommands(context: vscode.ExtensionContext): v
     await codeDiffPreview.cancelPreview();
   });
 
-  context.subscriptions.push(confirmCommand, cancelCommand);
-  
+  // 注册逐块保留/撤销命令
+  const acceptHunkCommand = vscode.commands.registerCommand('hicode.acceptDiffHunk', async (hunkId?: number) => {
+    await codeDiffPreview.acceptHunk(hunkId);
+  });
+
+  const rejectHunkCommand = vscode.commands.registerCommand('hicode.rejectDiffHunk', async (hunkId?: number) => {
+    await codeDiffPreview.rejectHunk(hunkId);
+  });
+
+  context.subscriptions.push(confirmCommand, cancelCommand, acceptHunkCommand, rejectHunkCommand);
+
   logger.info('代码差异预览命令已注册', {}, 'CodeDiffPreview');
 }
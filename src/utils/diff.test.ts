@@ -0,0 +1,94 @@
+/**
+ * 文本差异工具单元测试
+ * 验证差异的生成、应用和反向应用
+ */
+
+import {
+  PatchApplyError,
+  applyPatch,
+  createUnifiedDiff,
+  reversePatch,
+  structuredPatch
+} from './diff';
+
+const OLD_TEXT = [
+  'function add(a, b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b;',
+  '}',
+  ''
+].join('\n');
+
+const NEW_TEXT = [
+  'function add(a: number, b: number): number {',
+  '  return a + b;',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b;',
+  '}',
+  '',
+  'function mul(a, b) {',
+  '  return a * b;',
+  '}',
+  ''
+].join('\n');
+
+describe('diff', () => {
+  describe.each(['myers', 'patience'] as const)('%s algorithm', algorithm => {
+    it('applies the generated hunks to reproduce the new text', () => {
+      const hunks = structuredPatch(OLD_TEXT, NEW_TEXT, { algorithm });
+      expect(hunks.length).toBeGreaterThan(0);
+      expect(applyPatch(OLD_TEXT, hunks)).toBe(NEW_TEXT);
+    });
+
+    it('restores the original text by applying the reversed hunks', () => {
+      const hunks = structuredPatch(OLD_TEXT, NEW_TEXT, { algorithm });
+      expect(applyPatch(NEW_TEXT, reversePatch(hunks))).toBe(OLD_TEXT);
+    });
+  });
+
+  it('round-trips through unified diff text', () => {
+    const diff = createUnifiedDiff(OLD_TEXT, NEW_TEXT, { oldFile: 'a/math.ts', newFile: 'b/math.ts' });
+    expect(diff.startsWith('--- a/math.ts\n+++ b/math.ts\n@@ ')).toBe(true);
+    expect(applyPatch(OLD_TEXT, diff)).toBe(NEW_TEXT);
+  });
+
+  it('preserves a missing newline at the end of the file', () => {
+    const oldText = 'first\nsecond';
+    const newText = 'first\nsecond\nthird';
+    const diff = createUnifiedDiff(oldText, newText);
+
+    expect(diff).toContain('\\ No newline at end of file');
+    expect(applyPatch(oldText, diff)).toBe(newText);
+    expect(applyPatch(newText, reversePatch(structuredPatch(oldText, newText)))).toBe(oldText);
+  });
+
+  it('locates hunks by content when lines have shifted', () => {
+    const hunks = structuredPatch(OLD_TEXT, NEW_TEXT, { context: 1 });
+    const shifted = `// header\n// another line\n${OLD_TEXT}`;
+    expect(applyPatch(shifted, hunks)).toBe(`// header\n// another line\n${NEW_TEXT}`);
+  });
+
+  it('applies only the selected hunks', () => {
+    const hunks = structuredPatch(OLD_TEXT, NEW_TEXT, { context: 1 });
+    expect(hunks).toHaveLength(2);
+
+    const result = applyPatch(OLD_TEXT, [hunks[1]]);
+    expect(result).toContain('function add(a, b) {');
+    expect(result).toContain('function mul(a, b) {');
+  });
+
+  it('throws PatchApplyError when the context does not match', () => {
+    const hunks = structuredPatch(OLD_TEXT, NEW_TEXT);
+    expect(() => applyPatch('unrelated\ncontent\n', hunks)).toThrow(PatchApplyError);
+  });
+
+  it('returns no hunks for identical text', () => {
+    expect(structuredPatch(OLD_TEXT, OLD_TEXT)).toEqual([]);
+    expect(createUnifiedDiff(OLD_TEXT, OLD_TEXT)).toBe('');
+  });
+});
@@ -0,0 +1,750 @@
+/**
+ * 文本差异工具
+ *
+ * 提供行级差异计算和统一差异格式（unified diff）的生成、解析与应用：
+ * - Myers 算法：最短编辑脚本，默认算法
+ * - Patience 算法：以两侧都唯一出现的行为锚点，大段重构时结果更贴近直觉
+ * - 生成带上下文的差异块（hunk），支持应用、反向应用和只应用部分差异块
+ *
+ * 文本级接口按行切分时保留行尾换行符，因此“文件末尾无换行”也能被精确表示和还原
+ */
+
+/**
+ * 差异算法
+ */
+export type DiffAlgorithm = 'myers' | 'patience';
+
+/**
+ * 差异操作
+ * 连续的同类型行合并为一个操作
+ */
+export interface DiffOperation {
+  /** 操作类型 */
+  type: 'equal' | 'insert' | 'delete';
+  /** 涉及的行 */
+  lines: string[];
+}
+
+/**
+ * 差异块
+ */
+export interface DiffHunk {
+  /** 原文本起始行号（从1开始；纯插入时为插入位置，0 表示位置未知） */
+  oldStart: number;
+  /** 原文本行数 */
+  oldLines: number;
+  /** 新文本起始行号（从1开始） */
+  newStart: number;
+  /** 新文本行数 */
+  newLines: number;
+  /** 带前缀的行：' ' 上下文、'-' 删除、'+' 新增 */
+  lines: string[];
+}
+
+/**
+ * 单个文件的差异
+ */
+export interface FilePatch {
+  /** 原文件名 */
+  oldFile: string;
+  /** 新文件名 */
+  newFile: string;
+  /** 差异块列表 */
+  hunks: DiffHunk[];
+}
+
+/**
+ * 差异选项
+ */
+export interface DiffOptions {
+  /** 差异算法（默认 myers） */
+  algorithm?: DiffAlgorithm;
+  /** 差异块前后保留的上下文行数（默认3） */
+  context?: number;
+}
+
+/**
+ * 差异应用失败错误
+ */
+export class PatchApplyError extends Error {
+  constructor(
+    message: string,
+    public readonly hunkIndex: number
+  ) {
+    super(message);
+    this.name = 'PatchApplyError';
+
+    // 保持正确的原型链
+    Object.setPrototypeOf(this, PatchApplyError.prototype);
+  }
+}
+
+/** 默认上下文行数 */
+const DEFAULT_CONTEXT = 3;
+
+/** 文件末尾无换行的标记 */
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/** 差异块头部的匹配规则 */
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * 将文本切分为行，每行保留行尾换行符
+ * @param text 文本
+ * @returns 行数组（最后一行在没有换行符时不带换行符）
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const parts = text.split('\n');
+  const lines = parts.slice(0, -1).map(line => `${line}\n`);
+  const last = parts[parts.length - 1];
+  if (last !== '') {
+    lines.push(last);
+  }
+  return lines;
+}
+
+/**
+ * 计算两组行之间的差异
+ * @param oldLines 原始行
+ * @param newLines 新行
+ * @param algorithm 差异算法（默认 myers）
+ * @returns 差异操作列表
+ */
+export function diffLines(
+  oldLines: string[],
+  newLines: string[],
+  algorithm: DiffAlgorithm = 'myers'
+): DiffOperation[] {
+  const edits: LineEdit[] = [];
+  if (algorithm === 'patience') {
+    patienceDiff(oldLines, 0, oldLines.length, newLines, 0, newLines.length, edits);
+  } else {
+    diffRange(oldLines, 0, oldLines.length, newLines, 0, newLines.length, edits, myersDiff);
+  }
+  return groupEdits(edits);
+}
+
+/**
+ * 将差异操作组织为带上下文的差异块
+ * @param operations 差异操作列表
+ * @param context 上下文行数（为0时每处连续修改各自成块）
+ * @returns 差异块列表
+ */
+export function buildHunks(operations: DiffOperation[], context: number = DEFAULT_CONTEXT): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 1;
+  let newLine = 1;
+
+  operations.forEach((operation, index) => {
+    const count = operation.lines.length;
+
+    if (operation.type === 'equal') {
+      if (current) {
+        const isLast = index === operations.length - 1;
+        if (!isLast && count <= context * 2) {
+          // 两处修改间隔较近，合并到同一个差异块
+          appendContext(current, operation.lines);
+        } else {
+          appendContext(current, operation.lines.slice(0, context));
+          hunks.push(current);
+          current = null;
+        }
+      }
+      oldLine += count;
+      newLine += count;
+      return;
+    }
+
+    if (!current) {
+      const previous = operations[index - 1];
+      const leading = previous && previous.type === 'equal' && context > 0
+        ? previous.lines.slice(-context)
+        : [];
+      current = {
+        oldStart: oldLine - leading.length,
+        oldLines: 0,
+        newStart: newLine - leading.length,
+        newLines: 0,
+        lines: []
+      };
+      appendContext(current, leading);
+    }
+
+    if (operation.type === 'delete') {
+      current.lines.push(...operation.lines.map(line => `-${line}`));
+      current.oldLines += count;
+      oldLine += count;
+    } else {
+      current.lines.push(...operation.lines.map(line => `+${line}`));
+      current.newLines += count;
+      newLine += count;
+    }
+  });
+
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+}
+
+/**
+ * 计算两段文本的差异块
+ * @param oldText 原始文本
+ * @param newText 新文本
+ * @param options 差异选项
+ * @returns 差异块列表（行保留换行符）
+ */
+export function structuredPatch(oldText: string, newText: string, options: DiffOptions = {}): DiffHunk[] {
+  const operations = diffLines(splitLines(oldText), splitLines(newText), options.algorithm);
+  return buildHunks(operations, options.context ?? DEFAULT_CONTEXT);
+}
+
+/**
+ * 生成统一差异格式文本
+ * @param oldText 原始文本
+ * @param newText 新文本
+ * @param options 差异选项及文件名
+ * @returns 统一差异文本，内容相同时返回空字符串
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: DiffOptions & { oldFile?: string; newFile?: string } = {}
+): string {
+  const hunks = structuredPatch(oldText, newText, options);
+  if (hunks.length === 0) {
+    return '';
+  }
+  return formatPatch({
+    oldFile: options.oldFile ?? 'a',
+    newFile: options.newFile ?? 'b',
+    hunks
+  });
+}
+
+/**
+ * 将文件差异格式化为统一差异文本
+ * @param patch 文件差异
+ * @returns 统一差异文本
+ */
+export function formatPatch(patch: FilePatch): string {
+  const output: string[] = [`--- ${patch.oldFile}`, `+++ ${patch.newFile}`];
+
+  for (const hunk of patch.hunks) {
+    output.push(
+      `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`
+    );
+    for (const line of hunk.lines) {
+      if (line.endsWith('\n')) {
+        output.push(line.slice(0, -1));
+      } else {
+        output.push(line, NO_NEWLINE_MARKER);
+      }
+    }
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * 解析统一差异文本
+ *
+ * 解析较为宽松：忽略 diff/index 等附加行；差异块的行数以实际内容为准；
+ * 没有行号的 `@@ @@` 头部视为位置未知，应用时按内容定位
+ *
+ * @param text 统一差异文本
+ * @returns 文件差异列表
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const patches: FilePatch[] = [];
+  let patch: FilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+
+  const ensurePatch = (): FilePatch => {
+    if (!patch) {
+      patch = { oldFile: '', newFile: '', hunks: [] };
+      patches.push(patch);
+    }
+    return patch;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      patch = {
+        oldFile: parseFileName(line.substring(4)),
+        newFile: parseFileName(lines[i + 1].substring(4)),
+        hunks: []
+      };
+      patches.push(patch);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      const match = line.match(HUNK_HEADER_REGEX);
+      hunk = {
+        oldStart: match ? toStart(match[1], match[2]) : 0,
+        oldLines: 0,
+        newStart: match ? toStart(match[3], match[4]) : 0,
+        newLines: 0,
+        lines: []
+      };
+      ensurePatch().hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      // 上一行没有换行符
+      const last = hunk.lines.length - 1;
+      if (last >= 0 && hunk.lines[last].endsWith('\n')) {
+        hunk.lines[last] = hunk.lines[last].slice(0, -1);
+      }
+      continue;
+    }
+
+    const prefix = line.charAt(0);
+    if (prefix === ' ' || prefix === '-' || prefix === '+') {
+      hunk.lines.push(`${line}\n`);
+    } else if (line === '' && isHunkBodyLine(lines[i + 1])) {
+      // 部分工具会去掉空白上下文行的前导空格
+      hunk.lines.push(' \n');
+    } else {
+      hunk = null;
+      continue;
+    }
+
+    if (prefix !== '+') {
+      hunk.oldLines++;
+    }
+    if (prefix !== '-') {
+      hunk.newLines++;
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * 将差异块应用到文本
+ *
+ * 每个差异块按内容定位：优先使用行号所指的位置，找不到时在其后的全文中搜索距离最近的匹配
+ *
+ * @param text 原始文本
+ * @param patch 差异块列表或统一差异文本（只应用第一个文件）
+ * @returns 应用后的文本
+ * @throws PatchApplyError 如果某个差异块的内容与文本不匹配
+ */
+export function applyPatch(text: string, patch: DiffHunk[] | string): string {
+  const hunks = typeof patch === 'string' ? (parsePatch(patch)[0]?.hunks ?? []) : patch;
+  const lines = splitLines(text);
+  const result: string[] = [];
+  let cursor = 0;
+  let drift = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldSequence = hunkSide(hunk, '+');
+    const newSequence = hunkSide(hunk, '-');
+
+    const expected = hunk.oldStart > 0 ? hunk.oldStart - 1 + drift : cursor;
+    const position = findSequence(lines, oldSequence, Math.max(cursor, expected), cursor);
+    if (position === -1) {
+      throw new PatchApplyError(`第 ${index + 1} 个差异块无法应用：上下文与文件内容不匹配`, index);
+    }
+
+    if (hunk.oldStart > 0) {
+      drift = position - (hunk.oldStart - 1);
+    }
+    result.push(...lines.slice(cursor, position), ...newSequence);
+    cursor = position + oldSequence.length;
+  });
+
+  result.push(...lines.slice(cursor));
+  return result.join('');
+}
+
+/**
+ * 反转差异块（新增与删除互换），用于撤销已应用的差异
+ * @param hunks 差异块列表
+ * @returns 反转后的差异块列表
+ */
+export function reversePatch(hunks: DiffHunk[]): DiffHunk[] {
+  return hunks.map(hunk => {
+    const lines: string[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+
+    const flush = () => {
+      lines.push(...removed, ...added);
+      removed = [];
+      added = [];
+    };
+
+    for (const line of hunk.lines) {
+      const prefix = line.charAt(0);
+      if (prefix === '+') {
+        removed.push(`-${line.substring(1)}`);
+      } else if (prefix === '-') {
+        added.push(`+${line.substring(1)}`);
+      } else {
+        flush();
+        lines.push(line);
+      }
+    }
+    flush();
+
+    return {
+      oldStart: hunk.newStart,
+      oldLines: hunk.newLines,
+      newStart: hunk.oldStart,
+      newLines: hunk.oldLines,
+      lines
+    };
+  });
+}
+
+// ========== 内部实现 ==========
+
+/**
+ * 单行编辑
+ */
+interface LineEdit {
+  type: DiffOperation['type'];
+  line: string;
+}
+
+/**
+ * 中间区域的差异算法
+ */
+type RangeDiff = (
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number,
+  edits: LineEdit[]
+) => void;
+
+/**
+ * 去掉公共前缀和后缀后，对中间区域调用指定算法
+ */
+function diffRange(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number,
+  edits: LineEdit[],
+  middle: RangeDiff
+): void {
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    edits.push({ type: 'equal', line: a[aStart] });
+    aStart++;
+    bStart++;
+  }
+
+  const suffix: LineEdit[] = [];
+  while (aEnd > aStart && bEnd > bStart && a[aEnd - 1] === b[bEnd - 1]) {
+    suffix.unshift({ type: 'equal', line: a[aEnd - 1] });
+    aEnd--;
+    bEnd--;
+  }
+
+  if (aStart === aEnd) {
+    for (let j = bStart; j < bEnd; j++) {
+      edits.push({ type: 'insert', line: b[j] });
+    }
+  } else if (bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) {
+      edits.push({ type: 'delete', line: a[i] });
+    }
+  } else {
+    middle(a, aStart, aEnd, b, bStart, bEnd, edits);
+  }
+
+  edits.push(...suffix);
+}
+
+/**
+ * Myers 差异算法
+ * 逐步扩大编辑距离 d，记录每一步各对角线能到达的最远位置，到达终点后回溯得到编辑脚本
+ */
+function myersDiff(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number,
+  edits: LineEdit[]
+): void {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] 保存第 d 步开始前对角线 [-d-1, d+1] 的状态
+  const trace: Int32Array[] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // 回溯
+  const reversed: LineEdit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d + 1];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', line: a[aStart + x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: 'insert', line: b[bStart + y - 1] });
+      } else {
+        reversed.push({ type: 'delete', line: a[aStart + x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    edits.push(reversed[i]);
+  }
+}
+
+/**
+ * Patience 差异算法
+ * 以两侧都只出现一次的行作为锚点，取锚点的最长递增子序列后在锚点之间递归，没有锚点时退回 Myers
+ */
+function patienceDiff(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number,
+  edits: LineEdit[]
+): void {
+  diffRange(a, aStart, aEnd, b, bStart, bEnd, edits, (a, aStart, aEnd, b, bStart, bEnd, edits) => {
+    const anchors = findUniqueAnchors(a, aStart, aEnd, b, bStart, bEnd);
+    if (anchors.length === 0) {
+      myersDiff(a, aStart, aEnd, b, bStart, bEnd, edits);
+      return;
+    }
+
+    let i = aStart;
+    let j = bStart;
+    for (const [ai, bj] of anchors) {
+      patienceDiff(a, i, ai, b, j, bj, edits);
+      edits.push({ type: 'equal', line: a[ai] });
+      i = ai + 1;
+      j = bj + 1;
+    }
+    patienceDiff(a, i, aEnd, b, j, bEnd, edits);
+  });
+}
+
+/**
+ * 查找两侧都唯一出现的行，并取其在两侧顺序一致的最长子序列
+ * @returns 锚点位置对 [a中的下标, b中的下标]
+ */
+function findUniqueAnchors(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number
+): Array<[number, number]> {
+  const countLines = (lines: string[], start: number, end: number) => {
+    const counts = new Map<string, { count: number; index: number }>();
+    for (let i = start; i < end; i++) {
+      const entry = counts.get(lines[i]);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(lines[i], { count: 1, index: i });
+      }
+    }
+    return counts;
+  };
+
+  const aCounts = countLines(a, aStart, aEnd);
+  const bCounts = countLines(b, bStart, bEnd);
+  const candidates: Array<[number, number]> = [];
+  for (let i = aStart; i < aEnd; i++) {
+    const aEntry = aCounts.get(a[i])!;
+    const bEntry = bCounts.get(a[i]);
+    if (aEntry.count === 1 && bEntry && bEntry.count === 1) {
+      candidates.push([i, bEntry.index]);
+    }
+  }
+
+  // 耐心排序求 b 下标的最长递增子序列
+  const piles: number[] = [];
+  const previous: number[] = new Array(candidates.length).fill(-1);
+  candidates.forEach(([, bj], index) => {
+    let low = 0;
+    let high = piles.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (candidates[piles[mid]][1] < bj) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[index] = low > 0 ? piles[low - 1] : -1;
+    piles[low] = index;
+  });
+
+  const result: Array<[number, number]> = [];
+  for (let index = piles.length > 0 ? piles[piles.length - 1] : -1; index !== -1; index = previous[index]) {
+    result.unshift(candidates[index]);
+  }
+  return result;
+}
+
+/**
+ * 合并连续的同类型单行编辑
+ */
+function groupEdits(edits: LineEdit[]): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+
+  // 同一处修改中删除在前、新增在后
+  const flush = () => {
+    if (deleted.length > 0) {
+      operations.push({ type: 'delete', lines: deleted });
+    }
+    if (inserted.length > 0) {
+      operations.push({ type: 'insert', lines: inserted });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const edit of edits) {
+    if (edit.type === 'delete') {
+      deleted.push(edit.line);
+    } else if (edit.type === 'insert') {
+      inserted.push(edit.line);
+    } else {
+      flush();
+      const last = operations[operations.length - 1];
+      if (last && last.type === 'equal') {
+        last.lines.push(edit.line);
+      } else {
+        operations.push({ type: 'equal', lines: [edit.line] });
+      }
+    }
+  }
+  flush();
+
+  return operations;
+}
+
+/**
+ * 向差异块追加上下文行
+ */
+function appendContext(hunk: DiffHunk, lines: string[]): void {
+  hunk.lines.push(...lines.map(line => ` ${line}`));
+  hunk.oldLines += lines.length;
+  hunk.newLines += lines.length;
+}
+
+/**
+ * 获取差异块一侧的行（去掉前缀）
+ * @param hunk 差异块
+ * @param exclude 排除的前缀：'+' 得到原文本一侧，'-' 得到新文本一侧
+ */
+function hunkSide(hunk: DiffHunk, exclude: '+' | '-'): string[] {
+  return hunk.lines
+    .filter(line => line.charAt(0) !== exclude)
+    .map(line => line.substring(1));
+}
+
+/**
+ * 在行数组中查找连续子序列，从期望位置开始向两侧交替搜索
+ * @param lines 行数组
+ * @param sequence 要查找的子序列
+ * @param expected 期望位置
+ * @param minimum 允许的最小位置
+ * @returns 找到的位置，找不到返回 -1
+ */
+function findSequence(lines: string[], sequence: string[], expected: number, minimum: number): number {
+  const maximum = lines.length - sequence.length;
+  if (maximum < minimum) {
+    return -1;
+  }
+
+  const matches = (position: number) => sequence.every((line, i) => lines[position + i] === line);
+  const start = Math.min(Math.max(expected, minimum), maximum);
+
+  for (let distance = 0; start - distance >= minimum || start + distance <= maximum; distance++) {
+    if (start + distance <= maximum && matches(start + distance)) {
+      return start + distance;
+    }
+    if (distance > 0 && start - distance >= minimum && matches(start - distance)) {
+      return start - distance;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 格式化差异块头部的行范围
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 1) {
+    return `${start}`;
+  }
+  // 空范围按惯例写作插入位置的前一行
+  return count === 0 ? `${start - 1},0` : `${start},${count}`;
+}
+
+/**
+ * 将差异块头部的行范围转换为起始行号
+ */
+function toStart(start: string, count: string | undefined): number {
+  const value = parseInt(start, 10);
+  return count !== undefined && parseInt(count, 10) === 0 ? value + 1 : value;
+}
+
+/**
+ * 解析文件头中的文件名（去掉时间戳）
+ */
+function parseFileName(value: string): string {
+  return value.split('\t')[0].trim();
+}
+
+/**
+ * 判断是否为差异块内容行
+ */
+function isHunkBodyLine(line: string | undefined): boolean {
+  return line !== undefined && (line === '' || /^[ +\-\\]/.test(line)) && !line.startsWith('--- ');
+}
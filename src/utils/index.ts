@@ -6,3 +6,4 @@ export * from './error';
 export * from './logger';
 export * from './messageType';
 export * from './tools';
+export * from './diff';
@@ -410,37 +410,11 @@ export class Logger {
       return;
     }
 
-    try {
-      const stats = await fs.promises.stat(this.config.logFilePath);
-
-      if (stats.size >= this.config.maxFileSize) {
-        // 轮转日志文件
-        const dir = path.dirname(this.config.logFilePath);
-        const ext = path.extname(this.config.logFilePath);
-        const basename = path.basename(this.config.logFilePath, ext);
-
-        // 移动现有文件
-        for (let i = this.config.maxFiles - 1; i > 0; i--) {
-          const oldPath = path.join(dir, `${basename}.${i}${ext}`);
-          const newPath = path.join(dir, `${basename}.${i + 1}${ext}`);
-
-          if (fs.existsSync(oldPath)) {
-            if (i === this.config.maxFiles - 1) {
-              // 删除最老的文件
-              await fs.promises.unlink(oldPath);
-            } else {
-              await fs.promises.rename(oldPath, newPath);
-            }
-          }
-        }
-
-        // 移动当前文件
-        const archivePath = path.join(dir, `${basename}.1${ext}`);
-        await fs.promises.rename(this.config.logFilePath, archivePath);
-      }
-    } catch (error) {
-      // 文件不存在或其他错误，忽略
-    }
+    await rotateFileIfNeeded(
+      this.config.logFilePath,
+      this.config.maxFileSize,
+      this.config.maxFiles
+    );
   }
 
   /**
@@ -537,6 +511,57 @@ export class Logger {
   }
 }
 
+/**
+ * 文件超过大小上限时轮转
+ * 当前文件归档为 name.1.ext，已有归档依次后移，最老的归档被删除
+ * @param filePath 文件路径
+ * @param maxFileSize 最大文件大小（字节）
+ * @param maxFiles 保留的文件数量（含当前文件）
+ */
+export async function rotateFileIfNeeded(
+  filePath: string,
+  maxFileSize: number,
+  maxFiles: number
+): Promise<void> {
+  try {
+    const stats = await fs.promises.stat(filePath);
+
+    if (stats.size >= maxFileSize) {
+      // 移动现有文件
+      for (let i = maxFiles - 1; i > 0; i--) {
+        const oldPath = getRotatedFilePath(filePath, i);
+        const newPath = getRotatedFilePath(filePath, i + 1);
+
+        if (fs.existsSync(oldPath)) {
+          if (i === maxFiles - 1) {
+            // 删除最老的文件
+            await fs.promises.unlink(oldPath);
+          } else {
+            await fs.promises.rename(oldPath, newPath);
+          }
+        }
+      }
+
+      // 移动当前文件
+      await fs.promises.rename(filePath, getRotatedFilePath(filePath, 1));
+    }
+  } catch (error) {
+    // 文件不存在或其他错误，忽略
+  }
+}
+
+/**
+ * 获取轮转后的归档文件路径
+ * @param filePath 文件路径
+ * @param index 归档序号（越大越旧）
+ */
+export function getRotatedFilePath(filePath: string, index: number): string {
+  const dir = path.dirname(filePath);
+  const ext = path.extname(filePath);
+  const basename = path.basename(filePath, ext);
+  return path.join(dir, `${basename}.${index}${ext}`);
+}
+
 /**
  * 导出便捷函数
  */
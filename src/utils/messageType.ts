@@ -19,6 +19,12 @@ export const HICODE_ASK_QUESTION_F2B_REQ = 'hicode_ask_question_f2b_req';
 /** 后端响应：聊天消息响应 */
 export const HICODE_ASK_QUESTION_B2F_RES = 'hicode_ask_question_b2f_res';
 
+/** 后端通知：实际回答的模型（发生故障切换时与所选模型不同） */
+export const HICODE_ANSWER_MODEL_B2F = 'hicode_answer_model_b2f';
+
+/** 后端通知：有文件被数据外发策略（.hicodeignore）排除，未包含在本次提问的上下文中 */
+export const HICODE_CONTEXT_WITHHELD_B2F = 'hicode_context_withheld_b2f';
+
 /** 前端请求：新建对话 */
 export const HICODE_NEW_CHAT_F2B_REQ = 'hicode_new_chat_f2b_req';
 
@@ -57,6 +63,15 @@ export const HICODE_DELETE_MODEL_F2B_REQ = 'hicode_delete_model_f2b_req';
 /** 后端响应：刷新模型列表（新增/编辑/删除后） */
 export const HICODE_REFRESH_MODELS_B2F_RES = 'hicode_refresh_models_b2f_res';
 
+/** 前端请求：获取各功能的模型路由 */
+export const HICODE_GET_MODEL_ROUTING_F2B_REQ = 'hicode_get_model_routing_f2b_req';
+
+/** 后端响应：各功能的模型路由（获取或修改后） */
+export const HICODE_GET_MODEL_ROUTING_B2F_RES = 'hicode_get_model_routing_b2f_res';
+
+/** 前端请求：设置某个功能的模型路由 */
+export const HICODE_SET_MODEL_ROUTE_F2B_REQ = 'hicode_set_model_route_f2b_req';
+
 // ========== 设置相关消息 ==========
 
 /** 前端请求：获取设置 */
@@ -127,3 +142,31 @@ export const HICODE_CLEAR_SELECTION = 'hicode_clear_selection';
 
 /** 前端请求：插入代码到编辑器（前端到插件端） */
 export const HICODE_INSERT_CODE_F2B_REQ = 'hicode_insert_code_f2b_req';
+
+// ========== @ 提及相关消息 ==========
+
+/** 前端请求：获取 @ 提及的自动补全候选 */
+export const HICODE_GET_MENTION_SUGGESTIONS_F2B_REQ = 'hicode_get_mention_suggestions_f2b_req';
+
+/** 后端响应：@ 提及的自动补全候选 */
+export const HICODE_GET_MENTION_SUGGESTIONS_B2F_RES = 'hicode_get_mention_suggestions_b2f_res';
+
+// ========== 消息分支相关消息 ==========
+
+/** 前端请求：编辑用户消息并重新生成回复（编辑后的消息作为新版本） */
+export const HICODE_EDIT_MESSAGE_F2B_REQ = 'hicode_edit_message_f2b_req';
+
+/** 前端请求：重新生成助手回复（新回复作为新版本） */
+export const HICODE_REGENERATE_MESSAGE_F2B_REQ = 'hicode_regenerate_message_f2b_req';
+
+/** 前端请求：切换到消息的另一个版本 */
+export const HICODE_SWITCH_BRANCH_F2B_REQ = 'hicode_switch_branch_f2b_req';
+
+/** 后端响应：切换版本后的当前分支 */
+export const HICODE_SWITCH_BRANCH_B2F_RES = 'hicode_switch_branch_b2f_res';
+
+/** 后端通知：消息已保存到历史记录（携带消息ID） */
+export const HICODE_MESSAGE_SAVED_B2F = 'hicode_message_saved_b2f';
+
+/** 后端通知：较早的对话已压缩为摘要（原消息仍保留用于显示） */
+export const HICODE_CONVERSATION_SUMMARIZED_B2F = 'hicode_conversation_summarized_b2f';